@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  purgeUpstreamCache,
+  upstreamCacheStats,
+  CACHE_SOURCES,
+  CacheSource,
+} from "@/lib/upstream-cache";
+
+/**
+ * Upstream cache administration. Requires `Authorization: Bearer <ADMIN_TOKEN>`;
+ * the endpoint is disabled when ADMIN_TOKEN is not set.
+ *
+ * GET                  — cache statistics
+ * DELETE               — purge everything
+ * DELETE ?source=hud   — purge one source (geocoding, acs or hud)
+ */
+function authorize(request: NextRequest): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: "Admin endpoint is disabled." }, { status: 404 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${token}`) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  return null;
+}
+
+export async function GET(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+
+  return NextResponse.json(upstreamCacheStats());
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+
+  const source = request.nextUrl.searchParams.get("source");
+  if (source && !CACHE_SOURCES.includes(source as CacheSource)) {
+    return NextResponse.json(
+      { error: `Unknown source "${source}". Use one of: ${CACHE_SOURCES.join(", ")}.` },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    purged: source ?? "all",
+    ...purgeUpstreamCache((source as CacheSource) || undefined),
+  });
+}
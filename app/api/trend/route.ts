@@ -0,0 +1,2 @@
+// Unversioned alias kept for existing clients; the contract lives under /api/v1
+export { GET } from "@/app/api/v1/trend/route";
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  countyScope,
+  cbsaScope,
+  stateScope,
+  buildAggregateReport,
+  AggregateScope,
+  AggregateOptions,
+} from "@/lib/aggregate";
+import { withCacheTracking, cacheHeaders } from "@/lib/upstream-cache";
+import {
+  parseQuery,
+  AGGREGATE_LEVELS,
+  AGGREGATE_QUERIES,
+  AggregateLevel,
+  ApiError,
+} from "@/lib/api-schema";
+
+type ScopeResult =
+  | { ok: true; scope: AggregateScope | null; options: AggregateOptions }
+  | { ok: false; errors: string[] };
+
+function resolveScope(level: AggregateLevel, searchParams: URLSearchParams): ScopeResult {
+  switch (level) {
+    case "county": {
+      const query = parseQuery(searchParams, AGGREGATE_QUERIES.county);
+      if (!query.ok) return query;
+      const { stateFips, countyFips, ...options } = query.values;
+      return { ok: true, scope: countyScope(stateFips, countyFips), options };
+    }
+    case "cbsa": {
+      const query = parseQuery(searchParams, AGGREGATE_QUERIES.cbsa);
+      if (!query.ok) return query;
+      const { cbsa, ...options } = query.values;
+      return { ok: true, scope: cbsaScope(cbsa), options };
+    }
+    case "state": {
+      const query = parseQuery(searchParams, AGGREGATE_QUERIES.state);
+      if (!query.ok) return query;
+      const { stateFips, ...options } = query.values;
+      return { ok: true, scope: stateScope(stateFips), options };
+    }
+  }
+}
+
+/**
+ * Affordability summed over a county, CBSA or state: each tract scored
+ * against its own rent (its ZIP's SAFMR, else its county's FMR) and each
+ * county against its own HUD limits, with households summed. The rent and
+ * limits shown are the reference area's, the county with most households.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { level: string } }
+) {
+  const level = params.level as AggregateLevel;
+  if (!AGGREGATE_LEVELS.includes(level)) {
+    return NextResponse.json<ApiError>(
+      { error: `Unknown report level "${params.level}". Use one of: ${AGGREGATE_LEVELS.join(", ")}.` },
+      { status: 404 }
+    );
+  }
+
+  const resolved = resolveScope(level, request.nextUrl.searchParams);
+  if (!resolved.ok) {
+    return NextResponse.json<ApiError>(
+      { error: "Invalid query parameters.", details: resolved.errors },
+      { status: 400 }
+    );
+  }
+  if (!resolved.scope) {
+    return NextResponse.json<ApiError>(
+      { error: "No tract data for this area." },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const { scope, options } = resolved;
+    const { result, statuses } = await withCacheTracking(() => buildAggregateReport(scope, options));
+    return NextResponse.json(result, { headers: cacheHeaders(statuses) });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "An unexpected error occurred.";
+    return NextResponse.json<ApiError>({ error: message }, { status: 500 });
+  }
+}
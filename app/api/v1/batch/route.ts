@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseBatchInput, runBatch, batchRowsToCsv, BatchInput } from "@/lib/batch";
+import { withCacheTracking, cacheHeaders } from "@/lib/upstream-cache";
+import { parseQuery, BATCH_QUERY, ApiError, BatchResponse } from "@/lib/api-schema";
+
+// Large batches run for minutes on a cold cache
+export const maxDuration = 300;
+
+/**
+ * Batch lookup. The body is CSV (header row with `address`, or `lat` and
+ * `lng`) or JSON (an array of locations). Rows that fail carry an `error`
+ * instead of failing the request.
+ */
+export async function POST(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, BATCH_QUERY);
+  if (!query.ok) {
+    return NextResponse.json<ApiError>(
+      { error: "Invalid query parameters.", details: query.errors },
+      { status: 400 }
+    );
+  }
+  const { bedrooms, householdSize, estimator, peers, format } = query.values;
+
+  let inputs: BatchInput[];
+  try {
+    inputs = parseBatchInput(await request.text(), request.headers.get("content-type"));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Could not read the request body.";
+    return NextResponse.json<ApiError>({ error: message }, { status: 400 });
+  }
+
+  const { result: rows, statuses } = await withCacheTracking(() =>
+    runBatch(inputs, { bedrooms, householdSize, estimator, peers })
+  );
+  const headers = cacheHeaders(statuses);
+
+  if (format === "json") {
+    return NextResponse.json<BatchResponse>(
+      { bedrooms, householdSize, estimator, peers, rows },
+      { headers }
+    );
+  }
+
+  return new NextResponse(batchRowsToCsv(rows), {
+    headers: {
+      ...headers,
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="affordability-batch-${bedrooms}br.csv"`,
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseQuery, CHOROPLETH_EXPORT_QUERY, ApiError } from "@/lib/api-schema";
+import { amiIncome } from "@/lib/ami-table";
+import { loadChoroplethData } from "@/lib/choropleth-data";
+import { buildChoroplethExport } from "@/lib/choropleth-export";
+import { computeTractMetrics } from "@/lib/choropleth-metrics";
+import { getDataProvider } from "@/lib/data-provider";
+import { withCacheTracking, cacheHeaders } from "@/lib/upstream-cache";
+
+/**
+ * The choropleth's tract data with its computed metrics for one bedroom
+ * count, as CSV, GeoJSON or a zipped shapefile. Rents and AMI come from the
+ * county's HUD area, as on the map after a lookup there, unless rent sets
+ * one asking rent for every tract; if HUD is unreachable, tracts without a
+ * SAFMR and the AMI metrics are left empty.
+ */
+export async function GET(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, CHOROPLETH_EXPORT_QUERY);
+  if (!query.ok) {
+    return NextResponse.json<ApiError>(
+      { error: "Invalid query parameters.", details: query.errors },
+      { status: 400 }
+    );
+  }
+  const { bedrooms, householdSize, format, rent, ...options } = query.values;
+  const customRent = rent ?? null;
+  const { stateFips, countyFips, countySubFips } = options;
+
+  try {
+    const { peerGroup, data } = loadChoroplethData(options);
+    if (!data) {
+      return NextResponse.json<ApiError>(
+        { error: `No income data available for ${peerGroup.name}.` },
+        { status: 404 }
+      );
+    }
+
+    const { hud } = getDataProvider();
+    const { result: [income, fmr], statuses } = await withCacheTracking(() =>
+      Promise.all([
+        hud.fetchAreaMedianIncome(stateFips, countyFips, countySubFips).catch(() => null),
+        hud.fetchFairMarketRents(stateFips, countyFips, countySubFips).catch(() => null),
+      ])
+    );
+
+    const amiIncomes = income
+      ? Object.fromEntries(
+          [30, 50, 80, 100].map((pct) => [
+            pct,
+            Math.round(amiIncome(income.incomeLimits, income.incomeLimitsBySize, householdSize, pct)),
+          ])
+        )
+      : null;
+    const fallbackFmr = fmr?.fmrByBedroom ?? null;
+    const metrics = computeTractMetrics(data, {
+      bedroomIndex: bedrooms,
+      fallbackFmr,
+      customRent,
+      // Ownership needs a home price, which a peer group has no single value for
+      ownershipIncomeNeeded: null,
+      amiIncomes,
+    });
+
+    const file = buildChoroplethExport(
+      { data, metrics, bedroomIndex: bedrooms, fallbackFmr, customRent },
+      format
+    );
+    return new NextResponse(file.body, {
+      headers: {
+        ...cacheHeaders(statuses),
+        "Content-Type": file.contentType,
+        "Content-Disposition": `attachment; filename="${file.fileName}"`,
+      },
+    });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "An unexpected error occurred.";
+    return NextResponse.json<ApiError>({ error: message }, { status: 500 });
+  }
+}
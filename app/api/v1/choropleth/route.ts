@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseQuery, CHOROPLETH_QUERY, ApiError, ChoroplethResponse } from "@/lib/api-schema";
+import { loadChoroplethData } from "@/lib/choropleth-data";
+
+export async function GET(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, CHOROPLETH_QUERY);
+  if (!query.ok) {
+    return NextResponse.json<ApiError>(
+      { error: "Invalid query parameters.", details: query.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { peerGroup, data } = loadChoroplethData(query.values);
+    if (!data) {
+      return NextResponse.json(
+        { error: `No income data available for ${peerGroup.name}.` },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.json<ChoroplethResponse>(data);
+    response.headers.set("Cache-Control", "public, max-age=86400");
+    return response;
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "An unexpected error occurred.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { lookupAffordability } from "@/lib/lookup";
+import { DEFAULT_MORTGAGE_PARAMS, MortgageParams } from "@/lib/mortgage";
+import { withCacheTracking, cacheHeaders } from "@/lib/upstream-cache";
+import { parseQuery, LOOKUP_QUERY, ApiError } from "@/lib/api-schema";
+
+// Ownership query params, each overriding DEFAULT_MORTGAGE_PARAMS
+const MORTGAGE_QUERY_PARAMS = {
+  homePrice: "homePrice",
+  rate: "interestRate",
+  downPayment: "downPaymentPct",
+  taxRate: "propertyTaxRate",
+  insurance: "insuranceAnnual",
+  pmi: "pmiRate",
+} as const satisfies Record<string, keyof MortgageParams>;
+
+function badRequest(error: string, details?: string[]) {
+  return NextResponse.json<ApiError>(details ? { error, details } : { error }, { status: 400 });
+}
+
+export async function GET(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, LOOKUP_QUERY);
+  if (!query.ok) return badRequest("Invalid query parameters.", query.errors);
+
+  const { address, lat, lng, tract, estimator, peers } = query.values;
+  const hasPoint = lat !== undefined && lng !== undefined;
+  if (!address && !hasPoint && !tract) {
+    return badRequest("Please provide an address, lat/lng coordinates or a tract GEOID.");
+  }
+
+  const mortgageParams: MortgageParams = { ...DEFAULT_MORTGAGE_PARAMS };
+  for (const [param, key] of Object.entries(MORTGAGE_QUERY_PARAMS)) {
+    const value = query.values[param as keyof typeof MORTGAGE_QUERY_PARAMS];
+    if (value !== undefined) mortgageParams[key] = value;
+  }
+
+  try {
+    const { result, statuses } = await withCacheTracking(() =>
+      lookupAffordability(tract ? { geoid: tract } : hasPoint ? { lat, lng } : { address: address! }, {
+        estimator,
+        mortgageParams,
+        peers,
+      })
+    );
+
+    return NextResponse.json(result, { headers: cacheHeaders(statuses) });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "An unexpected error occurred.";
+    return NextResponse.json<ApiError>({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { getDataProvider } from "@/lib/data-provider";
+import { splitTractGeoid } from "@/lib/geoid";
+import { buildShareCard, SHARE_MAP_WIDTH, SHARE_MAP_HEIGHT } from "@/lib/share-card";
+import { withCacheTracking, cacheHeaders } from "@/lib/upstream-cache";
+import { parseQuery, SHARE_IMAGE_QUERY, ApiError } from "@/lib/api-schema";
+import { BEDROOM_LABELS, formatCurrency } from "@/lib/format";
+import { customRentFor, parseCustomRents } from "@/lib/custom-rent";
+
+// Longer addresses would wrap past two lines at the title size
+const MAX_LABEL_LENGTH = 70;
+
+const HOUSEHOLDS = { all: "households", renter: "renter households", owner: "owner households" };
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", marginRight: 40 }}>
+      <div style={{ fontSize: 20, color: "#6b7280", textTransform: "uppercase" }}>{label}</div>
+      <div style={{ fontSize: 44, fontWeight: 700, color: "#111827" }}>{value}</div>
+    </div>
+  );
+}
+
+/**
+ * 1200×630 Open Graph image for a home page permalink: the address and
+ * tract, the FMR or asking rent for the unit size, the income it takes and
+ * the % of households that can afford it, next to a thumbnail of the
+ * surrounding tracts shaded by affordability.
+ */
+export async function GET(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, SHARE_IMAGE_QUERY);
+  if (!query.ok) {
+    return NextResponse.json<ApiError>(
+      { error: "Invalid query parameters.", details: query.errors },
+      { status: 400 }
+    );
+  }
+
+  const { address, lat, lng, tract, bedrooms, estimator, tenure, peers } = query.values;
+  const hasPoint = lat !== undefined && lng !== undefined;
+  if (!address && !hasPoint && !tract) {
+    return NextResponse.json<ApiError>(
+      { error: "Please provide an address, lat/lng coordinates or a tract GEOID." },
+      { status: 400 }
+    );
+  }
+
+  // rent repeats once per unit size; only the one for bedrooms applies
+  const customRent = customRentFor(parseCustomRents(request.nextUrl.searchParams.getAll("rent")), bedrooms);
+
+  try {
+    const { result: { geoid, label, card }, statuses } = await withCacheTracking(async () => {
+      const { geocoding } = getDataProvider();
+      const geo = tract
+        ? { ...splitTractGeoid(tract), matchedAddress: `Census Tract ${tract}`, countySubFips: undefined }
+        : hasPoint
+          ? await geocoding.reverseGeocodeCoordinates(lat, lng)
+          : await geocoding.geocodeAddress(address!);
+      const geoid = `${geo.stateFips}${geo.countyFips}${geo.tractFips}`;
+      const card = await buildShareCard(geoid, {
+        bedrooms,
+        estimator,
+        tenure,
+        peers,
+        customRent,
+        countySubFips: geo.countySubFips,
+      });
+      return { geoid, label: geo.matchedAddress, card };
+    });
+
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            display: "flex",
+            width: "100%",
+            height: "100%",
+            backgroundColor: "#ffffff",
+          }}
+        >
+          <div style={{ display: "flex", flexDirection: "column", flex: 1, padding: "56px 48px 48px 64px" }}>
+            <div style={{ fontSize: 22, fontWeight: 700, color: "#6b7280", letterSpacing: 2 }}>
+              WHO CAN AFFORD TO LIVE HERE?
+            </div>
+            <div style={{ fontSize: 44, fontWeight: 700, color: "#111827", marginTop: 20 }}>
+              {label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label}
+            </div>
+            <div style={{ fontSize: 24, color: "#6b7280", marginTop: 12 }}>
+              {/* Tract permalinks already show the tract as the title */}
+              {[label === `Census Tract ${geoid}` ? null : `Census Tract ${geoid}`, card?.peerGroupName]
+                .filter(Boolean)
+                .join(" · ")}
+            </div>
+            {card && card.percentCanAfford !== null ? (
+              <div style={{ display: "flex", flexDirection: "column", marginTop: "auto" }}>
+                <div style={{ display: "flex", alignItems: "baseline" }}>
+                  <div style={{ fontSize: 96, fontWeight: 700, color: "#111827" }}>
+                    {`${card.percentCanAfford.toFixed(1)}%`}
+                  </div>
+                  <div style={{ fontSize: 26, color: "#374151", marginLeft: 16 }}>
+                    {`of ${HOUSEHOLDS[card.tenure]} can afford it`}
+                  </div>
+                </div>
+                <div style={{ display: "flex", marginTop: 24 }}>
+                  <Stat
+                    label={`${BEDROOM_LABELS[bedrooms]} ${card.rentSource === "custom" ? "asking rent" : "rent"}`}
+                    value={`${formatCurrency(card.monthlyRent!)}/mo`}
+                  />
+                  <Stat label="Income needed" value={formatCurrency(card.incomeNeeded!)} />
+                </div>
+              </div>
+            ) : (
+              <div style={{ fontSize: 28, color: "#374151", marginTop: "auto" }}>
+                Rent and income data aren&apos;t available for this area yet.
+              </div>
+            )}
+          </div>
+          {card && card.map.length > 0 && (
+            <div style={{ display: "flex", alignItems: "center", paddingRight: 64 }}>
+              <svg
+                width={SHARE_MAP_WIDTH}
+                height={SHARE_MAP_HEIGHT}
+                viewBox={`0 0 ${SHARE_MAP_WIDTH} ${SHARE_MAP_HEIGHT}`}
+                style={{ backgroundColor: "#f9fafb", border: "1px solid #d1d5db" }}
+              >
+                {card.map.map((tract, i) => {
+                  const target = i === card.map.length - 1;
+                  return (
+                    <path
+                      key={i}
+                      d={tract.path}
+                      fill={tract.fill}
+                      fillRule="evenodd"
+                      stroke={target ? "#111827" : "#ffffff"}
+                      strokeWidth={target ? 4 : 1}
+                    />
+                  );
+                })}
+              </svg>
+            </div>
+          )}
+        </div>
+      ),
+      { width: 1200, height: 630, headers: cacheHeaders(statuses) }
+    );
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "An unexpected error occurred.";
+    return NextResponse.json<ApiError>({ error: message }, { status: 500 });
+  }
+}
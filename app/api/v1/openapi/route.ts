@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export async function GET(request: NextRequest) {
+  const response = NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+  response.headers.set("Cache-Control", "public, max-age=3600");
+  return response;
+}
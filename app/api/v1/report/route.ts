@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { lookupAffordability } from "@/lib/lookup";
+import { renderLocationReport } from "@/lib/location-report";
+import { DEFAULT_MORTGAGE_PARAMS } from "@/lib/mortgage";
+import { withCacheTracking, cacheHeaders } from "@/lib/upstream-cache";
+import { parseQuery, REPORT_QUERY, ApiError } from "@/lib/api-schema";
+
+/**
+ * Printable PDF report for an address, point or tract: the lookup for the
+ * chosen unit, household size, tenure and asking rent, a map of the tract,
+ * the AMI table and the data sources behind it.
+ */
+export async function GET(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, REPORT_QUERY);
+  if (!query.ok) {
+    return NextResponse.json<ApiError>(
+      { error: "Invalid query parameters.", details: query.errors },
+      { status: 400 }
+    );
+  }
+
+  const { address, lat, lng, tract, bedrooms, householdSize, estimator, tenure, peers, rent } = query.values;
+  const hasPoint = lat !== undefined && lng !== undefined;
+  if (!address && !hasPoint && !tract) {
+    return NextResponse.json<ApiError>(
+      { error: "Please provide an address, lat/lng coordinates or a tract GEOID." },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { result, statuses } = await withCacheTracking(() =>
+      lookupAffordability(tract ? { geoid: tract } : hasPoint ? { lat, lng } : { address: address! }, {
+        estimator,
+        mortgageParams: DEFAULT_MORTGAGE_PARAMS,
+        bedrooms,
+        peers,
+      })
+    );
+    const pdf = renderLocationReport(result, {
+      bedrooms,
+      householdSize,
+      estimator,
+      tenure,
+      customRent: rent ?? null,
+    });
+    const geoid = `${result.stateFips}${result.countyFips}${result.tractFips}`;
+
+    return new NextResponse(pdf, {
+      headers: {
+        ...cacheHeaders(statuses),
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="affordability-report-${geoid}.pdf"`,
+      },
+    });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "An unexpected error occurred.";
+    return NextResponse.json<ApiError>({ error: message }, { status: 500 });
+  }
+}
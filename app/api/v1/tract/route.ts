@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDataProvider } from "@/lib/data-provider";
+import { lookupCbsa } from "@/lib/msa-percentile";
+import { splitTractGeoid } from "@/lib/geoid";
+import { withCacheTracking, cacheHeaders } from "@/lib/upstream-cache";
+import { parseQuery, TRACT_QUERY, ApiError, TractResponse } from "@/lib/api-schema";
+
+/**
+ * ACS figures for one tract by GEOID: the household income distribution,
+ * medians by household size, the renter/owner split and home values.
+ * No HUD limits or rents, since those depend on more than the tract.
+ */
+export async function GET(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, TRACT_QUERY);
+  if (!query.ok) {
+    return NextResponse.json<ApiError>(
+      { error: "Invalid query parameters.", details: query.errors },
+      { status: 400 }
+    );
+  }
+
+  const { geoid } = query.values;
+  const { stateFips, countyFips, tractFips } = splitTractGeoid(geoid);
+
+  try {
+    const { result, statuses } = await withCacheTracking(async (): Promise<TractResponse> => {
+      const { acs } = getDataProvider();
+      const cbsa = lookupCbsa(stateFips, countyFips);
+
+      const [incomeData, medianData, tenureData, homeValue] = await Promise.all([
+        acs.fetchIncomeDistribution(stateFips, countyFips, tractFips),
+        acs.fetchMedianByHouseholdSize(stateFips, countyFips, tractFips),
+        acs.fetchIncomeByTenure(stateFips, countyFips, tractFips).catch(() => null),
+        acs.fetchHomeValue(stateFips, countyFips, tractFips, cbsa?.code).catch(() => null),
+      ]);
+
+      return {
+        geoid,
+        stateFips,
+        countyFips,
+        tractFips,
+        cbsaCode: cbsa?.code ?? null,
+        cbsaName: cbsa?.name ?? null,
+        acsYear: incomeData.year ?? null,
+        totalHouseholds: incomeData.totalHouseholds,
+        totalHouseholdsMoe: incomeData.totalHouseholdsMoe ?? null,
+        brackets: incomeData.brackets,
+        medianBySize: medianData.medianBySize,
+        medianMoeBySize: medianData.moeBySize,
+        incomeByTenure: tenureData,
+        homeValue,
+      };
+    });
+
+    return NextResponse.json(result, { headers: cacheHeaders(statuses) });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "An unexpected error occurred.";
+    return NextResponse.json<ApiError>({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchAffordabilityTrend } from "@/lib/time-series";
+import { withCacheTracking, cacheHeaders } from "@/lib/upstream-cache";
+import { parseQuery, TREND_QUERY, ApiError, TrendResponse } from "@/lib/api-schema";
+
+/**
+ * Income, AMI and FMR for one tract across the ACS vintages in TREND_YEARS,
+ * for the trend chart.
+ */
+export async function GET(request: NextRequest) {
+  const query = parseQuery(request.nextUrl.searchParams, TREND_QUERY);
+  if (!query.ok) {
+    return NextResponse.json<ApiError>(
+      { error: "Invalid query parameters.", details: query.errors },
+      { status: 400 }
+    );
+  }
+  const { zip, ...location } = query.values;
+
+  try {
+    // Each series costs ~20 upstream calls; repeats are served from the upstream cache
+    const { result: points, statuses } = await withCacheTracking(() =>
+      fetchAffordabilityTrend({ ...location, zipCode: zip })
+    );
+
+    return NextResponse.json<TrendResponse>({ points }, { headers: cacheHeaders(statuses) });
+  } catch (err) {
+    const message =
+      err instanceof Error ? err.message : "An unexpected error occurred.";
+    return NextResponse.json<ApiError>({ error: message }, { status: 500 });
+  }
+}
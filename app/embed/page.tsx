@@ -0,0 +1,403 @@
+"use client";
+
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
+import dynamic from "next/dynamic";
+import SearchBar from "@/components/SearchBar";
+import ResultsPanel from "@/components/ResultsPanel";
+import {
+  parseQuery,
+  EMBED_QUERY,
+  AggregateReport,
+  ChoroplethResponse,
+  LookupResponse,
+} from "@/lib/api-schema";
+import { buildColorScale, computeTractMetrics, METRIC_DEFS } from "@/lib/choropleth-metrics";
+import { DEFAULT_CLASSIFICATION } from "@/lib/classification";
+import { DEFAULT_ESTIMATOR } from "@/lib/bracket-math";
+import { DEFAULT_MORTGAGE_PARAMS } from "@/lib/mortgage";
+import { DEFAULT_PEER_GEOGRAPHY } from "@/lib/peer-group";
+import { recalculate } from "@/lib/recalculate";
+import { parseTractGeoid } from "@/lib/geoid";
+import {
+  applyEmbedParams,
+  cbsaEmbedResult,
+  embedHostOrigin,
+  tractEmbedResult,
+  EMBED_MESSAGE_SOURCE,
+  EmbedEvent,
+  EmbedOutboundMessage,
+  EmbedParams,
+} from "@/lib/embed";
+import { formatCurrency } from "@/lib/format";
+
+const Map = dynamic(() => import("@/components/Map"), { ssr: false });
+
+interface EmbedQuery {
+  search: URLSearchParams;
+  values: EmbedParams;
+}
+
+// Lookup query for the widget's location, built as the main page builds it
+function lookupLocation(values: EmbedParams): string | null {
+  if (values.tract) return `tract=${values.tract}`;
+  if (values.lat !== undefined && values.lng !== undefined) return `lat=${values.lat}&lng=${values.lng}`;
+  if (!values.address) return null;
+  const geoid = parseTractGeoid(values.address);
+  return geoid ? `tract=${geoid}` : `address=${encodeURIComponent(values.address)}`;
+}
+
+function CbsaCard({ report }: { report: AggregateReport }) {
+  return (
+    <div className="bg-white rounded-lg shadow p-4 space-y-3">
+      <div>
+        <h2 className="text-base font-semibold text-gray-900">{report.name}</h2>
+        <p className="text-sm text-gray-500">
+          {report.tractCount.toLocaleString()} tracts &middot; rents and limits for {report.referenceArea.name}
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-green-50 rounded-lg p-3">
+          <p className="text-xs text-green-600 font-medium uppercase tracking-wide">
+            Fair Market Rent ({report.fmrYear})
+          </p>
+          <p className="text-xl font-bold text-green-900">
+            {formatCurrency(report.monthlyRent)}
+            <span className="text-sm font-normal">/mo</span>
+          </p>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-3">
+          <p className="text-xs text-blue-600 font-medium uppercase tracking-wide">Income Needed</p>
+          <p className="text-xl font-bold text-blue-900">
+            {formatCurrency(Math.round(report.incomeThreshold))}
+          </p>
+        </div>
+      </div>
+      <div className="bg-amber-50 rounded-lg p-3">
+        <p className="text-xs text-amber-600 font-medium uppercase tracking-wide">
+          Households That Can Afford Their Tract&rsquo;s Rent
+        </p>
+        <p className="text-2xl font-bold text-amber-900">{report.percentCanAfford}%</p>
+        <p className="text-xs text-amber-700">
+          ~{report.householdsAboveThreshold.toLocaleString()} of{" "}
+          {report.totalHouseholds.toLocaleString()} households. Click a tract for its details.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Map and compact results card for partners' iframes, addressed by
+ * EMBED_QUERY parameters. The host can change them with postMessage
+ * ({ type: "setParams", params }) and hears back each result (lib/embed.ts).
+ */
+export default function EmbedPage() {
+  const [query, setQuery] = useState<EmbedQuery | null>(null);
+  const [queryErrors, setQueryErrors] = useState<string[]>([]);
+  const [rawData, setRawData] = useState<LookupResponse | null>(null);
+  const [report, setReport] = useState<AggregateReport | null>(null);
+  const [choroplethData, setChoroplethData] = useState<ChoroplethResponse | null>(null);
+  const [choroplethLoading, setChoroplethLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // The listener reads the latest query without re-subscribing
+  const queryRef = useRef<EmbedQuery | null>(null);
+  queryRef.current = query;
+
+  const values = query?.values ?? null;
+
+  const post = useCallback((event: EmbedEvent) => {
+    const current = queryRef.current;
+    if (window.parent === window || !current) return;
+    const message: EmbedOutboundMessage = { ...event, source: EMBED_MESSAGE_SOURCE, params: current.values };
+    window.parent.postMessage(message, embedHostOrigin(current.values, window.location.origin));
+  }, []);
+
+  const updateParams = useCallback(
+    (params: Record<string, string | number | null>) => {
+      const current = queryRef.current;
+      if (!current) return;
+      const update = applyEmbedParams(current.search, { params });
+      if (update.ok) setQuery({ search: update.search, values: update.values });
+      else post({ type: "error", error: update.errors.join(" ") });
+    },
+    [post]
+  );
+
+  useEffect(() => {
+    const search = new URLSearchParams(window.location.search);
+    const parsed = parseQuery(search, EMBED_QUERY);
+    if (parsed.ok) setQuery({ search, values: parsed.values });
+    else setQueryErrors(parsed.errors);
+  }, []);
+
+  // Host → widget: setParams messages from the embedding page only
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      const current = queryRef.current;
+      if (!current || event.source !== window.parent) return;
+      const hostOrigin = embedHostOrigin(current.values, window.location.origin);
+      if (hostOrigin !== "*" && event.origin !== hostOrigin) return;
+      if ((event.data as { type?: unknown } | null)?.type !== "setParams") return;
+      const update = applyEmbedParams(current.search, event.data);
+      if (update.ok) setQuery({ search: update.search, values: update.values });
+      else post({ type: "error", error: update.errors.join(" ") });
+    };
+    window.addEventListener("message", onMessage);
+    return () => window.removeEventListener("message", onMessage);
+  }, [post]);
+
+  const isReady = query !== null;
+  useEffect(() => {
+    if (isReady) post({ type: "ready" });
+  }, [isReady, post]);
+
+  // A tract, point or address takes precedence over a CBSA
+  const location = values ? lookupLocation(values) : null;
+  const cbsa = location ? undefined : values?.cbsa;
+  const estimator = values?.estimator;
+  const peers = values?.peers;
+  const bedrooms = values?.bedrooms ?? 2;
+  const householdSize = values?.householdSize ?? 4;
+
+  useEffect(() => {
+    setRawData(null);
+    if (!location || !estimator || !peers) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    post({ type: "loading" });
+    fetch(`/api/v1/lookup?${location}&estimator=${estimator}&peers=${peers}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) setError(data.error || "Could not find data for this location.");
+        else setRawData(data);
+      })
+      .catch(() => !cancelled && setError("Failed to connect to the server. Please try again."))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [location, estimator, peers, post]);
+
+  // The aggregate report prices one unit size for one household size, so
+  // unlike a lookup it is refetched when either changes
+  useEffect(() => {
+    setReport(null);
+    if (!cbsa || !estimator) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    post({ type: "loading" });
+    const params = new URLSearchParams({
+      cbsa,
+      bedrooms: String(bedrooms),
+      householdSize: String(householdSize),
+      estimator,
+    });
+    fetch(`/api/v1/aggregate/cbsa?${params.toString()}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) setError(data.error || "Could not build the report for this area.");
+        else setReport(data);
+      })
+      .catch(() => !cancelled && setError("Failed to connect to the server. Please try again."))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [cbsa, bedrooms, householdSize, estimator, post]);
+
+  // Tracts around the lookup's county, or the whole CBSA around the
+  // report's reference county
+  const stateFips = rawData?.stateFips ?? report?.referenceArea.stateFips;
+  const countyFips = rawData?.countyFips ?? report?.referenceArea.countyFips;
+  const tractFips = rawData?.tractFips;
+  const countySubFips = rawData?.countySubFips;
+  const choroplethPeers = report ? "cbsa" : peers;
+  useEffect(() => {
+    setChoroplethData(null);
+    if (!stateFips || !countyFips || !estimator || !choroplethPeers) return;
+    let cancelled = false;
+    const params = new URLSearchParams({
+      stateFips,
+      countyFips,
+      estimator,
+      tenure: "all",
+      peers: choroplethPeers,
+    });
+    if (tractFips) params.set("tractFips", tractFips);
+    if (countySubFips) params.set("countySubFips", countySubFips);
+    setChoroplethLoading(true);
+    fetch(`/api/v1/choropleth?${params.toString()}`)
+      .then(async (res) => {
+        if (!cancelled && res.ok) setChoroplethData(await res.json());
+      })
+      .catch(() => {})
+      .finally(() => !cancelled && setChoroplethLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [stateFips, countyFips, tractFips, countySubFips, estimator, choroplethPeers]);
+
+  const computed = useMemo(
+    () =>
+      rawData && estimator
+        ? recalculate(rawData, householdSize, bedrooms, estimator, "all", DEFAULT_MORTGAGE_PARAMS)
+        : null,
+    [rawData, householdSize, bedrooms, estimator]
+  );
+
+  // Widget → host: each result as it changes, and load failures
+  useEffect(() => {
+    if (!values) return;
+    if (rawData && computed) post({ type: "result", result: tractEmbedResult(rawData, computed, values) });
+    else if (report) post({ type: "result", result: cbsaEmbedResult(report) });
+  }, [rawData, computed, report, values, post]);
+  useEffect(() => {
+    if (error) post({ type: "error", error });
+  }, [error, post]);
+
+  const metric = values?.metric ?? "affordability";
+  const amiTable = computed?.amiTable ?? report?.amiTable ?? null;
+  const amiIncomes = useMemo(
+    () => (amiTable ? Object.fromEntries(amiTable.map((row) => [row.amiPercent, row.income])) : null),
+    [amiTable]
+  );
+  // A CBSA report prices only the chosen unit size, which is all the map needs
+  const fallbackFmr = useMemo(
+    () =>
+      rawData?.fmrByBedroom ??
+      (report ? Array.from({ length: 5 }, (_, i) => (i === bedrooms ? report.monthlyRent : 0)) : null),
+    [rawData, report, bedrooms]
+  );
+  const ownershipIncomeNeeded = computed?.ownership?.incomeNeeded ?? null;
+  const tractMetrics = useMemo(
+    () =>
+      choroplethData
+        ? computeTractMetrics(choroplethData, {
+            bedroomIndex: bedrooms,
+            fallbackFmr,
+            customRent: null,
+            ownershipIncomeNeeded,
+            amiIncomes,
+          })
+        : null,
+    [choroplethData, bedrooms, fallbackFmr, ownershipIncomeNeeded, amiIncomes]
+  );
+  const colorScale = useMemo(() => {
+    const metricValues: number[] = [];
+    tractMetrics?.forEach((metrics) => {
+      const value = metrics[metric];
+      if (value !== null) metricValues.push(value);
+    });
+    return buildColorScale(metric, metricValues, DEFAULT_CLASSIFICATION, null);
+  }, [tractMetrics, metric]);
+
+  const handleMapClick = useCallback(
+    (lat: number, lng: number) => updateParams({ lat, lng }),
+    [updateParams]
+  );
+  const handleSearch = useCallback(
+    (address: string) => updateParams({ address }),
+    [updateParams]
+  );
+
+  if (queryErrors.length > 0) {
+    return (
+      <div className="p-4">
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-red-700 text-sm">{queryErrors.join(" ")}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const markerPosition: [number, number] | null =
+    rawData && rawData.lat !== null && rawData.lng !== null ? [rawData.lat, rawData.lng] : null;
+  // The main page restores a location from its tract
+  const fullMapHref = rawData
+    ? `/?tract=${rawData.stateFips}${rawData.countyFips}${rawData.tractFips}&household=${householdSize}&bedrooms=${bedrooms}`
+    : "/";
+
+  return (
+    <div className="h-screen flex flex-col">
+      {values && values.hideSearch !== "true" && (
+        <div className="bg-white shadow-sm p-2">
+          <SearchBar onSearch={handleSearch} isLoading={isLoading} initialAddress={values.address} />
+        </div>
+      )}
+      <div className="flex-1 relative">
+        <Map
+          center={[39.8283, -98.5795]}
+          markerPosition={markerPosition}
+          markerLabel={rawData?.matchedAddress}
+          onMapClick={handleMapClick}
+          choroplethData={choroplethData}
+          choroplethLoading={choroplethLoading}
+          searchedTractFips={rawData ? `${rawData.stateFips}${rawData.countyFips}${rawData.tractFips}` : undefined}
+          tractMetrics={tractMetrics ?? undefined}
+          choroplethMetric={metric}
+          colorStops={colorScale.stops}
+          fitToChoropleth={!markerPosition}
+        />
+
+        {choroplethData?.geo && (
+          <div className="absolute top-2 right-2 z-[1000] bg-white rounded shadow p-2">
+            <p className="text-[10px] font-medium text-gray-700 mb-1">{METRIC_DEFS[metric].label}</p>
+            <div className="flex items-center gap-0.5">
+              {colorScale.stops.map((stop) => (
+                <div key={stop.color} className="flex flex-col items-center">
+                  <div className="w-5 h-2.5" style={{ backgroundColor: stop.color }} />
+                  <span className="text-[9px] text-gray-600">
+                    {Number.isFinite(stop.threshold) ? METRIC_DEFS[metric].format(stop.threshold) : " "}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="absolute bottom-2 left-2 z-[1000] w-80 max-w-[calc(100%-1rem)] max-h-[70%] overflow-y-auto space-y-1">
+          {report && !rawData && !isLoading && !error ? (
+            <CbsaCard report={report} />
+          ) : (
+            <ResultsPanel
+              rawData={rawData}
+              computed={computed}
+              error={error}
+              isLoading={isLoading}
+              householdSize={householdSize}
+              bedrooms={bedrooms}
+              onHouseholdSizeChange={(size) => updateParams({ householdSize: size })}
+              onBedroomsChange={(br) => updateParams({ bedrooms: br })}
+              estimator={estimator ?? DEFAULT_ESTIMATOR}
+              onEstimatorChange={(method) => updateParams({ estimator: method })}
+              peers={peers ?? DEFAULT_PEER_GEOGRAPHY}
+              onPeersChange={(next) => updateParams({ peers: next })}
+              tenure="all"
+              onTenureChange={() => {}}
+              mortgageParams={DEFAULT_MORTGAGE_PARAMS}
+              onMortgageParamsChange={() => {}}
+              customRent={null}
+              onCustomRentChange={() => {}}
+              pdfHref={null}
+              compact
+            />
+          )}
+          <a
+            href={fullMapHref}
+            target="_blank"
+            rel="noopener"
+            className="block text-right text-[10px] text-gray-600 hover:underline"
+          >
+            Open the full map &#8599;
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,18 @@
 import type { Metadata } from "next";
 import "./globals.css";
 
+const TITLE = "Who Can Afford to Live Here?";
+
+const DESCRIPTION =
+  "Explore housing affordability by neighborhood — see what % of households can afford rent at every AMI level";
+
+// Share images need absolute URLs; NEXT_PUBLIC_SITE_URL is the deployed
+// origin, e.g. https://afford.example.org
 export const metadata: Metadata = {
-  title: "Who Can Afford to Live Here?",
-  description:
-    "Explore housing affordability by neighborhood — see what % of households can afford rent at every AMI level",
+  metadataBase: process.env.NEXT_PUBLIC_SITE_URL ? new URL(process.env.NEXT_PUBLIC_SITE_URL) : undefined,
+  title: TITLE,
+  description: DESCRIPTION,
+  openGraph: { title: TITLE, description: DESCRIPTION },
 };
 
 export default function RootLayout({
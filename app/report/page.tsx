@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import AggregateReportView from "@/components/AggregateReportView";
+import { AGGREGATE_LEVELS, AggregateLevel, AggregateReport } from "@/lib/api-schema";
+
+export default function ReportPage() {
+  const [report, setReport] = useState<AggregateReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The report is addressed entirely by the URL, e.g.
+  // /report?level=county&stateFips=06&countyFips=075&bedrooms=2
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const level = params.get("level") as AggregateLevel | null;
+    if (!level || !AGGREGATE_LEVELS.includes(level)) {
+      setError(`Choose a report level: ${AGGREGATE_LEVELS.join(", ")}.`);
+      return;
+    }
+    params.delete("level");
+
+    fetch(`/api/v1/aggregate/${level}?${params.toString()}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) {
+          setError([data.error, ...(data.details ?? [])].filter(Boolean).join(" ") || "Could not build the report.");
+          return;
+        }
+        setReport(data);
+      })
+      .catch(() => setError("Failed to load the report. Please try again."));
+  }, []);
+
+  return (
+    <div className="min-h-screen">
+      <header className="bg-white shadow-sm px-6 py-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          <a href="/">Who Can Afford to Live Here?</a>
+        </h1>
+        <p className="text-sm text-gray-500">Area Affordability Report</p>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-4">
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        ) : report ? (
+          <AggregateReportView report={report} />
+        ) : (
+          <div className="bg-white rounded-lg shadow p-6 animate-pulse">
+            <div className="h-4 bg-gray-200 rounded w-3/4 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2 mb-4"></div>
+            <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
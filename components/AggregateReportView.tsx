@@ -0,0 +1,160 @@
+import { ESTIMATOR_LABELS } from "@/lib/bracket-math";
+import AmiTable from "@/components/AmiTable";
+import { BEDROOM_LABELS, formatCurrency } from "@/lib/format";
+import type { AggregateReport, AggregateTract } from "@/lib/api-schema";
+
+interface AggregateReportViewProps {
+  report: AggregateReport;
+}
+
+const LEVEL_LABELS: Record<AggregateReport["level"], string> = {
+  county: "County",
+  cbsa: "Metro or Micro Area",
+  state: "State",
+};
+
+function TractList({ title, tracts }: { title: string; tracts: AggregateTract[] }) {
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">{title}</h3>
+      <table className="w-full text-xs border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="text-left px-2 py-1.5 font-medium text-gray-600">Tract</th>
+            <th className="text-right px-2 py-1.5 font-medium text-gray-600">Households</th>
+            <th className="text-right px-2 py-1.5 font-medium text-gray-600">Rent</th>
+            <th className="text-right px-2 py-1.5 font-medium text-gray-600">Can Afford</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tracts.map((t) => (
+            <tr key={t.geoid} className="even:bg-gray-50">
+              <td className="px-2 py-1.5">
+                <a href={`/?tract=${t.geoid}`} className="text-blue-600 hover:underline">
+                  {t.geoid}
+                </a>
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-700">
+                {t.totalHouseholds.toLocaleString()}
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-700">
+                {formatCurrency(t.monthlyRent)}/mo
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-700">{t.percentCanAfford}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function AggregateReportView({ report }: AggregateReportViewProps) {
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div>
+        <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">
+          {LEVEL_LABELS[report.level]} Report
+        </p>
+        <h2 className="text-lg font-semibold text-gray-900">{report.name}</h2>
+        <p className="text-sm text-gray-500">
+          {report.tractCount.toLocaleString()} tracts &middot;{" "}
+          {report.totalHouseholds.toLocaleString()} households
+          {report.level === "county" && report.cbsaName ? ` · ${report.cbsaName}` : ""}
+        </p>
+      </div>
+
+      {!report.coversNonCbsaTracts && (
+        <p className="text-xs bg-yellow-50 border border-yellow-200 rounded p-2 text-yellow-800">
+          Covers only tracts inside metro and micro areas; the state&rsquo;s other
+          tracts are not in the bundled data.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-green-50 rounded-lg p-4">
+          <p className="text-xs text-green-600 font-medium uppercase tracking-wide">
+            Fair Market Rent ({report.fmrYear})
+          </p>
+          <p className="text-2xl font-bold text-green-900">
+            {formatCurrency(report.monthlyRent)}
+            <span className="text-sm font-normal">/mo</span>
+          </p>
+          <p className="text-xs text-green-600">
+            {BEDROOM_LABELS[report.bedrooms]} unit
+            {report.countyCount > 1 ? ` · ${report.referenceArea.name}` : ""}
+          </p>
+        </div>
+
+        <div className="bg-blue-50 rounded-lg p-4">
+          <p className="text-xs text-blue-600 font-medium uppercase tracking-wide">
+            Income Needed
+          </p>
+          <p className="text-2xl font-bold text-blue-900">
+            {formatCurrency(Math.round(report.incomeThreshold))}
+          </p>
+          <p className="text-xs text-blue-600">to afford FMR at 30% of income</p>
+        </div>
+
+        <div className="bg-amber-50 rounded-lg p-4">
+          <p className="text-xs text-amber-600 font-medium uppercase tracking-wide">
+            Can Afford
+          </p>
+          <p className="text-2xl font-bold text-amber-900">{report.percentCanAfford}%</p>
+          <p className="text-xs text-amber-700">
+            ~{report.householdsAboveThreshold.toLocaleString()} households
+          </p>
+        </div>
+
+        <div className="bg-gray-100 rounded-lg p-4">
+          <p className="text-xs text-gray-600 font-medium uppercase tracking-wide">
+            Median Income
+          </p>
+          <p className="text-2xl font-bold text-gray-900">
+            {report.medianIncome !== null ? formatCurrency(report.medianIncome) : "—"}
+          </p>
+          <p className="text-xs text-gray-600">
+            AMI {formatCurrency(report.areaMedianIncome)} ({report.hudYear})
+          </p>
+        </div>
+      </div>
+
+      {report.countyCount > 1 && (
+        <p className="text-xs bg-blue-50 border border-blue-200 rounded p-2 text-blue-800">
+          Rent, income needed, AMI and the AMI table&rsquo;s incomes are those of{" "}
+          <strong>{report.referenceArea.name}</strong>, the largest of{" "}
+          {report.countyCount.toLocaleString()} counties by households. Shares are computed
+          county by county against each county&rsquo;s own HUD limits and FMR.
+        </p>
+      )}
+
+      <p className="text-xs text-gray-500">
+        &ldquo;Can Afford&rdquo; scores each tract against its own Small Area FMR where one
+        exists ({report.safmrTractCount.toLocaleString()} of{" "}
+        {report.tractCount.toLocaleString()} tracts), else its county&rsquo;s FMR, and sums the
+        results; {ESTIMATOR_LABELS[report.estimator].toLowerCase()} income estimate.
+      </p>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">
+          Affordability by AMI Level ({report.householdSize}-person household)
+        </h3>
+        <AmiTable rows={report.amiTable} />
+        <p className="text-xs text-gray-400 mt-1">
+          Rent = 30% of income. Shares are of all households in the area, each
+          county&rsquo;s scored against its own limits.
+        </p>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <TractList title="Most Affordable Tracts" tracts={report.mostAffordable} />
+        <TractList title="Least Affordable Tracts" tracts={report.leastAffordable} />
+      </div>
+      <p className="text-xs text-gray-400">
+        Ranked among tracts with at least 100 households. Sources: HUD Income Limits
+        ({report.hudYear}), HUD Fair Market Rents ({report.fmrYear}), ACS 5-Year
+        Estimates (Table B19001)
+      </p>
+    </div>
+  );
+}
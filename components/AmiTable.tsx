@@ -0,0 +1,66 @@
+import { AmiTableRow } from "@/lib/ami-table";
+import { formatCurrency } from "@/lib/format";
+
+interface AmiTableProps {
+  rows: AmiTableRow[];
+}
+
+export default function AmiTable({ rows }: AmiTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="text-left px-2 py-1.5 font-medium text-gray-600">AMI %</th>
+            <th className="text-right px-2 py-1.5 font-medium text-gray-600">Income</th>
+            <th className="text-right px-2 py-1.5 font-medium text-gray-600">Rent</th>
+            <th className="text-right px-2 py-1.5 font-medium text-gray-600">Can Afford</th>
+            <th className="text-right px-2 py-1.5 font-medium text-gray-600">Feasible</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.amiPercent}
+              className={
+                row.amiPercent === 100
+                  ? "bg-purple-50 font-medium"
+                  : "even:bg-gray-50"
+              }
+            >
+              <td className="px-2 py-1.5 text-gray-700">
+                {row.amiPercent}%
+                {row.source === "derived" && (
+                  <span className="ml-1 text-[10px] text-gray-400">derived</span>
+                )}
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-700">
+                {formatCurrency(row.income)}
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-700">
+                {formatCurrency(row.rent)}/mo
+              </td>
+              <td
+                className={`px-2 py-1.5 text-right ${
+                  row.percentCanAffordInterval?.lowReliability
+                    ? "text-gray-400 italic"
+                    : "text-gray-700"
+                }`}
+              >
+                {row.percentCanAfford}%
+                {row.percentCanAffordInterval && (
+                  <span className="text-[10px] text-gray-400">
+                    {" "}&plusmn;{row.percentCanAffordInterval.moe}
+                  </span>
+                )}
+              </td>
+              <td className="px-2 py-1.5 text-right text-gray-700">
+                {row.percentFeasible}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
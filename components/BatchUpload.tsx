@@ -0,0 +1,170 @@
+"use client";
+
+import { useState, ChangeEvent } from "react";
+import { IncomeEstimatorMethod } from "@/lib/bracket-math";
+import { parseCsv } from "@/lib/csv";
+import { MAX_BATCH_ROWS } from "@/lib/api-schema";
+import { BEDROOM_LABELS } from "@/lib/format";
+import { PeerGeography } from "@/lib/peer-group";
+
+interface BatchUploadProps {
+  bedrooms: number;
+  householdSize: number;
+  estimator: IncomeEstimatorMethod;
+  peers: PeerGeography;
+}
+
+// Preview columns, by batch CSV header
+const PREVIEW_COLUMNS: { key: string; label: string }[] = [
+  { key: "input", label: "Input" },
+  { key: "geoid", label: "Tract" },
+  { key: "ami", label: "AMI" },
+  { key: "fmr", label: "Rent" },
+  { key: "percentCanAfford", label: "% Afford" },
+  { key: "msaPercentile", label: "Peer pctl" },
+];
+
+interface BatchResult {
+  header: string[];
+  rows: string[][];
+  blobUrl: string;
+  fileName: string;
+}
+
+export default function BatchUpload({
+  bedrooms,
+  householdSize,
+  estimator,
+  peers,
+}: BatchUploadProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<BatchResult | null>(null);
+
+  function handleFileChange(e: ChangeEvent<HTMLInputElement>) {
+    setFile(e.target.files?.[0] ?? null);
+    setError(null);
+  }
+
+  async function handleRun() {
+    if (!file) return;
+    setIsRunning(true);
+    setError(null);
+    if (result) URL.revokeObjectURL(result.blobUrl);
+    setResult(null);
+
+    try {
+      const params = new URLSearchParams({
+        bedrooms: String(bedrooms),
+        householdSize: String(householdSize),
+        estimator,
+        peers,
+      });
+      const isJson = file.name.toLowerCase().endsWith(".json");
+      const res = await fetch(`/api/v1/batch?${params.toString()}`, {
+        method: "POST",
+        headers: { "Content-Type": isJson ? "application/json" : "text/csv" },
+        body: await file.text(),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || "Batch lookup failed.");
+      }
+
+      const csv = await res.text();
+      const [header, ...rows] = parseCsv(csv);
+      setResult({
+        header,
+        rows,
+        blobUrl: URL.createObjectURL(new Blob([csv], { type: "text/csv" })),
+        fileName: `${file.name.replace(/\.[^.]+$/, "")}-affordability.csv`,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Batch lookup failed.");
+    } finally {
+      setIsRunning(false);
+    }
+  }
+
+  const column = (key: string) => result?.header.indexOf(key) ?? -1;
+  const errorColumn = column("error");
+  const failed = result ? result.rows.filter((r) => r[errorColumn]).length : 0;
+
+  return (
+    <div className="mt-3 border border-gray-200 rounded-lg p-3 text-sm space-y-2">
+      <p className="text-xs text-gray-500">
+        Upload a CSV with an <code>address</code> or <code>tract</code> (GEOID) column, or{" "}
+        <code>lat</code> and <code>lng</code> columns (or a JSON array), up to{" "}
+        {MAX_BATCH_ROWS} rows. Uses the{" "}
+        {BEDROOM_LABELS[bedrooms]} rent and a {householdSize}-person household from the panel.
+      </p>
+      <div className="flex gap-2 items-center">
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={handleFileChange}
+          disabled={isRunning}
+          className="flex-1 text-xs"
+        />
+        <button
+          type="button"
+          onClick={handleRun}
+          disabled={isRunning || !file}
+          className="px-4 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-xs font-medium whitespace-nowrap"
+        >
+          {isRunning ? "Looking up..." : "Run batch"}
+        </button>
+        {result && (
+          <a
+            href={result.blobUrl}
+            download={result.fileName}
+            className="px-4 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 text-xs font-medium whitespace-nowrap"
+          >
+            Download CSV
+          </a>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {result && (
+        <>
+          <p className="text-xs text-gray-600">
+            {result.rows.length - failed} of {result.rows.length} rows looked up
+            {failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+          </p>
+          <div className="max-h-48 overflow-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  {PREVIEW_COLUMNS.map((c) => (
+                    <th key={c.key} className="py-1 pr-2 font-medium">{c.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.map((row, i) => (
+                  <tr key={i} className="border-b border-gray-100">
+                    {row[errorColumn] ? (
+                      <>
+                        <td className="py-1 pr-2">{row[column("input")]}</td>
+                        <td colSpan={PREVIEW_COLUMNS.length - 1} className="py-1 text-red-600">
+                          {row[errorColumn]}
+                        </td>
+                      </>
+                    ) : (
+                      PREVIEW_COLUMNS.map((c) => (
+                        <td key={c.key} className="py-1 pr-2">{row[column(c.key)]}</td>
+                      ))
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
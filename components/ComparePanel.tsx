@@ -0,0 +1,236 @@
+"use client";
+
+import { ReactNode } from "react";
+import { AmiTableRow } from "@/lib/ami-table";
+import { MAX_HOUSEHOLD_SIZE } from "@/lib/hud-api";
+import { PercentInterval } from "@/lib/moe";
+import { describePeerGroup } from "@/lib/peer-group";
+import { BEDROOM_LABELS, formatCurrency } from "@/lib/format";
+import type { LookupResponse } from "@/lib/api-schema";
+
+interface ComparedResult {
+  incomeThreshold: number;
+  monthlyRent: number;
+  rentSource: "fmr" | "custom";
+  fmr: { monthlyRent: number };
+  percentCanAfford: number;
+  percentCanAffordInterval: PercentInterval | null;
+  sizeAdjustedAmi: number;
+  amiTable: AmiTableRow[];
+}
+
+export interface ComparedLocation {
+  rawData: LookupResponse;
+  computed: ComparedResult;
+}
+
+interface ComparePanelProps {
+  locations: ComparedLocation[];
+  householdSize: number;
+  bedrooms: number;
+  onHouseholdSizeChange: (size: number) => void;
+  onBedroomsChange: (bedrooms: number) => void;
+  onRemove: (index: number) => void;
+}
+
+function CompareRow({
+  label,
+  cells,
+  highlight = false,
+}: {
+  label: ReactNode;
+  cells: ReactNode[];
+  highlight?: boolean;
+}) {
+  return (
+    <tr className={highlight ? "bg-purple-50 font-medium" : "even:bg-gray-50"}>
+      <th className="text-left px-2 py-1.5 font-medium text-gray-600 whitespace-nowrap">
+        {label}
+      </th>
+      {cells.map((cell, i) => (
+        <td key={i} className="px-2 py-1.5 text-right text-gray-700">
+          {cell}
+        </td>
+      ))}
+    </tr>
+  );
+}
+
+export default function ComparePanel({
+  locations,
+  householdSize,
+  bedrooms,
+  onHouseholdSizeChange,
+  onBedroomsChange,
+  onRemove,
+}: ComparePanelProps) {
+  if (locations.length === 0) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-6 text-center">
+        <p className="text-gray-500 text-sm">
+          Pin up to four searched locations to compare them side by side.
+        </p>
+      </div>
+    );
+  }
+
+  // Every location shares one AMI ladder (AMI_PERCENTS), so rows line up
+  const amiPercents = locations[0].computed.amiTable.map((row) => row.amiPercent);
+  // Every location shares the asking rent, when one is set
+  const isCustomRent = locations[0].computed.rentSource === "custom";
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Compare Locations</h2>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label
+            htmlFor="compareHouseholdSize"
+            className="block text-xs font-medium text-gray-600 mb-1"
+          >
+            Household Size
+          </label>
+          <select
+            id="compareHouseholdSize"
+            value={householdSize}
+            onChange={(e) => onHouseholdSizeChange(Number(e.target.value))}
+            className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          >
+            {Array.from({ length: MAX_HOUSEHOLD_SIZE }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n} {n === 1 ? "person" : "persons"}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label
+            htmlFor="compareBedrooms"
+            className="block text-xs font-medium text-gray-600 mb-1"
+          >
+            Bedroom Count
+          </label>
+          <select
+            id="compareBedrooms"
+            value={bedrooms}
+            onChange={(e) => onBedroomsChange(Number(e.target.value))}
+            className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          >
+            {BEDROOM_LABELS.map((label, i) => (
+              <option key={i} value={i}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr className="bg-gray-100 align-top">
+              <th className="px-2 py-1.5" />
+              {locations.map(({ rawData }, i) => (
+                <th key={i} className="px-2 py-1.5 text-right font-medium text-gray-700">
+                  <div className="flex items-start justify-end gap-1">
+                    <span className="inline-flex h-4 w-4 shrink-0 items-center justify-center rounded-full bg-blue-600 text-[10px] text-white">
+                      {i + 1}
+                    </span>
+                    <button
+                      onClick={() => onRemove(i)}
+                      className="text-gray-400 hover:text-gray-600 leading-none"
+                      aria-label={`Unpin ${rawData.matchedAddress}`}
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <p className="mt-1 font-semibold text-gray-900">{rawData.matchedAddress}</p>
+                  <p className="font-normal text-gray-500">{rawData.areaName}</p>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <CompareRow
+              label={`${isCustomRent ? "Asking Rent" : "FMR"} (${BEDROOM_LABELS[bedrooms]})`}
+              cells={locations.map(({ rawData, computed }) => (
+                <>
+                  {formatCurrency(computed.monthlyRent)}/mo
+                  {isCustomRent ? (
+                    <span className="block text-[10px] text-gray-400">
+                      {rawData.isSafmr ? "SAFMR" : "FMR"} {formatCurrency(computed.fmr.monthlyRent)}
+                    </span>
+                  ) : (
+                    rawData.isSafmr && (
+                      <span className="block text-[10px] text-gray-400">Small Area FMR</span>
+                    )
+                  )}
+                </>
+              ))}
+            />
+            <CompareRow
+              label="Income Needed"
+              cells={locations.map(({ computed }) =>
+                formatCurrency(Math.round(computed.incomeThreshold))
+              )}
+            />
+            <CompareRow
+              label="Can Afford"
+              cells={locations.map(({ computed }) => (
+                <>
+                  {computed.percentCanAfford}%
+                  {computed.percentCanAffordInterval && (
+                    <span className="text-[10px] text-gray-400">
+                      {" "}&plusmn;{computed.percentCanAffordInterval.moe}
+                    </span>
+                  )}
+                </>
+              ))}
+            />
+            <CompareRow
+              label="Peer Percentile"
+              cells={locations.map(({ rawData }, i) =>
+                rawData.msaPercentile !== null ? (
+                  <span key={i} title={rawData.peerGroup ? describePeerGroup(rawData.peerGroup) : undefined}>
+                    {rawData.msaPercentile}%
+                  </span>
+                ) : (
+                  "—"
+                )
+              )}
+            />
+            <CompareRow
+              label={`AMI (${householdSize}-person)`}
+              cells={locations.map(({ computed }) => formatCurrency(computed.sizeAdjustedAmi))}
+            />
+            {amiPercents.map((amiPercent) => (
+              <CompareRow
+                key={amiPercent}
+                label={`${amiPercent}% AMI`}
+                highlight={amiPercent === 100}
+                cells={locations.map(({ computed }) => {
+                  const row = computed.amiTable.find((r) => r.amiPercent === amiPercent);
+                  return row ? (
+                    <>
+                      {row.percentCanAfford}%
+                      <span className="block text-[10px] text-gray-400">
+                        {formatCurrency(row.rent)}/mo
+                      </span>
+                    </>
+                  ) : (
+                    "—"
+                  );
+                })}
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-400">
+        AMI rows: share of households that can afford rent at 30% of that
+        income. Peer percentiles rank each tract within its own peer group.
+      </p>
+    </div>
+  );
+}
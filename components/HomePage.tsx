@@ -0,0 +1,783 @@
+"use client";
+
+import { useState, useCallback, useMemo, useEffect, useRef } from "react";
+import dynamic from "next/dynamic";
+import SearchBar from "@/components/SearchBar";
+import ResultsPanel from "@/components/ResultsPanel";
+import BatchUpload from "@/components/BatchUpload";
+import ComparePanel from "@/components/ComparePanel";
+import {
+  isEstimatorMethod,
+  isHouseholdTenure,
+  DEFAULT_ESTIMATOR,
+  HouseholdTenure,
+  IncomeEstimatorMethod,
+} from "@/lib/bracket-math";
+import { MAX_HOUSEHOLD_SIZE } from "@/lib/hud-api";
+import { BEDROOM_LABELS } from "@/lib/format";
+import { DEFAULT_MORTGAGE_PARAMS, MortgageParams } from "@/lib/mortgage";
+import { recalculate } from "@/lib/recalculate";
+import {
+  customRentFor,
+  formatCustomRents,
+  parseCustomRents,
+  CustomRents,
+  NO_CUSTOM_RENTS,
+} from "@/lib/custom-rent";
+import type { LookupResponse, ChoroplethResponse } from "@/lib/api-schema";
+import { parseTractGeoid } from "@/lib/geoid";
+import {
+  isPeerGeography,
+  DEFAULT_PEER_GEOGRAPHY,
+  PeerGeography,
+} from "@/lib/peer-group";
+
+import {
+  CHOROPLETH_METRICS,
+  METRIC_DEFS,
+  buildColorScale,
+  computeTractMetrics,
+  ChoroplethMetric,
+} from "@/lib/choropleth-metrics";
+import {
+  CLASSIFICATION_SCHEMES,
+  CLASSIFICATION_LABELS,
+  DEFAULT_CLASSIFICATION,
+  ClassificationScheme,
+} from "@/lib/classification";
+import { PALETTES, PALETTE_NAMES, PaletteName } from "@/lib/color-palettes";
+import {
+  buildChoroplethExport,
+  CHOROPLETH_EXPORT_FORMATS,
+  EXPORT_FORMAT_LABELS,
+  ChoroplethExportFormat,
+} from "@/lib/choropleth-export";
+
+const Map = dynamic(() => import("@/components/Map"), { ssr: false });
+
+// Lookups pinned for side-by-side comparison
+const MAX_PINS = 4;
+
+interface PinnedLookup {
+  // Lookup query location (tract=, address= or lat=&lng=), to rerun it
+  location: string;
+  data: LookupResponse;
+}
+
+function tractGeoidOf(data: LookupResponse): string {
+  return `${data.stateFips}${data.countyFips}${data.tractFips}`;
+}
+
+async function fetchLookup(
+  location: string,
+  estimator: IncomeEstimatorMethod,
+  peers: PeerGeography
+): Promise<LookupResponse> {
+  const res = await fetch(`/api/v1/lookup?${location}&estimator=${estimator}&peers=${peers}`);
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Could not find data for this location.");
+  return data;
+}
+
+interface ChoroplethOptions {
+  estimator: IncomeEstimatorMethod;
+  tenure: HouseholdTenure;
+  peers: PeerGeography;
+}
+
+export default function HomePage() {
+  const [rawData, setRawData] = useState<LookupResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [markerPosition, setMarkerPosition] = useState<
+    [number, number] | null
+  >(null);
+  const [householdSize, setHouseholdSize] = useState(4);
+  const [bedrooms, setBedrooms] = useState(2);
+  const [estimator, setEstimator] = useState<IncomeEstimatorMethod>(DEFAULT_ESTIMATOR);
+  const [tenure, setTenure] = useState<HouseholdTenure>("all");
+  const [peers, setPeers] = useState<PeerGeography>(DEFAULT_PEER_GEOGRAPHY);
+  // Location part of the last lookup query, to rerun it when peers change
+  const lookupLocation = useRef<string | null>(null);
+  const [mortgageParams, setMortgageParams] = useState<MortgageParams>(DEFAULT_MORTGAGE_PARAMS);
+  // Asking rents by bedroom count, replacing the FMR wherever one is set
+  const [customRents, setCustomRents] = useState<CustomRents>(NO_CUSTOM_RENTS);
+  const [currentAddress, setCurrentAddress] = useState<string | null>(null);
+  const [initialAddress, setInitialAddress] = useState<string | undefined>(undefined);
+  const initializedFromUrl = useRef(false);
+  const [choroplethData, setChoroplethData] = useState<ChoroplethResponse | null>(null);
+  const [choroplethLoading, setChoroplethLoading] = useState(false);
+  const [choroplethMetric, setChoroplethMetric] = useState<ChoroplethMetric>("affordability");
+  const [classification, setClassification] = useState<ClassificationScheme>(DEFAULT_CLASSIFICATION);
+  // null uses each metric's own palette
+  const [palette, setPalette] = useState<PaletteName | null>(null);
+  const [legendPos, setLegendPos] = useState<{ x: number; y: number } | null>(null);
+  const legendDragRef = useRef<{ startX: number; startY: number; origX: number; origY: number } | null>(null);
+  const [legendCollapsed, setLegendCollapsed] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [pins, setPins] = useState<PinnedLookup[]>([]);
+  const [compareMode, setCompareMode] = useState(false);
+
+  // Reset legend position and collapse state when choropleth data changes (new search)
+  useEffect(() => {
+    setLegendPos(null);
+    setLegendCollapsed(false);
+  }, [choroplethData]);
+
+  // Fetch choropleth data in the background
+  const fetchChoropleth = useCallback(async (
+    stateFips: string,
+    countyFips: string,
+    options: ChoroplethOptions,
+    // Tract and New England town pick the HUD FMR area within the county
+    tractFips?: string,
+    countySubFips?: string | null
+  ) => {
+    setChoroplethLoading(true);
+    try {
+      const params = new URLSearchParams({
+        stateFips,
+        countyFips,
+        estimator: options.estimator,
+        tenure: options.tenure,
+        peers: options.peers,
+      });
+      if (tractFips) params.set("tractFips", tractFips);
+      if (countySubFips) params.set("countySubFips", countySubFips);
+      const res = await fetch(`/api/v1/choropleth?${params.toString()}`);
+      if (res.ok) {
+        const data = await res.json();
+        setChoroplethData(data);
+      } else {
+        // Non-MSA or error — just clear choropleth
+        setChoroplethData(null);
+      }
+    } catch {
+      setChoroplethData(null);
+    } finally {
+      setChoroplethLoading(false);
+    }
+  }, []);
+
+  // Update URL query params whenever search state changes
+  const updateUrl = useCallback(
+    (
+      address: string | null,
+      hh: number,
+      br: number,
+      options: ChoroplethOptions,
+      pinGeoids: string[],
+      rents: CustomRents
+    ) => {
+      const params = new URLSearchParams();
+      const geoid = address ? parseTractGeoid(address) : null;
+      if (geoid) params.set("tract", geoid);
+      else if (address) params.set("address", address);
+      // Pins are restored by tract, the one location every lookup resolves to
+      for (const pin of pinGeoids) params.append("pin", pin);
+      params.set("household", String(hh));
+      params.set("bedrooms", String(br));
+      if (options.estimator !== DEFAULT_ESTIMATOR) params.set("estimator", options.estimator);
+      if (options.tenure !== "all") params.set("tenure", options.tenure);
+      if (options.peers !== DEFAULT_PEER_GEOGRAPHY) params.set("peers", options.peers);
+      for (const rent of formatCustomRents(rents)) params.append("rent", rent);
+      window.history.replaceState(null, "", `?${params.toString()}`);
+    },
+    []
+  );
+
+  const handleSearch = useCallback(async (
+    address: string,
+    method: IncomeEstimatorMethod = estimator,
+    peerGeography: PeerGeography = peers
+  ) => {
+    setIsLoading(true);
+    setError(null);
+    setRawData(null);
+
+    try {
+      // A tract GEOID skips geocoding entirely
+      const geoid = parseTractGeoid(address);
+      const location = geoid ? `tract=${geoid}` : `address=${encodeURIComponent(address)}`;
+      lookupLocation.current = location;
+      const res = await fetch(`/api/v1/lookup?${location}&estimator=${method}&peers=${peerGeography}`);
+      const data = await res.json();
+
+      if (!res.ok) {
+        setError(data.error || "An error occurred.");
+        return;
+      }
+
+      setRawData(data);
+      setCurrentAddress(geoid ?? address);
+      // GEOID lookups outside built MSA geometry have no centroid to fly to
+      setMarkerPosition(data.lat !== null && data.lng !== null ? [data.lat, data.lng] : null);
+    } catch {
+      setError("Failed to connect to the server. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [estimator, peers]);
+
+  // Sync URL when search state changes
+  useEffect(() => {
+    if (currentAddress || pins.length > 0) {
+      updateUrl(
+        currentAddress,
+        householdSize,
+        bedrooms,
+        { estimator, tenure, peers },
+        pins.map((pin) => tractGeoidOf(pin.data)),
+        customRents
+      );
+    }
+  }, [currentAddress, householdSize, bedrooms, estimator, tenure, peers, pins, customRents, updateUrl]);
+
+  // (Re)load the choropleth for the searched county and current scoring options
+  const lookupStateFips = rawData?.stateFips;
+  const lookupCountyFips = rawData?.countyFips;
+  const lookupTractFips = rawData?.tractFips;
+  const lookupCountySubFips = rawData?.countySubFips;
+  useEffect(() => {
+    if (lookupStateFips && lookupCountyFips) {
+      fetchChoropleth(
+        lookupStateFips,
+        lookupCountyFips,
+        { estimator, tenure, peers },
+        lookupTractFips,
+        lookupCountySubFips
+      );
+    }
+  }, [
+    lookupStateFips,
+    lookupCountyFips,
+    lookupTractFips,
+    lookupCountySubFips,
+    estimator,
+    tenure,
+    peers,
+    fetchChoropleth,
+  ]);
+
+  // On mount, restore state from URL params and auto-search
+  useEffect(() => {
+    if (initializedFromUrl.current) return;
+    initializedFromUrl.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const address = params.get("tract") || params.get("address");
+    const pinGeoids = params
+      .getAll("pin")
+      .map(parseTractGeoid)
+      .filter((geoid): geoid is string => geoid !== null)
+      .slice(0, MAX_PINS);
+    if (!address && pinGeoids.length === 0) return;
+
+    const hh = parseInt(params.get("household") || "", 10);
+    const br = parseInt(params.get("bedrooms") || "", 10);
+    if (hh >= 1 && hh <= MAX_HOUSEHOLD_SIZE) setHouseholdSize(hh);
+    if (br >= 0 && br <= 4) setBedrooms(br);
+    const method = params.get("estimator");
+    if (isEstimatorMethod(method)) setEstimator(method);
+    const tn = params.get("tenure");
+    if (isHouseholdTenure(tn)) setTenure(tn);
+    const pg = params.get("peers");
+    if (isPeerGeography(pg)) setPeers(pg);
+    setCustomRents(parseCustomRents(params.getAll("rent")));
+
+    if (pinGeoids.length > 0) {
+      const locations = pinGeoids.map((geoid) => `tract=${geoid}`);
+      Promise.allSettled(
+        locations.map((location) =>
+          fetchLookup(
+            location,
+            isEstimatorMethod(method) ? method : DEFAULT_ESTIMATOR,
+            isPeerGeography(pg) ? pg : DEFAULT_PEER_GEOGRAPHY
+          )
+        )
+      ).then((results) => {
+        // Tracts that no longer resolve are dropped rather than failing the page
+        setPins(
+          results.flatMap((result, i) =>
+            result.status === "fulfilled" ? [{ location: locations[i], data: result.value }] : []
+          )
+        );
+      });
+      setCompareMode(true);
+    }
+
+    if (!address) return;
+    setInitialAddress(address);
+    handleSearch(
+      address,
+      isEstimatorMethod(method) ? method : undefined,
+      isPeerGeography(pg) ? pg : undefined
+    );
+  }, [handleSearch]);
+
+  const handleMapClick = useCallback(
+    async (lat: number, lng: number) => {
+      setIsLoading(true);
+      setError(null);
+      setRawData(null);
+
+      try {
+        const location = `lat=${lat}&lng=${lng}`;
+        lookupLocation.current = location;
+        const res = await fetch(
+          `/api/v1/lookup?${location}&estimator=${estimator}&peers=${peers}`
+        );
+        const data = await res.json();
+
+        if (!res.ok) {
+          setError(data.error || "Could not find data at this location.");
+          return;
+        }
+
+        setRawData(data);
+        setCurrentAddress(data.matchedAddress);
+        setInitialAddress(data.matchedAddress);
+        setMarkerPosition([data.lat, data.lng]);
+      } catch {
+        setError("Failed to look up this location. Please try again.");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [estimator, peers]
+  );
+
+  // The percentile is ranked server-side with the estimator and peer
+  // geography, so changing either reruns the last lookup and the pinned ones
+  // rather than recalculating in place
+  const rerunLookups = useCallback(
+    async (method: IncomeEstimatorMethod, peerGeography: PeerGeography) => {
+      if (pins.length > 0) {
+        Promise.allSettled(pins.map((pin) => fetchLookup(pin.location, method, peerGeography))).then(
+          (results) =>
+            setPins((current) =>
+              current.map((pin, i) => {
+                const result = results[i];
+                return result?.status === "fulfilled" && pin.location === pins[i]?.location
+                  ? { ...pin, data: result.value }
+                  : pin;
+              })
+            )
+        );
+      }
+      const location = lookupLocation.current;
+      if (!location) return;
+
+      setIsLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(`/api/v1/lookup?${location}&estimator=${method}&peers=${peerGeography}`);
+        const data = await res.json();
+        if (!res.ok) {
+          setError(data.error || "Could not find data for this address.");
+          return;
+        }
+        setRawData(data);
+      } catch {
+        setError("Failed to fetch data. Please try again.");
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [pins]
+  );
+
+  const handlePeersChange = useCallback(
+    (next: PeerGeography) => {
+      setPeers(next);
+      rerunLookups(estimator, next);
+    },
+    [estimator, rerunLookups]
+  );
+
+  const handleEstimatorChange = useCallback(
+    (next: IncomeEstimatorMethod) => {
+      setEstimator(next);
+      rerunLookups(next, peers);
+    },
+    [peers, rerunLookups]
+  );
+
+  const currentGeoid = rawData ? tractGeoidOf(rawData) : null;
+  const isPinned = pins.some((pin) => tractGeoidOf(pin.data) === currentGeoid);
+  const canPin = !!rawData && !!lookupLocation.current && !isPinned && pins.length < MAX_PINS;
+
+  const handlePin = useCallback(() => {
+    const location = lookupLocation.current;
+    if (!rawData || !location) return;
+    setPins((current) =>
+      current.length < MAX_PINS ? [...current, { location, data: rawData }] : current
+    );
+  }, [rawData]);
+
+  const handleUnpin = useCallback((index: number) => {
+    setPins((current) => current.filter((_, i) => i !== index));
+  }, []);
+
+  const customRent = customRentFor(customRents, bedrooms);
+  const handleCustomRentChange = useCallback(
+    (rent: number | null) =>
+      setCustomRents((current) => current.map((value, i) => (i === bedrooms ? rent : value))),
+    [bedrooms]
+  );
+
+  // The PDF report repeats the last lookup so it keeps the matched address,
+  // and shows the figures on screen: same tenure, same asking rent
+  const pdfHref =
+    rawData && lookupLocation.current
+      ? `/api/v1/report?${lookupLocation.current}&${new URLSearchParams({
+          bedrooms: String(bedrooms),
+          householdSize: String(householdSize),
+          estimator,
+          tenure,
+          peers,
+          ...(customRent !== null ? { rent: String(customRent) } : {}),
+        }).toString()}`
+      : null;
+
+  const computed = useMemo(() => {
+    if (!rawData) return null;
+    return recalculate(rawData, householdSize, bedrooms, estimator, tenure, mortgageParams, customRent);
+  }, [rawData, householdSize, bedrooms, estimator, tenure, mortgageParams, customRent]);
+
+  // Pinned locations share the household, unit and estimator choices
+  const comparedLocations = useMemo(
+    () =>
+      pins.map((pin) => ({
+        rawData: pin.data,
+        computed: recalculate(pin.data, householdSize, bedrooms, estimator, tenure, mortgageParams, customRent),
+      })),
+    [pins, householdSize, bedrooms, estimator, tenure, mortgageParams, customRent]
+  );
+  const pinMarkers = useMemo(
+    () =>
+      pins.flatMap((pin) =>
+        pin.data.lat !== null && pin.data.lng !== null
+          ? [{ position: [pin.data.lat, pin.data.lng] as [number, number], label: pin.data.matchedAddress }]
+          : []
+      ),
+    [pins]
+  );
+
+  // Incomes at each AMI level for the household size, for the AMI map metrics
+  const amiIncomes = useMemo(
+    () =>
+      computed
+        ? Object.fromEntries(computed.amiTable.map((row) => [row.amiPercent, row.income]))
+        : null,
+    [computed]
+  );
+  const metricInputs = { none: true, ami: amiIncomes !== null, ownership: !!computed?.ownership };
+  const metricDef = METRIC_DEFS[choroplethMetric];
+
+  const ownershipIncomeNeeded = computed?.ownership?.incomeNeeded ?? null;
+  const fallbackFmr = rawData?.fmrByBedroom ?? null;
+  const tractMetrics = useMemo(
+    () =>
+      choroplethData
+        ? computeTractMetrics(choroplethData, {
+            bedroomIndex: bedrooms,
+            fallbackFmr,
+            customRent,
+            ownershipIncomeNeeded,
+            amiIncomes,
+          })
+        : null,
+    [choroplethData, bedrooms, fallbackFmr, customRent, ownershipIncomeNeeded, amiIncomes]
+  );
+
+  // Exports what the map shows, metrics included, without another request
+  const handleExport = useCallback(
+    (format: ChoroplethExportFormat) => {
+      if (!choroplethData || !tractMetrics) return;
+      const file = buildChoroplethExport(
+        { data: choroplethData, metrics: tractMetrics, bedroomIndex: bedrooms, fallbackFmr, customRent },
+        format
+      );
+      const url = URL.createObjectURL(new Blob([file.body], { type: file.contentType }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+    [choroplethData, tractMetrics, bedrooms, fallbackFmr, customRent]
+  );
+
+  // Breaks come from the values on the map, so they follow the metric and area
+  const colorScale = useMemo(() => {
+    const values: number[] = [];
+    tractMetrics?.forEach((metrics) => {
+      const value = metrics[choroplethMetric];
+      if (value !== null) values.push(value);
+    });
+    return buildColorScale(choroplethMetric, values, classification, palette);
+  }, [tractMetrics, choroplethMetric, classification, palette]);
+
+  return (
+    <div className="h-screen flex flex-col">
+      <header className="bg-white shadow-sm px-6 py-4">
+        <h1 className="text-xl font-bold text-gray-900">
+          Who Can Afford to Live Here?
+        </h1>
+        <p className="text-sm text-gray-500 mb-3">
+          Comparing Census Tract Incomes with Regional AMI
+        </p>
+        <SearchBar onSearch={handleSearch} isLoading={isLoading} initialAddress={initialAddress} />
+        <button
+          type="button"
+          onClick={() => setShowBatch((v) => !v)}
+          className="mt-2 text-xs text-blue-600 hover:underline"
+        >
+          {showBatch ? "Hide batch upload" : "Look up many sites at once (CSV upload)"}
+        </button>
+        {showBatch && (
+          <BatchUpload
+            bedrooms={bedrooms}
+            householdSize={householdSize}
+            estimator={estimator}
+            peers={peers}
+          />
+        )}
+      </header>
+
+      <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+        <div className="flex-1 min-h-[300px] relative">
+          <Map
+            center={[39.8283, -98.5795]}
+            markerPosition={markerPosition}
+            markerLabel={rawData?.matchedAddress}
+            onMapClick={handleMapClick}
+            choroplethData={choroplethData}
+            choroplethLoading={choroplethLoading}
+            searchedTractFips={rawData ? `${rawData.stateFips}${rawData.countyFips}${rawData.tractFips}` : undefined}
+            tractMetrics={tractMetrics ?? undefined}
+            choroplethMetric={choroplethMetric}
+            colorStops={colorScale.stops}
+            pins={pinMarkers}
+          />
+          {choroplethData && choroplethData.geo && (
+            <div
+              className={`z-[1000] bg-white rounded-lg shadow-lg select-none ${
+                legendCollapsed ? "p-1.5" : "p-3 max-w-[220px]"
+              } ${legendPos ? "absolute" : "absolute bottom-4 right-4"}`}
+              style={{
+                touchAction: "none",
+                cursor: legendDragRef.current ? "grabbing" : "grab",
+                ...(legendPos ? { left: legendPos.x, top: legendPos.y } : {}),
+              }}
+              onPointerDown={(e) => {
+                // Don't drag when clicking buttons
+                if ((e.target as HTMLElement).closest("button")) return;
+                e.preventDefault();
+                (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+                const rect = e.currentTarget.getBoundingClientRect();
+                const parentRect = e.currentTarget.parentElement!.getBoundingClientRect();
+                legendDragRef.current = {
+                  startX: e.clientX,
+                  startY: e.clientY,
+                  origX: rect.left - parentRect.left,
+                  origY: rect.top - parentRect.top,
+                };
+              }}
+              onPointerMove={(e) => {
+                if (!legendDragRef.current) return;
+                const parent = e.currentTarget.parentElement!;
+                const parentRect = parent.getBoundingClientRect();
+                const elRect = e.currentTarget.getBoundingClientRect();
+                const dx = e.clientX - legendDragRef.current.startX;
+                const dy = e.clientY - legendDragRef.current.startY;
+                const newX = Math.max(0, Math.min(legendDragRef.current.origX + dx, parentRect.width - elRect.width));
+                const newY = Math.max(0, Math.min(legendDragRef.current.origY + dy, parentRect.height - elRect.height));
+                setLegendPos({ x: newX, y: newY });
+              }}
+              onPointerUp={(e) => {
+                if (!legendDragRef.current) return;
+                (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
+                legendDragRef.current = null;
+              }}
+            >
+              {legendCollapsed ? (
+                <button
+                  onClick={() => setLegendCollapsed(false)}
+                  className="flex items-center gap-1 px-1"
+                  aria-label="Expand legend"
+                >
+                  <div
+                    className="h-3 w-8 rounded-sm"
+                    style={{
+                      background: `linear-gradient(to right, ${colorScale.stops.map((stop) => stop.color).join(", ")})`,
+                    }}
+                  />
+                  <span className="text-[10px] text-gray-500">▲</span>
+                </button>
+              ) : (
+                <>
+                  <div className="flex justify-end mb-1">
+                    <button
+                      onClick={() => setLegendCollapsed(true)}
+                      className="text-gray-400 hover:text-gray-600 text-xs leading-none px-1"
+                      aria-label="Collapse legend"
+                    >
+                      −
+                    </button>
+                  </div>
+                  <select
+                    aria-label="Map metric"
+                    value={choroplethMetric}
+                    onChange={(e) => setChoroplethMetric(e.target.value as ChoroplethMetric)}
+                    className="w-full mb-2 rounded border border-gray-300 bg-white px-1.5 py-1 text-xs"
+                  >
+                    {CHOROPLETH_METRICS.map((metric) => (
+                      <option
+                        key={metric}
+                        value={metric}
+                        disabled={!metricInputs[METRIC_DEFS[metric].requires ?? "none"]}
+                      >
+                        {METRIC_DEFS[metric].label}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="flex gap-1 mb-2">
+                    <select
+                      aria-label="Classification"
+                      value={classification}
+                      onChange={(e) => setClassification(e.target.value as ClassificationScheme)}
+                      className="w-1/2 rounded border border-gray-300 bg-white px-1 py-0.5 text-[10px]"
+                    >
+                      {CLASSIFICATION_SCHEMES.map((scheme) => (
+                        <option key={scheme} value={scheme}>
+                          {CLASSIFICATION_LABELS[scheme]}
+                        </option>
+                      ))}
+                    </select>
+                    <select
+                      aria-label="Color palette"
+                      value={palette ?? ""}
+                      onChange={(e) => setPalette((e.target.value || null) as PaletteName | null)}
+                      className="w-1/2 rounded border border-gray-300 bg-white px-1 py-0.5 text-[10px]"
+                    >
+                      <option value="">Metric default</option>
+                      {(["diverging", "sequential"] as const).map((kind) => (
+                        <optgroup key={kind} label={kind === "diverging" ? "Diverging" : "Sequential"}>
+                          {PALETTE_NAMES.filter((name) => PALETTES[name].kind === kind).map((name) => (
+                            <option key={name} value={name}>
+                              {PALETTES[name].label}
+                              {PALETTES[name].colorblindSafe ? " (colorblind-safe)" : ""}
+                            </option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-0.5">
+                    {colorScale.stops.map((stop) => (
+                      <div key={stop.color} className="flex flex-col items-center">
+                        <div
+                          className="w-6 h-3"
+                          style={{ backgroundColor: stop.color }}
+                        />
+                        <span className="text-[10px] text-gray-600 mt-0.5">
+                          {Number.isFinite(stop.threshold) ? metricDef.format(stop.threshold) : "\u00a0"}
+                        </span>
+                      </div>
+                    ))}
+                    {colorScale.maxLabel && (
+                      <span className="text-[10px] text-gray-600 ml-0.5">{colorScale.maxLabel}</span>
+                    )}
+                  </div>
+                  <div className="text-[10px] text-gray-500 mt-1 leading-tight">
+                    {metricDef.legend({
+                      tenure: choroplethData.tenure,
+                      bedroomLabel: BEDROOM_LABELS[bedrooms],
+                      householdSize,
+                      peerGroup: choroplethData.peerGroup,
+                      homePrice: computed?.ownership?.homePrice ?? null,
+                      customRent,
+                    })}
+                  </div>
+                  <div className="text-[10px] text-gray-500 mt-1.5">
+                    Export:{" "}
+                    {CHOROPLETH_EXPORT_FORMATS.map((format, i) => (
+                      <span key={format}>
+                        {i > 0 && " \u00B7 "}
+                        <button
+                          onClick={() => handleExport(format)}
+                          className="text-blue-600 hover:underline"
+                        >
+                          {EXPORT_FORMAT_LABELS[format]}
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className={`${compareMode ? "md:w-[40rem]" : "md:w-96"} p-4 overflow-y-auto bg-gray-50`}>
+          {(rawData || pins.length > 0) && (
+            <div className="flex items-center justify-between mb-2 text-xs">
+              {compareMode ? (
+                <button onClick={() => setCompareMode(false)} className="text-blue-600 hover:underline">
+                  &larr; Back to details
+                </button>
+              ) : (
+                <button
+                  onClick={handlePin}
+                  disabled={!canPin}
+                  className="text-blue-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                >
+                  {isPinned ? "Pinned" : `Pin to compare (${pins.length}/${MAX_PINS})`}
+                </button>
+              )}
+              {!compareMode && pins.length > 0 && (
+                <button onClick={() => setCompareMode(true)} className="text-blue-600 hover:underline">
+                  Compare {pins.length} pinned &rarr;
+                </button>
+              )}
+            </div>
+          )}
+          {compareMode ? (
+            <ComparePanel
+              locations={comparedLocations}
+              householdSize={householdSize}
+              bedrooms={bedrooms}
+              onHouseholdSizeChange={setHouseholdSize}
+              onBedroomsChange={setBedrooms}
+              onRemove={handleUnpin}
+            />
+          ) : (
+            <ResultsPanel
+              rawData={rawData}
+              computed={computed}
+              error={error}
+              isLoading={isLoading}
+              householdSize={householdSize}
+              bedrooms={bedrooms}
+              onHouseholdSizeChange={setHouseholdSize}
+              onBedroomsChange={setBedrooms}
+              estimator={estimator}
+              onEstimatorChange={handleEstimatorChange}
+              peers={peers}
+              onPeersChange={handlePeersChange}
+              tenure={tenure}
+              onTenureChange={setTenure}
+              mortgageParams={mortgageParams}
+              onMortgageParamsChange={setMortgageParams}
+              customRent={customRent}
+              onCustomRentChange={handleCustomRentChange}
+              pdfHref={pdfHref}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  computeLihtcTable,
+  incomeAveraging,
+  imputedHouseholdSize,
+  LIHTC_AMI_LEVELS,
+  INCOME_AVERAGING_MAX,
+} from "@/lib/lihtc";
+import { IncomeDistributionInput, IncomeEstimatorMethod } from "@/lib/bracket-math";
+import { MtspIncomeLimits } from "@/lib/hud-api";
+import { BEDROOM_LABELS, formatCurrency } from "@/lib/format";
+import { describePeerGroup, PeerGroup } from "@/lib/peer-group";
+import type { MsaIncomeDistribution } from "@/lib/msa-percentile";
+
+interface LihtcPanelProps {
+  mtspIncomeLimits: MtspIncomeLimits | null;
+  section8VeryLow: number[];
+  hudYear: string;
+  tract: IncomeDistributionInput;
+  msaIncome: MsaIncomeDistribution | null;
+  peerGroup: PeerGroup | null;
+  estimator: IncomeEstimatorMethod;
+}
+
+export default function LihtcPanel({
+  mtspIncomeLimits,
+  section8VeryLow,
+  hudYear,
+  tract,
+  msaIncome,
+  peerGroup,
+  estimator,
+}: LihtcPanelProps) {
+  const [utilityAllowances, setUtilityAllowances] = useState<number[]>([0, 0, 0, 0, 0]);
+  const [unitsByAmi, setUnitsByAmi] = useState<Record<number, number>>({});
+
+  const veryLow = mtspIncomeLimits?.veryLow ?? section8VeryLow;
+
+  const table = useMemo(() => {
+    const msa = msaIncome
+      ? { totalHouseholds: msaIncome.totalHouseholds, bracketCounts: msaIncome.bracketCounts, options: { method: estimator } }
+      : null;
+    return computeLihtcTable(veryLow, utilityAllowances, tract, msa);
+  }, [veryLow, utilityAllowances, tract, msaIncome, estimator]);
+
+  const averaging = incomeAveraging(unitsByAmi);
+
+  return (
+    <div className="space-y-4">
+      {/* Utility allowances */}
+      <div>
+        <p className="block text-xs font-medium text-gray-600 mb-1">
+          Utility Allowance ($/mo)
+        </p>
+        <div className="grid grid-cols-5 gap-1">
+          {BEDROOM_LABELS.map((label, i) => (
+            <label key={label} className="text-[10px] text-gray-500">
+              {label}
+              <input
+                type="number"
+                min={0}
+                value={utilityAllowances[i] || ""}
+                placeholder="0"
+                onChange={(e) => {
+                  const next = [...utilityAllowances];
+                  next[i] = Math.max(0, Number(e.target.value) || 0);
+                  setUtilityAllowances(next);
+                }}
+                className="w-full rounded border border-gray-300 px-1 py-1 text-xs"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Max rent grid */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">
+          Max LIHTC Rents by Bedroom and AMI Level
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-[10px] border-collapse">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="text-left px-1 py-1.5 font-medium text-gray-600">AMI</th>
+                {BEDROOM_LABELS.map((label, br) => (
+                  <th key={label} className="text-right px-1 py-1.5 font-medium text-gray-600">
+                    {label}
+                    <span className="block font-normal text-gray-400">
+                      {imputedHouseholdSize(br)} pp
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {LIHTC_AMI_LEVELS.map((ami, col) => (
+                <tr
+                  key={ami}
+                  className={ami === INCOME_AVERAGING_MAX ? "bg-purple-50" : "even:bg-gray-50"}
+                >
+                  <td className="px-1 py-1.5 text-gray-700 font-medium">{ami}%</td>
+                  {table.map((row) => {
+                    const cell = row[col];
+                    return (
+                      <td key={cell.bedrooms} className="px-1 py-1.5 text-right text-gray-700">
+                        <span className="font-medium">{formatCurrency(cell.netRent)}</span>
+                        {cell.netRent !== cell.maxGrossRent && (
+                          <span className="block text-gray-400">
+                            {formatCurrency(cell.maxGrossRent)} gross
+                          </span>
+                        )}
+                        <span className="block text-amber-700">
+                          T {cell.tractPercentCanOccupy}%
+                          {cell.msaPercentCanOccupy !== null
+                            ? ` · M ${cell.msaPercentCanOccupy}%`
+                            : ""}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          Gross rent = 30% of the income limit for the imputed household size
+          (1.5 persons per bedroom, 1 for a studio); net rent subtracts the
+          utility allowance. T / M = % of tract households
+          {peerGroup ? ` / of households in ${describePeerGroup(peerGroup)}` : ""} who
+          could occupy the unit: income at or below the limit, with gross rent ≤ 40%
+          of income.
+          Limits: {mtspIncomeLimits
+            ? `HUD MTSP (${mtspIncomeLimits.year})`
+            : `HUD Section 8 very low income (${hudYear}); MTSP limits unavailable`}.
+        </p>
+      </div>
+
+      {/* Income averaging */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Income Averaging</h3>
+        <div className="grid grid-cols-7 gap-1">
+          {LIHTC_AMI_LEVELS.map((ami) => (
+            <label key={ami} className="text-[10px] text-gray-500">
+              {ami}%
+              <input
+                type="number"
+                min={0}
+                value={unitsByAmi[ami] || ""}
+                placeholder="0"
+                onChange={(e) =>
+                  setUnitsByAmi({ ...unitsByAmi, [ami]: Math.max(0, Number(e.target.value) || 0) })
+                }
+                className="w-full rounded border border-gray-300 px-1 py-1 text-xs"
+              />
+            </label>
+          ))}
+        </div>
+        {averaging.averageAmi !== null ? (
+          <p
+            className={`text-xs mt-1 font-medium ${
+              averaging.compliant ? "text-green-700" : "text-red-700"
+            }`}
+          >
+            {averaging.totalUnits} units averaging {averaging.averageAmi}% AMI
+            {averaging.compliant
+              ? ` — meets the ${INCOME_AVERAGING_MAX}% average income test`
+              : ` — exceeds the ${INCOME_AVERAGING_MAX}% average income test`}
+          </p>
+        ) : (
+          <p className="text-xs text-gray-400 mt-1">
+            Enter unit counts per designation to check the average income test.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,8 +4,15 @@ import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvents } from "re
 import L from "leaflet";
 import { useEffect, useRef, useMemo, useCallback } from "react";
 import * as topojsonClient from "topojson-client";
-import { computeAffordabilityPct } from "@/lib/bracket-math";
-import type { ChoroplethResponse } from "@/app/page";
+import {
+  CHOROPLETH_METRICS,
+  METRIC_DEFS,
+  colorFor,
+  ChoroplethMetric,
+  ColorStop,
+  TractMetrics,
+} from "@/lib/choropleth-metrics";
+import type { ChoroplethResponse } from "@/lib/api-schema";
 import type { Topology } from "topojson-specification";
 
 // Fix default marker icon issue with webpack
@@ -22,6 +29,16 @@ const defaultIcon = L.icon({
 
 L.Marker.prototype.options.icon = defaultIcon;
 
+function pinIcon(n: number): L.DivIcon {
+  return L.divIcon({
+    className: "",
+    html: `<div class="flex h-6 w-6 items-center justify-center rounded-full border-2 border-white bg-blue-600 text-xs font-bold text-white shadow">${n}</div>`,
+    iconSize: [24, 24],
+    iconAnchor: [12, 12],
+    popupAnchor: [0, -12],
+  });
+}
+
 interface MapProps {
   center: [number, number];
   markerPosition: [number, number] | null;
@@ -29,32 +46,26 @@ interface MapProps {
   onMapClick?: (lat: number, lng: number) => void;
   choroplethData?: ChoroplethResponse | null;
   choroplethLoading?: boolean;
-  bedroomIndex?: number;
   searchedTractFips?: string;
-  fallbackFmr?: number[] | null;
-  choroplethMetric?: "affordability" | "percentile";
+  // Per-tract metric values, computed from choroplethData by the page
+  tractMetrics?: Map<string, TractMetrics>;
+  choroplethMetric?: ChoroplethMetric;
+  colorStops?: ColorStop[];
+  // Locations pinned for comparison, numbered in order
+  pins?: { position: [number, number]; label: string }[];
+  // Zoom to the choropleth's tracts when they load, for views with no marker
+  fitToChoropleth?: boolean;
 }
 
-// Color scale: 5-class diverging red → green
-const COLOR_STOPS = [
-  { threshold: 0, color: "#d73027" },
-  { threshold: 20, color: "#fc8d59" },
-  { threshold: 40, color: "#fee08b" },
-  { threshold: 60, color: "#91cf60" },
-  { threshold: 80, color: "#1a9850" },
-];
-
-function getColor(value: number | null): string {
-  if (value === null) return "#cccccc";
-  for (let i = COLOR_STOPS.length - 1; i >= 0; i--) {
-    if (value >= COLOR_STOPS[i].threshold) return COLOR_STOPS[i].color;
-  }
-  return COLOR_STOPS[0].color;
-}
-
-interface TractMetrics {
-  affordability: number;
-  percentile: number;
+function tooltipHtml(geoid: string, metrics: TractMetrics, active: ChoroplethMetric): string {
+  const lines = CHOROPLETH_METRICS.flatMap((metric) => {
+    const value = metrics[metric];
+    if (value === null) return [];
+    const def = METRIC_DEFS[metric];
+    const line = `${def.label}: ${def.format(value)}`;
+    return [metric === active ? `<b>${line}</b>` : line];
+  });
+  return [`Tract ${geoid}`, ...lines].join("<br/>");
 }
 
 function FlyToMarker({ position }: { position: [number, number] }) {
@@ -65,6 +76,16 @@ function FlyToMarker({ position }: { position: [number, number] }) {
   return null;
 }
 
+// Once per geometry, so restyling the layer doesn't move the view
+function FitToGeoJson({ geojson }: { geojson: GeoJSON.FeatureCollection }) {
+  const map = useMap();
+  useEffect(() => {
+    const bounds = L.geoJSON(geojson).getBounds();
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [8, 8] });
+  }, [map, geojson]);
+  return null;
+}
+
 function MapClickHandler({ onClick }: { onClick: (lat: number, lng: number) => void }) {
   useMapEvents({
     click(e) {
@@ -77,12 +98,20 @@ function MapClickHandler({ onClick }: { onClick: (lat: number, lng: number) => v
 interface ChoroplethLayerProps {
   geojson: GeoJSON.FeatureCollection;
   tractMetrics: Map<string, TractMetrics>;
-  metric: "affordability" | "percentile";
+  metric: ChoroplethMetric;
+  colorStops: ColorStop[];
   searchedTractFips?: string;
   onTractClick?: (lat: number, lng: number) => void;
 }
 
-function ChoroplethLayer({ geojson, tractMetrics, metric, searchedTractFips, onTractClick }: ChoroplethLayerProps) {
+function ChoroplethLayer({
+  geojson,
+  tractMetrics,
+  metric,
+  colorStops,
+  searchedTractFips,
+  onTractClick,
+}: ChoroplethLayerProps) {
   const map = useMap();
   const layerRef = useRef<L.GeoJSON | null>(null);
 
@@ -93,13 +122,13 @@ function ChoroplethLayer({ geojson, tractMetrics, metric, searchedTractFips, onT
     const isSearched = geoid === searchedTractFips;
 
     return {
-      fillColor: getColor(value),
+      fillColor: colorFor(colorStops, value),
       weight: isSearched ? 3 : 0.5,
       opacity: 1,
       color: isSearched ? "#000000" : "#666666",
       fillOpacity: 0.6,
     };
-  }, [tractMetrics, metric, searchedTractFips]);
+  }, [tractMetrics, metric, colorStops, searchedTractFips]);
 
   // Create/replace the GeoJSON layer when geometry changes (new MSA)
   useEffect(() => {
@@ -116,8 +145,7 @@ function ChoroplethLayer({ geojson, tractMetrics, metric, searchedTractFips, onT
           l.bringToFront();
 
           if (metrics) {
-            const tooltipContent = `Tract ${geoid}<br/>Can afford SAFMR: ${metrics.affordability}%<br/>MSA percentile: ${metrics.percentile}%`;
-            l.bindTooltip(tooltipContent).openTooltip();
+            l.bindTooltip(tooltipHtml(geoid, metrics, metric)).openTooltip();
           }
         });
         featureLayer.on("mouseout", function (e) {
@@ -152,67 +180,21 @@ export default function MapComponent({
   markerLabel,
   onMapClick,
   choroplethData,
-  bedroomIndex = 2,
   searchedTractFips,
-  fallbackFmr,
+  tractMetrics,
   choroplethMetric = "affordability",
+  colorStops = [],
+  pins = [],
+  fitToChoropleth = false,
 }: MapProps) {
-  // Compute tract metrics client-side
-  const { geojson, tractMetrics } = useMemo(() => {
-    if (!choroplethData?.geo || !choroplethData?.tracts) {
-      return { geojson: null, tractMetrics: new Map<string, TractMetrics>() };
-    }
-
-    // Convert TopoJSON → GeoJSON
+  // Convert TopoJSON → GeoJSON
+  const geojson = useMemo(() => {
+    if (!choroplethData?.geo) return null;
     const topo = choroplethData.geo as Topology;
     const objectKey = Object.keys(topo.objects)[0];
-    if (!objectKey) return { geojson: null, tractMetrics: new Map<string, TractMetrics>() };
-    const fc = topojsonClient.feature(topo, topo.objects[objectKey]) as GeoJSON.FeatureCollection;
-
-    // Build a map of tract GEOID → metrics
-    const metrics = new Map<string, TractMetrics>();
-    const allPcts: { geoid: string; pct: number }[] = [];
-
-    for (const tract of choroplethData.tracts) {
-      const [geoid, totalHH, brackets, safmrArray] = tract;
-
-      // Use tract's own SAFMR if available, otherwise fall back to metro-level FMR
-      const fmrArray = safmrArray ?? fallbackFmr;
-      if (!fmrArray) continue;
-
-      const fmr = fmrArray[bedroomIndex];
-      if (!fmr) continue;
-
-      const threshold = (fmr * 12) / 0.3;
-      const pct = computeAffordabilityPct(threshold, totalHH, brackets);
-      allPcts.push({ geoid, pct });
-    }
-
-    // Sort for percentile computation
-    const sorted = [...allPcts].sort((a, b) => a.pct - b.pct);
-    const n = sorted.length;
-
-    // Build rank map: for each unique pct value, count how many are below
-    // Use binary search for efficiency
-    for (const item of allPcts) {
-      // Count how many tracts have a strictly lower affordability %
-      let lo = 0, hi = n;
-      while (lo < hi) {
-        const mid = (lo + hi) >> 1;
-        if (sorted[mid].pct < item.pct) lo = mid + 1;
-        else hi = mid;
-      }
-      const belowCount = lo;
-      const percentile = n > 0 ? Math.round((belowCount / n) * 1000) / 10 : 0;
-
-      metrics.set(item.geoid, {
-        affordability: item.pct,
-        percentile,
-      });
-    }
-
-    return { geojson: fc, tractMetrics: metrics };
-  }, [choroplethData, bedroomIndex, fallbackFmr]);
+    if (!objectKey) return null;
+    return topojsonClient.feature(topo, topo.objects[objectKey]) as GeoJSON.FeatureCollection;
+  }, [choroplethData]);
 
   return (
     <MapContainer
@@ -227,15 +209,22 @@ export default function MapComponent({
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
       {onMapClick && <MapClickHandler onClick={onMapClick} />}
-      {geojson && tractMetrics.size > 0 && (
+      {geojson && tractMetrics && tractMetrics.size > 0 && colorStops.length > 0 && (
         <ChoroplethLayer
           geojson={geojson}
           tractMetrics={tractMetrics}
           metric={choroplethMetric}
+          colorStops={colorStops}
           searchedTractFips={searchedTractFips}
           onTractClick={onMapClick}
         />
       )}
+      {fitToChoropleth && geojson && <FitToGeoJson geojson={geojson} />}
+      {pins.map((pin, i) => (
+        <Marker key={`${i}-${pin.label}`} position={pin.position} icon={pinIcon(i + 1)} zIndexOffset={500}>
+          <Popup>{pin.label}</Popup>
+        </Marker>
+      ))}
       {markerPosition && (
         <>
           <FlyToMarker position={markerPosition} />
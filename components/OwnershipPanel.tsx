@@ -0,0 +1,200 @@
+"use client";
+
+import {
+  maxAffordablePrice,
+  MAX_HOUSING_COST_RATIO,
+  HomeValueData,
+  MortgageParams,
+  OwnershipResult,
+} from "@/lib/mortgage";
+import { HouseholdTenure } from "@/lib/bracket-math";
+import { formatCurrency } from "@/lib/format";
+import { describePeerGroup, PeerGroup } from "@/lib/peer-group";
+
+interface OwnershipPanelProps {
+  ownership: OwnershipResult | null;
+  homeValue: HomeValueData | null;
+  params: MortgageParams;
+  onParamsChange: (params: MortgageParams) => void;
+  tractMedian: number | null;
+  tenure: HouseholdTenure;
+  peerGroup: PeerGroup | null;
+}
+
+// Numeric inputs, in display order
+const PARAM_FIELDS: { key: Exclude<keyof MortgageParams, "homePrice">; label: string; step: number }[] = [
+  { key: "interestRate", label: "Rate (%)", step: 0.125 },
+  { key: "downPaymentPct", label: "Down (%)", step: 1 },
+  { key: "propertyTaxRate", label: "Tax (%/yr)", step: 0.05 },
+  { key: "insuranceAnnual", label: "Insurance ($/yr)", step: 100 },
+  { key: "pmiRate", label: "PMI (%/yr)", step: 0.05 },
+  { key: "termYears", label: "Term (yrs)", step: 5 },
+];
+
+export default function OwnershipPanel({
+  ownership,
+  homeValue,
+  params,
+  onParamsChange,
+  tractMedian,
+  tenure,
+  peerGroup,
+}: OwnershipPanelProps) {
+  const medianValue = homeValue?.tractMedian ?? homeValue?.msaMedian ?? null;
+
+  return (
+    <div className="space-y-4">
+      {/* Purchase inputs */}
+      <div className="grid grid-cols-3 gap-2">
+        <label className="col-span-3 text-xs font-medium text-gray-600">
+          Home Price
+          <input
+            type="number"
+            min={0}
+            step={5000}
+            value={params.homePrice ?? ""}
+            placeholder={medianValue !== null ? `${medianValue} (median)` : "Enter a price"}
+            onChange={(e) =>
+              onParamsChange({
+                ...params,
+                homePrice: e.target.value === "" ? null : Math.max(0, Number(e.target.value) || 0),
+              })
+            }
+            className="mt-1 w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+          />
+        </label>
+        {PARAM_FIELDS.map((field) => (
+          <label key={field.key} className="text-[10px] text-gray-500">
+            {field.label}
+            <input
+              type="number"
+              min={0}
+              step={field.step}
+              value={params[field.key]}
+              onChange={(e) =>
+                onParamsChange({ ...params, [field.key]: Math.max(0, Number(e.target.value) || 0) })
+              }
+              className="w-full rounded border border-gray-300 px-1 py-1 text-xs"
+            />
+          </label>
+        ))}
+      </div>
+
+      {!ownership ? (
+        <p className="text-xs text-gray-500">
+          No ACS home value data for this tract. Enter a home price to estimate
+          ownership costs.
+        </p>
+      ) : (
+        <>
+          {/* Payment and income needed */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="bg-green-50 rounded-lg p-4">
+              <p className="text-xs text-green-600 font-medium uppercase tracking-wide">
+                Monthly PITI
+              </p>
+              <p className="text-2xl font-bold text-green-900">
+                {formatCurrency(ownership.piti.total)}
+                <span className="text-sm font-normal">/mo</span>
+              </p>
+              <p className="text-xs text-green-600">
+                on a {formatCurrency(ownership.homePrice)} home
+                {params.homePrice === null ? " (median value)" : ""}
+              </p>
+            </div>
+
+            <div className="bg-blue-50 rounded-lg p-4">
+              <p className="text-xs text-blue-600 font-medium uppercase tracking-wide">
+                Income Needed
+              </p>
+              <p className="text-2xl font-bold text-blue-900">
+                {formatCurrency(Math.round(ownership.incomeNeeded))}
+              </p>
+              <p className="text-xs text-blue-600">
+                for PITI at {MAX_HOUSING_COST_RATIO * 100}% of income
+              </p>
+            </div>
+          </div>
+
+          <table className="w-full text-xs">
+            <tbody>
+              {[
+                ["Principal & interest", ownership.piti.principalAndInterest],
+                ["Property taxes", ownership.piti.taxes],
+                ["Homeowners insurance", ownership.piti.insurance],
+                ["Mortgage insurance", ownership.piti.pmi],
+              ].map(([label, value]) => (
+                <tr key={label} className="even:bg-gray-50">
+                  <td className="px-2 py-1 text-gray-600">{label}</td>
+                  <td className="px-2 py-1 text-right text-gray-700">
+                    {formatCurrency(value as number)}/mo
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* % who can afford */}
+          <div className="bg-amber-50 rounded-lg p-4">
+            <p className="text-xs text-amber-600 font-medium uppercase tracking-wide">
+              Households That Can Afford This Home
+            </p>
+            <p className="text-3xl font-bold text-amber-900">
+              {ownership.tractPercentCanAfford}%
+            </p>
+            <p className="text-xs text-amber-700">
+              of {tenure === "all" ? "" : `${tenure} `}households in this tract earn{" "}
+              {formatCurrency(Math.round(ownership.incomeNeeded))} or more
+            </p>
+            {ownership.msaPercentCanAfford !== null && (
+              <p className="text-xs text-amber-700 mt-1 font-medium">
+                {ownership.msaPercentCanAfford}% of households in{" "}
+                {peerGroup ? describePeerGroup(peerGroup) : "the wider area"}
+              </p>
+            )}
+            {ownership.percentHomesAtOrBelowPrice !== null && (
+              <p className="text-xs text-amber-500 mt-1 italic">
+                ~{ownership.percentHomesAtOrBelowPrice}% of owner-occupied homes in
+                this tract are valued at or below this price (B25075)
+              </p>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Context: home values */}
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-gray-100 rounded-lg p-4">
+          <p className="text-xs text-gray-600 font-medium uppercase tracking-wide">
+            Median Home Value
+          </p>
+          <p className="text-xl font-bold text-gray-900">
+            {homeValue?.tractMedian != null ? formatCurrency(homeValue.tractMedian) : "—"}
+          </p>
+          <p className="text-xs text-gray-600">
+            Tract
+            {homeValue?.msaMedian != null
+              ? ` · metro ${formatCurrency(homeValue.msaMedian)}`
+              : ""}
+          </p>
+        </div>
+
+        <div className="bg-purple-50 rounded-lg p-4">
+          <p className="text-xs text-purple-600 font-medium uppercase tracking-wide">
+            Max Affordable Price
+          </p>
+          <p className="text-xl font-bold text-purple-900">
+            {tractMedian !== null ? formatCurrency(maxAffordablePrice(tractMedian, params)) : "—"}
+          </p>
+          <p className="text-xs text-purple-600">at the tract median income</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        PITI = principal, interest, property taxes, insurance and mortgage
+        insurance (charged below 20% down). Home values from ACS 5-Year
+        Estimates (Tables B25075, B25077).
+      </p>
+    </div>
+  );
+}
@@ -1,66 +1,65 @@
 "use client";
 
-import { IncomeBracket } from "@/lib/census-acs";
-import { AmiTableRow } from "@/app/page";
-
-interface RawApiResponse {
-  incomeThreshold: number;
-  monthlyRent: number;
-  percentCanAfford: number;
-  householdsAboveThreshold: number;
-  totalHouseholds: number;
-  areaName: string;
-  incomeLimitsBySize: number[];
-  fmrByBedroom: number[];
-  medianBySize: (number | null)[];
-  brackets: IncomeBracket[];
-  medianIncome: number;
-  lat: number;
-  lng: number;
-  matchedAddress: string;
-  stateFips: string;
-  countyFips: string;
-  tractFips: string;
-  hudYear: string;
-  fmrYear: string;
-  isSafmr: boolean;
-  fmrZipCode: string | null;
-  msaPercentile: number | null;
-  msaTractCount: number | null;
-  cbsaName: string | null;
-}
-
-interface ComputedResult {
-  incomeThreshold: number;
-  monthlyRent: number;
-  percentCanAfford: number;
-  householdsAboveThreshold: number;
-  totalHouseholds: number;
-  sizeAdjustedAmi: number;
-  tractMedian: number | null;
-  amiTable: AmiTableRow[];
-}
+import { useState } from "react";
+import {
+  ESTIMATOR_METHODS,
+  ESTIMATOR_LABELS,
+  TENURES,
+  TENURE_LABELS,
+  HouseholdTenure,
+  IncomeEstimatorMethod,
+} from "@/lib/bracket-math";
+import { isLowReliability } from "@/lib/moe";
+import { MAX_HOUSEHOLD_SIZE } from "@/lib/hud-api";
+import { MortgageParams } from "@/lib/mortgage";
+import LihtcPanel from "@/components/LihtcPanel";
+import { BEDROOM_LABELS, formatCurrency } from "@/lib/format";
+import OwnershipPanel from "@/components/OwnershipPanel";
+import TrendPanel from "@/components/TrendPanel";
+import AmiTable from "@/components/AmiTable";
+import {
+  describePeerGroup,
+  PEER_GEOGRAPHIES,
+  PEER_GEOGRAPHY_LABELS,
+  PeerGeography,
+} from "@/lib/peer-group";
+import type { LookupResponse } from "@/lib/api-schema";
+import type { RecalculatedLookup } from "@/lib/recalculate";
 
 interface ResultsPanelProps {
-  rawData: RawApiResponse | null;
-  computed: ComputedResult | null;
+  rawData: LookupResponse | null;
+  computed: RecalculatedLookup | null;
   error: string | null;
   isLoading: boolean;
   householdSize: number;
   bedrooms: number;
   onHouseholdSizeChange: (size: number) => void;
   onBedroomsChange: (bedrooms: number) => void;
+  estimator: IncomeEstimatorMethod;
+  onEstimatorChange: (method: IncomeEstimatorMethod) => void;
+  peers: PeerGeography;
+  onPeersChange: (peers: PeerGeography) => void;
+  tenure: HouseholdTenure;
+  onTenureChange: (tenure: HouseholdTenure) => void;
+  mortgageParams: MortgageParams;
+  onMortgageParamsChange: (params: MortgageParams) => void;
+  // Asking rent for the current bedroom count; null uses the FMR
+  customRent: number | null;
+  onCustomRentChange: (rent: number | null) => void;
+  // Printable report for the current lookup, when there is one
+  pdfHref: string | null;
+  // Headline figures only, for the embed widget: no controls, tabs or AMI table
+  compact?: boolean;
 }
 
-const BEDROOM_LABELS = ["Studio", "1 BR", "2 BR", "3 BR", "4 BR"];
+type ResultsTab = "rent" | "lihtc" | "ownership" | "trend";
 
-function formatCurrency(n: number): string {
-  return n.toLocaleString("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 0,
-  });
-}
+const TAB_LABELS: Record<ResultsTab, string> = {
+  rent: "Market Rent",
+  lihtc: "LIHTC",
+  ownership: "Ownership",
+  trend: "Trend",
+};
 
 export default function ResultsPanel({
   rawData,
@@ -71,7 +70,21 @@ export default function ResultsPanel({
   bedrooms,
   onHouseholdSizeChange,
   onBedroomsChange,
+  estimator,
+  onEstimatorChange,
+  peers,
+  onPeersChange,
+  tenure,
+  onTenureChange,
+  mortgageParams,
+  onMortgageParamsChange,
+  customRent,
+  onCustomRentChange,
+  pdfHref,
+  compact = false,
 }: ResultsPanelProps) {
+  const [tab, setTab] = useState<ResultsTab>("rent");
+
   if (isLoading) {
     return (
       <div className="bg-white rounded-lg shadow p-6 animate-pulse">
@@ -103,207 +116,454 @@ export default function ResultsPanel({
   }
 
   const tractId = `${rawData.stateFips}${rawData.countyFips}${rawData.tractFips}`;
+  const isCustomRent = computed.rentSource === "custom";
+  const fmrLabel = rawData.isSafmr ? "SAFMR" : "FMR";
+
+  // Aggregate reports carry the panel's unit and household choices along
+  const reportHref = (level: string, area: Record<string, string>) =>
+    `/report?${new URLSearchParams({
+      level,
+      ...area,
+      bedrooms: String(bedrooms),
+      householdSize: String(householdSize),
+      estimator,
+    }).toString()}`;
 
   return (
-    <div className="bg-white rounded-lg shadow p-6 space-y-4">
+    <div className={`bg-white rounded-lg shadow space-y-4 ${compact ? "p-4" : "p-6"}`}>
       <div>
-        <h2 className="text-lg font-semibold text-gray-900">
+        <h2 className={`font-semibold text-gray-900 ${compact ? "text-base" : "text-lg"}`}>
           {rawData.matchedAddress}
         </h2>
         <p className="text-sm text-gray-500">
           Census Tract {tractId} &middot; {rawData.areaName}
         </p>
+        {!compact && (
+          <p className="text-xs text-gray-500 mt-1">
+            Reports:{" "}
+            <a
+              href={reportHref("county", { stateFips: rawData.stateFips, countyFips: rawData.countyFips })}
+              className="text-blue-600 hover:underline"
+            >
+              County
+            </a>
+            {" \u00B7 "}
+            {rawData.cbsaCode ? (
+              <>
+                <a
+                  href={reportHref("cbsa", { cbsa: rawData.cbsaCode })}
+                  className="text-blue-600 hover:underline"
+                >
+                  {rawData.peerGroup?.type === "micro" ? "Micro area" : "Metro"}
+                </a>
+                {" \u00B7 "}
+              </>
+            ) : null}
+            <a
+              href={reportHref("state", { stateFips: rawData.stateFips })}
+              className="text-blue-600 hover:underline"
+            >
+              State
+            </a>
+            {pdfHref && (
+              <>
+                {" \u00B7 "}
+                <a href={pdfHref} className="text-blue-600 hover:underline" download>
+                  Download PDF
+                </a>
+              </>
+            )}
+          </p>
+        )}
       </div>
 
-      {/* Dropdowns */}
-      <div className="grid grid-cols-2 gap-3">
-        <div>
-          <label
-            htmlFor="householdSize"
-            className="block text-xs font-medium text-gray-600 mb-1"
-          >
-            Household Size
-          </label>
-          <select
-            id="householdSize"
-            value={householdSize}
-            onChange={(e) => onHouseholdSizeChange(Number(e.target.value))}
-            className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-          >
-            {[1, 2, 3, 4, 5, 6, 7, 8].map((n) => (
-              <option key={n} value={n}>
-                {n} {n === 1 ? "person" : "persons"}
-              </option>
-            ))}
-          </select>
-        </div>
-        <div>
-          <label
-            htmlFor="bedrooms"
-            className="block text-xs font-medium text-gray-600 mb-1"
-          >
-            Bedroom Count
-          </label>
-          <select
-            id="bedrooms"
-            value={bedrooms}
-            onChange={(e) => onBedroomsChange(Number(e.target.value))}
-            className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-          >
-            {BEDROOM_LABELS.map((label, i) => (
-              <option key={i} value={i}>
-                {label}
-              </option>
+      {!compact && (
+        <>
+          {/* Dropdowns */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label
+                htmlFor="householdSize"
+                className="block text-xs font-medium text-gray-600 mb-1"
+              >
+                Household Size
+              </label>
+              <select
+                id="householdSize"
+                value={householdSize}
+                onChange={(e) => onHouseholdSizeChange(Number(e.target.value))}
+                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+              >
+                {Array.from({ length: MAX_HOUSEHOLD_SIZE }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>
+                    {n} {n === 1 ? "person" : "persons"}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label
+                htmlFor="bedrooms"
+                className="block text-xs font-medium text-gray-600 mb-1"
+              >
+                Bedroom Count
+              </label>
+              <select
+                id="bedrooms"
+                value={bedrooms}
+                onChange={(e) => onBedroomsChange(Number(e.target.value))}
+                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+              >
+                {BEDROOM_LABELS.map((label, i) => (
+                  <option key={i} value={i}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label
+                htmlFor="estimator"
+                className="block text-xs font-medium text-gray-600 mb-1"
+              >
+                Income Distribution Estimate
+              </label>
+              <select
+                id="estimator"
+                value={estimator}
+                onChange={(e) => onEstimatorChange(e.target.value as IncomeEstimatorMethod)}
+                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+              >
+                {ESTIMATOR_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {ESTIMATOR_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label
+                htmlFor="peers"
+                className="block text-xs font-medium text-gray-600 mb-1"
+              >
+                Rank Tracts Against
+              </label>
+              <select
+                id="peers"
+                value={peers}
+                onChange={(e) => onPeersChange(e.target.value as PeerGeography)}
+                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+              >
+                {PEER_GEOGRAPHIES.map((geography) => (
+                  <option key={geography} value={geography}>
+                    {PEER_GEOGRAPHY_LABELS[geography]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Household universe */}
+          <div>
+            <p className="block text-xs font-medium text-gray-600 mb-1">Households</p>
+            <div className="flex gap-1">
+              {TENURES.map((t) => (
+                <button
+                  key={t}
+                  onClick={() => onTenureChange(t)}
+                  disabled={t !== "all" && !rawData.incomeByTenure}
+                  className={`flex-1 px-2 py-1 rounded text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+                    tenure === t
+                      ? "bg-blue-600 text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {TENURE_LABELS[t]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Mode tabs */}
+          <div className="flex border-b border-gray-200 text-xs">
+            {(Object.keys(TAB_LABELS) as ResultsTab[]).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-3 py-1.5 font-medium -mb-px border-b-2 ${
+                  tab === t
+                    ? "border-blue-600 text-blue-700"
+                    : "border-transparent text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {TAB_LABELS[t]}
+              </button>
             ))}
-          </select>
-        </div>
-      </div>
+          </div>
+        </>
+      )}
 
-      {/* Fair Market Rent */}
-      <div className="grid grid-cols-2 gap-4">
-        <div className="bg-green-50 rounded-lg p-4">
-          <p className="text-xs text-green-600 font-medium uppercase tracking-wide">
-            {rawData.isSafmr ? "Small Area FMR" : "Fair Market Rent"} ({rawData.fmrYear})
-          </p>
-          <p className="text-2xl font-bold text-green-900">
-            {formatCurrency(computed.monthlyRent)}
-            <span className="text-sm font-normal">/mo</span>
-          </p>
-          <p className="text-xs text-green-600">
-            {BEDROOM_LABELS[bedrooms]} unit
-            {rawData.isSafmr && rawData.fmrZipCode
-              ? ` \u00B7 ZIP ${rawData.fmrZipCode}`
-              : ""}
-          </p>
-        </div>
+      {tab === "lihtc" && (
+        <LihtcPanel
+          mtspIncomeLimits={rawData.mtspIncomeLimits}
+          section8VeryLow={rawData.incomeLimits.veryLow}
+          hudYear={rawData.hudYear}
+          tract={computed.distribution}
+          msaIncome={rawData.msaIncome}
+          peerGroup={rawData.peerGroup}
+          estimator={estimator}
+        />
+      )}
 
-        <div className="bg-blue-50 rounded-lg p-4">
-          <p className="text-xs text-blue-600 font-medium uppercase tracking-wide">
-            Income Needed
-          </p>
-          <p className="text-2xl font-bold text-blue-900">
-            {formatCurrency(Math.round(computed.incomeThreshold))}
-          </p>
-          <p className="text-xs text-blue-600">
-            to afford {rawData.isSafmr ? "SAFMR" : "FMR"} at 30% of income
-          </p>
-        </div>
-      </div>
+      {tab === "ownership" && (
+        <OwnershipPanel
+          ownership={computed.ownership}
+          homeValue={rawData.homeValue}
+          params={mortgageParams}
+          onParamsChange={onMortgageParamsChange}
+          tractMedian={rawData.medianBySize[0]}
+          tenure={computed.tenure}
+          peerGroup={rawData.peerGroup}
+        />
+      )}
 
-      {/* % who can afford */}
-      <div className="bg-amber-50 rounded-lg p-4">
-        <p className="text-xs text-amber-600 font-medium uppercase tracking-wide">
-          Households That Can Afford This Rent
-        </p>
-        <p className="text-3xl font-bold text-amber-900">
-          {computed.percentCanAfford}%
-        </p>
-        <p className="text-xs text-amber-700">
-          ~{computed.householdsAboveThreshold.toLocaleString()} of{" "}
-          {computed.totalHouseholds.toLocaleString()} households in this tract
-          earn {formatCurrency(Math.round(computed.incomeThreshold))} or more
-        </p>
-        <p className="text-xs text-amber-500 mt-1 italic">
-          Based on all households in tract, regardless of size
-        </p>
-        {rawData.msaPercentile !== null && rawData.msaTractCount !== null && (
-          <p className="text-xs text-amber-700 mt-1 font-medium">
-            Higher than {rawData.msaPercentile}% of{" "}
-            {rawData.msaTractCount.toLocaleString()} tracts in{" "}
-            {rawData.cbsaName} metro
-            {rawData.isSafmr
-              ? " (each tract compared to its own local rent)"
-              : ""}
-          </p>
+      {tab === "trend" && (
+        <TrendPanel
+          stateFips={rawData.stateFips}
+          countyFips={rawData.countyFips}
+          tractFips={rawData.tractFips}
+          countySubFips={rawData.countySubFips}
+          zipCode={rawData.zipCode}
+          bedrooms={bedrooms}
+          estimator={estimator}
+        />
+      )}
+
+      {tab === "rent" && (
+        <>
+        {!compact && (
+          <div>
+            <label
+              htmlFor="customRent"
+              className="block text-xs font-medium text-gray-600 mb-1"
+            >
+              Asking Rent ({BEDROOM_LABELS[bedrooms]})
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                id="customRent"
+                type="number"
+                min={0}
+                step={25}
+                value={customRent ?? ""}
+                placeholder={`${computed.fmr.monthlyRent} (${fmrLabel})`}
+                onChange={(e) =>
+                  onCustomRentChange(
+                    e.target.value === "" ? null : Math.max(0, Number(e.target.value) || 0)
+                  )
+                }
+                className="w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+              />
+              {customRent !== null && (
+                <button
+                  onClick={() => onCustomRentChange(null)}
+                  className="text-xs text-blue-600 hover:underline whitespace-nowrap"
+                >
+                  Use {fmrLabel}
+                </button>
+              )}
+            </div>
+            <p className="text-[10px] text-gray-400 mt-0.5">
+              A proposed or actual rent replaces the {fmrLabel} here and on the map; each unit size keeps its own.
+            </p>
+          </div>
         )}
-      </div>
 
-      {/* Context: AMI and tract median */}
-      <div className="grid grid-cols-2 gap-4">
-        <div className="bg-purple-50 rounded-lg p-4">
-          <p className="text-xs text-purple-600 font-medium uppercase tracking-wide">
-            100% AMI ({rawData.hudYear})
-          </p>
-          <p className="text-xl font-bold text-purple-900">
-            {formatCurrency(computed.sizeAdjustedAmi)}
-          </p>
-          <p className="text-xs text-purple-600">
-            {householdSize}-person household
-          </p>
+        {/* Fair Market Rent, or the asking rent with the FMR for reference */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-green-50 rounded-lg p-4">
+            <p className="text-xs text-green-600 font-medium uppercase tracking-wide">
+              {isCustomRent
+                ? "Asking Rent"
+                : `${rawData.isSafmr ? "Small Area FMR" : "Fair Market Rent"} (${rawData.fmrYear})`}
+            </p>
+            <p className="text-2xl font-bold text-green-900">
+              {formatCurrency(computed.monthlyRent)}
+              <span className="text-sm font-normal">/mo</span>
+            </p>
+            <p className="text-xs text-green-600">
+              {BEDROOM_LABELS[bedrooms]} unit
+              {isCustomRent
+                ? ` \u00B7 ${fmrLabel} ${formatCurrency(computed.fmr.monthlyRent)}`
+                : rawData.isSafmr && rawData.fmrZipCode
+                  ? ` \u00B7 ZIP ${rawData.fmrZipCode}`
+                  : ""}
+            </p>
+          </div>
+
+          <div className="bg-blue-50 rounded-lg p-4">
+            <p className="text-xs text-blue-600 font-medium uppercase tracking-wide">
+              Income Needed
+            </p>
+            <p className="text-2xl font-bold text-blue-900">
+              {formatCurrency(Math.round(computed.incomeThreshold))}
+            </p>
+            <p className="text-xs text-blue-600">
+              to afford {isCustomRent ? "it" : fmrLabel} at 30% of income &middot;{" "}
+              {computed.rentAmiPercent}% AMI
+            </p>
+          </div>
         </div>
 
-        <div className="bg-gray-100 rounded-lg p-4">
-          <p className="text-xs text-gray-600 font-medium uppercase tracking-wide">
-            Tract Median Income
+        {/* % who can afford */}
+        <div className="bg-amber-50 rounded-lg p-4">
+          <p className="text-xs text-amber-600 font-medium uppercase tracking-wide">
+            Households That Can Afford This Rent
+          </p>
+          <p className="text-3xl font-bold text-amber-900">
+            {computed.percentCanAfford}%
+            {computed.percentCanAffordInterval && (
+              <span className="text-sm font-normal text-amber-700">
+                {" "}&plusmn;{computed.percentCanAffordInterval.moe}
+              </span>
+            )}
           </p>
-          <p className="text-xl font-bold text-gray-900">
-            {computed.tractMedian !== null
-              ? formatCurrency(computed.tractMedian)
-              : "\u2014"}
+          {computed.percentCanAffordInterval && (
+            <p className="text-xs text-amber-700">
+              90% interval: {computed.percentCanAffordInterval.low}% &ndash;{" "}
+              {computed.percentCanAffordInterval.high}%
+              {computed.percentCanAffordInterval.lowReliability && (
+                <span className="ml-1 px-1.5 py-0.5 rounded bg-red-100 text-red-700 font-medium">
+                  Low reliability
+                </span>
+              )}
+            </p>
+          )}
+          <p className="text-xs text-amber-700">
+            ~{computed.householdsAboveThreshold.toLocaleString()} of{" "}
+            {computed.totalHouseholds.toLocaleString()}{" "}
+            {computed.tenure === "all" ? "" : `${computed.tenure} `}households in
+            this tract earn {formatCurrency(Math.round(computed.incomeThreshold))} or more
           </p>
-          <p className="text-xs text-gray-600">
-            {computed.tractMedian !== null
-              ? `${householdSize >= 7 ? "7+" : householdSize}-person households (B19019)`
-              : `Too few ${householdSize >= 7 ? "7+" : householdSize}-person households in sample`}
+          <p className="text-xs text-amber-500 mt-1 italic">
+            {computed.tenure === "all"
+              ? "Based on all households in tract, regardless of size"
+              : `Based on ${computed.tenure}-occupied households in tract (B25118), regardless of size`}
+            {estimator === "linear"
+              ? "; all $200k+ households counted as able to afford"
+              : ` (${ESTIMATOR_LABELS[estimator].toLowerCase()} income estimate)`}
           </p>
+          {computed.msaPercentCanAfford !== null && (
+            <p className="text-xs text-amber-700 mt-1">
+              {computed.msaPercentCanAfford}% of households across{" "}
+              {rawData.peerGroup ? describePeerGroup(rawData.peerGroup) : "the area"} can afford
+              it
+            </p>
+          )}
+          {isCustomRent && (
+            <p className="text-xs text-amber-700 mt-1 border-t border-amber-200 pt-1">
+              {fmrLabel} reference: {formatCurrency(computed.fmr.monthlyRent)}/mo needs{" "}
+              {formatCurrency(Math.round(computed.fmr.incomeThreshold))}; {computed.fmr.percentCanAfford}%
+              of the tract can afford it
+            </p>
+          )}
+          {rawData.msaPercentile !== null && rawData.msaTractCount !== null && (
+            <p className="text-xs text-amber-700 mt-1 font-medium">
+              Higher than {rawData.msaPercentile}%
+              {rawData.msaPercentileLow !== null && rawData.msaPercentileHigh !== null
+                ? ` (90% interval ${rawData.msaPercentileLow}\u2013${rawData.msaPercentileHigh}%)`
+                : ""}{" "}
+              of{" "}
+              {rawData.msaTractCount.toLocaleString()} tracts in{" "}
+              {rawData.peerGroup ? describePeerGroup(rawData.peerGroup) : "the area"}
+              {rawData.isSafmr
+                ? " (each tract compared to its own local rent)"
+                : ""}
+              {computed.tenure !== "all" ? ", ranked on all households" : ""}
+              {isCustomRent ? `, ranked at the ${fmrLabel}` : ""}
+            </p>
+          )}
         </div>
-      </div>
 
-      {/* AMI Affordability Table */}
-      <div>
-        <h3 className="text-sm font-semibold text-gray-700 mb-2">
-          Affordability by AMI Level ({householdSize}-person household)
-        </h3>
-        <div className="overflow-x-auto">
-          <table className="w-full text-xs border-collapse">
-            <thead>
-              <tr className="bg-gray-100">
-                <th className="text-left px-2 py-1.5 font-medium text-gray-600">AMI %</th>
-                <th className="text-right px-2 py-1.5 font-medium text-gray-600">Income</th>
-                <th className="text-right px-2 py-1.5 font-medium text-gray-600">Rent</th>
-                <th className="text-right px-2 py-1.5 font-medium text-gray-600">Can Afford</th>
-                <th className="text-right px-2 py-1.5 font-medium text-gray-600">Feasible</th>
-              </tr>
-            </thead>
-            <tbody>
-              {computed.amiTable.map((row) => (
-                <tr
-                  key={row.amiPercent}
-                  className={
-                    row.amiPercent === 100
-                      ? "bg-purple-50 font-medium"
-                      : "even:bg-gray-50"
-                  }
-                >
-                  <td className="px-2 py-1.5 text-gray-700">{row.amiPercent}%</td>
-                  <td className="px-2 py-1.5 text-right text-gray-700">
-                    {formatCurrency(row.income)}
-                  </td>
-                  <td className="px-2 py-1.5 text-right text-gray-700">
-                    {formatCurrency(row.rent)}/mo
-                  </td>
-                  <td className="px-2 py-1.5 text-right text-gray-700">
-                    {row.percentCanAfford}%
-                  </td>
-                  <td className="px-2 py-1.5 text-right text-gray-700">
-                    {row.percentFeasible}%
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-        <p className="text-xs text-gray-400 mt-1">
-          Rent = 30% of income. &ldquo;Can Afford&rdquo; = % of tract households
-          earning at least that income. &ldquo;Feasible&rdquo; = % eligible
-          (earning ≤ the AMI level) for whom rent is ≤ 40% of income.
-        </p>
-      </div>
+        {!compact && (
+          <>
+            {/* Context: AMI and tract median */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="bg-purple-50 rounded-lg p-4">
+                <p className="text-xs text-purple-600 font-medium uppercase tracking-wide">
+                  100% AMI ({rawData.hudYear})
+                </p>
+                <p className="text-xl font-bold text-purple-900">
+                  {formatCurrency(computed.sizeAdjustedAmi)}
+                </p>
+                <p className="text-xs text-purple-600">
+                  {householdSize}-person household
+                  {householdSize > 8 ? " (HUD 8%-per-person rule)" : ""}
+                </p>
+              </div>
+
+              <div className="bg-gray-100 rounded-lg p-4">
+                <p className="text-xs text-gray-600 font-medium uppercase tracking-wide">
+                  Tract Median Income
+                </p>
+                <p className="text-xl font-bold text-gray-900">
+                  {computed.tractMedian !== null
+                    ? formatCurrency(computed.tractMedian)
+                    : "\u2014"}
+                </p>
+                {computed.tractMedian !== null && computed.tractMedianMoe !== null && (
+                  <p
+                    className={`text-xs ${
+                      isLowReliability(computed.tractMedian, computed.tractMedianMoe)
+                        ? "text-red-600 font-medium"
+                        : "text-gray-500"
+                    }`}
+                  >
+                    &plusmn;{formatCurrency(computed.tractMedianMoe)}
+                    {isLowReliability(computed.tractMedian, computed.tractMedianMoe)
+                      ? " \u00B7 low reliability"
+                      : ""}
+                  </p>
+                )}
+                <p className="text-xs text-gray-600">
+                  {computed.tractMedian !== null
+                    ? `${householdSize >= 7 ? "7+" : householdSize}-person households (B19019)`
+                    : `Too few ${householdSize >= 7 ? "7+" : householdSize}-person households in sample`}
+                </p>
+              </div>
+            </div>
+
+            {/* AMI Affordability Table */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">
+                Affordability by AMI Level ({householdSize}-person household)
+              </h3>
+              <AmiTable rows={computed.amiTable} />
+              <p className="text-xs text-gray-400 mt-1">
+                Rent = 30% of income. &ldquo;Can Afford&rdquo; = % of tract{" "}
+                {computed.tenure === "all" ? "" : `${computed.tenure} `}households
+                earning at least that income. &ldquo;Feasible&rdquo; = % eligible
+                (earning ≤ the AMI level) for whom rent is ≤ 40% of income.
+                30%, 50% and 80% rows use HUD&rsquo;s published extremely low, very
+                low and low income limits where available; &ldquo;derived&rdquo;
+                rows scale the 100% AMI equivalent (twice the 50% limit).
+                {computed.percentCanAffordInterval
+                  ? " \u00B1 = 90% margin of error from ACS; italic rows have a coefficient of variation above 30%."
+                  : ""}
+              </p>
+            </div>
+          </>
+        )}
+        </>
+      )}
 
       <p className="text-xs text-gray-400">
-        Sources: HUD Income Limits ({rawData.hudYear}), HUD{" "}
+        Sources: HUD Income Limits ({rawData.hudYear})
+        {rawData.mtspIncomeLimits ? `, HUD MTSP Income Limits (${rawData.mtspIncomeLimits.year})` : ""}, HUD{" "}
         {rawData.isSafmr ? "Small Area " : ""}Fair Market Rents (
-        {rawData.fmrYear}), ACS 5-Year Estimates (Tables B19001, B19019), Census
+        {rawData.fmrYear}), ACS {rawData.acsYear ? `${rawData.acsYear} ` : ""}5-Year Estimates (Tables B19001, B19019
+        {rawData.incomeByTenure ? ", B25118, B25119" : ""}
+        {rawData.homeValue ? ", B25075, B25077" : ""}), Census
         Bureau Geocoder
       </p>
     </div>
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, FormEvent } from "react";
+import { parseTractGeoid } from "@/lib/geoid";
 
 interface SearchBarProps {
   onSearch: (address: string) => void;
@@ -22,16 +23,26 @@ export default function SearchBar({ onSearch, isLoading, initialAddress }: Searc
     }
   }
 
+  // 11-digit tract GEOIDs are looked up directly, without geocoding
+  const geoid = parseTractGeoid(address);
+
   return (
     <form onSubmit={handleSubmit} className="flex gap-2">
-      <input
-        type="text"
-        value={address}
-        onChange={(e) => setAddress(e.target.value)}
-        placeholder="Enter an address (e.g., 1600 Pennsylvania Ave NW, Washington, DC 20500)"
-        className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-        disabled={isLoading}
-      />
+      <div className="flex-1 relative">
+        <input
+          type="text"
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          placeholder="Enter an address (e.g., 1600 Pennsylvania Ave NW, Washington, DC 20500) or tract GEOID"
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          disabled={isLoading}
+        />
+        {geoid && (
+          <span className="absolute right-2 top-1/2 -translate-y-1/2 px-2 py-0.5 rounded bg-blue-50 text-blue-700 text-xs">
+            Tract {geoid.slice(0, 2)}-{geoid.slice(2, 5)}-{geoid.slice(5)}
+          </span>
+        )}
+      </div>
       <button
         type="submit"
         disabled={isLoading || !address.trim()}
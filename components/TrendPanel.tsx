@@ -0,0 +1,273 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { computeAffordabilityPct, IncomeEstimatorMethod } from "@/lib/bracket-math";
+import { BEDROOM_LABELS } from "@/lib/format";
+import type { TrendPoint } from "@/lib/time-series";
+
+interface TrendPanelProps {
+  stateFips: string;
+  countyFips: string;
+  tractFips: string;
+  countySubFips: string | null;
+  zipCode: string | null;
+  bedrooms: number;
+  estimator: IncomeEstimatorMethod;
+}
+
+interface Series {
+  label: string;
+  color: string;
+  values: (number | null)[];
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 40 };
+
+function formatCompactCurrency(n: number): string {
+  return n >= 1000 ? `$${Math.round(n / 1000)}k` : `$${Math.round(n)}`;
+}
+
+/** Minimal SVG line chart; null values break the line. */
+function LineChart({
+  years,
+  series,
+  min,
+  max,
+  formatTick,
+}: {
+  years: string[];
+  series: Series[];
+  min: number;
+  max: number;
+  formatTick: (n: number) => string;
+}) {
+  const plotW = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotH = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (i: number) => PADDING.left + (years.length > 1 ? (i / (years.length - 1)) * plotW : plotW / 2);
+  const y = (v: number) => PADDING.top + plotH - ((v - min) / (max - min || 1)) * plotH;
+  const ticks = [min, (min + max) / 2, max];
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+      {ticks.map((t) => (
+        <g key={t}>
+          <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(t)} y2={y(t)} stroke="#e5e7eb" />
+          <text x={PADDING.left - 4} y={y(t) + 3} textAnchor="end" fontSize={8} fill="#6b7280">
+            {formatTick(t)}
+          </text>
+        </g>
+      ))}
+      {years.map((year, i) => (
+        <text key={year} x={x(i)} y={CHART_HEIGHT - 4} textAnchor="middle" fontSize={8} fill="#6b7280">
+          {year}
+        </text>
+      ))}
+      {series.map((s) => {
+        // Split into runs of consecutive non-null values
+        const runs: string[][] = [[]];
+        s.values.forEach((v, i) => {
+          if (v === null) runs.push([]);
+          else runs[runs.length - 1].push(`${x(i)},${y(v)}`);
+        });
+        return (
+          <g key={s.label}>
+            {runs.filter((r) => r.length > 1).map((r, i) => (
+              <polyline key={i} points={r.join(" ")} fill="none" stroke={s.color} strokeWidth={1.5} />
+            ))}
+            {s.values.map((v, i) =>
+              v === null ? null : <circle key={i} cx={x(i)} cy={y(v)} r={2} fill={s.color} />
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function Legend({ series }: { series: Series[] }) {
+  return (
+    <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-gray-600">
+      {series.map((s) => (
+        <span key={s.label} className="flex items-center gap-1">
+          <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }} />
+          {s.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function TrendPanel({
+  stateFips,
+  countyFips,
+  tractFips,
+  countySubFips,
+  zipCode,
+  bedrooms,
+  estimator,
+}: TrendPanelProps) {
+  const [points, setPoints] = useState<TrendPoint[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPoints(null);
+    setError(null);
+
+    const params = new URLSearchParams({ stateFips, countyFips, tractFips });
+    if (countySubFips) params.set("countySubFips", countySubFips);
+    if (zipCode) params.set("zip", zipCode);
+
+    fetch(`/api/v1/trend?${params.toString()}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) setError(data.error || "Could not load the trend.");
+        else setPoints(data.points);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to connect to the server. Please try again.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [stateFips, countyFips, tractFips, countySubFips, zipCode]);
+
+  const chart = useMemo(() => {
+    if (!points) return null;
+    const years = points.map((p) => p.year);
+
+    const incomeNeeded = points.map((p) => {
+      const fmr = p.fmrByBedroom?.[bedrooms];
+      return fmr ? (fmr * 12) / 0.3 : null;
+    });
+    const percentCanAfford = points.map((p, i) => {
+      const threshold = incomeNeeded[i];
+      if (threshold === null || !p.brackets || !p.totalHouseholds) return null;
+      return computeAffordabilityPct(
+        threshold,
+        p.totalHouseholds,
+        p.brackets.map((b) => b.count),
+        { method: estimator, median: p.tractMedian }
+      );
+    });
+
+    const dollars: Series[] = [
+      { label: "AMI (4-person)", color: "#7c3aed", values: points.map((p) => p.medianIncome) },
+      { label: "Tract median income", color: "#4b5563", values: points.map((p) => p.tractMedian) },
+      { label: `Income needed for ${BEDROOM_LABELS[bedrooms]} FMR`, color: "#2563eb", values: incomeNeeded },
+    ];
+    const dollarValues = dollars.flatMap((s) => s.values).filter((v): v is number => v !== null);
+
+    return {
+      years,
+      percentCanAfford,
+      dollars,
+      dollarMin: dollarValues.length ? Math.floor(Math.min(...dollarValues) / 10000) * 10000 : 0,
+      dollarMax: dollarValues.length ? Math.ceil(Math.max(...dollarValues) / 10000) * 10000 : 1,
+      fmr: points.map((p) => p.fmrByBedroom?.[bedrooms] ?? null),
+      anyApportioned: points.some((p) => p.apportioned),
+      anySafmr: points.some((p) => p.isSafmr),
+    };
+  }, [points, bedrooms, estimator]);
+
+  if (error) {
+    return <p className="text-xs text-red-700">{error}</p>;
+  }
+
+  if (!chart) {
+    return (
+      <div className="animate-pulse space-y-2">
+        <div className="h-24 bg-gray-200 rounded"></div>
+        <div className="h-24 bg-gray-200 rounded"></div>
+      </div>
+    );
+  }
+
+  const known = chart.years
+    .map((year, i) => ({ year, pct: chart.percentCanAfford[i] }))
+    .filter((p): p is { year: string; pct: number } => p.pct !== null);
+  const first = known[0];
+  const last = known[known.length - 1];
+  const affordSeries: Series[] = [
+    { label: "% of households who can afford", color: "#d97706", values: chart.percentCanAfford },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-1">
+          Households That Can Afford the {BEDROOM_LABELS[bedrooms]} FMR
+        </h3>
+        {known.length > 1 && (
+          <p className="text-xs text-amber-700 mb-1">
+            {last.pct < first.pct
+              ? `Less affordable: down ${Math.round((first.pct - last.pct) * 10) / 10} points since ${first.year}`
+              : last.pct > first.pct
+                ? `More affordable: up ${Math.round((last.pct - first.pct) * 10) / 10} points since ${first.year}`
+                : `No change since ${first.year}`}
+          </p>
+        )}
+        <LineChart
+          years={chart.years}
+          series={affordSeries}
+          min={0}
+          max={100}
+          formatTick={(n) => `${Math.round(n)}%`}
+        />
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-1">Incomes and Rent Burden</h3>
+        <LineChart
+          years={chart.years}
+          series={chart.dollars}
+          min={chart.dollarMin}
+          max={chart.dollarMax}
+          formatTick={formatCompactCurrency}
+        />
+        <Legend series={chart.dollars} />
+      </div>
+
+      <table className="w-full text-xs border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="text-left px-2 py-1 font-medium text-gray-600">Year</th>
+            <th className="text-right px-2 py-1 font-medium text-gray-600">FMR</th>
+            <th className="text-right px-2 py-1 font-medium text-gray-600">Can Afford</th>
+          </tr>
+        </thead>
+        <tbody>
+          {chart.years.map((year, i) => (
+            <tr key={year} className="even:bg-gray-50">
+              <td className="px-2 py-1 text-gray-700">
+                {year}
+                {points?.[i].apportioned && <span className="ml-1 text-[10px] text-gray-400">2010 tracts</span>}
+              </td>
+              <td className="px-2 py-1 text-right text-gray-700">
+                {chart.fmr[i] !== null ? `$${chart.fmr[i]!.toLocaleString()}` : "—"}
+              </td>
+              <td className="px-2 py-1 text-right text-gray-700">
+                {chart.percentCanAfford[i] !== null ? `${chart.percentCanAfford[i]}%` : "—"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-xs text-gray-400">
+        Each year pairs the ACS 5-year estimate ending that year (B19001,
+        B19019) with HUD&rsquo;s income limits and{" "}
+        {chart.anySafmr ? "Small Area " : ""}Fair Market Rents for the same
+        fiscal year. Dollars are nominal. Consecutive ACS estimates share four
+        of five survey years, so short-run changes are muted.
+        {chart.anyApportioned
+          ? " Years marked “2010 tracts” were apportioned onto today’s tract by land area; their medians are interpolated from the combined brackets."
+          : ""}
+      </p>
+    </div>
+  );
+}
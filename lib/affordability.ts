@@ -1,4 +1,5 @@
 import { IncomeBracket } from "./census-acs";
+import { estimateHouseholdsAbove, IncomeEstimatorOptions } from "./bracket-math";
 
 export interface AffordabilityResult {
   incomeThreshold: number;
@@ -15,14 +16,16 @@ export interface AffordabilityResult {
  * incomeThreshold: the annual income needed to afford monthlyRent at 30% of income.
  * If monthlyRent is not provided, it's derived as incomeThreshold * 0.30 / 12.
  *
- * For the bracket containing the threshold, we linearly interpolate.
+ * How households are spread within brackets is up to the estimator
+ * (see IncomeEstimatorMethod); the default interpolates linearly.
  */
 export function calculateAffordability(
   incomeThreshold: number,
   monthlyRent: number,
   totalHouseholds: number,
   brackets: IncomeBracket[],
-  areaName: string
+  areaName: string,
+  options: IncomeEstimatorOptions = {}
 ): AffordabilityResult {
   if (totalHouseholds === 0) {
     return {
@@ -35,23 +38,11 @@ export function calculateAffordability(
     };
   }
 
-  let householdsAboveThreshold = 0;
-
-  for (const bracket of brackets) {
-    const isTopBracket = bracket.max === Infinity || bracket.max == null;
-    if (bracket.min >= incomeThreshold) {
-      // Entire bracket is above threshold
-      householdsAboveThreshold += bracket.count;
-    } else if (!isTopBracket && bracket.max >= incomeThreshold) {
-      // Threshold falls within this bracket — interpolate
-      const bracketWidth = bracket.max - bracket.min + 1;
-      const portionAbove = (bracket.max - incomeThreshold + 1) / bracketWidth;
-      householdsAboveThreshold += bracket.count * portionAbove;
-    } else if (isTopBracket && bracket.min < incomeThreshold) {
-      // Top bracket ($200k+) — assume all are above
-      householdsAboveThreshold += bracket.count;
-    }
-  }
+  const householdsAboveThreshold = estimateHouseholdsAbove(
+    incomeThreshold,
+    brackets.map((b) => b.count),
+    options
+  );
 
   const percentCanAfford = (householdsAboveThreshold / totalHouseholds) * 100;
 
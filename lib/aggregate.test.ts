@@ -0,0 +1,187 @@
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const OPTIONS = { bedrooms: 2, householdSize: 4, estimator: "linear" } as const;
+
+// A tract row with all `households` in one B19001 bracket
+function tract(geoid: string, households: number, bracket: number) {
+  const brackets = new Array(16).fill(0);
+  brackets[bracket] = households;
+  return [geoid, households, ...brackets];
+}
+
+const FORTY_K = 7; // $40,000–$44,999
+const SIXTY_K = 10; // $60,000–$74,999
+
+const CALUMET_LIMITS = {
+  medianIncome: 104300,
+  incomeLimitsBySize: [73100, 83500, 93900, 104300, 112700, 121000, 129400, 137700],
+  incomeLimits: {
+    extremelyLow: [21950, 25050, 28200, 31300, 33800, 36300, 38800, 41350],
+    veryLow: [36550, 41750, 46950, 52150, 56350, 60500, 64700, 68850],
+    low: [58450, 66800, 75100, 83450, 90150, 96800, 103500, 110150],
+  },
+  areaName: "Calumet County, WI",
+  year: "2025",
+};
+// Lower limits, so the two counties' AMI rows differ
+const OUTAGAMIE_LIMITS = {
+  ...CALUMET_LIMITS,
+  medianIncome: 90000,
+  incomeLimits: { ...CALUMET_LIMITS.incomeLimits, low: [50400, 57600, 64800, 60000, 77800, 83500, 89300, 95000] },
+  areaName: "Outagamie County, WI",
+};
+
+let dir: string;
+
+function write(path: string, content: unknown) {
+  mkdirSync(join(dir, path, ".."), { recursive: true });
+  writeFileSync(join(dir, path), JSON.stringify(content));
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "aggregate-"));
+  const appleton = { code: "11540", name: "Appleton, WI", type: "metro" };
+  write("data/county-to-cbsa.json", { "55015": appleton, "55087": appleton });
+  write("data/msa/11540.json", [
+    tract("55015020100", 200, FORTY_K),
+    tract("55087010100", 300, FORTY_K),
+    tract("55087010200", 500, SIXTY_K),
+    tract("55087010300", 150, SIXTY_K),
+  ]);
+  write("data/msa/99955.json", [tract("55001950100", 50, SIXTY_K)]);
+  // Only 55087010300 has a Small Area FMR
+  write("data/safmr-by-zip.json", { "54915": [1100, 1200, 1700, 2100, 2300] });
+  write("data/tract-to-zip.json", { "55087010300": "54915" });
+
+  // callKey([stateFips, countyFips])
+  write("fixtures/hud/fetchAreaMedianIncome/55_015.json", CALUMET_LIMITS);
+  write("fixtures/hud/fetchAreaMedianIncome/55_087.json", OUTAGAMIE_LIMITS);
+  write("fixtures/hud/fetchAreaMedianIncome/55_001.json", CALUMET_LIMITS);
+  write("fixtures/hud/fetchFairMarketRents/55_015.json", {
+    fmrByBedroom: [760, 830, 1040, 1390, 1460],
+    year: "2025",
+    isSafmr: false,
+    countyName: "Calumet County",
+  });
+  write("fixtures/hud/fetchFairMarketRents/55_087.json", {
+    fmrByBedroom: [850, 950, 1200, 1600, 1750],
+    year: "2025",
+    isSafmr: false,
+    countyName: "Outagamie County",
+  });
+  write("fixtures/hud/fetchFairMarketRents/55_001.json", {
+    fmrByBedroom: [700, 780, 900, 1200, 1300],
+    year: "2025",
+    isSafmr: false,
+    countyName: "Adams County",
+  });
+
+  vi.spyOn(process, "cwd").mockReturnValue(dir);
+  // The data files and provider are cached at module level
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("buildAggregateReport", () => {
+  it("prices each county's tracts with that county's FMR and sums households", async () => {
+    const { buildAggregateReport, cbsaScope } = await import("./aggregate");
+    const report = await buildAggregateReport(cbsaScope("11540")!, OPTIONS);
+
+    expect(report).toMatchObject({
+      name: "Appleton, WI",
+      tractCount: 4,
+      countyCount: 2,
+      totalHouseholds: 1150,
+      safmrTractCount: 1,
+    });
+    // $40k–$45k households: 68% clear Calumet's $41,600 and none clear
+    // Outagamie's $48,000. The SAFMR tract needs $68,000 of $60k–$75k.
+    // 200 × 68% + 300 × 0% + 500 × 100% + 150 × 46.7% = 706 of 1,150
+    expect(report.householdsAboveThreshold).toBe(706);
+    expect(report.percentCanAfford).toBe(61.4);
+    expect(report.bracketCounts[FORTY_K]).toBe(500);
+    expect(report.bracketCounts[SIXTY_K]).toBe(650);
+  });
+
+  it("shows the county with the most households as the reference area", async () => {
+    const { buildAggregateReport, cbsaScope } = await import("./aggregate");
+    const report = await buildAggregateReport(cbsaScope("11540")!, OPTIONS);
+
+    expect(report.referenceArea).toEqual({ stateFips: "55", countyFips: "087", name: "Outagamie County, WI" });
+    expect(report.monthlyRent).toBe(1200);
+    expect(report.incomeThreshold).toBe(48000);
+    expect(report.areaMedianIncome).toBe(90000);
+  });
+
+  it("weights each county's AMI shares, scored against its own limits", async () => {
+    const { buildAggregateReport, cbsaScope } = await import("./aggregate");
+    const report = await buildAggregateReport(cbsaScope("11540")!, OPTIONS);
+    const row = report.amiTable.find((r) => r.amiPercent === 80)!;
+
+    // Outagamie's 650 of 950 clear its $60,000; Calumet's 200 don't clear $83,450
+    expect(row.income).toBe(60000);
+    expect(row.percentCanAfford).toBe(Math.round(((68.4 * 950) / 1150) * 10) / 10);
+    expect(row.percentCanAffordInterval).toBeNull();
+  });
+
+  it("ranks tracts by their own rent, splitting a short list in half", async () => {
+    const { buildAggregateReport, cbsaScope } = await import("./aggregate");
+    const report = await buildAggregateReport(cbsaScope("11540")!, OPTIONS);
+
+    expect(report.mostAffordable.map((t) => [t.geoid, t.monthlyRent, t.percentCanAfford])).toEqual([
+      ["55087010200", 1200, 100],
+      ["55015020100", 1040, 68],
+    ]);
+    expect(report.leastAffordable.map((t) => [t.geoid, t.monthlyRent, t.percentCanAfford])).toEqual([
+      ["55087010100", 1200, 0],
+      ["55087010300", 1700, 46.7],
+    ]);
+  });
+
+  it("prices a single county with its own HUD data", async () => {
+    const { buildAggregateReport, countyScope } = await import("./aggregate");
+    const report = await buildAggregateReport(countyScope("55", "015")!, OPTIONS);
+
+    expect(report).toMatchObject({
+      name: "Calumet County",
+      cbsaName: "Appleton, WI",
+      countyCount: 1,
+      monthlyRent: 1040,
+      percentCanAfford: 68,
+    });
+    expect(report.mostAffordable).toEqual([]);
+  });
+});
+
+describe("stateScope", () => {
+  it("collects the state's CBSA tracts and the rest-of-state file", async () => {
+    const { buildAggregateReport, stateScope } = await import("./aggregate");
+    const scope = stateScope("55")!;
+
+    expect(scope.rows.map((r) => r[0])).toEqual([
+      "55015020100",
+      "55087010100",
+      "55087010200",
+      "55087010300",
+      "55001950100",
+    ]);
+    expect(scope).toMatchObject({ name: "Wisconsin", coversNonCbsaTracts: true });
+
+    const report = await buildAggregateReport(scope, OPTIONS);
+    expect(report.countyCount).toBe(3);
+    expect(report.totalHouseholds).toBe(1200);
+  });
+
+  it("flags a state report without tracts outside CBSAs", async () => {
+    rmSync(join(dir, "data/msa/99955.json"));
+    const { stateScope } = await import("./aggregate");
+    expect(stateScope("55")).toMatchObject({ coversNonCbsaTracts: false });
+  });
+});
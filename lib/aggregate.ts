@@ -0,0 +1,223 @@
+/**
+ * County, metro and state affordability from the static per-tract B19001
+ * files (data/msa), one per peer group: each CBSA and each state's tracts
+ * outside any CBSA.
+ */
+
+import { getDataProvider } from "./data-provider";
+import { getSafmrData, getZipForTract } from "./hud-fmr";
+import { loadCountyToCbsa, loadMsaData, lookupCbsa, lookupPeerGroup } from "./msa-percentile";
+import { restOfStateGroup } from "./peer-group";
+import {
+  computeAffordabilityPct,
+  interpolateMedian,
+  IncomeEstimatorMethod,
+} from "./bracket-math";
+import { buildAmiTable, AmiTableRow } from "./ami-table";
+import { mapWithConcurrency } from "./batch";
+import { STATE_NAMES } from "./geoid";
+import type { AggregateLevel, AggregateReport, AggregateTract } from "./api-schema";
+
+export interface AggregateScope {
+  level: AggregateLevel;
+  id: string;
+  name: string | null; // null when it has to come from HUD (counties)
+  cbsaName: string | null;
+  rows: (string | number)[][];
+  // False for state reports built without the rest-of-state file
+  coversNonCbsaTracts: boolean;
+}
+
+export interface AggregateOptions {
+  bedrooms: number;
+  householdSize: number;
+  estimator: IncomeEstimatorMethod;
+}
+
+// Tracts this small swing to 0% or 100% on sampling noise alone
+const MIN_RANKED_HOUSEHOLDS = 100;
+const RANKED_TRACTS = 10;
+// Counties whose HUD limits and FMR are fetched at once
+const HUD_CONCURRENCY = 4;
+
+/** Tract rows for a county, or null when its peer group's data isn't built. */
+export function countyScope(stateFips: string, countyFips: string): AggregateScope | null {
+  const id = `${stateFips}${countyFips}`;
+  const group = lookupPeerGroup(stateFips, countyFips);
+  const rows = loadMsaData(group.code)?.filter((r) => (r[0] as string).startsWith(id));
+  if (!rows || rows.length === 0) return null;
+  const cbsaName = lookupCbsa(stateFips, countyFips)?.name ?? null;
+  return { level: "county", id, name: null, cbsaName, rows, coversNonCbsaTracts: true };
+}
+
+/** Tract rows for a whole CBSA, or null when its data isn't built. */
+export function cbsaScope(cbsaCode: string): AggregateScope | null {
+  const cbsa = Object.values(loadCountyToCbsa()).find((c) => c.code === cbsaCode);
+  const rows = cbsa ? loadMsaData(cbsaCode) : null;
+  if (!cbsa || !rows || rows.length === 0) return null;
+  return { level: "cbsa", id: cbsaCode, name: cbsa.name, cbsaName: cbsa.name, rows, coversNonCbsaTracts: true };
+}
+
+/** Every tract in a state, across the CBSAs that reach into it and the rest of the state. */
+export function stateScope(stateFips: string): AggregateScope | null {
+  const cbsaCodes = new Set<string>();
+  for (const [county, cbsa] of Object.entries(loadCountyToCbsa())) {
+    if (county.startsWith(stateFips)) cbsaCodes.add(cbsa.code);
+  }
+
+  const rows: (string | number)[][] = [];
+  for (const code of Array.from(cbsaCodes)) {
+    for (const row of loadMsaData(code) ?? []) {
+      if ((row[0] as string).startsWith(stateFips)) rows.push(row);
+    }
+  }
+  const restOfState = loadMsaData(restOfStateGroup(stateFips).code);
+  if (restOfState) rows.push(...restOfState);
+  if (rows.length === 0) return null;
+  return {
+    level: "state",
+    id: stateFips,
+    name: STATE_NAMES[stateFips] ?? stateFips,
+    cbsaName: null,
+    rows,
+    coversNonCbsaTracts: restOfState !== null,
+  };
+}
+
+interface CountyPricing {
+  households: number;
+  monthlyRent: number;
+  amiTable: AmiTableRow[];
+}
+
+/**
+ * AMI table over several counties, each scored against its own limits:
+ * shares are household-weighted, incomes and rents are the reference's.
+ */
+function combineAmiTables(reference: AmiTableRow[], counties: CountyPricing[]): AmiTableRow[] {
+  const households = counties.reduce((sum, c) => sum + c.households, 0);
+  const weighted = (i: number, field: "percentCanAfford" | "percentFeasible") => {
+    if (households === 0) return 0;
+    const sum = counties.reduce((total, c) => total + c.amiTable[i][field] * c.households, 0);
+    return Math.round((sum / households) * 10) / 10;
+  };
+
+  return reference.map((row, i) => ({
+    ...row,
+    percentCanAfford: weighted(i, "percentCanAfford"),
+    percentCanAffordInterval: null,
+    percentFeasible: weighted(i, "percentFeasible"),
+  }));
+}
+
+export async function buildAggregateReport(
+  scope: AggregateScope,
+  { bedrooms, householdSize, estimator }: AggregateOptions
+): Promise<AggregateReport> {
+  // Sum brackets overall and per county
+  const bracketCounts: number[] = new Array(16).fill(0);
+  const counties = new Map<string, { households: number; bracketCounts: number[] }>();
+  let totalHouseholds = 0;
+  for (const row of scope.rows) {
+    const total = row[1] as number;
+    const county = (row[0] as string).slice(0, 5);
+    const sums = counties.get(county) ?? { households: 0, bracketCounts: new Array(16).fill(0) };
+    counties.set(county, sums);
+    totalHouseholds += total;
+    sums.households += total;
+    (row.slice(2) as number[]).forEach((c, i) => {
+      bracketCounts[i] += c;
+      sums.bracketCounts[i] += c;
+    });
+  }
+  const options = { method: estimator };
+
+  // Each county is priced with its own HUD limits and FMR
+  const { hud } = getDataProvider();
+  const countyCodes = Array.from(counties.keys());
+  const hudByCounty = await mapWithConcurrency(countyCodes, HUD_CONCURRENCY, (county) =>
+    Promise.all([
+      hud.fetchAreaMedianIncome(county.slice(0, 2), county.slice(2)),
+      hud.fetchFairMarketRents(county.slice(0, 2), county.slice(2)),
+    ])
+  );
+  const pricing = new Map<string, CountyPricing>();
+  countyCodes.forEach((county, i) => {
+    const [hudData, fmrData] = hudByCounty[i];
+    const { households, bracketCounts: countyBrackets } = counties.get(county)!;
+    pricing.set(county, {
+      households,
+      monthlyRent: fmrData.fmrByBedroom[bedrooms],
+      amiTable: buildAmiTable({
+        incomeLimits: hudData.incomeLimits,
+        incomeLimitsBySize: hudData.incomeLimitsBySize,
+        householdSize,
+        totalHouseholds: households,
+        bracketCounts: countyBrackets,
+        options,
+      }),
+    });
+  });
+
+  // The county with the most households supplies the figures shown
+  const [referenceCounty] = Array.from(counties.entries()).sort((a, b) => b[1].households - a[1].households)[0];
+  const [hudData, fmrData] = hudByCounty[countyCodes.indexOf(referenceCounty)];
+  const monthlyRent = fmrData.fmrByBedroom[bedrooms];
+
+  // Score each tract against its own ZIP's SAFMR where there is one, like
+  // the choropleth, and its county's FMR otherwise
+  const safmrByZip = getSafmrData();
+  let householdsAbove = 0;
+  let safmrTractCount = 0;
+  const tracts: AggregateTract[] = [];
+  for (const row of scope.rows) {
+    const geoid = row[0] as string;
+    const total = row[1] as number;
+    const zip = getZipForTract(geoid);
+    const safmr = zip ? safmrByZip[zip]?.[bedrooms] : undefined;
+    if (safmr) safmrTractCount++;
+    const rent = safmr ?? pricing.get(geoid.slice(0, 5))!.monthlyRent;
+
+    const pct = computeAffordabilityPct((rent * 12) / 0.3, total, row.slice(2) as number[], options);
+    householdsAbove += (pct / 100) * total;
+    if (total >= MIN_RANKED_HOUSEHOLDS) {
+      tracts.push({ geoid, totalHouseholds: total, monthlyRent: rent, percentCanAfford: pct });
+    }
+  }
+  tracts.sort((a, b) => b.percentCanAfford - a.percentCanAfford);
+  // Small counties split their tracts rather than list some in both
+  const ranked = Math.min(RANKED_TRACTS, Math.floor(tracts.length / 2));
+
+  return {
+    level: scope.level,
+    id: scope.id,
+    name: scope.name ?? fmrData.countyName ?? `County ${scope.id}`,
+    cbsaName: scope.cbsaName,
+    tractCount: scope.rows.length,
+    countyCount: countyCodes.length,
+    coversNonCbsaTracts: scope.coversNonCbsaTracts,
+    totalHouseholds,
+    bracketCounts,
+    medianIncome: interpolateMedian(bracketCounts),
+    bedrooms,
+    householdSize,
+    estimator,
+    referenceArea: {
+      stateFips: referenceCounty.slice(0, 2),
+      countyFips: referenceCounty.slice(2),
+      name: hudData.areaName,
+    },
+    areaMedianIncome: hudData.medianIncome,
+    hudYear: hudData.year,
+    fmrYear: fmrData.year,
+    monthlyRent,
+    incomeThreshold: (monthlyRent * 12) / 0.3,
+    safmrTractCount,
+    percentCanAfford:
+      totalHouseholds > 0 ? Math.round((householdsAbove / totalHouseholds) * 1000) / 10 : 0,
+    householdsAboveThreshold: Math.round(householdsAbove),
+    amiTable: combineAmiTables(pricing.get(referenceCounty)!.amiTable, Array.from(pricing.values())),
+    mostAffordable: tracts.slice(0, ranked),
+    leastAffordable: tracts.slice(tracts.length - ranked).reverse(),
+  };
+}
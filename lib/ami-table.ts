@@ -0,0 +1,103 @@
+// AMI affordability table shared by the tract view and aggregate reports.
+// No Node.js imports so this works in "use client" modules too.
+
+import { computeAffordabilityPct, IncomeEstimatorOptions } from "./bracket-math";
+import { incomeLimitForSize, OfficialIncomeLimits } from "./hud-api";
+import type { PercentInterval } from "./moe";
+
+export interface AmiTableRow {
+  amiPercent: number;
+  income: number;
+  rent: number;
+  percentCanAfford: number;
+  percentCanAffordInterval: PercentInterval | null;
+  percentFeasible: number;
+  // "official" rows use HUD's published ELI/VLI/LI limit; the rest are
+  // multiples of the 100% AMI equivalent (2 × the 50% limit)
+  source: "official" | "derived";
+}
+
+export const AMI_PERCENTS = [30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150];
+
+export interface AmiTableInput {
+  incomeLimits: OfficialIncomeLimits;
+  incomeLimitsBySize: number[];
+  householdSize: number;
+  totalHouseholds: number;
+  bracketCounts: number[];
+  options: IncomeEstimatorOptions;
+  // 90% interval for a threshold and its estimate, when MOEs are available
+  intervalFor?: (threshold: number, percent: number) => PercentInterval | null;
+}
+
+function officialLimit(incomeLimits: OfficialIncomeLimits, amiPercent: number): number[] | null {
+  switch (amiPercent) {
+    case 30:
+      return incomeLimits.extremelyLow;
+    case 50:
+      return incomeLimits.veryLow;
+    case 80:
+      return incomeLimits.low;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Household income at an AMI level: HUD's published ELI/VLI/LI limit at
+ * 30/50/80% where there is one, else that multiple of the 100% equivalent.
+ */
+export function amiIncome(
+  incomeLimits: OfficialIncomeLimits,
+  incomeLimitsBySize: number[],
+  householdSize: number,
+  amiPercent: number
+): number {
+  const official = officialLimit(incomeLimits, amiPercent);
+  return official
+    ? incomeLimitForSize(official, householdSize)
+    : incomeLimitForSize(incomeLimitsBySize, householdSize) * amiPercent / 100;
+}
+
+/**
+ * Share of households that can afford the rent at each AMI level.
+ * "Eligible & feasible" band: earns ≤ AMI ceiling (eligible) but rent
+ * doesn't exceed 40% of income (feasible). Floor = ceiling * 0.75
+ * because rent = ceiling * 0.30/12, and ceiling * 0.30 / 0.40 = ceiling * 0.75.
+ */
+export function buildAmiTable({
+  incomeLimits,
+  incomeLimitsBySize,
+  householdSize,
+  totalHouseholds,
+  bracketCounts,
+  options,
+  intervalFor,
+}: AmiTableInput): AmiTableRow[] {
+  return AMI_PERCENTS.map((pct) => {
+    const income = amiIncome(incomeLimits, incomeLimitsBySize, householdSize, pct);
+    const rent = income * 0.30 / 12;
+    const floor = income * 0.75; // income where rent = 40% of income
+    const pctAboveFloor = computeAffordabilityPct(
+      floor,
+      totalHouseholds,
+      bracketCounts,
+      options
+    );
+    const pctAboveCeiling = computeAffordabilityPct(
+      income,
+      totalHouseholds,
+      bracketCounts,
+      options
+    );
+    return {
+      amiPercent: pct,
+      income: Math.round(income),
+      rent: Math.round(rent),
+      percentCanAfford: pctAboveCeiling,
+      percentCanAffordInterval: intervalFor?.(income, pctAboveCeiling) ?? null,
+      percentFeasible: Math.round((pctAboveFloor - pctAboveCeiling) * 10) / 10,
+      source: officialLimit(incomeLimits, pct) ? "official" : "derived",
+    };
+  });
+}
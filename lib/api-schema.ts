@@ -0,0 +1,778 @@
+// Public API contract (/api/v1): query parameter specs, response types and
+// the JSON Schemas the OpenAPI document is generated from. Shared by the
+// routes, the page and anything else that consumes the API.
+// No Node.js imports so this works in "use client" modules too.
+
+import {
+  DEFAULT_ESTIMATOR,
+  ESTIMATOR_METHODS,
+  TENURES,
+  HouseholdTenure,
+  IncomeEstimatorMethod,
+} from "./bracket-math";
+import type { IncomeBracket, IncomeByTenure } from "./census-acs";
+import { MAX_HOUSEHOLD_SIZE } from "./hud-api";
+import type { OfficialIncomeLimits, MtspIncomeLimits } from "./hud-api";
+import type { MsaIncomeDistribution } from "./msa-percentile";
+import type { HomeValueData, MortgageParams, OwnershipResult } from "./mortgage";
+import type { PercentInterval } from "./moe";
+import type { AmiTableRow } from "./ami-table";
+import type { TrendPoint } from "./time-series";
+import { CHOROPLETH_METRICS } from "./choropleth-metrics";
+import {
+  DEFAULT_PEER_GEOGRAPHY,
+  PEER_GEOGRAPHIES,
+  PEER_GROUP_TYPES,
+  PeerGeography,
+  PeerGroup,
+} from "./peer-group";
+
+export const API_VERSION = "1.0.0";
+
+// ---------------------------------------------------------------------------
+// Query parameters
+// ---------------------------------------------------------------------------
+
+interface BaseParamSpec {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export type QueryParamSpec =
+  | (BaseParamSpec & { type: "string"; pattern?: RegExp; maxLength?: number })
+  | (BaseParamSpec & { type: "number" | "integer"; min?: number; max?: number; default?: number })
+  | (BaseParamSpec & { type: "enum"; values: readonly string[]; default?: string });
+
+type ParamValue<P extends QueryParamSpec> = P extends { type: "number" | "integer" }
+  ? number
+  : P extends { type: "enum"; values: readonly (infer V)[] }
+    ? V
+    : string;
+
+// Required params and enums with a default always have a value once parsed
+type AlwaysSet<P> = P extends { required: true } | { default: string | number } ? true : false;
+
+/** Parsed values keyed by parameter name; absent optional params are undefined. */
+export type ParsedQuery<S extends readonly QueryParamSpec[]> = {
+  [P in S[number] as AlwaysSet<P> extends true ? P["name"] : never]: ParamValue<P>;
+} & {
+  [P in S[number] as AlwaysSet<P> extends true ? never : P["name"]]?: ParamValue<P>;
+};
+
+export type QueryResult<S extends readonly QueryParamSpec[]> =
+  | { ok: true; values: ParsedQuery<S> }
+  | { ok: false; errors: string[] };
+
+// Number() alone accepts "", " ", "0x10" and "1e3"; require plain decimals
+const DECIMAL = /^-?\d+(\.\d+)?$/;
+
+/** Validate and convert query parameters against their specs. */
+export function parseQuery<S extends readonly QueryParamSpec[]>(
+  searchParams: URLSearchParams,
+  specs: S
+): QueryResult<S> {
+  const values: Record<string, string | number> = {};
+  const errors: string[] = [];
+
+  for (const spec of specs) {
+    const raw = searchParams.get(spec.name)?.trim();
+    if (raw === undefined || raw === "") {
+      if (spec.type !== "string" && spec.default !== undefined) values[spec.name] = spec.default;
+      else if (spec.required) errors.push(`${spec.name} is required.`);
+      continue;
+    }
+
+    switch (spec.type) {
+      case "string":
+        if (spec.maxLength !== undefined && raw.length > spec.maxLength) {
+          errors.push(`${spec.name} must be at most ${spec.maxLength} characters.`);
+        } else if (spec.pattern && !spec.pattern.test(raw)) {
+          errors.push(`${spec.name} "${raw}" is not in the expected format.`);
+        } else {
+          values[spec.name] = raw;
+        }
+        break;
+      case "number":
+      case "integer": {
+        const n = Number(raw);
+        if (!DECIMAL.test(raw) || (spec.type === "integer" && !Number.isInteger(n))) {
+          errors.push(`${spec.name} "${raw}" is not a valid ${spec.type}.`);
+        } else if (spec.min !== undefined && n < spec.min) {
+          errors.push(`${spec.name} must be at least ${spec.min}.`);
+        } else if (spec.max !== undefined && n > spec.max) {
+          errors.push(`${spec.name} must be at most ${spec.max}.`);
+        } else {
+          values[spec.name] = n;
+        }
+        break;
+      }
+      case "enum":
+        if (!spec.values.includes(raw)) {
+          errors.push(`Unknown ${spec.name} "${raw}". Use one of: ${spec.values.join(", ")}.`);
+        } else {
+          values[spec.name] = raw;
+        }
+        break;
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, values: values as ParsedQuery<S> };
+}
+
+const ESTIMATOR_PARAM = {
+  name: "estimator",
+  type: "enum",
+  values: ESTIMATOR_METHODS,
+  default: DEFAULT_ESTIMATOR,
+  description: "How households are spread within ACS income brackets.",
+} as const satisfies QueryParamSpec;
+
+const PEERS_PARAM = {
+  name: "peers",
+  type: "enum",
+  values: PEER_GEOGRAPHIES,
+  default: DEFAULT_PEER_GEOGRAPHY,
+  description:
+    "Tracts to rank against: the HUD FMR area (hmfa) whose AMI and FMR apply, or the " +
+    "OMB CBSA (cbsa). hmfa falls back to cbsa where the HUD crosswalk isn't built.",
+} as const satisfies QueryParamSpec;
+
+const LOCATION_PARAMS = [
+  { name: "address", type: "string", maxLength: 200, description: "Street address or place name. Required unless lat and lng are given." },
+  { name: "lat", type: "number", min: -90, max: 90, description: "Latitude (WGS84); use with lng instead of address." },
+  { name: "lng", type: "number", min: -180, max: 180, description: "Longitude (WGS84); use with lat instead of address." },
+  { name: "tract", type: "string", pattern: /^\d{11}$/, description: "11-digit tract GEOID; skips geocoding and takes precedence over address and lat/lng." },
+] as const satisfies readonly QueryParamSpec[];
+
+export const LOOKUP_QUERY = [
+  ...LOCATION_PARAMS,
+  ESTIMATOR_PARAM,
+  PEERS_PARAM,
+  { name: "homePrice", type: "number", min: 0, description: "Home price for ownership mode; defaults to the tract median value." },
+  { name: "rate", type: "number", min: 0, max: 30, description: "Mortgage interest rate, annual percent." },
+  { name: "downPayment", type: "number", min: 0, max: 100, description: "Down payment, percent of price." },
+  { name: "taxRate", type: "number", min: 0, max: 10, description: "Property tax, annual percent of price." },
+  { name: "insurance", type: "number", min: 0, description: "Homeowners insurance, dollars per year." },
+  { name: "pmi", type: "number", min: 0, max: 5, description: "Mortgage insurance, annual percent of the loan." },
+] as const satisfies readonly QueryParamSpec[];
+
+const STATE_PARAM = {
+  name: "stateFips",
+  type: "string",
+  pattern: /^\d{2}$/,
+  required: true,
+  description: "2-digit state FIPS code.",
+} as const satisfies QueryParamSpec;
+
+const COUNTY_PARAM = {
+  name: "countyFips",
+  type: "string",
+  pattern: /^\d{3}$/,
+  required: true,
+  description: "3-digit county FIPS code.",
+} as const satisfies QueryParamSpec;
+
+const BEDROOMS_PARAM = {
+  name: "bedrooms",
+  type: "integer",
+  min: 0,
+  max: 4,
+  default: 2,
+  description: "Unit size for the FMR: 0 (studio) through 4.",
+} as const satisfies QueryParamSpec;
+
+const HOUSEHOLD_SIZE_PARAM = {
+  name: "householdSize",
+  type: "integer",
+  min: 1,
+  max: MAX_HOUSEHOLD_SIZE,
+  default: 4,
+  description: "Household size for AMI figures.",
+} as const satisfies QueryParamSpec;
+
+const TENURE_PARAM = {
+  name: "tenure",
+  type: "enum",
+  values: TENURES,
+  default: "all",
+  description: "Household universe; falls back to all when tenure data is not built for the MSA.",
+} as const satisfies QueryParamSpec;
+
+const RENT_PARAM = {
+  name: "rent",
+  type: "number",
+  min: 1,
+  max: 100000,
+  description: "Asking rent, dollars per month, in place of the FMR.",
+} as const satisfies QueryParamSpec;
+
+export const CHOROPLETH_QUERY = [
+  STATE_PARAM,
+  COUNTY_PARAM,
+  ESTIMATOR_PARAM,
+  TENURE_PARAM,
+  PEERS_PARAM,
+  { name: "tractFips", type: "string", pattern: /^\d{6}$/, description: "Tract within the county; picks the HUD FMR area in New England, where they follow towns." },
+  { name: "countySubFips", type: "string", pattern: /^\d{5}$/, description: "County subdivision (New England town) whose HUD FMR area to use; takes precedence over tractFips." },
+] as const satisfies readonly QueryParamSpec[];
+
+export const CHOROPLETH_EXPORT_QUERY = [
+  ...CHOROPLETH_QUERY,
+  BEDROOMS_PARAM,
+  HOUSEHOLD_SIZE_PARAM,
+  {
+    name: "format",
+    type: "enum",
+    values: ["csv", "geojson", "shapefile"],
+    default: "csv",
+    description: "CSV, GeoJSON with tract polygons, or a zipped polygon shapefile.",
+  },
+  { ...RENT_PARAM, description: "Asking rent, dollars per month, to score every tract at instead of its SAFMR or the area FMR." },
+] as const satisfies readonly QueryParamSpec[];
+
+// Every value ends up in Census and HUD request URLs, so each is held to its
+// FIPS or ZIP shape
+export const TREND_QUERY = [
+  STATE_PARAM,
+  COUNTY_PARAM,
+  { name: "tractFips", type: "string", pattern: /^\d{6}$/, required: true, description: "6-digit tract code within the county." },
+  { name: "countySubFips", type: "string", pattern: /^\d{5}$/, description: "County subdivision (New England town) whose HUD area to use." },
+  { name: "zip", type: "string", pattern: /^\d{5}$/, description: "ZIP code for Small Area FMRs." },
+] as const satisfies readonly QueryParamSpec[];
+
+export const TRACT_QUERY = [
+  { name: "geoid", type: "string", pattern: /^\d{11}$/, required: true, description: "11-digit Census tract GEOID (state + county + tract)." },
+] as const satisfies readonly QueryParamSpec[];
+
+// Each batch input row is validated like a lookup query
+export const BATCH_ROW_FIELDS = LOCATION_PARAMS;
+
+export const MAX_BATCH_ROWS = 200;
+
+export const BATCH_QUERY = [
+  BEDROOMS_PARAM,
+  HOUSEHOLD_SIZE_PARAM,
+  ESTIMATOR_PARAM,
+  PEERS_PARAM,
+  { name: "format", type: "enum", values: ["csv", "json"], default: "csv", description: "Response format." },
+] as const satisfies readonly QueryParamSpec[];
+
+export const REPORT_QUERY = [
+  ...LOCATION_PARAMS,
+  BEDROOMS_PARAM,
+  HOUSEHOLD_SIZE_PARAM,
+  ESTIMATOR_PARAM,
+  TENURE_PARAM,
+  PEERS_PARAM,
+  { ...RENT_PARAM, description: "Asking rent, dollars per month, for the report's unit size; replaces the FMR in its figures." },
+] as const satisfies readonly QueryParamSpec[];
+
+// The /embed widget is addressed by its URL like the routes, so partners'
+// iframe src attributes are validated against the same kind of spec
+export const EMBED_QUERY = [
+  ...LOCATION_PARAMS,
+  { name: "cbsa", type: "string", pattern: /^\d{5}$/, description: "5-digit CBSA code; shows the whole area's tracts with a summary card until one is clicked." },
+  BEDROOMS_PARAM,
+  HOUSEHOLD_SIZE_PARAM,
+  ESTIMATOR_PARAM,
+  PEERS_PARAM,
+  {
+    name: "metric",
+    type: "enum",
+    values: CHOROPLETH_METRICS,
+    default: "affordability",
+    description: "Map metric to shade tracts by.",
+  },
+  {
+    name: "hideSearch",
+    type: "enum",
+    values: ["true", "false"],
+    default: "false",
+    description: "Hide the search box, for a fixed location.",
+  },
+  {
+    name: "origin",
+    type: "string",
+    pattern: /^https?:\/\/[^/\s]+$/,
+    description: "Host page origin; messages go only to and come only from it. Defaults to the widget's own origin.",
+  },
+] as const satisfies readonly QueryParamSpec[];
+
+// Share images are linked from the home page's metadata with its own
+// permalink parameters, so they accept the same names. The permalink's
+// repeated rent=<bedrooms>:<dollars> values aren't in the spec, which reads
+// one value per name: parseCustomRents reads them all and skips bad ones,
+// as the home page does.
+export const SHARE_IMAGE_QUERY = [
+  ...LOCATION_PARAMS,
+  BEDROOMS_PARAM,
+  ESTIMATOR_PARAM,
+  TENURE_PARAM,
+  PEERS_PARAM,
+] as const satisfies readonly QueryParamSpec[];
+
+export type AggregateLevel = "county" | "cbsa" | "state";
+
+export const AGGREGATE_LEVELS: AggregateLevel[] = ["county", "cbsa", "state"];
+
+const REPORT_PARAMS = [BEDROOMS_PARAM, HOUSEHOLD_SIZE_PARAM, ESTIMATOR_PARAM] as const;
+
+export const AGGREGATE_QUERIES = {
+  county: [STATE_PARAM, COUNTY_PARAM, ...REPORT_PARAMS],
+  cbsa: [
+    { name: "cbsa", type: "string", pattern: /^\d{5}$/, required: true, description: "5-digit CBSA code." },
+    ...REPORT_PARAMS,
+  ],
+  state: [STATE_PARAM, ...REPORT_PARAMS],
+} as const satisfies Record<AggregateLevel, readonly QueryParamSpec[]>;
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+
+export interface ApiError {
+  error: string;
+  details?: string[];
+}
+
+export interface LookupResponse {
+  // Default calculation (4-person household, 2BR)
+  incomeThreshold: number;
+  monthlyRent: number;
+  percentCanAfford: number;
+  percentCanAffordInterval: PercentInterval;
+  householdsAboveThreshold: number;
+  totalHouseholds: number;
+  areaName: string;
+  // Raw data for recalculation
+  incomeLimitsBySize: number[];
+  incomeLimits: OfficialIncomeLimits;
+  mtspIncomeLimits: MtspIncomeLimits | null;
+  fmrByBedroom: number[];
+  medianBySize: (number | null)[];
+  medianMoeBySize: (number | null)[];
+  brackets: IncomeBracket[];
+  totalHouseholdsMoe: number | null;
+  estimator: IncomeEstimatorMethod;
+  incomeByTenure: IncomeByTenure | null;
+  homeValue: HomeValueData | null;
+  mortgageParams: MortgageParams;
+  ownership: OwnershipResult | null;
+  medianIncome: number;
+  // Geo; lat/lng are null for a GEOID lookup without built tract geometry
+  lat: number | null;
+  lng: number | null;
+  matchedAddress: string;
+  stateFips: string;
+  countyFips: string;
+  tractFips: string;
+  countySubFips: string | null;
+  zipCode: string | null;
+  acsYear: string | null;
+  hudYear: string;
+  fmrYear: string;
+  // SAFMR
+  isSafmr: boolean;
+  fmrZipCode: string | null;
+  // Percentile among the peer group's tracts (the fields predate non-metro groups)
+  msaPercentile: number | null;
+  msaPercentileLow: number | null;
+  msaPercentileHigh: number | null;
+  msaTractCount: number | null;
+  msaIncome: MsaIncomeDistribution | null;
+  peerGroup: PeerGroup | null; // null when its data isn't built
+  cbsaCode: string | null;
+  cbsaName: string | null;
+}
+
+// [GEOID, totalHH, bracketCounts[16 | 11], safmrArray[5] | null, safmrZip | null]
+export type ChoroplethTract = [string, number, number[], number[] | null, string | null];
+
+export interface ChoroplethResponse {
+  // The peer group's code and name, which is a CBSA unless peerGroup.type
+  // is "rest-of-state"
+  cbsaCode: string;
+  cbsaName: string;
+  peerGroup: PeerGroup;
+  tracts: ChoroplethTract[];
+  geo: object | null;
+  estimator: IncomeEstimatorMethod;
+  tenure: HouseholdTenure;
+}
+
+export interface TractResponse {
+  geoid: string;
+  stateFips: string;
+  countyFips: string;
+  tractFips: string;
+  cbsaCode: string | null;
+  cbsaName: string | null;
+  acsYear: string | null;
+  totalHouseholds: number;
+  totalHouseholdsMoe: number | null;
+  brackets: IncomeBracket[];
+  medianBySize: (number | null)[];
+  medianMoeBySize: (number | null)[];
+  incomeByTenure: IncomeByTenure | null;
+  homeValue: HomeValueData | null;
+}
+
+export interface TrendResponse {
+  points: TrendPoint[]; // one per TREND_YEARS vintage, oldest first
+}
+
+/** One batch result; location and affordability fields are null when the row failed. */
+export interface BatchRow {
+  row: number; // 1-based position in the input
+  input: string;
+  error: string | null;
+  geoid: string | null;
+  matchedAddress: string | null;
+  lat: number | null;
+  lng: number | null;
+  cbsaName: string | null;
+  areaName: string | null;
+  ami: number | null; // 100% AMI for the household size
+  fmr: number | null;
+  isSafmr: boolean | null;
+  fmrZipCode: string | null;
+  incomeNeeded: number | null;
+  percentCanAfford: number | null;
+  percentCanAffordLow: number | null;
+  percentCanAffordHigh: number | null;
+  msaPercentile: number | null;
+  peerGroup: string | null; // name of the group msaPercentile ranks against
+  acsYear: string | null;
+  hudYear: string | null;
+  fmrYear: string | null;
+}
+
+export interface BatchResponse {
+  bedrooms: number;
+  householdSize: number;
+  estimator: IncomeEstimatorMethod;
+  peers: PeerGeography;
+  rows: BatchRow[];
+}
+
+export interface AggregateTract {
+  geoid: string;
+  totalHouseholds: number;
+  monthlyRent: number; // the tract's SAFMR, or the reference FMR
+  percentCanAfford: number;
+}
+
+export interface AggregateReport {
+  level: AggregateLevel;
+  id: string; // 5-digit county GEOID, CBSA code or 2-digit state FIPS
+  name: string;
+  cbsaName: string | null; // the county's CBSA, for county reports
+  tractCount: number;
+  countyCount: number; // each priced with its own HUD limits and FMR
+  coversNonCbsaTracts: boolean; // false when tracts outside CBSAs are missing
+  totalHouseholds: number;
+  bracketCounts: number[]; // B19001 order, summed over the tracts
+  medianIncome: number | null; // interpolated from the summed brackets
+  bedrooms: number;
+  householdSize: number;
+  estimator: IncomeEstimatorMethod;
+  // HUD area whose limits, FMR and AMI-table incomes are shown: the county
+  // itself, else the county with the most households. Shares are computed
+  // per county against that county's own limits and FMR.
+  referenceArea: { stateFips: string; countyFips: string; name: string };
+  areaMedianIncome: number;
+  hudYear: string;
+  fmrYear: string;
+  monthlyRent: number; // reference area's FMR for the bedroom count
+  incomeThreshold: number;
+  safmrTractCount: number; // tracts priced at their own ZIP's SAFMR
+  // Each tract is scored against its own ZIP's SAFMR or its county's FMR,
+  // then households are summed
+  percentCanAfford: number;
+  householdsAboveThreshold: number;
+  amiTable: AmiTableRow[];
+  mostAffordable: AggregateTract[];
+  leastAffordable: AggregateTract[];
+}
+
+// ---------------------------------------------------------------------------
+// JSON Schemas (OpenAPI 3.1 components) mirroring the types above
+// ---------------------------------------------------------------------------
+
+type JsonSchema = Record<string, unknown>;
+
+const num = { type: "number" };
+const nullableNum = { type: ["number", "null"] };
+const str = { type: "string" };
+const nullableStr = { type: ["string", "null"] };
+const numArray = { type: "array", items: num };
+const nullableNumArray = { type: "array", items: nullableNum };
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const nullableRef = (name: string) => ({ oneOf: [ref(name), { type: "null" }] });
+
+function object(properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+  return {
+    type: "object",
+    properties,
+    required: Object.keys(properties).filter((k) => !optional.includes(k)),
+  };
+}
+
+export const API_SCHEMAS: Record<string, JsonSchema> = {
+  Error: object({ error: str, details: { type: "array", items: str } }, ["details"]),
+  IncomeBracket: object(
+    {
+      min: num,
+      max: { ...nullableNum, description: "null for the open-ended top bracket" },
+      count: num,
+      moe: { ...num, description: "90% margin of error (B19001 and B25118)" },
+    },
+    ["moe"]
+  ),
+  PercentInterval: object({
+    moe: { ...num, description: "90% margin of error, percentage points" },
+    low: num,
+    high: num,
+    cv: nullableNum,
+    lowReliability: { type: "boolean" },
+  }),
+  OfficialIncomeLimits: object({
+    extremelyLow: { oneOf: [numArray, { type: "null" }] },
+    veryLow: numArray,
+    low: { oneOf: [numArray, { type: "null" }] },
+  }),
+  MtspIncomeLimits: object({ veryLow: numArray, year: str }),
+  TenureIncomeDistribution: object(
+    {
+      totalHouseholds: num,
+      totalHouseholdsMoe: num,
+      brackets: { type: "array", items: ref("IncomeBracket") },
+      median: nullableNum,
+      year: str,
+    },
+    ["totalHouseholdsMoe", "year"]
+  ),
+  IncomeByTenure: object({
+    owner: ref("TenureIncomeDistribution"),
+    renter: ref("TenureIncomeDistribution"),
+  }),
+  HomeValueData: object({
+    tractMedian: nullableNum,
+    msaMedian: nullableNum,
+    totalOwnerUnits: num,
+    valueBracketCounts: { oneOf: [numArray, { type: "null" }] },
+  }),
+  MortgageParams: object({
+    homePrice: nullableNum,
+    interestRate: num,
+    downPaymentPct: num,
+    propertyTaxRate: num,
+    insuranceAnnual: num,
+    pmiRate: num,
+    termYears: num,
+  }),
+  PitiBreakdown: object({
+    principalAndInterest: num,
+    taxes: num,
+    insurance: num,
+    pmi: num,
+    total: num,
+  }),
+  OwnershipResult: object({
+    homePrice: num,
+    piti: ref("PitiBreakdown"),
+    incomeNeeded: num,
+    tractPercentCanAfford: num,
+    msaPercentCanAfford: nullableNum,
+    percentHomesAtOrBelowPrice: nullableNum,
+  }),
+  MsaIncomeDistribution: object({ totalHouseholds: num, bracketCounts: numArray }),
+  PeerGroup: {
+    ...object({ code: str, name: str, type: { type: "string", enum: PEER_GROUP_TYPES } }),
+    description: "Tracts a tract is ranked against: its CBSA, or the rest of its state outside any CBSA.",
+  },
+  LookupResponse: object({
+    incomeThreshold: num,
+    monthlyRent: num,
+    percentCanAfford: num,
+    percentCanAffordInterval: ref("PercentInterval"),
+    householdsAboveThreshold: num,
+    totalHouseholds: num,
+    areaName: str,
+    incomeLimitsBySize: numArray,
+    incomeLimits: ref("OfficialIncomeLimits"),
+    mtspIncomeLimits: nullableRef("MtspIncomeLimits"),
+    fmrByBedroom: { ...numArray, description: "Studio through 4BR" },
+    medianBySize: { ...nullableNumArray, description: "B19019: overall, then 1- through 7+-person" },
+    medianMoeBySize: nullableNumArray,
+    brackets: { type: "array", items: ref("IncomeBracket") },
+    totalHouseholdsMoe: nullableNum,
+    estimator: { type: "string", enum: ESTIMATOR_METHODS },
+    incomeByTenure: nullableRef("IncomeByTenure"),
+    homeValue: nullableRef("HomeValueData"),
+    mortgageParams: ref("MortgageParams"),
+    ownership: nullableRef("OwnershipResult"),
+    medianIncome: num,
+    lat: { ...nullableNum, description: "Tract centroid for GEOID lookups; null when its geometry isn't built" },
+    lng: nullableNum,
+    matchedAddress: str,
+    stateFips: str,
+    countyFips: str,
+    tractFips: str,
+    countySubFips: nullableStr,
+    zipCode: nullableStr,
+    acsYear: nullableStr,
+    hudYear: str,
+    fmrYear: str,
+    isSafmr: { type: "boolean" },
+    fmrZipCode: nullableStr,
+    msaPercentile: nullableNum,
+    msaPercentileLow: nullableNum,
+    msaPercentileHigh: nullableNum,
+    msaTractCount: nullableNum,
+    msaIncome: nullableRef("MsaIncomeDistribution"),
+    peerGroup: nullableRef("PeerGroup"),
+    cbsaCode: nullableStr,
+    cbsaName: nullableStr,
+  }),
+  ChoroplethResponse: object({
+    cbsaCode: str,
+    cbsaName: str,
+    peerGroup: ref("PeerGroup"),
+    tracts: {
+      type: "array",
+      description: "[GEOID, totalHouseholds, bracketCounts, safmrByBedroom | null, safmrZip | null]",
+      items: {
+        type: "array",
+        prefixItems: [str, num, numArray, { oneOf: [numArray, { type: "null" }] }, nullableStr],
+        minItems: 5,
+        maxItems: 5,
+      },
+    },
+    geo: { type: ["object", "null"], description: "TopoJSON tract polygons" },
+    estimator: { type: "string", enum: ESTIMATOR_METHODS },
+    tenure: { type: "string", enum: TENURES },
+  }),
+  BatchRequest: {
+    description: `Up to ${MAX_BATCH_ROWS} locations, each an address, a lat/lng pair or a tract GEOID.`,
+    oneOf: [
+      { type: "array", items: ref("BatchLocation") },
+      object({ rows: { type: "array", items: ref("BatchLocation") } }),
+    ],
+  },
+  BatchLocation: object(
+    {
+      address: { type: "string", maxLength: 200 },
+      lat: { type: "number", minimum: -90, maximum: 90 },
+      lng: { type: "number", minimum: -180, maximum: 180 },
+      tract: { type: "string", pattern: "^\\d{11}$" },
+    },
+    ["address", "lat", "lng", "tract"]
+  ),
+  BatchRow: object({
+    row: { ...num, description: "1-based position in the input" },
+    input: str,
+    error: { ...nullableStr, description: "Why the row failed; the remaining fields are then null" },
+    geoid: nullableStr,
+    matchedAddress: nullableStr,
+    lat: nullableNum,
+    lng: nullableNum,
+    cbsaName: nullableStr,
+    areaName: nullableStr,
+    ami: { ...nullableNum, description: "100% AMI for the household size" },
+    fmr: nullableNum,
+    isSafmr: { type: ["boolean", "null"] },
+    fmrZipCode: nullableStr,
+    incomeNeeded: nullableNum,
+    percentCanAfford: nullableNum,
+    percentCanAffordLow: nullableNum,
+    percentCanAffordHigh: nullableNum,
+    msaPercentile: nullableNum,
+    peerGroup: nullableStr,
+    acsYear: nullableStr,
+    hudYear: nullableStr,
+    fmrYear: nullableStr,
+  }),
+  BatchResponse: object({
+    bedrooms: num,
+    householdSize: num,
+    estimator: { type: "string", enum: ESTIMATOR_METHODS },
+    peers: { type: "string", enum: PEER_GEOGRAPHIES },
+    rows: { type: "array", items: ref("BatchRow") },
+  }),
+  AmiTableRow: object({
+    amiPercent: num,
+    income: num,
+    rent: num,
+    percentCanAfford: num,
+    percentCanAffordInterval: nullableRef("PercentInterval"),
+    percentFeasible: num,
+    source: { type: "string", enum: ["official", "derived"] },
+  }),
+  AggregateTract: object({
+    geoid: str,
+    totalHouseholds: num,
+    monthlyRent: { ...num, description: "The tract's SAFMR, or the reference FMR" },
+    percentCanAfford: num,
+  }),
+  AggregateReport: object({
+    level: { type: "string", enum: AGGREGATE_LEVELS },
+    id: { ...str, description: "5-digit county GEOID, CBSA code or 2-digit state FIPS" },
+    name: str,
+    cbsaName: nullableStr,
+    tractCount: num,
+    countyCount: { ...num, description: "Counties, each priced with its own HUD limits and FMR" },
+    coversNonCbsaTracts: { type: "boolean" },
+    totalHouseholds: num,
+    bracketCounts: { ...numArray, description: "B19001 order, summed over the tracts" },
+    medianIncome: nullableNum,
+    bedrooms: num,
+    householdSize: num,
+    estimator: { type: "string", enum: ESTIMATOR_METHODS },
+    referenceArea: {
+      ...object({ stateFips: str, countyFips: str, name: str }),
+      description: "HUD area of the county with the most households, whose FMR, limits and AMI-table incomes are shown",
+    },
+    areaMedianIncome: num,
+    hudYear: str,
+    fmrYear: str,
+    monthlyRent: num,
+    incomeThreshold: num,
+    safmrTractCount: num,
+    percentCanAfford: { ...num, description: "Each tract scored against its own rent, households summed" },
+    householdsAboveThreshold: num,
+    amiTable: { type: "array", items: ref("AmiTableRow") },
+    mostAffordable: { type: "array", items: ref("AggregateTract") },
+    leastAffordable: { type: "array", items: ref("AggregateTract") },
+  }),
+  TrendPoint: object({
+    year: str,
+    totalHouseholds: { ...nullableNum, description: "null when the ACS vintage has no data for the tract" },
+    brackets: { oneOf: [{ type: "array", items: ref("IncomeBracket") }, { type: "null" }] },
+    tractMedian: nullableNum,
+    apportioned: { type: "boolean", description: "true when apportioned from 2010 tracts" },
+    medianIncome: { ...nullableNum, description: "4-person AMI; null when the HUD year is unavailable" },
+    fmrByBedroom: { oneOf: [numArray, { type: "null" }] },
+    isSafmr: { type: "boolean" },
+  }),
+  TrendResponse: object({ points: { type: "array", items: ref("TrendPoint") } }),
+  TractResponse: object({
+    geoid: str,
+    stateFips: str,
+    countyFips: str,
+    tractFips: str,
+    cbsaCode: nullableStr,
+    cbsaName: nullableStr,
+    acsYear: nullableStr,
+    totalHouseholds: num,
+    totalHouseholdsMoe: nullableNum,
+    brackets: { type: "array", items: ref("IncomeBracket") },
+    medianBySize: nullableNumArray,
+    medianMoeBySize: nullableNumArray,
+    incomeByTenure: nullableRef("IncomeByTenure"),
+    homeValue: nullableRef("HomeValueData"),
+  }),
+};
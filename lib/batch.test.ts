@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { batchRowsToCsv, mapWithConcurrency, parseBatchInput, runBatch } from "./batch";
+import { parseCsv } from "./csv";
+import { MAX_BATCH_ROWS } from "./api-schema";
+
+const OPTIONS = { bedrooms: 2, householdSize: 4, estimator: "linear", peers: "cbsa" } as const;
+
+describe("parseBatchInput", () => {
+  it("reads CSV columns by header, in any order and spelling", () => {
+    const csv = 'Longitude,Latitude,Address\n-88.41,44.26,\n,,"100 N Appleton St, Appleton, WI"\n';
+    expect(parseBatchInput(csv, "text/csv")).toEqual([
+      { input: "44.26,-88.41", location: { lat: 44.26, lng: -88.41 }, error: null },
+      {
+        input: "100 N Appleton St, Appleton, WI",
+        location: { address: "100 N Appleton St, Appleton, WI" },
+        error: null,
+      },
+    ]);
+  });
+
+  it("normalises tract GEOIDs, restoring a spreadsheet's dropped leading zero", () => {
+    const csv = "GEOID\n1400000US55015020100\n6037101110\n55 015 020100\n";
+    expect(parseBatchInput(csv, null).map((r) => r.location)).toEqual([
+      { geoid: "55015020100" },
+      { geoid: "06037101110" },
+      { geoid: "55015020100" },
+    ]);
+  });
+
+  it("rejects CSV without a location column in its header", () => {
+    expect(() => parseBatchInput("name,city\nCity Hall,Appleton\n", "text/csv")).toThrow(
+      "CSV header needs an address or tract column"
+    );
+  });
+
+  it("marks invalid rows instead of failing the batch", () => {
+    const rows = parseBatchInput("lat,lng,tract\n95,-88.41,\n44.26,,\n,,5501502\n", "text/csv");
+    expect(rows.map((r) => r.location)).toEqual([null, null, null]);
+    expect(rows[0].error).toBe("lat must be at most 90.");
+    expect(rows[1].error).toBe("Row needs an address, both lat and lng, or a tract GEOID.");
+    expect(rows[2].error).toBe('tract "5501502" is not in the expected format.');
+  });
+
+  it("reads JSON arrays, { rows }, and bare address strings", () => {
+    const items = [{ tract: "55015020100" }, { lat: 44.26, lng: -88.41 }, "Appleton, WI"];
+    const expected = [{ geoid: "55015020100" }, { lat: 44.26, lng: -88.41 }, { address: "Appleton, WI" }];
+
+    expect(parseBatchInput(JSON.stringify(items), "application/json").map((r) => r.location)).toEqual(expected);
+    // Detected from a leading { without a JSON content type
+    expect(parseBatchInput(JSON.stringify({ rows: items }), null).map((r) => r.location)).toEqual(expected);
+  });
+
+  it("rejects a JSON body that isn't a list", () => {
+    expect(() => parseBatchInput('{"tract": "55015020100"}', null)).toThrow("JSON body must be an array");
+  });
+
+  it("rejects empty batches and those over the row limit", () => {
+    expect(() => parseBatchInput("address\n", "text/csv")).toThrow("No rows to look up.");
+    expect(() => parseBatchInput("[]", null)).toThrow("No rows to look up.");
+
+    const atLimit = JSON.stringify(Array(MAX_BATCH_ROWS).fill("Appleton, WI"));
+    expect(parseBatchInput(atLimit, null)).toHaveLength(MAX_BATCH_ROWS);
+    const overLimit = JSON.stringify(Array(MAX_BATCH_ROWS + 1).fill("Appleton, WI"));
+    expect(() => parseBatchInput(overLimit, null)).toThrow(
+      `Batch has ${MAX_BATCH_ROWS + 1} rows; the limit is ${MAX_BATCH_ROWS}.`
+    );
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("keeps input order with no more than `limit` calls pending", async () => {
+    let pending = 0;
+    let maxPending = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (ms, i) => {
+      maxPending = Math.max(maxPending, ++pending);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      pending--;
+      return i;
+    });
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxPending).toBe(2);
+  });
+});
+
+describe("runBatch", () => {
+  it("returns a numbered row per input, failures included", async () => {
+    // The fixtures hold tract 55015020100 only, so 55015020200's lookup fails
+    const inputs = parseBatchInput("tract,lat\n55015020100,\n,95\n55015020200,\n", "text/csv");
+    const rows = await runBatch(inputs, OPTIONS);
+
+    expect(rows.map((r) => r.row)).toEqual([1, 2, 3]);
+    expect(rows[0]).toMatchObject({
+      input: "55015020100",
+      error: null,
+      geoid: "55015020100",
+      fmr: 1040,
+      isSafmr: true,
+      incomeNeeded: 41600,
+      percentCanAfford: 76.4,
+    });
+    expect(rows[1]).toMatchObject({ input: "95", error: "lat must be at most 90.", geoid: null });
+    expect(rows[2]).toMatchObject({ input: "55015020200", geoid: null, percentCanAfford: null });
+    expect(rows[2].error).toContain("No recorded fixture");
+  });
+
+  it("writes failed rows to CSV with their error and empty figures", async () => {
+    const rows = await runBatch(parseBatchInput("lat,lng\n44.26,\n", "text/csv"), OPTIONS);
+    const [header, row] = parseCsv(batchRowsToCsv(rows));
+
+    expect(header.slice(0, 4)).toEqual(["row", "input", "error", "geoid"]);
+    expect(row.slice(0, 4)).toEqual([
+      "1",
+      "44.26",
+      "Row needs an address, both lat and lng, or a tract GEOID.",
+      "",
+    ]);
+  });
+});
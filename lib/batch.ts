@@ -0,0 +1,240 @@
+import { lookupAffordability, LookupLocation } from "./lookup";
+import { incomeLimitForSize } from "./hud-api";
+import { DEFAULT_MORTGAGE_PARAMS } from "./mortgage";
+import { IncomeEstimatorMethod } from "./bracket-math";
+import { PeerGeography } from "./peer-group";
+import { parseCsv, toCsv } from "./csv";
+import { parseTractGeoid } from "./geoid";
+import { parseQuery, BATCH_ROW_FIELDS, MAX_BATCH_ROWS, BatchRow } from "./api-schema";
+
+// Lookups in flight at once. Each one makes ~7 upstream calls, and address
+// rows that miss the Census geocoder share Nominatim's one-per-second queue.
+const BATCH_CONCURRENCY = 4;
+
+export interface BatchInput {
+  input: string;
+  location: LookupLocation | null;
+  error: string | null; // set when the row itself is invalid
+}
+
+export interface BatchOptions {
+  bedrooms: number;
+  householdSize: number;
+  estimator: IncomeEstimatorMethod;
+  peers: PeerGeography;
+}
+
+// Accepted header spellings for each location field
+const COLUMN_ALIASES: Record<string, string> = {
+  address: "address",
+  location: "address",
+  lat: "lat",
+  latitude: "lat",
+  lng: "lng",
+  lon: "lng",
+  long: "lng",
+  longitude: "lng",
+  tract: "tract",
+  geoid: "tract",
+};
+
+function toInput(fields: Record<string, string>): BatchInput {
+  if (fields.tract?.trim()) {
+    // Spreadsheets drop the leading zero of state FIPS 01–09
+    const raw = fields.tract.trim();
+    fields.tract = parseTractGeoid(/^\d{10}$/.test(raw) ? `0${raw}` : raw) ?? raw;
+  }
+  const params = new URLSearchParams(fields);
+  const input =
+    fields.tract?.trim() ||
+    fields.address?.trim() ||
+    [fields.lat, fields.lng].filter(Boolean).join(",");
+  const parsed = parseQuery(params, BATCH_ROW_FIELDS);
+  if (!parsed.ok) return { input, location: null, error: parsed.errors.join(" ") };
+
+  const { address, lat, lng, tract } = parsed.values;
+  if (tract) return { input, location: { geoid: tract }, error: null };
+  if (lat !== undefined && lng !== undefined) return { input, location: { lat, lng }, error: null };
+  if (address) return { input, location: { address }, error: null };
+  return { input, location: null, error: "Row needs an address, both lat and lng, or a tract GEOID." };
+}
+
+function fromCsv(text: string): BatchInput[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((h) => COLUMN_ALIASES[h.trim().toLowerCase()]);
+  const hasPoint = columns.includes("lat") && columns.includes("lng");
+  if (!columns.includes("address") && !columns.includes("tract") && !hasPoint) {
+    throw new Error("CSV header needs an address or tract column, or lat and lng columns.");
+  }
+
+  return rows.map((row) => {
+    const fields: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      if (column && row[i] !== undefined) fields[column] = row[i];
+    });
+    return toInput(fields);
+  });
+}
+
+function fromJson(text: string): BatchInput[] {
+  const body = JSON.parse(text);
+  const items: unknown = Array.isArray(body) ? body : body?.rows;
+  if (!Array.isArray(items)) {
+    throw new Error("JSON body must be an array of locations or { rows: [...] }.");
+  }
+
+  return items.map((item) => {
+    if (typeof item === "string") return toInput({ address: item });
+    const fields: Record<string, string> = {};
+    for (const key of ["address", "lat", "lng", "tract"]) {
+      const value = item?.[key];
+      if (value !== undefined && value !== null) fields[key] = String(value);
+    }
+    return toInput(fields);
+  });
+}
+
+/**
+ * Parse an uploaded list of locations. JSON is detected from the content
+ * type or a leading [ or {; anything else is read as CSV with a header row.
+ */
+export function parseBatchInput(text: string, contentType: string | null): BatchInput[] {
+  const trimmed = text.trimStart();
+  const isJson = contentType?.includes("json") || trimmed.startsWith("[") || trimmed.startsWith("{");
+  const inputs = isJson ? fromJson(text) : fromCsv(text);
+
+  if (inputs.length === 0) throw new Error("No rows to look up.");
+  if (inputs.length > MAX_BATCH_ROWS) {
+    throw new Error(`Batch has ${inputs.length} rows; the limit is ${MAX_BATCH_ROWS}.`);
+  }
+  return inputs;
+}
+
+/** Map items through fn with at most `limit` calls pending, keeping input order. */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function failedRow(row: number, input: string, error: string): BatchRow {
+  return {
+    row,
+    input,
+    error,
+    geoid: null,
+    matchedAddress: null,
+    lat: null,
+    lng: null,
+    cbsaName: null,
+    areaName: null,
+    ami: null,
+    fmr: null,
+    isSafmr: null,
+    fmrZipCode: null,
+    incomeNeeded: null,
+    percentCanAfford: null,
+    percentCanAffordLow: null,
+    percentCanAffordHigh: null,
+    msaPercentile: null,
+    peerGroup: null,
+    acsYear: null,
+    hudYear: null,
+    fmrYear: null,
+  };
+}
+
+/** Run the lookup pipeline for every input; a failed row never fails the batch. */
+export async function runBatch(inputs: BatchInput[], options: BatchOptions): Promise<BatchRow[]> {
+  return mapWithConcurrency(inputs, BATCH_CONCURRENCY, async ({ input, location, error }, i) => {
+    const row = i + 1;
+    if (!location) return failedRow(row, input, error ?? "Invalid row.");
+
+    try {
+      const result = await lookupAffordability(location, {
+        estimator: options.estimator,
+        mortgageParams: DEFAULT_MORTGAGE_PARAMS,
+        bedrooms: options.bedrooms,
+        peers: options.peers,
+      });
+      return {
+        row,
+        input,
+        error: null,
+        geoid: `${result.stateFips}${result.countyFips}${result.tractFips}`,
+        matchedAddress: result.matchedAddress,
+        lat: result.lat,
+        lng: result.lng,
+        cbsaName: result.cbsaName,
+        areaName: result.areaName,
+        ami: Math.round(incomeLimitForSize(result.incomeLimitsBySize, options.householdSize)),
+        fmr: result.monthlyRent,
+        isSafmr: result.isSafmr,
+        fmrZipCode: result.fmrZipCode,
+        incomeNeeded: Math.round(result.incomeThreshold),
+        percentCanAfford: result.percentCanAfford,
+        percentCanAffordLow: result.percentCanAffordInterval.low,
+        percentCanAffordHigh: result.percentCanAffordInterval.high,
+        msaPercentile: result.msaPercentile,
+        peerGroup: result.msaPercentile !== null ? result.peerGroup?.name ?? null : null,
+        acsYear: result.acsYear,
+        hudYear: result.hudYear,
+        fmrYear: result.fmrYear,
+      };
+    } catch (err) {
+      return failedRow(row, input, err instanceof Error ? err.message : "Lookup failed.");
+    }
+  });
+}
+
+const CSV_COLUMNS: (keyof BatchRow)[] = [
+  "row",
+  "input",
+  "error",
+  "geoid",
+  "matchedAddress",
+  "lat",
+  "lng",
+  "cbsaName",
+  "areaName",
+  "ami",
+  "fmr",
+  "isSafmr",
+  "fmrZipCode",
+  "incomeNeeded",
+  "percentCanAfford",
+  "percentCanAffordLow",
+  "percentCanAffordHigh",
+  "msaPercentile",
+  "peerGroup",
+  "acsYear",
+  "hudYear",
+  "fmrYear",
+];
+
+export function batchRowsToCsv(rows: BatchRow[]): string {
+  return toCsv([
+    CSV_COLUMNS,
+    ...rows.map((row) =>
+      CSV_COLUMNS.map((column) => {
+        const value = row[column];
+        return typeof value === "boolean" ? (value ? "yes" : "no") : value;
+      })
+    ),
+  ]);
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  BRACKET_BOUNDS,
+  TENURE_BRACKET_BOUNDS,
+  bracketSharesAbove,
+  computeAffordabilityPct,
+  estimateHouseholdsAbove,
+  interpolateMedian,
+  IncomeEstimatorMethod,
+} from "./bracket-math";
+
+// B19001 counts with `count` households in bracket `index` and none elsewhere
+function only(index: number, count = 100, length = BRACKET_BOUNDS.length): number[] {
+  return Array.from({ length }, (_, i) => (i === index ? count : 0));
+}
+
+// Tract 55015020100, as in fixtures/
+const TRACT = [33, 14, 75, 26, 88, 162, 70, 44, 166, 104, 220, 234, 318, 161, 231, 99];
+
+describe("estimateHouseholdsAbove", () => {
+  it("spreads households uniformly within a closed bracket", () => {
+    // $55,000 is halfway through $50,000–$59,999
+    expect(estimateHouseholdsAbove(55000, only(9))).toBe(50);
+    expect(estimateHouseholdsAbove(50000, only(9))).toBe(100);
+    expect(estimateHouseholdsAbove(60000, only(9))).toBe(0);
+  });
+
+  it("counts the whole top bracket as above any threshold under linear", () => {
+    expect(estimateHouseholdsAbove(1_000_000, only(15))).toBe(100);
+  });
+
+  it("fits a Pareto tail to the top two brackets", () => {
+    const counts = only(14);
+    counts[15] = 100;
+    // 200 households above $150k and 100 above $200k
+    const alpha = Math.log(2) / Math.log(4 / 3);
+    expect(estimateHouseholdsAbove(400000, counts, { method: "pareto" })).toBeCloseTo(
+      100 * Math.pow(0.5, alpha)
+    );
+    expect(estimateHouseholdsAbove(200000, counts, { method: "pareto" })).toBe(100);
+  });
+
+  it("falls back to a tail index of 2 when the second bracket is empty", () => {
+    expect(estimateHouseholdsAbove(400000, only(15), { method: "pareto" })).toBeCloseTo(25);
+  });
+
+  it("puts half the households above the anchored log-normal median", () => {
+    const total = TRACT.reduce((s, c) => s + c, 0);
+    expect(
+      estimateHouseholdsAbove(86417, TRACT, { method: "lognormal", median: 86417 })
+    ).toBeCloseTo(total / 2, 3);
+  });
+
+  it("reads counts against the bounds it is given", () => {
+    // $42,500 is halfway through the tenure table's $35,000–$49,999
+    const counts = only(6, 100, TENURE_BRACKET_BOUNDS.length);
+    expect(estimateHouseholdsAbove(42500, counts, { bounds: TENURE_BRACKET_BOUNDS })).toBe(50);
+  });
+});
+
+describe("interpolateMedian", () => {
+  it("interpolates within the bracket holding the middle household", () => {
+    expect(interpolateMedian(only(9))).toBe(55000);
+    const counts = only(0, 50);
+    counts[1] = 50;
+    expect(interpolateMedian(counts)).toBe(10000);
+  });
+
+  it("reports the open top bracket's lower bound", () => {
+    expect(interpolateMedian(only(15))).toBe(200000);
+  });
+
+  it("is null without households", () => {
+    expect(interpolateMedian(only(0, 0))).toBeNull();
+  });
+});
+
+describe("computeAffordabilityPct", () => {
+  it("rounds to one decimal", () => {
+    // 1,533 households from $45k up plus 3,400/5,000 of the 44 at $40k–$45k
+    expect(computeAffordabilityPct(41600, 2045, TRACT)).toBe(76.4);
+  });
+
+  it("is zero for an empty tract", () => {
+    expect(computeAffordabilityPct(41600, 0, only(0, 0))).toBe(0);
+  });
+});
+
+describe("bracketSharesAbove", () => {
+  it.each<IncomeEstimatorMethod>(["linear", "pareto"])(
+    "weights the counts to the %s estimate",
+    (method) => {
+      for (const threshold of [12000, 41600, 180000, 350000]) {
+        const shares = bracketSharesAbove(threshold, TRACT, { method });
+        const weighted = shares.reduce((sum, share, i) => sum + share * TRACT[i], 0);
+        expect(weighted).toBeCloseTo(estimateHouseholdsAbove(threshold, TRACT, { method }));
+      }
+    }
+  );
+
+  it("keeps log-normal shares between 0 and 1, with brackets above the threshold whole", () => {
+    const shares = bracketSharesAbove(41600, TRACT, { method: "lognormal" });
+    expect(shares).toHaveLength(16);
+    for (const share of shares) {
+      expect(share).toBeGreaterThanOrEqual(0);
+      expect(share).toBeLessThanOrEqual(1);
+    }
+    expect(shares.slice(8)).toEqual(Array(8).fill(1));
+  });
+});
@@ -20,29 +20,297 @@ export const BRACKET_BOUNDS: [number, number][] = [
   [200000, Infinity],
 ];
 
-export function computeAffordabilityPct(
-  incomeThreshold: number,
-  totalHouseholds: number,
-  bracketCounts: number[]
-): number {
-  if (totalHouseholds === 0) return 0;
+// ACS B25118 (tenure by household income) uses its own, coarser brackets:
+// 11 per tenure, from <$5k to $150k+
+export const TENURE_BRACKET_BOUNDS: [number, number][] = [
+  [0, 4999],
+  [5000, 9999],
+  [10000, 14999],
+  [15000, 19999],
+  [20000, 24999],
+  [25000, 34999],
+  [35000, 49999],
+  [50000, 74999],
+  [75000, 99999],
+  [100000, 149999],
+  [150000, Infinity],
+];
+
+/** Which households an affordability figure is computed over. */
+export type HouseholdTenure = "all" | "renter" | "owner";
+
+export const TENURES: HouseholdTenure[] = ["all", "renter", "owner"];
+
+export const TENURE_LABELS: Record<HouseholdTenure, string> = {
+  all: "All households",
+  renter: "Renters",
+  owner: "Owners",
+};
+
+export function isHouseholdTenure(value: unknown): value is HouseholdTenure {
+  return typeof value === "string" && (TENURES as string[]).includes(value);
+}
+
+/**
+ * How households are assumed to be spread within each B19001 bracket.
+ *
+ * - linear: uniform within closed brackets; everyone in the $200k+ bracket
+ *   counts as above any threshold (the original behavior).
+ * - pareto: linear within closed brackets, with a Pareto tail fitted to the
+ *   top two brackets so thresholds inside the open top bracket are not inflated.
+ * - lognormal: a log-normal fitted to the bracket shares and anchored on the
+ *   tract median (B19019_001E when known, otherwise interpolated).
+ */
+export type IncomeEstimatorMethod = "linear" | "pareto" | "lognormal";
+
+export const ESTIMATOR_METHODS: IncomeEstimatorMethod[] = ["linear", "pareto", "lognormal"];
+
+export const ESTIMATOR_LABELS: Record<IncomeEstimatorMethod, string> = {
+  linear: "Linear",
+  pareto: "Pareto tail",
+  lognormal: "Log-normal",
+};
+
+export const DEFAULT_ESTIMATOR: IncomeEstimatorMethod = "linear";
+
+export interface IncomeEstimatorOptions {
+  method?: IncomeEstimatorMethod;
+  // Tract median household income; only used by the log-normal fit
+  median?: number | null;
+  // Bracket boundaries the counts refer to (default: B19001)
+  bounds?: [number, number][];
+}
+
+// A household income distribution plus how to read it
+export interface IncomeDistributionInput {
+  totalHouseholds: number;
+  bracketCounts: number[];
+  options?: IncomeEstimatorOptions;
+}
+
+export function isEstimatorMethod(value: unknown): value is IncomeEstimatorMethod {
+  return typeof value === "string" && (ESTIMATOR_METHODS as string[]).includes(value);
+}
+
+// Fallback tail index when the top two brackets can't support a fit
+const DEFAULT_PARETO_ALPHA = 2;
+
+/** Share of a closed bracket [min, max] at or above the threshold. */
+function linearShareAbove(threshold: number, min: number, max: number): number {
+  if (min >= threshold) return 1;
+  if (max < threshold) return 0;
+  return (max - threshold + 1) / (max - min + 1);
+}
+
+/**
+ * Pareto tail index from the households above the lower bounds of the top
+ * two brackets (for B19001, $150k and $200k): N(x) ∝ x^-alpha, so
+ * alpha = ln(N150 / N200) / ln(200k / 150k).
+ */
+function fitParetoAlpha(bracketCounts: number[], bounds: [number, number][]): number {
+  const top = bracketCounts[bounds.length - 1] ?? 0;
+  const second = bracketCounts[bounds.length - 2] ?? 0;
+  if (top <= 0 || second <= 0) return DEFAULT_PARETO_ALPHA;
+  const topMin = bounds[bounds.length - 1][0];
+  const secondMin = bounds[bounds.length - 2][0];
+  const alpha = Math.log((second + top) / top) / Math.log(topMin / secondMin);
+  return isFinite(alpha) && alpha > 1 ? alpha : DEFAULT_PARETO_ALPHA;
+}
 
+function estimateAboveLinear(
+  threshold: number,
+  bracketCounts: number[],
+  bounds: [number, number][]
+): number {
   let householdsAbove = 0;
   for (let i = 0; i < bracketCounts.length; i++) {
-    const [min, max] = BRACKET_BOUNDS[i];
+    const [min, max] = bounds[i];
     const count = bracketCounts[i];
-    const isTopBracket = max === Infinity;
-
-    if (min >= incomeThreshold) {
+    if (max === Infinity) {
+      // Top bracket (e.g. $200k+): assume all are above any threshold
       householdsAbove += count;
-    } else if (!isTopBracket && max >= incomeThreshold) {
-      const bracketWidth = max - min + 1;
-      const portionAbove = (max - incomeThreshold + 1) / bracketWidth;
-      householdsAbove += count * portionAbove;
-    } else if (isTopBracket && min < incomeThreshold) {
+    } else {
+      householdsAbove += count * linearShareAbove(threshold, min, max);
+    }
+  }
+  return householdsAbove;
+}
+
+function estimateAbovePareto(
+  threshold: number,
+  bracketCounts: number[],
+  bounds: [number, number][]
+): number {
+  let householdsAbove = 0;
+  for (let i = 0; i < bracketCounts.length; i++) {
+    const [min, max] = bounds[i];
+    const count = bracketCounts[i];
+    if (max !== Infinity) {
+      householdsAbove += count * linearShareAbove(threshold, min, max);
+    } else if (threshold <= min) {
       householdsAbove += count;
+    } else {
+      const alpha = fitParetoAlpha(bracketCounts, bounds);
+      householdsAbove += count * Math.pow(min / threshold, alpha);
     }
   }
+  return householdsAbove;
+}
+
+// Abramowitz & Stegun 7.1.26, max error ~1.5e-7
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Median income interpolated linearly from the bracket counts. */
+export function interpolateMedian(
+  bracketCounts: number[],
+  bounds: [number, number][] = BRACKET_BOUNDS
+): number | null {
+  const total = bracketCounts.reduce((sum, c) => sum + c, 0);
+  if (total <= 0) return null;
+
+  const half = total / 2;
+  let cumulative = 0;
+  for (let i = 0; i < bracketCounts.length; i++) {
+    const [min, max] = bounds[i];
+    const count = bracketCounts[i];
+    if (cumulative + count >= half && count > 0) {
+      // Median in the open top bracket: report its lower bound
+      if (max === Infinity) return min;
+      return min + ((half - cumulative) / count) * (max - min + 1);
+    }
+    cumulative += count;
+  }
+  return null;
+}
+
+/**
+ * Fit sigma of a log-normal with fixed mu = ln(median) by minimizing the
+ * squared error between model and observed cumulative shares at each
+ * bracket boundary (golden-section search).
+ */
+function fitLognormalSigma(
+  mu: number,
+  bracketCounts: number[],
+  bounds: [number, number][]
+): number {
+  const total = bracketCounts.reduce((sum, c) => sum + c, 0);
+  const cuts: { logX: number; share: number }[] = [];
+  let cumulative = 0;
+  for (let i = 0; i < bracketCounts.length - 1; i++) {
+    cumulative += bracketCounts[i];
+    cuts.push({ logX: Math.log(bounds[i + 1][0]), share: cumulative / total });
+  }
+
+  const loss = (sigma: number) =>
+    cuts.reduce((sum, c) => {
+      const diff = normalCdf((c.logX - mu) / sigma) - c.share;
+      return sum + diff * diff;
+    }, 0);
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let lo = 0.1;
+  let hi = 3;
+  for (let iter = 0; iter < 40; iter++) {
+    const a = hi - ratio * (hi - lo);
+    const b = lo + ratio * (hi - lo);
+    if (loss(a) < loss(b)) hi = b;
+    else lo = a;
+  }
+  return (lo + hi) / 2;
+}
+
+function fitLognormal(
+  bracketCounts: number[],
+  bounds: [number, number][],
+  median?: number | null
+): { mu: number; sigma: number } | null {
+  const anchor = median && median > 0 ? median : interpolateMedian(bracketCounts, bounds);
+  if (!anchor) return null;
+  const mu = Math.log(anchor);
+  return { mu, sigma: fitLognormalSigma(mu, bracketCounts, bounds) };
+}
+
+function estimateAboveLognormal(
+  threshold: number,
+  bracketCounts: number[],
+  bounds: [number, number][],
+  median?: number | null
+): number {
+  const total = bracketCounts.reduce((sum, c) => sum + c, 0);
+  const fit = total > 0 ? fitLognormal(bracketCounts, bounds, median) : null;
+  if (!fit) return estimateAbovePareto(threshold, bracketCounts, bounds);
+  if (threshold <= 0) return total;
+
+  return total * (1 - normalCdf((Math.log(threshold) - fit.mu) / fit.sigma));
+}
+
+/**
+ * Estimate how many households earn at least incomeThreshold, given
+ * bracket counts in options.bounds order (B19001 by default).
+ */
+export function estimateHouseholdsAbove(
+  incomeThreshold: number,
+  bracketCounts: number[],
+  options: IncomeEstimatorOptions = {}
+): number {
+  const bounds = options.bounds ?? BRACKET_BOUNDS;
+  switch (options.method ?? DEFAULT_ESTIMATOR) {
+    case "pareto":
+      return estimateAbovePareto(incomeThreshold, bracketCounts, bounds);
+    case "lognormal":
+      return estimateAboveLognormal(incomeThreshold, bracketCounts, bounds, options.median);
+    default:
+      return estimateAboveLinear(incomeThreshold, bracketCounts, bounds);
+  }
+}
+
+export function computeAffordabilityPct(
+  incomeThreshold: number,
+  totalHouseholds: number,
+  bracketCounts: number[],
+  options: IncomeEstimatorOptions = {}
+): number {
+  if (totalHouseholds === 0) return 0;
 
+  const householdsAbove = estimateHouseholdsAbove(incomeThreshold, bracketCounts, options);
   return Math.round((householdsAbove / totalHouseholds) * 1000) / 10;
 }
+
+/**
+ * Per-bracket share of households at or above incomeThreshold under the
+ * chosen estimator. Used to weight bracket margins of error; for the
+ * log-normal fit it is the model's mass above the threshold within each
+ * bracket relative to the model's mass in that bracket.
+ */
+export function bracketSharesAbove(
+  incomeThreshold: number,
+  bracketCounts: number[],
+  options: IncomeEstimatorOptions = {}
+): number[] {
+  const bounds = options.bounds ?? BRACKET_BOUNDS;
+  const method = options.method ?? DEFAULT_ESTIMATOR;
+  const fit = method === "lognormal" ? fitLognormal(bracketCounts, bounds, options.median) : null;
+
+  return bounds.map(([min, max]) => {
+    if (min >= incomeThreshold) return 1;
+    if (fit) {
+      const survival = (x: number) =>
+        x <= 0 ? 1 : 1 - normalCdf((Math.log(x) - fit.mu) / fit.sigma);
+      const upper = max === Infinity ? 0 : survival(max + 1);
+      const mass = survival(min) - upper;
+      return mass > 0 ? Math.max(0, survival(incomeThreshold) - upper) / mass : 0;
+    }
+    if (max !== Infinity) return linearShareAbove(incomeThreshold, min, max);
+    if (method === "pareto") {
+      return Math.pow(min / incomeThreshold, fitParetoAlpha(bracketCounts, bounds));
+    }
+    return 1;
+  });
+}
@@ -1,3 +1,7 @@
+import { BRACKET_BOUNDS, TENURE_BRACKET_BOUNDS } from "./bracket-math";
+import { parseMoe } from "./moe";
+import type { HomeValueData } from "./mortgage";
+
 // ACS 5-Year Table B19001: Household Income in the Past 12 Months
 // 16 income brackets from <$10k to $200k+
 
@@ -5,28 +9,9 @@ export interface IncomeBracket {
   min: number;
   max: number; // Infinity for the top bracket
   count: number;
+  moe?: number; // 90% margin of error (B19001 and B25118)
 }
 
-// B19001_002E through B19001_017E bracket boundaries
-const BRACKET_BOUNDS: [number, number][] = [
-  [0, 9999],
-  [10000, 14999],
-  [15000, 19999],
-  [20000, 24999],
-  [25000, 29999],
-  [30000, 34999],
-  [35000, 39999],
-  [40000, 44999],
-  [45000, 49999],
-  [50000, 59999],
-  [60000, 74999],
-  [75000, 99999],
-  [100000, 124999],
-  [125000, 149999],
-  [150000, 199999],
-  [200000, Infinity],
-];
-
 const VARIABLE_NAMES = [
   "B19001_001E", // total
   "B19001_002E",
@@ -47,15 +32,46 @@ const VARIABLE_NAMES = [
   "B19001_017E",
 ];
 
+// Matching _M (margin of error) columns, requested alongside the estimates
+const MOE_VARIABLE_NAMES = VARIABLE_NAMES.map((v) => v.replace(/E$/, "M"));
+
 export interface IncomeDistribution {
   totalHouseholds: number;
+  totalHouseholdsMoe?: number;
   brackets: IncomeBracket[];
+  year?: string; // ACS 5-year vintage the figures come from
+}
+
+// values = [...17 estimates, ...17 MOEs, state, county, tract]
+function parseIncomeDistribution(values: string[], year: string): IncomeDistribution {
+  const moeOffset = VARIABLE_NAMES.length;
+  const totalHouseholds = parseInt(values[0], 10);
+
+  const brackets: IncomeBracket[] = BRACKET_BOUNDS.map((bounds, i) => ({
+    min: bounds[0],
+    max: bounds[1],
+    count: parseInt(values[i + 1], 10),
+    // An uncomputable bracket MOE contributes nothing rather than failing the lookup
+    moe: parseMoe(values[moeOffset + i + 1]) ?? 0,
+  }));
+
+  return {
+    totalHouseholds,
+    totalHouseholdsMoe: parseMoe(values[moeOffset]) ?? 0,
+    brackets,
+    year,
+  };
 }
 
+/**
+ * B19001 for one tract. Without a year this is the latest vintage, falling
+ * back to 2022 when 2023 isn't published; an explicit year never falls back.
+ */
 export async function fetchIncomeDistribution(
   stateFips: string,
   countyFips: string,
-  tractFips: string
+  tractFips: string,
+  year?: string
 ): Promise<IncomeDistribution> {
   const apiKey = process.env.CENSUS_API_KEY;
   if (!apiKey) {
@@ -63,8 +79,8 @@ export async function fetchIncomeDistribution(
   }
 
   const url =
-    `https://api.census.gov/data/2023/acs/acs5` +
-    `?get=${VARIABLE_NAMES.join(",")}` +
+    `https://api.census.gov/data/${year ?? "2023"}/acs/acs5` +
+    `?get=${[...VARIABLE_NAMES, ...MOE_VARIABLE_NAMES].join(",")}` +
     `&for=tract:${tractFips}` +
     `&in=state:${stateFips}&in=county:${countyFips}` +
     `&key=${apiKey}`;
@@ -73,7 +89,7 @@ export async function fetchIncomeDistribution(
   if (!res.ok) {
     const text = await res.text();
     // Fall back to 2022 data if 2023 isn't available yet
-    if (res.status === 404 || text.includes("unknown/unsupported")) {
+    if (!year && (res.status === 404 || text.includes("unknown/unsupported"))) {
       return fetchIncomeDistributionFallback(stateFips, countyFips, tractFips, apiKey);
     }
     throw new Error(`Census ACS API returned ${res.status}: ${text}`);
@@ -85,16 +101,7 @@ export async function fetchIncomeDistribution(
     throw new Error("No income data available for this tract.");
   }
 
-  const values = data[1];
-  const totalHouseholds = parseInt(values[0], 10);
-
-  const brackets: IncomeBracket[] = BRACKET_BOUNDS.map((bounds, i) => ({
-    min: bounds[0],
-    max: bounds[1],
-    count: parseInt(values[i + 1], 10),
-  }));
-
-  return { totalHouseholds, brackets };
+  return parseIncomeDistribution(data[1], year ?? "2023");
 }
 
 // B19019: Median Household Income by Household Size
@@ -110,10 +117,30 @@ const B19019_VARIABLES = [
   "B19019_008E",
 ];
 
+const B19019_MOE_VARIABLES = B19019_VARIABLES.map((v) => v.replace(/E$/, "M"));
+
 export interface MedianByHouseholdSize {
   medianBySize: (number | null)[]; // index 0 = overall, 1 = 1-person, ... 7 = 7+-person
+  moeBySize: (number | null)[]; // 90% MOE for each entry of medianBySize
+}
+
+// values = [...8 medians, ...8 MOEs, state, county, tract]
+function parseMedianByHouseholdSize(values: string[]): MedianByHouseholdSize {
+  const medianBySize: (number | null)[] = B19019_VARIABLES.map((_, i) => {
+    const v = parseInt(values[i], 10);
+    return v === -666666666 || isNaN(v) ? null : v;
+  });
+  const moeBySize = B19019_VARIABLES.map((_, i) =>
+    medianBySize[i] === null ? null : parseMoe(values[B19019_VARIABLES.length + i])
+  );
+  return { medianBySize, moeBySize };
 }
 
+const EMPTY_MEDIANS: MedianByHouseholdSize = {
+  medianBySize: B19019_VARIABLES.map(() => null),
+  moeBySize: B19019_VARIABLES.map(() => null),
+};
+
 export async function fetchMedianByHouseholdSize(
   stateFips: string,
   countyFips: string,
@@ -126,7 +153,7 @@ export async function fetchMedianByHouseholdSize(
 
   const url =
     `https://api.census.gov/data/2023/acs/acs5` +
-    `?get=${B19019_VARIABLES.join(",")}` +
+    `?get=${[...B19019_VARIABLES, ...B19019_MOE_VARIABLES].join(",")}` +
     `&for=tract:${tractFips}` +
     `&in=state:${stateFips}&in=county:${countyFips}` +
     `&key=${apiKey}`;
@@ -142,13 +169,7 @@ export async function fetchMedianByHouseholdSize(
     throw new Error("No B19019 data available for this tract.");
   }
 
-  const values = data[1];
-  const medianBySize: (number | null)[] = B19019_VARIABLES.map((_, i) => {
-    const v = parseInt(values[i], 10);
-    return v === -666666666 || isNaN(v) ? null : v;
-  });
-
-  return { medianBySize };
+  return parseMedianByHouseholdSize(data[1]);
 }
 
 async function fetchMedianByHouseholdSizeFallback(
@@ -159,7 +180,7 @@ async function fetchMedianByHouseholdSizeFallback(
 ): Promise<MedianByHouseholdSize> {
   const url =
     `https://api.census.gov/data/2022/acs/acs5` +
-    `?get=${B19019_VARIABLES.join(",")}` +
+    `?get=${[...B19019_VARIABLES, ...B19019_MOE_VARIABLES].join(",")}` +
     `&for=tract:${tractFips}` +
     `&in=state:${stateFips}&in=county:${countyFips}` +
     `&key=${apiKey}`;
@@ -167,21 +188,15 @@ async function fetchMedianByHouseholdSizeFallback(
   const res = await fetch(url);
   if (!res.ok) {
     // Return all nulls if data unavailable
-    return { medianBySize: B19019_VARIABLES.map(() => null) };
+    return EMPTY_MEDIANS;
   }
 
   const data = await res.json();
   if (!data || data.length < 2) {
-    return { medianBySize: B19019_VARIABLES.map(() => null) };
+    return EMPTY_MEDIANS;
   }
 
-  const values = data[1];
-  const medianBySize: (number | null)[] = B19019_VARIABLES.map((_, i) => {
-    const v = parseInt(values[i], 10);
-    return v === -666666666 || isNaN(v) ? null : v;
-  });
-
-  return { medianBySize };
+  return parseMedianByHouseholdSize(data[1]);
 }
 
 async function fetchIncomeDistributionFallback(
@@ -192,7 +207,7 @@ async function fetchIncomeDistributionFallback(
 ): Promise<IncomeDistribution> {
   const url =
     `https://api.census.gov/data/2022/acs/acs5` +
-    `?get=${VARIABLE_NAMES.join(",")}` +
+    `?get=${[...VARIABLE_NAMES, ...MOE_VARIABLE_NAMES].join(",")}` +
     `&for=tract:${tractFips}` +
     `&in=state:${stateFips}&in=county:${countyFips}` +
     `&key=${apiKey}`;
@@ -207,14 +222,216 @@ async function fetchIncomeDistributionFallback(
     throw new Error("No income data available for this tract.");
   }
 
-  const values = data[1];
-  const totalHouseholds = parseInt(values[0], 10);
+  return parseIncomeDistribution(data[1], "2022");
+}
 
-  const brackets: IncomeBracket[] = BRACKET_BOUNDS.map((bounds, i) => ({
-    min: bounds[0],
-    max: bounds[1],
-    count: parseInt(values[i + 1], 10),
-  }));
+export interface TractIncomeVintage {
+  geoid: string; // 11-digit tract GEOID in the vintage's own tract geography
+  distribution: IncomeDistribution;
+  median: number | null; // B19019_001E
+}
+
+/**
+ * B19001 and the overall B19019 median for several tracts of one county in
+ * a single ACS 5-year vintage. Tracts the vintage doesn't publish are
+ * simply absent from the result.
+ */
+export async function fetchTractIncomeVintage(
+  stateFips: string,
+  countyFips: string,
+  tractFipsList: string[],
+  year: string
+): Promise<TractIncomeVintage[]> {
+  const apiKey = process.env.CENSUS_API_KEY;
+  if (!apiKey) {
+    throw new Error("CENSUS_API_KEY environment variable is not set.");
+  }
+
+  const url =
+    `https://api.census.gov/data/${year}/acs/acs5` +
+    `?get=${[...VARIABLE_NAMES, ...MOE_VARIABLE_NAMES, B19019_VARIABLES[0]].join(",")}` +
+    `&for=tract:${tractFipsList.join(",")}` +
+    `&in=state:${stateFips}&in=county:${countyFips}` +
+    `&key=${apiKey}`;
+
+  const res = await fetch(url);
+  if (!res.ok) return [];
+
+  const data: string[][] = await res.json();
+  if (!data || data.length < 2) return [];
+
+  const medianIndex = VARIABLE_NAMES.length + MOE_VARIABLE_NAMES.length;
+  return data.slice(1).map((values) => {
+    const median = parseInt(values[medianIndex], 10);
+    return {
+      geoid: `${stateFips}${countyFips}${values[values.length - 1]}`,
+      distribution: parseIncomeDistribution(values, year),
+      median: isNaN(median) || median < 0 ? null : median,
+    };
+  });
+}
+
+// B25118: Tenure by Household Income
+// B25118_002E = owner total, 003E–013E = owner brackets
+// B25118_014E = renter total, 015E–025E = renter brackets
+// B25119: Median Household Income by Tenure (002E = owner, 003E = renter)
+const B25118_OWNER_VARIABLES = Array.from(
+  { length: 12 },
+  (_, i) => `B25118_${String(i + 2).padStart(3, "0")}E`
+);
+const B25118_RENTER_VARIABLES = Array.from(
+  { length: 12 },
+  (_, i) => `B25118_${String(i + 14).padStart(3, "0")}E`
+);
+// Matching _M (margin of error) columns for every B25118 estimate above
+const B25118_MOE_VARIABLES = [...B25118_OWNER_VARIABLES, ...B25118_RENTER_VARIABLES].map((v) =>
+  v.replace(/E$/, "M")
+);
+const B25119_VARIABLES = ["B25119_002E", "B25119_003E"];
+
+export interface TenureIncomeDistribution extends IncomeDistribution {
+  median: number | null;
+}
+
+export interface IncomeByTenure {
+  owner: TenureIncomeDistribution;
+  renter: TenureIncomeDistribution;
+}
+
+/**
+ * Owner- and renter-household income distributions for a tract. Brackets
+ * follow TENURE_BRACKET_BOUNDS, not the B19001 ones. Returns null when
+ * neither vintage has the tables, so callers can fall back to all households.
+ */
+export async function fetchIncomeByTenure(
+  stateFips: string,
+  countyFips: string,
+  tractFips: string
+): Promise<IncomeByTenure | null> {
+  const apiKey = process.env.CENSUS_API_KEY;
+  if (!apiKey) {
+    throw new Error("CENSUS_API_KEY environment variable is not set.");
+  }
+
+  for (const year of ["2023", "2022"]) {
+    // 50 variables, the most one request may ask for
+    const variables = [
+      ...B25118_OWNER_VARIABLES,
+      ...B25118_RENTER_VARIABLES,
+      ...B25118_MOE_VARIABLES,
+      ...B25119_VARIABLES,
+    ];
+    const url =
+      `https://api.census.gov/data/${year}/acs/acs5` +
+      `?get=${variables.join(",")}` +
+      `&for=tract:${tractFips}` +
+      `&in=state:${stateFips}&in=county:${countyFips}` +
+      `&key=${apiKey}`;
+
+    const res = await fetch(url);
+    if (!res.ok) continue;
+
+    const data = await res.json();
+    if (!data || data.length < 2) continue;
+
+    const values = data[1];
+    // Each estimate's _M column sits one block of B25118 estimates later
+    const moeOffset = B25118_OWNER_VARIABLES.length + B25118_RENTER_VARIABLES.length;
+    const toDistribution = (offset: number, median: string): TenureIncomeDistribution => {
+      const m = parseInt(median, 10);
+      return {
+        totalHouseholds: parseInt(values[offset], 10) || 0,
+        totalHouseholdsMoe: parseMoe(values[moeOffset + offset]) ?? 0,
+        brackets: TENURE_BRACKET_BOUNDS.map((bounds, i) => ({
+          min: bounds[0],
+          max: bounds[1],
+          count: parseInt(values[offset + i + 1], 10) || 0,
+          moe: parseMoe(values[moeOffset + offset + i + 1]) ?? 0,
+        })),
+        median: m === -666666666 || isNaN(m) ? null : m,
+      };
+    };
+
+    const medianOffset = moeOffset + B25118_MOE_VARIABLES.length;
+    return {
+      owner: toDistribution(0, values[medianOffset]),
+      renter: toDistribution(B25118_OWNER_VARIABLES.length, values[medianOffset + 1]),
+    };
+  }
+
+  return null;
+}
+
+// B25077: Median Value (owner-occupied units)
+// B25075: Value, B25075_001E = total, 002E–027E = 26 value brackets
+const B25075_VARIABLES = Array.from(
+  { length: 27 },
+  (_, i) => `B25075_${String(i + 1).padStart(3, "0")}E`
+);
+
+function parseMedianValue(raw: string | undefined): number | null {
+  const v = parseInt(raw ?? "", 10);
+  return isNaN(v) || v < 0 ? null : v;
+}
+
+/**
+ * Tract home value distribution plus tract and metro medians. The metro
+ * median is only fetched when the tract's CBSA code is known.
+ */
+export async function fetchHomeValue(
+  stateFips: string,
+  countyFips: string,
+  tractFips: string,
+  cbsaCode?: string
+): Promise<HomeValueData | null> {
+  const apiKey = process.env.CENSUS_API_KEY;
+  if (!apiKey) {
+    throw new Error("CENSUS_API_KEY environment variable is not set.");
+  }
+
+  for (const year of ["2023", "2022"]) {
+    const base = `https://api.census.gov/data/${year}/acs/acs5`;
+    const tractUrl =
+      `${base}?get=B25077_001E,${B25075_VARIABLES.join(",")}` +
+      `&for=tract:${tractFips}` +
+      `&in=state:${stateFips}&in=county:${countyFips}` +
+      `&key=${apiKey}`;
+
+    const res = await fetch(tractUrl);
+    if (!res.ok) continue;
+    const data = await res.json();
+    if (!data || data.length < 2) continue;
+
+    const values: string[] = data[1];
+    const totalOwnerUnits = parseInt(values[1], 10) || 0;
+    const valueBracketCounts = B25075_VARIABLES.slice(1).map(
+      (_, i) => parseInt(values[i + 2], 10) || 0
+    );
+
+    let msaMedian: number | null = null;
+    if (cbsaCode) {
+      const msaUrl =
+        `${base}?get=B25077_001E` +
+        `&for=metropolitan%20statistical%20area/micropolitan%20statistical%20area:${cbsaCode}` +
+        `&key=${apiKey}`;
+      try {
+        const msaRes = await fetch(msaUrl);
+        if (msaRes.ok) {
+          const msaData = await msaRes.json();
+          msaMedian = parseMedianValue(msaData?.[1]?.[0]);
+        }
+      } catch {
+        // Metro median is context only
+      }
+    }
+
+    return {
+      tractMedian: parseMedianValue(values[0]),
+      msaMedian,
+      totalOwnerUnits,
+      valueBracketCounts: totalOwnerUnits > 0 ? valueBracketCounts : null,
+    };
+  }
 
-  return { totalHouseholds, brackets };
+  return null;
 }
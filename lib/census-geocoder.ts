@@ -1,3 +1,8 @@
+import { nominatimSearch, nominatimReverse } from "./nominatim";
+import { getZipForTract } from "./hud-fmr";
+import { findTractAt } from "./msa-geo";
+import { splitTractGeoid } from "./geoid";
+
 export interface GeocodeResult {
   lat: number;
   lng: number;
@@ -9,11 +14,15 @@ export interface GeocodeResult {
   matchedAddress: string;
 }
 
-export async function reverseGeocodeCoordinates(
+// HUD publishes New England limits per town, which only the Census geocoder
+// can supply (as the county subdivision)
+const NEW_ENGLAND_STATES = new Set(["09", "23", "25", "33", "44", "50"]);
+
+/** Tract (and county subdivision) at a point from the Census coordinate geocoder. */
+async function censusTractAt(
   lat: number,
   lng: number
-): Promise<GeocodeResult> {
-  // Step 1: Get FIPS codes from Census coordinate geocoder
+): Promise<{ geoid: string; countySubFips?: string }> {
   const censusUrl = new URL(
     "https://geocoding.geo.census.gov/geocoder/geographies/coordinates"
   );
@@ -36,36 +45,33 @@ export async function reverseGeocodeCoordinates(
   }
 
   const countySubGeo = censusData?.result?.geographies?.["County Subdivisions"]?.[0];
-  const countySubFips: string | undefined = countySubGeo?.COUSUB;
+  return {
+    geoid: `${geos.STATE}${geos.COUNTY}${geos.TRACT}`,
+    countySubFips: countySubGeo?.COUSUB,
+  };
+}
 
-  // Step 2: Get a display address and ZIP code from Nominatim
-  let displayAddress = `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
-  let zipCode: string | undefined;
-  try {
-    const nomUrl = `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lng}&format=json&zoom=18&addressdetails=1`;
-    const nomRes = await fetch(nomUrl, {
-      headers: { "User-Agent": "AMI-Affordability-Map/1.0" },
-    });
-    if (nomRes.ok) {
-      const nomData = await nomRes.json();
-      if (nomData?.display_name) {
-        displayAddress = nomData.display_name;
-      }
-      if (nomData?.address?.postcode) {
-        // Take the first 5 digits (some postcodes include ZIP+4)
-        zipCode = nomData.address.postcode.slice(0, 5);
-      }
-    }
-  } catch {
-    // Fall back to coordinates if Nominatim fails
-  }
+export async function reverseGeocodeCoordinates(
+  lat: number,
+  lng: number
+): Promise<GeocodeResult> {
+  // Step 1: Resolve the tract from the bundled tract polygons, going to the
+  // Census coordinate geocoder only where none are built and in New England
+  const localGeoid = findTractAt(lat, lng);
+  const { geoid, countySubFips } = localGeoid && !NEW_ENGLAND_STATES.has(localGeoid.slice(0, 2))
+    ? { geoid: localGeoid, countySubFips: undefined }
+    : await censusTractAt(lat, lng);
+
+  // Step 2: Get a display address and ZIP code from Nominatim. When it is
+  // unavailable (throttled, down) use the coordinates and the tract's ZIP.
+  const place = await nominatimReverse(lat, lng);
+  const displayAddress = place?.displayName ?? `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+  const zipCode = place?.zipCode ?? getZipForTract(geoid) ?? undefined;
 
   return {
     lat,
     lng,
-    stateFips: geos.STATE,
-    countyFips: geos.COUNTY,
-    tractFips: geos.TRACT,
+    ...splitTractGeoid(geoid),
     countySubFips,
     zipCode,
     matchedAddress: displayAddress,
@@ -73,52 +79,26 @@ export async function reverseGeocodeCoordinates(
 }
 
 /**
- * Primary geocoding: Nominatim → Census coordinate API for FIPS.
+ * Primary geocoding: Nominatim → tract from the bundled polygons (Census
+ * coordinate API outside MSAs and in New England).
  * Fallback: Census forward geocoder (strict but authoritative for US street addresses).
  */
 export async function geocodeAddress(address: string): Promise<GeocodeResult> {
   // Try Nominatim first — handles building names, landmarks, neighborhoods, etc.
-  try {
-    const nomResult = await nominatimForwardGeocode(address);
-    if (nomResult) {
-      return await reverseGeocodeCoordinates(
-        nomResult.lat,
-        nomResult.lng,
-      );
+  // Null when it has no match or is throttled; either way fall through to Census
+  const nomResult = await nominatimSearch(address);
+  if (nomResult) {
+    try {
+      return await reverseGeocodeCoordinates(nomResult.lat, nomResult.lng);
+    } catch {
+      // No tract at Nominatim's point — fall through to Census
     }
-  } catch {
-    // Nominatim failed — fall through to Census
   }
 
   // Fallback: Census forward geocoder
   return censusForwardGeocode(address);
 }
 
-async function nominatimForwardGeocode(
-  address: string
-): Promise<{ lat: number; lng: number } | null> {
-  const url = new URL("https://nominatim.openstreetmap.org/search");
-  url.searchParams.set("q", address);
-  url.searchParams.set("format", "json");
-  url.searchParams.set("limit", "1");
-  url.searchParams.set("countrycodes", "us");
-
-  const res = await fetch(url.toString(), {
-    headers: { "User-Agent": "AMI-Affordability-Map/1.0" },
-  });
-
-  if (!res.ok) return null;
-
-  const results = await res.json();
-  if (!results || results.length === 0) return null;
-
-  const lat = parseFloat(results[0].lat);
-  const lng = parseFloat(results[0].lon);
-  if (isNaN(lat) || isNaN(lng)) return null;
-
-  return { lat, lng };
-}
-
 async function censusForwardGeocode(address: string): Promise<GeocodeResult> {
   const url = new URL(
     "https://geocoding.geo.census.gov/geocoder/geographies/onelineaddress"
@@ -151,22 +131,11 @@ async function censusForwardGeocode(address: string): Promise<GeocodeResult> {
   const countySubGeo = match.geographies?.["County Subdivisions"]?.[0];
   const countySubFips: string | undefined = countySubGeo?.COUSUB;
 
-  // Try to get ZIP code via Nominatim reverse geocode
-  let zipCode: string | undefined;
-  try {
-    const nomUrl = `https://nominatim.openstreetmap.org/reverse?lat=${coords.y}&lon=${coords.x}&format=json&zoom=18&addressdetails=1`;
-    const nomRes = await fetch(nomUrl, {
-      headers: { "User-Agent": "AMI-Affordability-Map/1.0" },
-    });
-    if (nomRes.ok) {
-      const nomData = await nomRes.json();
-      if (nomData?.address?.postcode) {
-        zipCode = nomData.address.postcode.slice(0, 5);
-      }
-    }
-  } catch {
-    // ZIP code is best-effort
-  }
+  // ZIP via Nominatim reverse geocode, else the tract's primary ZIP
+  const place = await nominatimReverse(coords.y, coords.x);
+  const zipCode = place?.zipCode
+    ?? getZipForTract(`${geos.STATE}${geos.COUNTY}${geos.TRACT}`)
+    ?? undefined;
 
   return {
     lat: coords.y,
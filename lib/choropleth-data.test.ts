@@ -0,0 +1,80 @@
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// Two tracts in one metro; the second has no renters
+const TRACTS = ["55015020100", "55015020200"];
+const BRACKETS = Array(16).fill(10);
+const RENTER_BRACKETS = [5, 5, 5, 5, 5, 5, 5, 5, 5, 5, 5];
+
+let dir: string | null = null;
+
+/** loadChoroplethData reading data/ from a fresh directory holding `files`. */
+async function withData(files: Record<string, unknown>) {
+  dir = mkdtempSync(join(tmpdir(), "choropleth-data-"));
+  for (const [name, content] of Object.entries(files)) {
+    mkdirSync(join(dir, "data", name, ".."), { recursive: true });
+    writeFileSync(join(dir, "data", name), JSON.stringify(content));
+  }
+  vi.spyOn(process, "cwd").mockReturnValue(dir);
+  // The loaders cache what they read at module level
+  vi.resetModules();
+  return (await import("./choropleth-data")).loadChoroplethData;
+}
+
+const BASE = {
+  "county-to-cbsa.json": { "55015": { code: "11540", name: "Appleton, WI", type: "metro" } },
+  "msa/11540.json": TRACTS.map((fips) => [fips, 160, ...BRACKETS]),
+  "safmr-by-zip.json": { "54110": [760, 830, 1040, 1390, 1460] },
+  "tract-to-zip.json": { "55015020100": "54110" },
+};
+
+const OPTIONS = {
+  stateFips: "55",
+  countyFips: "015",
+  estimator: "linear",
+  tenure: "renter",
+  peers: "cbsa",
+} as const;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  if (dir) rmSync(dir, { recursive: true, force: true });
+  dir = null;
+});
+
+describe("loadChoroplethData", () => {
+  it("reads renter rows from msa-tenure when the file is built", async () => {
+    const loadChoroplethData = await withData({
+      ...BASE,
+      "msa-tenure/11540.json": [
+        [TRACTS[0], 105, ...Array(11).fill(9), 55, ...RENTER_BRACKETS],
+        [TRACTS[1], 160, ...Array(11).fill(14), 0, ...Array(11).fill(0)],
+      ],
+    });
+
+    const { peerGroup, data } = loadChoroplethData(OPTIONS);
+    expect(peerGroup).toEqual({ code: "11540", name: "Appleton, WI", type: "metro" });
+    expect(data!.tenure).toBe("renter");
+    // The renter-less tract is left off the map
+    expect(data!.tracts).toEqual([
+      [TRACTS[0], 55, RENTER_BRACKETS, [760, 830, 1040, 1390, 1460], "54110"],
+    ]);
+  });
+
+  it("falls back to all households, and says so, without msa-tenure", async () => {
+    const loadChoroplethData = await withData(BASE);
+
+    const { data } = loadChoroplethData(OPTIONS);
+    expect(data!.tenure).toBe("all");
+    expect(data!.tracts.map((t) => [t[0], t[1], t[2]])).toEqual(
+      TRACTS.map((fips) => [fips, 160, BRACKETS])
+    );
+  });
+
+  it("has no data for a peer group whose income file isn't built", async () => {
+    const loadChoroplethData = await withData({ ...BASE, "msa/11540.json": [] });
+    expect(loadChoroplethData(OPTIONS).data).toBeNull();
+  });
+});
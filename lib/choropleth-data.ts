@@ -0,0 +1,115 @@
+import { readFileSync, existsSync } from "fs";
+import { join } from "path";
+import type { ChoroplethResponse, ChoroplethTract } from "./api-schema";
+import type { HouseholdTenure, IncomeEstimatorMethod } from "./bracket-math";
+import { getSafmrData, loadTractToZip } from "./hud-fmr";
+import { loadPeerGroupGeo } from "./msa-geo";
+import { loadMsaData, loadPeerGroupRows, resolvePeerGroup } from "./msa-percentile";
+import type { PeerGeography, PeerGroup } from "./peer-group";
+
+// Tract data behind the choropleth and its exports, read from the bundled
+// per-peer-group files.
+
+// LRU-ish cache for renter/owner bracket data (limit to 5)
+const tenureDataCache = new Map<string, (string | number)[][]>();
+const TENURE_DATA_MAX = 5;
+
+/**
+ * Per-tract B25118 rows: [fips, ownerTotal, ...11 owner brackets,
+ * renterTotal, ...11 renter brackets]. Not every build has them.
+ */
+function loadTenureData(cbsaCode: string): (string | number)[][] | null {
+  if (tenureDataCache.has(cbsaCode)) return tenureDataCache.get(cbsaCode)!;
+  try {
+    const filePath = join(process.cwd(), "data", "msa-tenure", `${cbsaCode}.json`);
+    if (!existsSync(filePath)) return null;
+    const data = JSON.parse(readFileSync(filePath, "utf-8"));
+    if (tenureDataCache.size >= TENURE_DATA_MAX) {
+      const oldest = tenureDataCache.keys().next().value!;
+      tenureDataCache.delete(oldest);
+    }
+    tenureDataCache.set(cbsaCode, data);
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+export interface ChoroplethDataOptions {
+  stateFips: string;
+  countyFips: string;
+  estimator: IncomeEstimatorMethod;
+  tenure: HouseholdTenure;
+  peers: PeerGeography;
+  tractFips?: string;
+  countySubFips?: string;
+}
+
+/**
+ * Every tract in the county's peer group with its brackets, SAFMRs and
+ * polygons. data is null when the peer group's income data isn't built.
+ */
+export function loadChoroplethData({
+  stateFips,
+  countyFips,
+  estimator,
+  tenure: requestedTenure,
+  peers,
+  tractFips,
+  countySubFips,
+}: ChoroplethDataOptions): { peerGroup: PeerGroup; data: ChoroplethResponse | null } {
+  // The HUD FMR area, or the county's CBSA / rest of state. Without a tract
+  // New England counties resolve by county, so fall back to the CBSA there.
+  const peerGroup = resolvePeerGroup(`${stateFips}${countyFips}${tractFips ?? ""}`, peers, countySubFips);
+
+  // Load the peer group's income data
+  const msaData = loadPeerGroupRows(peerGroup, loadMsaData);
+  if (!msaData || msaData.length === 0) return { peerGroup, data: null };
+
+  // Load SAFMR and tract-to-ZIP mapping
+  const zipMapping = loadTractToZip();
+  const safmr = getSafmrData();
+
+  // Renter/owner rows replace the all-household ones when requested and
+  // available; otherwise report "all" so the client labels the map honestly
+  const tenureData = requestedTenure !== "all" ? loadPeerGroupRows(peerGroup, loadTenureData) : null;
+  const tenure = tenureData ? requestedTenure : "all";
+  const rows = tenureData ?? msaData;
+
+  // Build compact tract array:
+  // [GEOID, totalHH, bracketCounts[16 | 11], safmrArray[5] | null, safmrZip | null]
+  const tracts: ChoroplethTract[] = [];
+  for (const tract of rows) {
+    const fips = tract[0] as string;
+    let total = tract[1] as number;
+    let brackets = (tract as number[]).slice(2);
+    if (tenureData) {
+      // 12 columns per tenure: total followed by 11 brackets
+      const offset = tenure === "owner" ? 1 : 13;
+      total = tract[offset] as number;
+      brackets = (tract as number[]).slice(offset + 1, offset + 12);
+      if (total === 0) continue;
+    }
+
+    // Look up SAFMR for this tract's ZIP
+    const zip = zipMapping[fips];
+    const hasSafmr = !!zip && !!safmr[zip];
+
+    tracts.push([fips, total, brackets, hasSafmr ? safmr[zip] : null, hasSafmr ? zip : null]);
+  }
+
+  return {
+    peerGroup,
+    data: {
+      cbsaCode: peerGroup.code,
+      cbsaName: peerGroup.name,
+      peerGroup,
+      tracts,
+      // Load pre-built TopoJSON
+      geo: loadPeerGroupGeo(peerGroup),
+      // Echoed so the client scores tracts with the same estimator
+      estimator,
+      tenure,
+    },
+  };
+}
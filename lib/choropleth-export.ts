@@ -0,0 +1,155 @@
+// Downloadable copies of the choropleth's tract data: GEOID, households,
+// bracket counts, the SAFMR ZIP and the computed metrics for one bedroom
+// count, as CSV, GeoJSON or a zipped shapefile. Field names fit dBASE's
+// 10-character limit so every format shares them.
+// No Node.js imports so this works in "use client" modules too.
+
+import * as topojsonClient from "topojson-client";
+import type { Topology } from "topojson-specification";
+import { toCsv } from "./csv";
+import { ChoroplethMetric, CHOROPLETH_METRICS, TractMetrics } from "./choropleth-metrics";
+import { writePolygonShapefile, ShapefileField, ShapefileValue } from "./shapefile";
+import { createZip } from "./zip";
+import type { ChoroplethResponse } from "./api-schema";
+
+export type ChoroplethExportFormat = "csv" | "geojson" | "shapefile";
+
+export const CHOROPLETH_EXPORT_FORMATS: ChoroplethExportFormat[] = ["csv", "geojson", "shapefile"];
+
+export const EXPORT_FORMAT_LABELS: Record<ChoroplethExportFormat, string> = {
+  csv: "CSV",
+  geojson: "GeoJSON",
+  shapefile: "Shapefile",
+};
+
+export interface ChoroplethExportInput {
+  data: ChoroplethResponse;
+  // From computeTractMetrics for the same data and bedroom count
+  metrics: Map<string, TractMetrics>;
+  bedroomIndex: number;
+  // Area FMRs the metrics fell back to for tracts without a Small Area FMR
+  fallbackFmr: number[] | null;
+  // Asking rent the metrics scored every tract at, if any
+  customRent: number | null;
+}
+
+export interface ChoroplethExport {
+  fileName: string;
+  contentType: string;
+  body: string | Uint8Array<ArrayBuffer>;
+}
+
+const METRIC_FIELDS: Record<ChoroplethMetric, ShapefileField> = {
+  affordability: { name: "pct_afford", type: "N", length: 6, decimals: 1 },
+  percentile: { name: "percentile", type: "N", length: 6, decimals: 1 },
+  ownership: { name: "pct_own", type: "N", length: 6, decimals: 1 },
+  medianAmi: { name: "median_ami", type: "N", length: 6, decimals: 0 },
+  belowAmi30: { name: "below_30", type: "N", length: 6, decimals: 1 },
+  belowAmi50: { name: "below_50", type: "N", length: 6, decimals: 1 },
+  belowAmi80: { name: "below_80", type: "N", length: 6, decimals: 1 },
+  incomeGap: { name: "income_gap", type: "N", length: 10, decimals: 0 },
+  pricedOut: { name: "priced_out", type: "N", length: 8, decimals: 0 },
+};
+
+// b01…b16 for all households (B19001), b01…b11 for renters or owners (B25118)
+function fields(bracketCount: number): ShapefileField[] {
+  return [
+    { name: "geoid", type: "C", length: 11 },
+    { name: "total_hh", type: "N", length: 8 },
+    ...Array.from({ length: bracketCount }, (_, i): ShapefileField => ({
+      name: `b${String(i + 1).padStart(2, "0")}`,
+      type: "N",
+      length: 8,
+    })),
+    { name: "safmr_zip", type: "C", length: 5 },
+    // Monthly rent scored against: the tract's SAFMR, the area FMR or a custom rent
+    { name: "rent", type: "N", length: 6 },
+    { name: "rent_src", type: "C", length: 6 },
+    ...CHOROPLETH_METRICS.map((metric) => METRIC_FIELDS[metric]),
+  ];
+}
+
+function rows({ data, metrics, bedroomIndex, fallbackFmr, customRent }: ChoroplethExportInput): ShapefileValue[][] {
+  return data.tracts.map(([geoid, totalHH, brackets, safmr, zip]) => {
+    const rent = customRent ?? safmr?.[bedroomIndex] ?? fallbackFmr?.[bedroomIndex] ?? null;
+    const tractMetrics = metrics.get(geoid);
+    return [
+      geoid,
+      totalHH,
+      ...brackets,
+      zip,
+      rent,
+      rent === null ? null : customRent !== null ? "custom" : safmr ? "safmr" : "area",
+      ...CHOROPLETH_METRICS.map((metric) => tractMetrics?.[metric] ?? null),
+    ];
+  });
+}
+
+// Tract polygons by GEOID; empty when the peer group's geometry isn't built
+function tractGeometries(data: ChoroplethResponse): Map<string, GeoJSON.Polygon | GeoJSON.MultiPolygon> {
+  const geometries = new Map<string, GeoJSON.Polygon | GeoJSON.MultiPolygon>();
+  if (!data.geo) return geometries;
+  const topo = data.geo as Topology;
+  const objectKey = Object.keys(topo.objects)[0];
+  if (!objectKey) return geometries;
+  const collection = topojsonClient.feature(topo, topo.objects[objectKey]) as GeoJSON.FeatureCollection;
+  for (const feature of collection.features) {
+    const geoid = feature.properties?.GEOID;
+    const geometry = feature.geometry;
+    if (geoid && geometry && (geometry.type === "Polygon" || geometry.type === "MultiPolygon")) {
+      geometries.set(geoid, geometry);
+    }
+  }
+  return geometries;
+}
+
+/** The tract data in one format, named after the peer group and bedroom count. */
+export function buildChoroplethExport(
+  input: ChoroplethExportInput,
+  format: ChoroplethExportFormat
+): ChoroplethExport {
+  const { data, bedroomIndex } = input;
+  const columns = fields(data.tracts[0]?.[2].length ?? 0);
+  const values = rows(input);
+  const baseName = `tracts-${data.peerGroup.code}-${bedroomIndex}br${
+    data.tenure === "all" ? "" : `-${data.tenure}`
+  }`;
+
+  switch (format) {
+    case "csv":
+      return {
+        fileName: `${baseName}.csv`,
+        contentType: "text/csv; charset=utf-8",
+        body: toCsv([columns.map((c) => c.name), ...values]),
+      };
+    case "geojson": {
+      const geometries = tractGeometries(data);
+      // Tracts without built geometry keep their row with a null geometry
+      const collection: GeoJSON.FeatureCollection<GeoJSON.Geometry | null> = {
+        type: "FeatureCollection",
+        features: values.map((row) => ({
+          type: "Feature",
+          geometry: geometries.get(row[0] as string) ?? null,
+          properties: Object.fromEntries(columns.map((c, i) => [c.name, row[i]])),
+        })),
+      };
+      return {
+        fileName: `${baseName}.geojson`,
+        contentType: "application/geo+json",
+        body: JSON.stringify(collection),
+      };
+    }
+    case "shapefile": {
+      const geometries = tractGeometries(data);
+      const records = values.map((row) => ({
+        geometry: geometries.get(row[0] as string) ?? null,
+        values: row,
+      }));
+      return {
+        fileName: `${baseName}.zip`,
+        contentType: "application/zip",
+        body: createZip(writePolygonShapefile(baseName, columns, records)),
+      };
+    }
+  }
+}
@@ -0,0 +1,282 @@
+// Metrics the tract choropleth can shade by, each with its own color scale,
+// value format and legend text.
+// No Node.js imports so this works in "use client" modules too.
+
+import {
+  computeAffordabilityPct,
+  estimateHouseholdsAbove,
+  interpolateMedian,
+  BRACKET_BOUNDS,
+  TENURE_BRACKET_BOUNDS,
+  HouseholdTenure,
+} from "./bracket-math";
+import { classBreaks, ClassificationScheme } from "./classification";
+import { paletteColors, PaletteName } from "./color-palettes";
+import { describePeerGroup, PeerGroup } from "./peer-group";
+import { formatCurrency } from "./format";
+import type { ChoroplethResponse } from "./api-schema";
+
+export type ChoroplethMetric =
+  | "affordability"
+  | "percentile"
+  | "ownership"
+  | "medianAmi"
+  | "belowAmi30"
+  | "belowAmi50"
+  | "belowAmi80"
+  | "incomeGap"
+  | "pricedOut";
+
+export const CHOROPLETH_METRICS: ChoroplethMetric[] = [
+  "affordability",
+  "percentile",
+  "ownership",
+  "medianAmi",
+  "belowAmi30",
+  "belowAmi50",
+  "belowAmi80",
+  "incomeGap",
+  "pricedOut",
+];
+
+export interface ColorStop {
+  threshold: number;
+  color: string;
+}
+
+export interface MetricLegendContext {
+  tenure: HouseholdTenure;
+  bedroomLabel: string;
+  householdSize: number;
+  peerGroup: PeerGroup;
+  // Home price behind the ownership metric, when one is set
+  homePrice: number | null;
+  // Asking rent every tract is scored at, when one is set
+  customRent: number | null;
+}
+
+export interface ChoroplethMetricDef {
+  label: string;
+  // Inputs beyond the tract data: "ami" needs the area's income limits,
+  // "ownership" a home price
+  requires: "ami" | "ownership" | null;
+  // Lower bound of each class for the "fixed" classification, ascending
+  breaks: number[];
+  palette: PaletteName;
+  // Label after the last fixed class, for bounded scales such as percentages
+  maxLabel: string | null;
+  format: (value: number) => string;
+  legend: (context: MetricLegendContext) => string;
+}
+
+function formatThousands(n: number): string {
+  const sign = n < 0 ? "−" : "";
+  return `${sign}$${Math.round(Math.abs(n) / 1000)}k`;
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 10) / 10}%`;
+
+function households(tenure: HouseholdTenure): string {
+  return tenure === "all" ? "households" : `${tenure} households`;
+}
+
+function rentLabel({ bedroomLabel, customRent }: MetricLegendContext): string {
+  return customRent !== null
+    ? `a ${formatCurrency(customRent)}/mo ${bedroomLabel} asking rent`
+    : `the ${bedroomLabel} Small Area Fair Market Rent`;
+}
+
+const PERCENT_BREAKS = [0, 20, 40, 60, 80];
+
+function belowAmi(percent: 30 | 50 | 80): ChoroplethMetricDef {
+  return {
+    label: `< ${percent}% AMI`,
+    requires: "ami",
+    breaks: [0, 10, 20, 30, 40],
+    palette: "Oranges",
+    maxLabel: "100%",
+    format: formatPercent,
+    legend: ({ tenure, householdSize }) =>
+      `% of ${households(tenure)} earning less than the ${percent}% AMI limit for a ${householdSize}-person household`,
+  };
+}
+
+export const METRIC_DEFS: Record<ChoroplethMetric, ChoroplethMetricDef> = {
+  affordability: {
+    label: "% Can Afford",
+    requires: null,
+    breaks: PERCENT_BREAKS,
+    palette: "RdYlGn",
+    maxLabel: "100%",
+    format: formatPercent,
+    legend: (context) => `% of ${households(context.tenure)} that can afford ${rentLabel(context)}`,
+  },
+  percentile: {
+    label: "Peer Percentile",
+    requires: null,
+    breaks: PERCENT_BREAKS,
+    palette: "RdYlGn",
+    maxLabel: "100%",
+    format: formatPercent,
+    legend: ({ peerGroup }) =>
+      `Affordability percentile among all census tracts in ${describePeerGroup(peerGroup)}`,
+  },
+  ownership: {
+    label: "Ownership",
+    requires: "ownership",
+    breaks: PERCENT_BREAKS,
+    palette: "RdYlGn",
+    maxLabel: "100%",
+    format: formatPercent,
+    legend: ({ tenure, homePrice }) =>
+      `% of ${households(tenure)} that can afford PITI on a ${
+        homePrice ? formatCurrency(homePrice) : "typical"
+      } home`,
+  },
+  medianAmi: {
+    label: "Median % AMI",
+    requires: "ami",
+    breaks: [0, 50, 80, 100, 120],
+    palette: "Purples",
+    maxLabel: null,
+    format: formatPercent,
+    legend: ({ tenure, householdSize }) =>
+      `Median income of ${households(tenure)} as a % of the ${householdSize}-person AMI`,
+  },
+  belowAmi30: belowAmi(30),
+  belowAmi50: belowAmi(50),
+  belowAmi80: belowAmi(80),
+  incomeGap: {
+    label: "Income Gap",
+    requires: null,
+    breaks: [-Infinity, -20000, 0, 20000, 50000],
+    palette: "RdYlGn",
+    maxLabel: null,
+    format: formatThousands,
+    legend: (context) =>
+      `Median income of ${households(context.tenure)} minus the income needed for ${rentLabel(context)}`,
+  },
+  pricedOut: {
+    label: "Priced Out",
+    requires: null,
+    breaks: [0, 250, 500, 1000, 2000],
+    palette: "Oranges",
+    maxLabel: null,
+    format: (value) => Math.round(value).toLocaleString(),
+    legend: (context) => `Number of ${households(context.tenure)} that cannot afford ${rentLabel(context)}`,
+  },
+};
+
+export const NO_DATA_COLOR = "#cccccc";
+
+// null where the metric's inputs are missing
+export type TractMetrics = Record<ChoroplethMetric, number | null>;
+
+export interface TractMetricInputs {
+  bedroomIndex: number;
+  // Area FMRs for tracts without a Small Area FMR
+  fallbackFmr: number[] | null;
+  // Asking rent to score every tract at instead of its SAFMR or the area FMR
+  customRent: number | null;
+  // Income needed for the ownership metric; null leaves it empty
+  ownershipIncomeNeeded: number | null;
+  // Household-size-adjusted income at each AMI percent (30, 50, 80, 100)
+  // for the AMI metrics; null leaves them empty
+  amiIncomes: Record<number, number> | null;
+}
+
+/** Every metric for every tract that has a rent to score against. */
+export function computeTractMetrics(
+  data: ChoroplethResponse,
+  { bedroomIndex, fallbackFmr, customRent, ownershipIncomeNeeded, amiIncomes }: TractMetricInputs
+): Map<string, TractMetrics> {
+  const scored: ({ geoid: string; affordability: number } & Omit<TractMetrics, "affordability" | "percentile">)[] = [];
+  // Renter/owner tracts carry B25118's 11 brackets instead of B19001's 16
+  const bounds = data.tenure === "all" ? BRACKET_BOUNDS : TENURE_BRACKET_BOUNDS;
+  const options = { method: data.estimator, bounds };
+
+  for (const [geoid, totalHH, brackets, safmrArray] of data.tracts) {
+    // Use tract's own SAFMR if available, otherwise fall back to metro-level FMR
+    const fmr = customRent ?? (safmrArray ?? fallbackFmr)?.[bedroomIndex];
+    if (!fmr) continue;
+
+    const threshold = (fmr * 12) / 0.3;
+    const ownership = ownershipIncomeNeeded
+      ? computeAffordabilityPct(ownershipIncomeNeeded, totalHH, brackets, options)
+      : null;
+
+    const median = interpolateMedian(brackets, bounds);
+    const ami = amiIncomes?.[100];
+    const percentBelow = (amiPercent: number) =>
+      amiIncomes?.[amiPercent]
+        ? Math.round((100 - computeAffordabilityPct(amiIncomes[amiPercent], totalHH, brackets, options)) * 10) / 10
+        : null;
+
+    scored.push({
+      geoid,
+      affordability: computeAffordabilityPct(threshold, totalHH, brackets, options),
+      ownership,
+      medianAmi: ami && median !== null ? Math.round((median / ami) * 100) : null,
+      belowAmi30: percentBelow(30),
+      belowAmi50: percentBelow(50),
+      belowAmi80: percentBelow(80),
+      incomeGap: median !== null ? Math.round(median - threshold) : null,
+      pricedOut: Math.round(totalHH - estimateHouseholdsAbove(threshold, brackets, options)),
+    });
+  }
+
+  // Percentile = share of tracts with a strictly lower affordability %,
+  // found by binary search over the sorted values
+  const sorted = scored.map((t) => t.affordability).sort((a, b) => a - b);
+  const n = sorted.length;
+  const metrics = new Map<string, TractMetrics>();
+  for (const { geoid, ...rest } of scored) {
+    let lo = 0, hi = n;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < rest.affordability) lo = mid + 1;
+      else hi = mid;
+    }
+    const percentile = n > 0 ? Math.round((lo / n) * 1000) / 10 : 0;
+    metrics.set(geoid, { ...rest, percentile });
+  }
+  return metrics;
+}
+
+export interface ColorScale {
+  // Ascending; a value takes the color of the last stop it reaches
+  stops: ColorStop[];
+  // Legend label after the last stop
+  maxLabel: string | null;
+}
+
+/**
+ * Color stops for a metric under a classification scheme, from the values
+ * currently on the map. palette null uses the metric's own.
+ */
+export function buildColorScale(
+  metric: ChoroplethMetric,
+  values: number[],
+  scheme: ClassificationScheme,
+  palette: PaletteName | null
+): ColorScale {
+  const def = METRIC_DEFS[metric];
+  const breaks =
+    scheme === "fixed" || values.length === 0 ? def.breaks : classBreaks(values, scheme);
+  const colors = paletteColors(palette ?? def.palette, breaks.length);
+  return {
+    stops: breaks.map((threshold, i) => ({ threshold, color: colors[i] })),
+    maxLabel:
+      scheme === "fixed" || values.length === 0
+        ? def.maxLabel
+        : def.format(Math.max(...values)),
+  };
+}
+
+export function colorFor(stops: ColorStop[], value: number | null): string {
+  if (value === null) return NO_DATA_COLOR;
+  for (let i = stops.length - 1; i >= 0; i--) {
+    if (value >= stops[i].threshold) return stops[i].color;
+  }
+  return stops[0].color;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { classBreaks, isClassificationScheme } from "./classification";
+
+describe("classBreaks", () => {
+  it("is empty without values", () => {
+    expect(classBreaks([], "quantile")).toEqual([]);
+  });
+
+  it("splits the range into equal intervals", () => {
+    expect(classBreaks([100, 0, 50], "equal")).toEqual([0, 20, 40, 60, 80]);
+  });
+
+  it("starts each quantile at an order statistic", () => {
+    expect(classBreaks([10, 9, 8, 7, 6, 5, 4, 3, 2, 1], "quantile")).toEqual([1, 3, 5, 7, 9]);
+  });
+
+  it("drops empty classes when values repeat", () => {
+    expect(classBreaks([5, 5, 5, 5], "quantile")).toEqual([5]);
+  });
+
+  it("finds natural breaks between clusters", () => {
+    expect(classBreaks([1, 2, 3, 10, 11, 12, 20, 21, 22], "jenks", 3)).toEqual([1, 10, 20]);
+    expect(classBreaks([3, 1], "jenks")).toEqual([1, 3]);
+  });
+
+  it("centers standard deviation classes on the mean", () => {
+    // Mean 5, standard deviation 2
+    expect(classBreaks([2, 4, 4, 4, 5, 5, 7, 9], "stddev")).toEqual([2, 4, 6, 8]);
+    expect(classBreaks([3, 3, 3], "stddev")).toEqual([3]);
+  });
+});
+
+describe("isClassificationScheme", () => {
+  it("accepts only known schemes", () => {
+    expect(isClassificationScheme("jenks")).toBe(true);
+    expect(isClassificationScheme("natural")).toBe(false);
+  });
+});
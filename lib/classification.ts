@@ -0,0 +1,147 @@
+// Class breaks for the tract choropleth, computed from the tract values on
+// the map so the classes spread across the area actually shown.
+// No Node.js imports so this works in "use client" modules too.
+
+export type ClassificationScheme = "fixed" | "equal" | "quantile" | "jenks" | "stddev";
+
+export const CLASSIFICATION_SCHEMES: ClassificationScheme[] = [
+  "fixed",
+  "equal",
+  "quantile",
+  "jenks",
+  "stddev",
+];
+
+export const CLASSIFICATION_LABELS: Record<ClassificationScheme, string> = {
+  fixed: "Fixed (metric default)",
+  equal: "Equal interval",
+  quantile: "Quantile",
+  jenks: "Natural breaks (Jenks)",
+  stddev: "Standard deviation",
+};
+
+export const DEFAULT_CLASSIFICATION: ClassificationScheme = "quantile";
+
+export const CLASS_COUNT = 5;
+
+// Jenks is O(classes × n²); larger inputs are thinned to evenly spaced
+// order statistics, which moves the breaks very little
+const JENKS_MAX_VALUES = 1000;
+
+export function isClassificationScheme(value: unknown): value is ClassificationScheme {
+  return typeof value === "string" && (CLASSIFICATION_SCHEMES as string[]).includes(value);
+}
+
+// Strictly increasing, so no class is empty by construction
+function distinct(bounds: number[]): number[] {
+  return bounds.filter((b, i) => i === 0 || b > bounds[i - 1]);
+}
+
+function equalIntervalBreaks(sorted: number[], classCount: number): number[] {
+  const min = sorted[0];
+  const width = (sorted[sorted.length - 1] - min) / classCount;
+  return distinct(Array.from({ length: classCount }, (_, i) => min + i * width));
+}
+
+function quantileBreaks(sorted: number[], classCount: number): number[] {
+  const n = sorted.length;
+  return distinct(
+    Array.from({ length: classCount }, (_, i) => sorted[Math.floor((i * n) / classCount)])
+  );
+}
+
+/**
+ * Fisher–Jenks optimal breaks: the partition of the sorted values into
+ * classCount runs that minimizes the total within-class squared deviation,
+ * by dynamic programming over prefix sums.
+ */
+function jenksBreaks(values: number[], classCount: number): number[] {
+  const sorted =
+    values.length > JENKS_MAX_VALUES
+      ? Array.from(
+          { length: JENKS_MAX_VALUES },
+          (_, i) => values[Math.round((i * (values.length - 1)) / (JENKS_MAX_VALUES - 1))]
+        )
+      : values;
+  const n = sorted.length;
+  if (n <= classCount) return distinct(sorted);
+
+  const sum = new Float64Array(n + 1);
+  const sumSq = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) {
+    sum[i + 1] = sum[i] + sorted[i];
+    sumSq[i + 1] = sumSq[i] + sorted[i] * sorted[i];
+  }
+  // Squared deviation of sorted[i..j] about its mean
+  const deviation = (i: number, j: number) => {
+    const s = sum[j + 1] - sum[i];
+    return sumSq[j + 1] - sumSq[i] - (s * s) / (j - i + 1);
+  };
+
+  // cost[c][j]: best total deviation of sorted[0..j] in c + 1 classes;
+  // start[c][j]: index where the last of those classes begins
+  const cost = Array.from({ length: classCount }, () => new Float64Array(n).fill(Infinity));
+  const start = Array.from({ length: classCount }, () => new Int32Array(n));
+  for (let j = 0; j < n; j++) cost[0][j] = deviation(0, j);
+  for (let c = 1; c < classCount; c++) {
+    for (let j = c; j < n; j++) {
+      for (let i = c; i <= j; i++) {
+        const total = cost[c - 1][i - 1] + deviation(i, j);
+        if (total < cost[c][j]) {
+          cost[c][j] = total;
+          start[c][j] = i;
+        }
+      }
+    }
+  }
+
+  const bounds: number[] = [];
+  let end = n - 1;
+  for (let c = classCount - 1; c > 0; c--) {
+    const i = start[c][end];
+    bounds.unshift(sorted[i]);
+    end = i - 1;
+  }
+  bounds.unshift(sorted[0]);
+  return distinct(bounds);
+}
+
+// Classes one standard deviation wide, the middle one centered on the mean
+function standardDeviationBreaks(sorted: number[], classCount: number): number[] {
+  const n = sorted.length;
+  const mean = sorted.reduce((s, v) => s + v, 0) / n;
+  const sd = Math.sqrt(sorted.reduce((s, v) => s + (v - mean) ** 2, 0) / n);
+  const min = sorted[0];
+  const max = sorted[n - 1];
+  if (sd === 0) return [min];
+
+  const inner = Array.from(
+    { length: classCount - 1 },
+    (_, i) => mean + (i - (classCount - 2) / 2) * sd
+  );
+  return distinct([min, ...inner.filter((b) => b > min && b <= max)]);
+}
+
+/**
+ * Lower bound of each class, ascending, the first being the smallest
+ * value. A value belongs to the last class whose bound it reaches. May
+ * return fewer than classCount bounds when values repeat.
+ */
+export function classBreaks(
+  values: number[],
+  scheme: Exclude<ClassificationScheme, "fixed">,
+  classCount: number = CLASS_COUNT
+): number[] {
+  if (values.length === 0) return [];
+  const sorted = [...values].sort((a, b) => a - b);
+  switch (scheme) {
+    case "equal":
+      return equalIntervalBreaks(sorted, classCount);
+    case "quantile":
+      return quantileBreaks(sorted, classCount);
+    case "jenks":
+      return jenksBreaks(sorted, classCount);
+    case "stddev":
+      return standardDeviationBreaks(sorted, classCount);
+  }
+}
@@ -0,0 +1,116 @@
+// ColorBrewer palettes (Cynthia Brewer, colorbrewer2.org) for the tract
+// choropleth, 5 classes each, light/low to dark/high or low to high across
+// a diverging midpoint.
+// No Node.js imports so this works in "use client" modules too.
+
+export type PaletteName =
+  | "RdYlGn"
+  | "RdYlBu"
+  | "PuOr"
+  | "BrBG"
+  | "PiYG"
+  | "Blues"
+  | "Greens"
+  | "Purples"
+  | "Oranges"
+  | "YlGnBu"
+  | "YlOrRd";
+
+export interface Palette {
+  label: string;
+  kind: "diverging" | "sequential";
+  // Distinguishable with the common forms of color vision deficiency,
+  // per ColorBrewer's colorblind-safe flag
+  colorblindSafe: boolean;
+  colors: string[];
+}
+
+export const PALETTES: Record<PaletteName, Palette> = {
+  RdYlGn: {
+    label: "Red–Yellow–Green",
+    kind: "diverging",
+    colorblindSafe: false,
+    colors: ["#d73027", "#fc8d59", "#fee08b", "#91cf60", "#1a9850"],
+  },
+  RdYlBu: {
+    label: "Red–Yellow–Blue",
+    kind: "diverging",
+    colorblindSafe: true,
+    colors: ["#d7191c", "#fdae61", "#ffffbf", "#abd9e9", "#2c7bb6"],
+  },
+  PuOr: {
+    label: "Orange–Purple",
+    kind: "diverging",
+    colorblindSafe: true,
+    colors: ["#e66101", "#fdb863", "#f7f7f7", "#b2abd2", "#5e3c99"],
+  },
+  BrBG: {
+    label: "Brown–Teal",
+    kind: "diverging",
+    colorblindSafe: true,
+    colors: ["#a6611a", "#dfc27d", "#f5f5f5", "#80cdc1", "#018571"],
+  },
+  PiYG: {
+    label: "Pink–Green",
+    kind: "diverging",
+    colorblindSafe: true,
+    colors: ["#d01c8b", "#f1b6da", "#f7f7f7", "#b8e186", "#4dac26"],
+  },
+  Blues: {
+    label: "Blues",
+    kind: "sequential",
+    colorblindSafe: true,
+    colors: ["#eff3ff", "#bdd7e7", "#6baed6", "#3182bd", "#08519c"],
+  },
+  Greens: {
+    label: "Greens",
+    kind: "sequential",
+    colorblindSafe: true,
+    colors: ["#edf8e9", "#bae4b3", "#74c476", "#31a354", "#006d2c"],
+  },
+  Purples: {
+    label: "Purples",
+    kind: "sequential",
+    colorblindSafe: true,
+    colors: ["#f2f0f7", "#cbc9e2", "#9e9ac8", "#756bb1", "#54278f"],
+  },
+  Oranges: {
+    label: "Oranges",
+    kind: "sequential",
+    colorblindSafe: true,
+    colors: ["#feedde", "#fdbe85", "#fd8d3c", "#e6550d", "#a63603"],
+  },
+  YlGnBu: {
+    label: "Yellow–Green–Blue",
+    kind: "sequential",
+    colorblindSafe: true,
+    colors: ["#ffffcc", "#a1dab4", "#41b6c4", "#2c7fb8", "#253494"],
+  },
+  YlOrRd: {
+    label: "Yellow–Orange–Red",
+    kind: "sequential",
+    colorblindSafe: true,
+    colors: ["#ffffb2", "#fecc5c", "#fd8d3c", "#f03b20", "#bd0026"],
+  },
+};
+
+export const PALETTE_NAMES = Object.keys(PALETTES) as PaletteName[];
+
+export function isPaletteName(value: unknown): value is PaletteName {
+  return typeof value === "string" && value in PALETTES;
+}
+
+/**
+ * `count` colors spread across the palette, for classifications that end
+ * up with fewer classes than the palette has (e.g. quantiles of a metric
+ * where many tracts share a value).
+ */
+export function paletteColors(name: PaletteName, count: number): string[] {
+  const { colors } = PALETTES[name];
+  if (count >= colors.length) return colors;
+  if (count <= 1) return [colors[Math.floor(colors.length / 2)]];
+  return Array.from(
+    { length: count },
+    (_, i) => colors[Math.round((i * (colors.length - 1)) / (count - 1))]
+  );
+}
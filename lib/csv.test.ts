@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "./csv";
+
+describe("toCsv", () => {
+  it("quotes fields with commas, quotes and newlines", () => {
+    expect(toCsv([["a,b", 'say "hi"', "two\nlines", null]])).toBe('"a,b","say ""hi""","two\nlines",\r\n');
+  });
+
+  it("neutralises text that a spreadsheet would run as a formula", () => {
+    expect(toCsv([["=HYPERLINK(\"x\")", "+1", "-1", "@SUM(A1)", "\tx"]])).toBe(
+      `"'=HYPERLINK(""x"")",'+1,'-1,'@SUM(A1),'\tx\r\n`
+    );
+    expect(toCsv([["\r=1"]])).toBe(`"'\r=1"\r\n`);
+  });
+
+  it("leaves numbers alone", () => {
+    expect(toCsv([[-12.5, 0, "a-b"]])).toBe("-12.5,0,a-b\r\n");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads back what toCsv writes", () => {
+    const rows = [["geoid", "name"], ["55015020100", 'Calumet, "WI"'], ["", "multi\r\nline"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it("strips a BOM and skips blank lines", () => {
+    expect(parseCsv("\uFEFFa,b\n\n1,2\n")).toEqual([["a", "b"], ["1", "2"]]);
+  });
+});
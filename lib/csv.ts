@@ -0,0 +1,63 @@
+// Minimal RFC 4180 CSV reading and writing (quoted fields, embedded commas,
+// quotes and newlines). No Node.js imports so this works in "use client" modules too.
+
+export type CsvValue = string | number | null | undefined;
+
+/** Parse CSV text into rows of fields, skipping blank lines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  // Strip a UTF-8 BOM, which Excel adds to exported CSVs
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+// Spreadsheets run text cells starting with these as formulas (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  // Only text is neutralised, so negative numbers stay numeric
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Serialize rows (header first) as CSV with CRLF line endings. */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map((row) => row.map(formatField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { customRentFor, formatCustomRents, NO_CUSTOM_RENTS, parseCustomRents, rentAmiPercent } from "./custom-rent";
+
+describe("parseCustomRents", () => {
+  it("reads one rent per bedroom count, rounded to whole dollars", () => {
+    expect(parseCustomRents(["2:1500", "0:899.6", " 4:2100 "])).toEqual([900, null, 1500, null, 2100]);
+  });
+
+  it("keeps the last value repeated for a bedroom count", () => {
+    expect(parseCustomRents(["2:1500", "2:1600"])[2]).toBe(1600);
+  });
+
+  it("skips malformed, zero and over-cap values without dropping the rest", () => {
+    const rents = parseCustomRents(["x", "5:1000", "2:-1", "2:abc", "1:", "3:0", "1:100001", "0:100000"]);
+    expect(rents).toEqual([100000, null, null, null, null]);
+  });
+
+  it("has no rents without values", () => {
+    expect(parseCustomRents([])).toEqual(NO_CUSTOM_RENTS);
+  });
+});
+
+describe("formatCustomRents", () => {
+  it("writes the permalink values parseCustomRents reads back", () => {
+    const rents = [900, null, 1500, null, 2100];
+    expect(formatCustomRents(rents)).toEqual(["0:900", "2:1500", "4:2100"]);
+    expect(parseCustomRents(formatCustomRents(rents))).toEqual(rents);
+  });
+
+  it("leaves out unset and zero rents", () => {
+    expect(formatCustomRents([0, null, null, null, null])).toEqual([]);
+  });
+});
+
+describe("customRentFor", () => {
+  it("picks the unit size's rent, null meaning the FMR", () => {
+    const rents = [900, null, 1500, 0, null];
+    expect(customRentFor(rents, 2)).toBe(1500);
+    expect(customRentFor(rents, 1)).toBeNull();
+    expect(customRentFor(rents, 3)).toBeNull();
+  });
+});
+
+describe("rentAmiPercent", () => {
+  it("gives the AMI percent whose income covers the rent at 30%", () => {
+    // $1,040 needs $41,600, 40% of a $104,000 AMI
+    expect(rentAmiPercent(1040, 104000)).toBe(40);
+    expect(rentAmiPercent(1500, 104300)).toBe(58);
+  });
+});
@@ -0,0 +1,37 @@
+// Asking rents entered in place of HUD's FMR, one per bedroom count, and
+// their permalink form: repeated rent=<bedrooms>:<dollars> parameters.
+// No Node.js imports so this works in "use client" modules too.
+
+// Indexed like fmrByBedroom; null keeps the FMR for that unit size
+export type CustomRents = (number | null)[];
+
+export const NO_CUSTOM_RENTS: CustomRents = [null, null, null, null, null];
+
+// Anything above this is a typo rather than a monthly rent
+const MAX_CUSTOM_RENT = 100000;
+
+export const CUSTOM_RENT_PATTERN = /^([0-4]):(\d+(?:\.\d+)?)$/;
+
+export function parseCustomRents(values: string[]): CustomRents {
+  const rents = [...NO_CUSTOM_RENTS];
+  for (const value of values) {
+    const match = CUSTOM_RENT_PATTERN.exec(value.trim());
+    const rent = match ? Number(match[2]) : 0;
+    if (match && rent > 0 && rent <= MAX_CUSTOM_RENT) rents[Number(match[1])] = Math.round(rent);
+  }
+  return rents;
+}
+
+export function formatCustomRents(rents: CustomRents): string[] {
+  return rents.flatMap((rent, bedrooms) => (rent ? [`${bedrooms}:${rent}`] : []));
+}
+
+/** The rent entered for a unit size, or null to use the FMR. Zero counts as unset. */
+export function customRentFor(rents: CustomRents, bedrooms: number): number | null {
+  return rents[bedrooms] || null;
+}
+
+/** The AMI percent at which 30% of income covers the rent. */
+export function rentAmiPercent(monthlyRent: number, sizeAdjustedAmi: number): number {
+  return Math.round(((monthlyRent * 12) / 0.3 / sizeAdjustedAmi) * 100);
+}
@@ -0,0 +1,134 @@
+/**
+ * Data provider layer: every request to Census, HUD and Nominatim goes
+ * through one of these so routes can run without network access.
+ *
+ * DATA_PROVIDER selects the implementation:
+ * - "live" (default) — calls the upstream APIs through the upstream cache
+ * - "fixture"        — replays recorded JSON from FIXTURE_DIR (default
+ *   ./fixtures); a missing recording is an error
+ * - "record"         — calls the upstream APIs and saves each result to
+ *   FIXTURE_DIR for later replay
+ */
+
+import { geocodeAddress, reverseGeocodeCoordinates, GeocodeResult } from "./census-geocoder";
+import {
+  fetchIncomeDistribution,
+  fetchMedianByHouseholdSize,
+  fetchIncomeByTenure,
+  fetchHomeValue,
+  fetchTractIncomeVintage,
+  IncomeDistribution,
+  MedianByHouseholdSize,
+  IncomeByTenure,
+  TractIncomeVintage,
+} from "./census-acs";
+import {
+  fetchAreaMedianIncome,
+  fetchMtspIncomeLimits,
+  HudIncomeData,
+  MtspIncomeLimits,
+} from "./hud-api";
+import { fetchFairMarketRents, HudFmrData } from "./hud-fmr";
+import type { HomeValueData } from "./mortgage";
+import { createFixtureProvider } from "./fixture-provider";
+import { createCachedProvider } from "./upstream-cache";
+
+export interface GeocodingProvider {
+  geocodeAddress(address: string): Promise<GeocodeResult>;
+  reverseGeocodeCoordinates(lat: number, lng: number): Promise<GeocodeResult>;
+}
+
+export interface AcsProvider {
+  fetchIncomeDistribution(
+    stateFips: string,
+    countyFips: string,
+    tractFips: string,
+    year?: string
+  ): Promise<IncomeDistribution>;
+  fetchMedianByHouseholdSize(
+    stateFips: string,
+    countyFips: string,
+    tractFips: string
+  ): Promise<MedianByHouseholdSize>;
+  fetchIncomeByTenure(
+    stateFips: string,
+    countyFips: string,
+    tractFips: string
+  ): Promise<IncomeByTenure | null>;
+  fetchHomeValue(
+    stateFips: string,
+    countyFips: string,
+    tractFips: string,
+    cbsaCode?: string
+  ): Promise<HomeValueData | null>;
+  fetchTractIncomeVintage(
+    stateFips: string,
+    countyFips: string,
+    tractFipsList: string[],
+    year: string
+  ): Promise<TractIncomeVintage[]>;
+}
+
+export interface HudProvider {
+  fetchAreaMedianIncome(
+    stateFips: string,
+    countyFips: string,
+    countySubFips?: string,
+    year?: string
+  ): Promise<HudIncomeData>;
+  fetchMtspIncomeLimits(
+    stateFips: string,
+    countyFips: string,
+    countySubFips?: string
+  ): Promise<MtspIncomeLimits | null>;
+  fetchFairMarketRents(
+    stateFips: string,
+    countyFips: string,
+    countySubFips?: string,
+    zipCode?: string,
+    year?: string
+  ): Promise<HudFmrData>;
+}
+
+export interface DataProvider {
+  name: DataProviderName;
+  geocoding: GeocodingProvider;
+  acs: AcsProvider;
+  hud: HudProvider;
+}
+
+export type DataProviderName = "live" | "fixture" | "record";
+
+const DATA_PROVIDER_NAMES: DataProviderName[] = ["live", "fixture", "record"];
+
+export const liveProvider: DataProvider = {
+  name: "live",
+  geocoding: { geocodeAddress, reverseGeocodeCoordinates },
+  acs: {
+    fetchIncomeDistribution,
+    fetchMedianByHouseholdSize,
+    fetchIncomeByTenure,
+    fetchHomeValue,
+    fetchTractIncomeVintage,
+  },
+  hud: { fetchAreaMedianIncome, fetchMtspIncomeLimits, fetchFairMarketRents },
+};
+
+let provider: DataProvider | null = null;
+
+/** The provider chosen by DATA_PROVIDER, created once per server instance. */
+export function getDataProvider(): DataProvider {
+  if (provider) return provider;
+
+  const name = process.env.DATA_PROVIDER || "live";
+  if (!DATA_PROVIDER_NAMES.includes(name as DataProviderName)) {
+    throw new Error(
+      `Unknown DATA_PROVIDER "${name}". Use one of: ${DATA_PROVIDER_NAMES.join(", ")}.`
+    );
+  }
+
+  provider = name === "live"
+    ? createCachedProvider(liveProvider)
+    : createFixtureProvider(liveProvider, name === "record" ? "record" : "replay");
+  return provider;
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { parseQuery, EMBED_QUERY } from "./api-schema";
+import { applyEmbedParams, embedHostOrigin, EmbedParams } from "./embed";
+
+const SELF = "https://afford.example.org";
+
+function params(search: string): EmbedParams {
+  const query = parseQuery(new URLSearchParams(search), EMBED_QUERY);
+  if (!query.ok) throw new Error(query.errors.join(" "));
+  return query.values;
+}
+
+describe("embedHostOrigin", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the origin parameter", () => {
+    expect(embedHostOrigin(params("origin=https://partner.example.com"), SELF)).toBe(
+      "https://partner.example.com"
+    );
+  });
+
+  it("falls back to the widget's own origin", () => {
+    expect(embedHostOrigin(params("tract=55015020100"), SELF)).toBe(SELF);
+  });
+
+  it("talks to any host only when the operator opts in", () => {
+    vi.stubEnv("NEXT_PUBLIC_EMBED_ANY_ORIGIN", "true");
+    expect(embedHostOrigin(params("tract=55015020100"), SELF)).toBe("*");
+    expect(embedHostOrigin(params("origin=https://partner.example.com"), SELF)).toBe(
+      "https://partner.example.com"
+    );
+  });
+});
+
+describe("applyEmbedParams", () => {
+  const current = new URLSearchParams("tract=55015020100&bedrooms=1&origin=https://partner.example.com");
+
+  it("replaces the location and keeps the other parameters", () => {
+    const update = applyEmbedParams(current, { type: "setParams", params: { cbsa: "11540" } });
+    expect(update.ok && update.search.toString()).toBe(
+      "bedrooms=1&origin=https%3A%2F%2Fpartner.example.com&cbsa=11540"
+    );
+  });
+
+  it("can't change the origin", () => {
+    const update = applyEmbedParams(current, { params: { origin: "https://evil.example.com" } });
+    expect(update.ok && update.values.origin).toBe("https://partner.example.com");
+  });
+
+  it("reports invalid parameters", () => {
+    expect(applyEmbedParams(current, { params: { bedrooms: 9 } }).ok).toBe(false);
+    expect(applyEmbedParams(current, { params: [] })).toEqual({
+      ok: false,
+      errors: ["setParams needs a params object."],
+    });
+  });
+});
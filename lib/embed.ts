@@ -0,0 +1,133 @@
+// The /embed widget's parameters and the postMessage protocol between it
+// and the page hosting its iframe.
+// No Node.js imports so this works in "use client" modules too.
+
+import { parseQuery, EMBED_QUERY, AggregateReport, LookupResponse, ParsedQuery } from "./api-schema";
+import type { RecalculatedLookup } from "./recalculate";
+
+export type EmbedParams = ParsedQuery<typeof EMBED_QUERY>;
+
+// Every message the widget sends carries this source, so hosts can tell
+// its messages from other frames'
+export const EMBED_MESSAGE_SOURCE = "ami-affordability-embed";
+
+export interface EmbedResult {
+  kind: "tract" | "cbsa";
+  id: string; // tract GEOID or CBSA code
+  name: string; // matched address or CBSA name
+  areaName: string; // HUD area whose AMI and FMR apply
+  bedrooms: number;
+  householdSize: number;
+  monthlyRent: number;
+  incomeNeeded: number;
+  percentCanAfford: number;
+  percentCanAffordMoe: number | null;
+  peerPercentile: number | null;
+  amiTable: { amiPercent: number; income: number; rent: number; percentCanAfford: number }[];
+}
+
+/**
+ * Sent to the host: "ready" once the widget listens, "loading" when a
+ * location starts loading, then "result" or "error". params echo the
+ * widget's current parameters.
+ */
+export type EmbedEvent =
+  | { type: "ready" }
+  | { type: "loading" }
+  | { type: "result"; result: EmbedResult }
+  | { type: "error"; error: string };
+
+export type EmbedOutboundMessage = EmbedEvent & {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  params: EmbedParams;
+};
+
+/**
+ * The origin the widget posts to and accepts setParams from: the origin
+ * parameter, else its own origin. Operators who let any site embed it can
+ * set NEXT_PUBLIC_EMBED_ANY_ORIGIN=true to talk to any host without one.
+ */
+export function embedHostOrigin(params: EmbedParams, ownOrigin: string): string {
+  if (params.origin) return params.origin;
+  return process.env.NEXT_PUBLIC_EMBED_ANY_ORIGIN === "true" ? "*" : ownOrigin;
+}
+
+// Location parameters; setting any of them replaces the others
+const LOCATION_KEYS = ["address", "lat", "lng", "tract", "cbsa"];
+
+export type EmbedParamsUpdate =
+  | { ok: true; search: URLSearchParams; values: EmbedParams }
+  | { ok: false; errors: string[] };
+
+/**
+ * Apply a host's { type: "setParams", params: {...} } message to the
+ * widget's query: values as they would appear in the iframe URL, null to
+ * clear one. origin is fixed by the URL and can't be changed this way.
+ */
+export function applyEmbedParams(current: URLSearchParams, message: unknown): EmbedParamsUpdate {
+  const params = (message as { params?: unknown } | null)?.params;
+  if (!params || typeof params !== "object" || Array.isArray(params)) {
+    return { ok: false, errors: ["setParams needs a params object."] };
+  }
+
+  const next = new URLSearchParams(current);
+  const entries = Object.entries(params as Record<string, unknown>).filter(([key]) => key !== "origin");
+  if (entries.some(([key]) => LOCATION_KEYS.includes(key))) {
+    for (const key of LOCATION_KEYS) next.delete(key);
+  }
+  for (const [key, value] of entries) {
+    if (value === null || value === undefined) next.delete(key);
+    else next.set(key, String(value));
+  }
+
+  const query = parseQuery(next, EMBED_QUERY);
+  return query.ok ? { ok: true, search: next, values: query.values } : query;
+}
+
+export function tractEmbedResult(
+  lookup: LookupResponse,
+  computed: RecalculatedLookup,
+  params: EmbedParams
+): EmbedResult {
+  return {
+    kind: "tract",
+    id: `${lookup.stateFips}${lookup.countyFips}${lookup.tractFips}`,
+    name: lookup.matchedAddress,
+    areaName: lookup.areaName,
+    bedrooms: params.bedrooms,
+    householdSize: params.householdSize,
+    monthlyRent: computed.monthlyRent,
+    incomeNeeded: Math.round(computed.incomeThreshold),
+    percentCanAfford: computed.percentCanAfford,
+    percentCanAffordMoe: computed.percentCanAffordInterval?.moe ?? null,
+    peerPercentile: lookup.msaPercentile,
+    amiTable: computed.amiTable.map(({ amiPercent, income, rent, percentCanAfford }) => ({
+      amiPercent,
+      income,
+      rent,
+      percentCanAfford,
+    })),
+  };
+}
+
+export function cbsaEmbedResult(report: AggregateReport): EmbedResult {
+  return {
+    kind: "cbsa",
+    id: report.id,
+    name: report.name,
+    areaName: report.referenceArea.name,
+    bedrooms: report.bedrooms,
+    householdSize: report.householdSize,
+    monthlyRent: report.monthlyRent,
+    incomeNeeded: Math.round(report.incomeThreshold),
+    percentCanAfford: report.percentCanAfford,
+    percentCanAffordMoe: null,
+    peerPercentile: null,
+    amiTable: report.amiTable.map(({ amiPercent, income, rent, percentCanAfford }) => ({
+      amiPercent,
+      income,
+      rent,
+      percentCanAfford,
+    })),
+  };
+}
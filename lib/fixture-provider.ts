@@ -0,0 +1,91 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { join, dirname } from "path";
+import { createHash } from "crypto";
+import type { DataProvider } from "./data-provider";
+
+// Recordings live at {FIXTURE_DIR}/{service}/{method}/{key}.json, where the
+// key is built from the call's arguments, e.g. acs/fetchIncomeDistribution/06_075_010100.json
+function fixtureDir(): string {
+  return process.env.FIXTURE_DIR || join(process.cwd(), "fixtures");
+}
+
+const MAX_SLUG_LENGTH = 80;
+
+/**
+ * File-safe key for a call's arguments. Short keys stay readable; long
+ * ones (free-form addresses) are truncated and suffixed with a hash.
+ */
+export function callKey(args: unknown[]): string {
+  const raw = args
+    .map((a) => (a === undefined || a === null ? "-" : Array.isArray(a) ? a.join(",") : String(a)))
+    .join("_");
+  const slug = raw.toLowerCase().replace(/[^a-z0-9,._-]+/g, "-");
+  if (slug.length <= MAX_SLUG_LENGTH) return slug;
+  const hash = createHash("sha1").update(raw).digest("hex").slice(0, 10);
+  return `${slug.slice(0, MAX_SLUG_LENGTH)}-${hash}`;
+}
+
+// JSON has no Infinity, but the top income bracket's max is Infinity
+export function replacer(_key: string, value: unknown): unknown {
+  return value === Infinity ? "Infinity" : value;
+}
+
+export function reviver(_key: string, value: unknown): unknown {
+  return value === "Infinity" ? Infinity : value;
+}
+
+// Key under which a recorded call's thrown error message is stored
+const RECORDED_ERROR = "__error";
+
+type AsyncMethod = (...args: unknown[]) => Promise<unknown>;
+
+/**
+ * Wrap one service's methods. "replay" reads the recording for each call;
+ * "record" calls the live method and writes its result before returning.
+ */
+function wrapService<T extends object>(service: string, live: T, mode: "replay" | "record"): T {
+  const wrapped: Record<string, AsyncMethod> = {};
+
+  for (const [method, fn] of Object.entries(live) as [string, AsyncMethod][]) {
+    wrapped[method] = async (...args: unknown[]) => {
+      const path = join(fixtureDir(), service, method, `${callKey(args)}.json`);
+
+      if (mode === "record") {
+        mkdirSync(dirname(path), { recursive: true });
+        try {
+          const result = await fn(...args);
+          writeFileSync(path, JSON.stringify(result, replacer, 2));
+          return result;
+        } catch (err) {
+          // Record failures too, so error paths replay the same way
+          const message = err instanceof Error ? err.message : String(err);
+          writeFileSync(path, JSON.stringify({ [RECORDED_ERROR]: message }, null, 2));
+          throw err;
+        }
+      }
+
+      if (!existsSync(path)) {
+        throw new Error(`No recorded fixture for ${service}.${method} at ${path}.`);
+      }
+      const recorded = JSON.parse(readFileSync(path, "utf-8"), reviver);
+      if (recorded && typeof recorded === "object" && RECORDED_ERROR in recorded) {
+        throw new Error(recorded[RECORDED_ERROR]);
+      }
+      return recorded;
+    };
+  }
+
+  return wrapped as T;
+}
+
+export function createFixtureProvider(
+  live: DataProvider,
+  mode: "replay" | "record"
+): DataProvider {
+  return {
+    name: mode === "record" ? "record" : "fixture",
+    geocoding: wrapService("geocoding", live.geocoding, mode),
+    acs: wrapService("acs", live.acs, mode),
+    hud: wrapService("hud", live.hud, mode),
+  };
+}
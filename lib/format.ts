@@ -0,0 +1,14 @@
+// Display formatting shared by the panels, reports and share images.
+// No Node.js imports so this works in "use client" modules too.
+
+// Indexed like fmrByBedroom
+export const BEDROOM_LABELS = ["Studio", "1 BR", "2 BR", "3 BR", "4 BR"];
+
+/** Whole dollars, e.g. "$1,250". */
+export function formatCurrency(n: number): string {
+  return n.toLocaleString("en-US", {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  });
+}
@@ -0,0 +1,40 @@
+// Census tract GEOID helpers (2-digit state + 3-digit county + 6-digit tract).
+// No Node.js imports so this works in "use client" modules too.
+
+export interface TractFips {
+  stateFips: string;
+  countyFips: string;
+  tractFips: string;
+}
+
+/**
+ * The 11-digit tract GEOID in user input, or null when the input isn't one.
+ * Accepts separators ("36 061 000100", "36-061-000100") and the
+ * data.census.gov form "1400000US36061000100".
+ */
+export function parseTractGeoid(input: string): string | null {
+  const digits = input.trim().replace(/^1400000US/i, "").replace(/[\s-]/g, "");
+  return /^\d{11}$/.test(digits) ? digits : null;
+}
+
+export function splitTractGeoid(geoid: string): TractFips {
+  return {
+    stateFips: geoid.slice(0, 2),
+    countyFips: geoid.slice(2, 5),
+    tractFips: geoid.slice(5),
+  };
+}
+
+export const STATE_NAMES: Record<string, string> = {
+  "01": "Alabama", "02": "Alaska", "04": "Arizona", "05": "Arkansas", "06": "California",
+  "08": "Colorado", "09": "Connecticut", "10": "Delaware", "11": "District of Columbia",
+  "12": "Florida", "13": "Georgia", "15": "Hawaii", "16": "Idaho", "17": "Illinois",
+  "18": "Indiana", "19": "Iowa", "20": "Kansas", "21": "Kentucky", "22": "Louisiana",
+  "23": "Maine", "24": "Maryland", "25": "Massachusetts", "26": "Michigan", "27": "Minnesota",
+  "28": "Mississippi", "29": "Missouri", "30": "Montana", "31": "Nebraska", "32": "Nevada",
+  "33": "New Hampshire", "34": "New Jersey", "35": "New Mexico", "36": "New York",
+  "37": "North Carolina", "38": "North Dakota", "39": "Ohio", "40": "Oklahoma", "41": "Oregon",
+  "42": "Pennsylvania", "44": "Rhode Island", "45": "South Carolina", "46": "South Dakota",
+  "47": "Tennessee", "48": "Texas", "49": "Utah", "50": "Vermont", "51": "Virginia",
+  "53": "Washington", "54": "West Virginia", "55": "Wisconsin", "56": "Wyoming", "72": "Puerto Rico",
+};
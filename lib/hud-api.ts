@@ -1,17 +1,59 @@
+// Published HUD income limits by household size (index 0 = 1-person, ... 7 = 8-person).
+// These include HUD's caps, floors and high-cost adjustments, so they are not
+// simple multiples of each other.
+export interface OfficialIncomeLimits {
+  extremelyLow: number[] | null; // ELI, il30_p1–p8
+  veryLow: number[]; // VLI, il50_p1–p8
+  low: number[] | null; // LI, il80_p1–p8
+}
+
 export interface HudIncomeData {
   medianIncome: number;
   incomeLimitsBySize: number[]; // index 0 = 1-person, ... index 7 = 8-person (100% AMI equivalents)
+  incomeLimits: OfficialIncomeLimits;
   areaName: string;
   year: string;
 }
 
+// HUD publishes limits for 1–8 persons; official programs go further
+export const MAX_HOUSEHOLD_SIZE = 10;
+
+/**
+ * Income limit for a household of any size. Sizes 1–8 are read from the
+ * published table; larger households follow HUD's rule of adding 8% of the
+ * 4-person limit per person beyond 8 (e.g. 9 persons = 140%), rounded up
+ * to the nearest $50.
+ */
+export function incomeLimitForSize(limits: number[], householdSize: number): number {
+  if (householdSize <= limits.length) return limits[householdSize - 1];
+  const fourPerson = limits[3];
+  const factor = 1.32 + 0.08 * (householdSize - 8);
+  return Math.ceil((fourPerson * factor) / 50) * 50;
+}
+
+function parseLimits(
+  record: Record<string, number> | undefined,
+  prefix: string
+): number[] | null {
+  if (!record) return null;
+  const limits: number[] = [];
+  for (let i = 1; i <= 8; i++) {
+    const val = record[`${prefix}_p${i}`];
+    if (!val) return null;
+    limits.push(val);
+  }
+  return limits;
+}
+
 // New England states use town/county subdivision instead of county for HUD lookups
 const NEW_ENGLAND_STATES = new Set(["09", "23", "25", "33", "44", "50"]);
 
+/** HUD income limits for the current fiscal year, or for `year` when given. */
 export async function fetchAreaMedianIncome(
   stateFips: string,
   countyFips: string,
-  countySubFips?: string
+  countySubFips?: string,
+  year?: string
 ): Promise<HudIncomeData> {
   const token = process.env.HUD_API_TOKEN;
   if (!token) {
@@ -24,7 +66,7 @@ export async function fetchAreaMedianIncome(
     ? countySubFips
     : "99999";
   const entityId = `${stateFips}${countyFips}${suffix}`;
-  const url = `https://www.huduser.gov/hudapi/public/il/data/${entityId}`;
+  const url = `https://www.huduser.gov/hudapi/public/il/data/${entityId}${year ? `?year=${year}` : ""}`;
 
   const res = await fetch(url, {
     headers: {
@@ -64,10 +106,61 @@ export async function fetchAreaMedianIncome(
     incomeLimitsBySize.push(val ? val * 2 : medianIncome);
   }
 
+  // Official ELI/VLI/LI tables; a missing table means those rows get derived
+  const incomeLimits: OfficialIncomeLimits = {
+    extremelyLow: parseLimits(record.extremely_low, "il30"),
+    veryLow: parseLimits(veryLow, "il50") ?? incomeLimitsBySize.map((v) => v / 2),
+    low: parseLimits(record.low, "il80"),
+  };
+
   return {
     medianIncome,
     incomeLimitsBySize,
+    incomeLimits,
     areaName: record.area_name || record.county_name || `${stateFips}-${countyFips}`,
-    year: record.year || "2025",
+    year: String(record.year || year || "2025"),
   };
 }
+
+export interface MtspIncomeLimits {
+  // 50% MTSP limits by household size (index 0 = 1-person, ... 7 = 8-person);
+  // other LIHTC levels are proportional (60% = 1.2 × the 50% limit)
+  veryLow: number[];
+  year: string;
+}
+
+/**
+ * Multifamily Tax Subsidy Project limits used for LIHTC rents. They differ
+ * from Section 8 limits through hold-harmless and HERA special limits.
+ * Best-effort: returns null when the MTSP endpoint has nothing for the area.
+ */
+export async function fetchMtspIncomeLimits(
+  stateFips: string,
+  countyFips: string,
+  countySubFips?: string
+): Promise<MtspIncomeLimits | null> {
+  const token = process.env.HUD_API_TOKEN;
+  if (!token) {
+    throw new Error("HUD_API_TOKEN environment variable is not set.");
+  }
+
+  const suffix = NEW_ENGLAND_STATES.has(stateFips) && countySubFips
+    ? countySubFips
+    : "99999";
+  const entityId = `${stateFips}${countyFips}${suffix}`;
+  const url = `https://www.huduser.gov/hudapi/public/mtspil/data/${entityId}`;
+
+  const res = await fetch(url, {
+    headers: {
+      authorization: `Bearer ${token}`,
+    },
+  });
+  if (!res.ok) return null;
+
+  const data = await res.json();
+  const record = data?.data;
+  const veryLow = parseLimits(record?.["50percent"], "il50");
+  if (!veryLow) return null;
+
+  return { veryLow, year: String(record.year || "2025") };
+}
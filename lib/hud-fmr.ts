@@ -6,6 +6,7 @@ export interface HudFmrData {
   year: string;
   isSafmr: boolean;
   fmrZipCode?: string;
+  countyName?: string; // e.g. "Travis County", when HUD reports it
 }
 
 // New England states use town/county subdivision instead of county for HUD lookups
@@ -30,11 +31,34 @@ export function getSafmrData(): Record<string, number[]> {
   return loadSafmrData();
 }
 
+// Cache the static tract → primary ZIP mapping in memory
+let tractToZip: Record<string, string> | null = null;
+
+/** The whole tract → primary ZIP mapping, keyed by 11-digit tract GEOID. */
+export function loadTractToZip(): Record<string, string> {
+  if (tractToZip) return tractToZip;
+  const filePath = join(process.cwd(), "data", "tract-to-zip.json");
+  tractToZip = JSON.parse(readFileSync(filePath, "utf-8"));
+  return tractToZip!;
+}
+
+/** Primary ZIP (largest land-area overlap) for an 11-digit tract GEOID. */
+export function getZipForTract(tractGeoid: string): string | null {
+  return loadTractToZip()[tractGeoid] ?? null;
+}
+
+/**
+ * Fair Market Rents for the current fiscal year, preferring the static
+ * SAFMR file for the ZIP. With `year`, rents come from the HUD API for that
+ * fiscal year only: the ZIP's row when the area publishes Small Area FMRs,
+ * otherwise the metro FMR.
+ */
 export async function fetchFairMarketRents(
   stateFips: string,
   countyFips: string,
   countySubFips?: string,
-  zipCode?: string
+  zipCode?: string,
+  year?: string
 ): Promise<HudFmrData> {
   const token = process.env.HUD_API_TOKEN;
   if (!token) {
@@ -47,7 +71,7 @@ export async function fetchFairMarketRents(
     ? countySubFips
     : "99999";
   const entityId = `${stateFips}${countyFips}${suffix}`;
-  const url = `https://www.huduser.gov/hudapi/public/fmr/data/${entityId}`;
+  const url = `https://www.huduser.gov/hudapi/public/fmr/data/${entityId}${year ? `?year=${year}` : ""}`;
 
   const res = await fetch(url, {
     headers: {
@@ -73,24 +97,35 @@ export async function fetchFairMarketRents(
   // Get metro-level FMR from the API
   const basicdata = data.data.basicdata;
   const apiRecord = Array.isArray(basicdata) ? basicdata[0] : basicdata;
-  const metroFmr = [
-    apiRecord.Efficiency as number,
-    apiRecord["One-Bedroom"] as number,
-    apiRecord["Two-Bedroom"] as number,
-    apiRecord["Three-Bedroom"] as number,
-    apiRecord["Four-Bedroom"] as number,
+  const toFmr = (record: Record<string, unknown>) => [
+    record.Efficiency as number,
+    record["One-Bedroom"] as number,
+    record["Two-Bedroom"] as number,
+    record["Three-Bedroom"] as number,
+    record["Four-Bedroom"] as number,
   ];
-  const year = (apiRecord.year as string)?.toString() || data.data.year?.toString() || "2025";
+  const metroFmr = toFmr(apiRecord);
+  const fmrYear = (apiRecord.year as string)?.toString() || data.data.year?.toString() || year || "2025";
+  const countyName: string | undefined = data.data.county_name || undefined;
+
+  // Past years: Small Area FMR areas list one basicdata row per ZIP
+  if (year && zipCode && Array.isArray(basicdata)) {
+    const zipRecord = basicdata.find((r: Record<string, unknown>) => r.zip_code === zipCode);
+    if (zipRecord) {
+      return { fmrByBedroom: toFmr(zipRecord), year: fmrYear, isSafmr: true, fmrZipCode: zipCode, countyName };
+    }
+  }
 
   // Check static SAFMR file for ZIP-level rent (available for all metro areas)
-  if (zipCode) {
+  if (zipCode && !year) {
     const safmr = getSafmrForZip(zipCode);
     if (safmr) {
       return {
         fmrByBedroom: safmr,
-        year,
+        year: fmrYear,
         isSafmr: true,
         fmrZipCode: zipCode,
+        countyName,
       };
     }
   }
@@ -102,7 +137,8 @@ export async function fetchFairMarketRents(
 
   return {
     fmrByBedroom: metroFmr,
-    year,
+    year: fmrYear,
     isSafmr: false,
+    countyName,
   };
 }
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeLihtcTable,
+  imputedHouseholdSize,
+  incomeAveraging,
+  LIHTC_AMI_LEVELS,
+  lihtcIncomeLimit,
+  maxGrossRent,
+} from "./lihtc";
+
+// FY2025-style 50% limits, 1–8 persons
+const VERY_LOW = [36550, 41750, 46950, 52150, 56350, 60500, 64700, 68850];
+
+describe("lihtcIncomeLimit", () => {
+  it("imputes 1.5 persons per bedroom and 1 for an efficiency", () => {
+    expect(imputedHouseholdSize(0)).toBe(1);
+    expect(imputedHouseholdSize(1)).toBe(1.5);
+    expect(imputedHouseholdSize(3)).toBe(4.5);
+  });
+
+  it("averages neighbouring sizes for a fractional household", () => {
+    // (36,550 + 41,750) / 2 = 39,150 at 50%, scaled to 60%
+    expect(lihtcIncomeLimit(VERY_LOW, 1.5, 60)).toBe(46980);
+    expect(lihtcIncomeLimit(VERY_LOW, 1, 50)).toBe(36550);
+  });
+
+  it("extends past 8 persons by 8% of the 4-person limit each", () => {
+    // 140% of 52,150, rounded up to $50
+    expect(lihtcIncomeLimit(VERY_LOW, 9, 50)).toBe(73050);
+  });
+
+  it("caps gross rent at 30% of the limit", () => {
+    expect(maxGrossRent(46980)).toBe(1174);
+  });
+});
+
+describe("computeLihtcTable", () => {
+  // Every household earns $40,000–$44,999
+  const tract = { totalHouseholds: 100, bracketCounts: Array.from({ length: 16 }, (_, i) => (i === 7 ? 100 : 0)) };
+  const table = computeLihtcTable(VERY_LOW, [50, 75, 100, 125, 150], tract, null);
+
+  it("has a row per bedroom count and a column per designation", () => {
+    expect(table).toHaveLength(5);
+    for (const row of table) expect(row.map((cell) => cell.amiPercent)).toEqual(LIHTC_AMI_LEVELS);
+  });
+
+  it("nets out the utility allowance", () => {
+    expect(table[1][LIHTC_AMI_LEVELS.indexOf(60)]).toMatchObject({
+      incomeLimit: 46980,
+      maxGrossRent: 1174,
+      netRent: 1099,
+      msaPercentCanOccupy: null,
+    });
+  });
+
+  it("counts households eligible for the unit who can carry its rent", () => {
+    // 1BR at 60%: income from $35,220 (40% burden) up to $46,980
+    expect(table[1][LIHTC_AMI_LEVELS.indexOf(60)].tractPercentCanOccupy).toBe(100);
+    // 1BR at 20%: everyone is over the $15,660 limit
+    expect(table[1][0].tractPercentCanOccupy).toBe(0);
+  });
+});
+
+describe("incomeAveraging", () => {
+  it("averages designations by unit count", () => {
+    expect(incomeAveraging({ 40: 10, 80: 10 })).toEqual({ totalUnits: 20, averageAmi: 60, compliant: true });
+    expect(incomeAveraging({ 50: 1, 80: 2 })).toEqual({ totalUnits: 3, averageAmi: 70, compliant: false });
+  });
+
+  it("ignores empty and negative entries", () => {
+    expect(incomeAveraging({ 30: -4, 60: 0 })).toEqual({ totalUnits: 0, averageAmi: null, compliant: false });
+  });
+});
@@ -0,0 +1,112 @@
+// LIHTC (Low-Income Housing Tax Credit) rent math.
+// Pure functions, shared by the results panel and any server-side use.
+
+import { computeAffordabilityPct, IncomeDistributionInput } from "./bracket-math";
+import { incomeLimitForSize } from "./hud-api";
+
+// Income designations allowed under the average income test (IRC §42(g)(1)(C))
+export const LIHTC_AMI_LEVELS = [20, 30, 40, 50, 60, 70, 80];
+
+// The average designation across restricted units may not exceed 60% AMI
+export const INCOME_AVERAGING_MAX = 60;
+
+/**
+ * Imputed household size for rent-setting: 1.5 persons per bedroom, and
+ * 1 person for an efficiency. Fractional sizes (e.g. 4.5 for a 3BR) are
+ * resolved by averaging the limits of the neighbouring whole sizes.
+ */
+export function imputedHouseholdSize(bedrooms: number): number {
+  return bedrooms === 0 ? 1 : bedrooms * 1.5;
+}
+
+/** LIHTC income limit at amiPercent for a (possibly fractional) household size. */
+export function lihtcIncomeLimit(
+  veryLowLimits: number[],
+  householdSize: number,
+  amiPercent: number
+): number {
+  const lower = incomeLimitForSize(veryLowLimits, Math.floor(householdSize));
+  const upper = incomeLimitForSize(veryLowLimits, Math.ceil(householdSize));
+  const fiftyPercent = (lower + upper) / 2;
+  return Math.round((fiftyPercent * amiPercent) / 50);
+}
+
+/** Max gross rent (tenant rent + utility allowance): 30% of the limit, monthly. */
+export function maxGrossRent(incomeLimit: number): number {
+  return Math.floor((incomeLimit * 0.3) / 12);
+}
+
+export interface LihtcCell {
+  bedrooms: number;
+  amiPercent: number;
+  incomeLimit: number;
+  maxGrossRent: number;
+  netRent: number; // max gross rent less the utility allowance
+  tractPercentCanOccupy: number;
+  msaPercentCanOccupy: number | null;
+}
+
+/**
+ * Share of households that could occupy the unit: income at or below the
+ * limit (eligible) but high enough that the gross rent is at most 40% of
+ * income — the same feasibility band the AMI table uses.
+ */
+function percentCanOccupy(
+  incomeLimit: number,
+  grossRent: number,
+  dist: IncomeDistributionInput
+): number {
+  const floor = (grossRent * 12) / 0.4;
+  if (floor >= incomeLimit) return 0;
+  const aboveFloor = computeAffordabilityPct(floor, dist.totalHouseholds, dist.bracketCounts, dist.options);
+  const aboveLimit = computeAffordabilityPct(incomeLimit, dist.totalHouseholds, dist.bracketCounts, dist.options);
+  return Math.max(0, Math.round((aboveFloor - aboveLimit) * 10) / 10);
+}
+
+/**
+ * Max rents for every bedroom count (rows, studio–4BR) and LIHTC income
+ * designation (columns, LIHTC_AMI_LEVELS).
+ */
+export function computeLihtcTable(
+  veryLowLimits: number[],
+  utilityAllowances: number[],
+  tract: IncomeDistributionInput,
+  msa: IncomeDistributionInput | null
+): LihtcCell[][] {
+  return [0, 1, 2, 3, 4].map((bedrooms) =>
+    LIHTC_AMI_LEVELS.map((amiPercent) => {
+      const incomeLimit = lihtcIncomeLimit(veryLowLimits, imputedHouseholdSize(bedrooms), amiPercent);
+      const grossRent = maxGrossRent(incomeLimit);
+      return {
+        bedrooms,
+        amiPercent,
+        incomeLimit,
+        maxGrossRent: grossRent,
+        netRent: Math.max(0, grossRent - (utilityAllowances[bedrooms] ?? 0)),
+        tractPercentCanOccupy: percentCanOccupy(incomeLimit, grossRent, tract),
+        msaPercentCanOccupy: msa ? percentCanOccupy(incomeLimit, grossRent, msa) : null,
+      };
+    })
+  );
+}
+
+export interface IncomeAveragingResult {
+  totalUnits: number;
+  averageAmi: number | null;
+  compliant: boolean;
+}
+
+/** Unit-weighted average designation for an income-averaging set-aside. */
+export function incomeAveraging(unitsByAmi: Record<number, number>): IncomeAveragingResult {
+  let totalUnits = 0;
+  let weighted = 0;
+  for (const [ami, units] of Object.entries(unitsByAmi)) {
+    if (!units || units < 0) continue;
+    totalUnits += units;
+    weighted += Number(ami) * units;
+  }
+  if (totalUnits === 0) return { totalUnits, averageAmi: null, compliant: false };
+
+  const averageAmi = Math.round((weighted / totalUnits) * 10) / 10;
+  return { totalUnits, averageAmi, compliant: averageAmi <= INCOME_AVERAGING_MAX };
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/v1/report/route";
+
+// Text drawn on the report's pages, from the uncompressed content streams
+async function reportText(query: string): Promise<string> {
+  const res = await GET(new NextRequest(`http://localhost/api/v1/report?tract=55015020100&${query}`));
+  expect(res.status).toBe(200);
+  const pdf = Buffer.from(await res.arrayBuffer()).toString("latin1");
+  return Array.from(pdf.matchAll(/\((.*?)\) Tj/g), (m) => m[1]).join("\n");
+}
+
+describe("GET /api/v1/report", () => {
+  it("reports the FMR figures for all households by default", async () => {
+    const text = await reportText("bedrooms=2");
+    expect(text).toContain("SMALL AREA FMR \\(2025\\)");
+    expect(text).toContain("$1,040/mo");
+    expect(text).toContain("76.4%");
+  });
+
+  it("uses the tenure and asking rent it's given, as the results panel does", async () => {
+    const text = await reportText("bedrooms=2&tenure=renter&rent=1500");
+    expect(text).toContain("ASKING RENT");
+    expect(text).toContain("$1,500/mo");
+    expect(text).toContain("$60,000");
+    expect(text).toContain("2 BR; Small Area FMR $1,040/mo");
+    expect(text).toMatch(/of the tract's 425 renter households earn/);
+    // The B25118 renter share at the FMR, for reference
+    expect(text).toContain("At the Small Area FMR of $1,040, 45% could.");
+    // The peer percentile is the lookup's, and says so
+    expect(text).toMatch(/ranked on all households, ranked at the Small Area FMR\./);
+  });
+
+  it("rejects an asking rent out of range", async () => {
+    const res = await GET(new NextRequest("http://localhost/api/v1/report?tract=55015020100&rent=0"));
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,357 @@
+// Printable PDF report for one lookup: address and tract, a map of the tract
+// and its neighbors, the headline rent figures, the AMI table, the peer
+// percentile and the data vintages behind them.
+
+import { AmiTableRow } from "./ami-table";
+import { ESTIMATOR_LABELS, HouseholdTenure, IncomeEstimatorMethod } from "./bracket-math";
+import { recalculate } from "./recalculate";
+import { DEFAULT_MORTGAGE_PARAMS } from "./mortgage";
+import { describePeerGroup } from "./peer-group";
+import { tractNeighborhood, ProjectedPolygon } from "./tract-map";
+import {
+  addPage,
+  beginClip,
+  createPdf,
+  drawLine,
+  drawPolygon,
+  drawRect,
+  drawText,
+  endClip,
+  renderPdf,
+  wrapText,
+  PdfPage,
+  PAGE_WIDTH,
+  PAGE_HEIGHT,
+} from "./pdf";
+import { BEDROOM_LABELS, formatCurrency } from "./format";
+import type { LookupResponse } from "./api-schema";
+
+export interface LocationReportOptions {
+  bedrooms: number;
+  householdSize: number;
+  estimator: IncomeEstimatorMethod;
+  tenure: HouseholdTenure;
+  customRent: number | null; // replaces the FMR, as on the results panel
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const MAP_HEIGHT = 290;
+// Smallest map extent in degrees, so a tiny urban tract still shows its block
+const MIN_MAP_SPAN = 0.03;
+
+const GRAY = "#6b7280";
+const LIGHT_GRAY = "#e5e7eb";
+const HIGHLIGHT = "#f59e0b";
+
+// Offset a polygon from map-box coordinates to the page
+function onPage(polygon: ProjectedPolygon, left: number, top: number): [number, number][][] {
+  return polygon.map((ring) => ring.map(([x, y]): [number, number] => [left + x, top + y]));
+}
+
+/** The tract and the tracts around it, with the tract filled. */
+function drawTractMap(page: PdfPage, lookup: LookupResponse, top: number): boolean {
+  const geoid = `${lookup.stateFips}${lookup.countyFips}${lookup.tractFips}`;
+  const neighborhood = lookup.peerGroup
+    ? tractNeighborhood(lookup.peerGroup, geoid, CONTENT_WIDTH, MAP_HEIGHT, { minSpan: MIN_MAP_SPAN })
+    : null;
+  if (!neighborhood) return false;
+
+  beginClip(page, MARGIN, top, CONTENT_WIDTH, MAP_HEIGHT);
+  drawRect(page, MARGIN, top, CONTENT_WIDTH, MAP_HEIGHT, { fill: "#f9fafb" });
+  for (const neighbor of neighborhood.neighbors) {
+    for (const polygon of neighbor.polygons) {
+      drawPolygon(page, onPage(polygon, MARGIN, top), {
+        fill: LIGHT_GRAY,
+        stroke: "#ffffff",
+        lineWidth: 0.75,
+      });
+    }
+  }
+  for (const polygon of neighborhood.target.polygons) {
+    drawPolygon(page, onPage(polygon, MARGIN, top), {
+      fill: HIGHLIGHT,
+      stroke: "#92400e",
+      lineWidth: 1.5,
+    });
+  }
+  endClip(page);
+  drawRect(page, MARGIN, top, CONTENT_WIDTH, MAP_HEIGHT, { stroke: "#d1d5db" });
+  return true;
+}
+
+function drawStat(page: PdfPage, x: number, y: number, width: number, label: string, value: string, note: string) {
+  drawRect(page, x, y, width, 64, { fill: "#f3f4f6" });
+  drawText(page, x + 8, y + 16, label.toUpperCase(), { size: 7, bold: true, color: GRAY });
+  drawText(page, x + 8, y + 38, value, { size: 16, bold: true });
+  wrapText(note, width - 16, 7)
+    .slice(0, 2)
+    .forEach((line, i) => drawText(page, x + 8, y + 50 + i * 9, line, { size: 7, color: GRAY }));
+}
+
+/** Draw wrapped paragraph text; returns the y below it. */
+function drawParagraph(page: PdfPage, y: number, text: string, size = 9, color = "#374151"): number {
+  for (const line of wrapText(text, CONTENT_WIDTH, size)) {
+    drawText(page, MARGIN, y, line, { size, color });
+    y += size * 1.4;
+  }
+  return y;
+}
+
+function drawAmiTable(page: PdfPage, top: number, rows: AmiTableRow[]): number {
+  const columns = [
+    { label: "AMI %", x: MARGIN + 8, align: "left" as const },
+    { label: "Income", x: MARGIN + 170, align: "right" as const },
+    { label: "Rent", x: MARGIN + 270, align: "right" as const },
+    { label: "Can Afford", x: MARGIN + 390, align: "right" as const },
+    { label: "Feasible", x: MARGIN + CONTENT_WIDTH - 8, align: "right" as const },
+  ];
+  const rowHeight = 18;
+
+  drawRect(page, MARGIN, top, CONTENT_WIDTH, rowHeight, { fill: "#f3f4f6" });
+  for (const c of columns) {
+    drawText(page, c.x, top + 12, c.label, { size: 8, bold: true, color: GRAY, align: c.align });
+  }
+
+  let y = top + rowHeight;
+  for (const row of rows) {
+    if (row.amiPercent === 100) drawRect(page, MARGIN, y, CONTENT_WIDTH, rowHeight, { fill: "#f5f3ff" });
+    const interval = row.percentCanAffordInterval;
+    const cells = [
+      `${row.amiPercent}%${row.source === "derived" ? " (derived)" : ""}`,
+      formatCurrency(row.income),
+      `${formatCurrency(row.rent)}/mo`,
+      `${row.percentCanAfford}%${interval ? ` ±${interval.moe}` : ""}`,
+      `${row.percentFeasible}%`,
+    ];
+    columns.forEach((c, i) =>
+      drawText(page, c.x, y + 12, cells[i], {
+        size: 9,
+        bold: row.amiPercent === 100,
+        color: i === 3 && interval?.lowReliability ? "#9ca3af" : "#111827",
+        align: c.align,
+      })
+    );
+    drawLine(page, MARGIN, y + rowHeight, MARGIN + CONTENT_WIDTH, y + rowHeight, { stroke: LIGHT_GRAY });
+    y += rowHeight;
+  }
+  return y;
+}
+
+function drawFooters(pages: PdfPage[], lookup: LookupResponse) {
+  pages.forEach((page, i) => {
+    const y = PAGE_HEIGHT - 32;
+    drawLine(page, MARGIN, y - 12, MARGIN + CONTENT_WIDTH, y - 12, { stroke: LIGHT_GRAY });
+    drawText(page, MARGIN, y, `Who Can Afford to Live Here? · ${lookup.matchedAddress}`, {
+      size: 7,
+      color: GRAY,
+    });
+    drawText(page, MARGIN + CONTENT_WIDTH, y, `Page ${i + 1} of ${pages.length}`, {
+      size: 7,
+      color: GRAY,
+      align: "right",
+    });
+  });
+}
+
+/** Render the report for a lookup made with options.bedrooms as a PDF. */
+export function renderLocationReport(lookup: LookupResponse, options: LocationReportOptions): Uint8Array<ArrayBuffer> {
+  const { bedrooms, householdSize, estimator } = options;
+  const geoid = `${lookup.stateFips}${lookup.countyFips}${lookup.tractFips}`;
+  // The figures the results panel shows for the same choices
+  const computed = recalculate(
+    lookup,
+    householdSize,
+    bedrooms,
+    estimator,
+    options.tenure,
+    DEFAULT_MORTGAGE_PARAMS,
+    options.customRent
+  );
+  const isCustomRent = computed.rentSource === "custom";
+  const fmrLabel = lookup.isSafmr ? "Small Area FMR" : "Fair Market Rent";
+  const households = computed.tenure === "all" ? "households" : `${computed.tenure} households`;
+  const peerText = lookup.peerGroup ? describePeerGroup(lookup.peerGroup) : "its area";
+  // The peer percentile comes from the lookup: all households at the FMR
+  const rankedOn = [
+    computed.tenure !== "all" ? "ranked on all households" : null,
+    isCustomRent ? `ranked at the ${fmrLabel}` : null,
+  ].filter(Boolean);
+
+  const doc = createPdf(`Affordability Report: ${lookup.matchedAddress}`);
+
+  // Page 1: location, map and headline figures
+  const first = addPage(doc);
+  let y = MARGIN + 12;
+  drawText(first, MARGIN, y, "AFFORDABILITY REPORT", { size: 8, bold: true, color: GRAY });
+  y += 22;
+  for (const line of wrapText(lookup.matchedAddress, CONTENT_WIDTH, 16, true)) {
+    drawText(first, MARGIN, y, line, { size: 16, bold: true });
+    y += 20;
+  }
+  drawText(first, MARGIN, y, `Census Tract ${geoid} · ${lookup.areaName}`, { size: 10, color: GRAY });
+  y += 14;
+  drawText(
+    first,
+    MARGIN,
+    y,
+    `${householdSize}-person household · ${BEDROOM_LABELS[bedrooms]} unit · ` +
+      (computed.tenure !== "all" ? `${computed.tenure} households · ` : "") +
+      `${ESTIMATOR_LABELS[estimator]} income estimate · Generated ${new Date().toISOString().slice(0, 10)}`,
+    { size: 8, color: GRAY }
+  );
+  y += 14;
+
+  if (drawTractMap(first, lookup, y)) {
+    y += MAP_HEIGHT + 12;
+    drawText(first, MARGIN, y, `Tract ${geoid} highlighted among neighboring tracts in ${peerText}.`, {
+      size: 7,
+      color: GRAY,
+    });
+  } else {
+    drawRect(first, MARGIN, y, CONTENT_WIDTH, 60, { fill: "#f9fafb", stroke: "#d1d5db" });
+    drawText(first, MARGIN + CONTENT_WIDTH / 2, y + 34, "Tract boundaries are not available for this area.", {
+      size: 9,
+      color: GRAY,
+      align: "center",
+    });
+    y += 60;
+  }
+  y += 20;
+
+  const statWidth = (CONTENT_WIDTH - 3 * 8) / 4;
+  const interval = computed.percentCanAffordInterval;
+  drawStat(
+    first,
+    MARGIN,
+    y,
+    statWidth,
+    isCustomRent ? "Asking Rent" : `${fmrLabel} (${lookup.fmrYear})`,
+    `${formatCurrency(computed.monthlyRent)}/mo`,
+    isCustomRent
+      ? `${BEDROOM_LABELS[bedrooms]}; ${fmrLabel} ${formatCurrency(computed.fmr.monthlyRent)}/mo`
+      : lookup.isSafmr && lookup.fmrZipCode
+        ? `${BEDROOM_LABELS[bedrooms]}, ZIP ${lookup.fmrZipCode}`
+        : `${BEDROOM_LABELS[bedrooms]}, ${lookup.areaName}`
+  );
+  drawStat(
+    first,
+    MARGIN + statWidth + 8,
+    y,
+    statWidth,
+    "Income Needed",
+    formatCurrency(Math.round(computed.incomeThreshold)),
+    "to afford the rent at 30% of income"
+  );
+  drawStat(
+    first,
+    MARGIN + 2 * (statWidth + 8),
+    y,
+    statWidth,
+    "Can Afford",
+    `${computed.percentCanAfford}%`,
+    interval
+      ? `90% interval ${interval.low}–${interval.high}%${interval.lowReliability ? ", low reliability" : ""}`
+      : `of ${households}; no margin of error`
+  );
+  drawStat(
+    first,
+    MARGIN + 3 * (statWidth + 8),
+    y,
+    statWidth,
+    "Peer Percentile",
+    lookup.msaPercentile !== null ? `${lookup.msaPercentile}%` : "—",
+    lookup.msaPercentile !== null && lookup.msaTractCount !== null
+      ? `of ${lookup.msaTractCount.toLocaleString()} tracts`
+      : "peer group data not available"
+  );
+  y += 64 + 20;
+
+  y = drawParagraph(
+    first,
+    y,
+    `About ${computed.householdsAboveThreshold.toLocaleString()} of the tract's ` +
+      `${computed.totalHouseholds.toLocaleString()} ${households} earn ` +
+      `${formatCurrency(Math.round(computed.incomeThreshold))} or more, enough to rent a ` +
+      `${BEDROOM_LABELS[bedrooms]} unit at ${isCustomRent ? "the asking rent" : `the ${fmrLabel}`} ` +
+      `without spending more than 30% of income.` +
+      (isCustomRent
+        ? ` At the ${fmrLabel} of ${formatCurrency(computed.fmr.monthlyRent)}, ` +
+          `${computed.fmr.percentCanAfford}% could.`
+        : "")
+  );
+  y += 4;
+  y = drawParagraph(
+    first,
+    y,
+    `The ${householdSize}-person Area Median Income is ${formatCurrency(computed.sizeAdjustedAmi)}` +
+      (computed.tractMedian !== null
+        ? `; the tract's median ${householdSize}-person household income is ` +
+          `${formatCurrency(computed.tractMedian)}.`
+        : ".")
+  );
+  if (lookup.msaPercentile !== null && lookup.msaTractCount !== null) {
+    y += 4;
+    drawParagraph(
+      first,
+      y,
+      `The tract is more affordable than ${lookup.msaPercentile}% of the ` +
+        `${lookup.msaTractCount.toLocaleString()} tracts in ${peerText}` +
+        (lookup.msaPercentileLow !== null && lookup.msaPercentileHigh !== null
+          ? ` (90% interval ${lookup.msaPercentileLow}–${lookup.msaPercentileHigh}%)`
+          : "") +
+        (lookup.isSafmr ? ", each tract compared to its own local rent" : "") +
+        (rankedOn.length > 0 ? `, ${rankedOn.join(", ")}.` : ".")
+    );
+  }
+
+  // Page 2: AMI table, sources and method
+  const second = addPage(doc);
+  y = MARGIN + 12;
+  drawText(second, MARGIN, y, `Affordability by AMI Level (${householdSize}-person household)`, {
+    size: 13,
+    bold: true,
+  });
+  y += 14;
+  y = drawAmiTable(second, y, computed.amiTable) + 14;
+  y = drawParagraph(
+    second,
+    y,
+    "Rent is 30% of the income at each AMI level. Can Afford is the share of all " +
+      `${households} in the tract earning at least that income, with its 90% margin of error ` +
+      "(grey when the estimate is unreliable). Feasible is the share that is income-eligible (at or below the limit) and would " +
+      "pay no more than 40% of income at that rent. Rows at 30%, 50% and 80% use HUD's published " +
+      "limits; derived rows are multiples of the 100% AMI equivalent.",
+    8,
+    GRAY
+  );
+  y += 20;
+
+  drawText(second, MARGIN, y, "Data Sources and Vintages", { size: 13, bold: true });
+  y += 18;
+  const sources = [
+    `American Community Survey 5-Year Estimates${lookup.acsYear ? ` (${lookup.acsYear})` : ""}: ` +
+      "household income (B19001) and median household income by size (B19019) for the tract and its peer tracts" +
+      (computed.tenure !== "all" ? `; household income by tenure (B25118) for the tract's ${households}.` : "."),
+    `HUD Income Limits, FY${lookup.hudYear}: ${lookup.areaName}.`,
+    `HUD Fair Market Rents, FY${lookup.fmrYear}` +
+      (lookup.isSafmr && lookup.fmrZipCode ? `: Small Area FMR for ZIP ${lookup.fmrZipCode}.` : `: ${lookup.areaName}.`),
+    lookup.peerGroup
+      ? `Peer percentile: tracts in ${peerText}, each scored against its own Small Area FMR where one exists.`
+      : "Peer percentile: not available for this area.",
+    "Tract boundaries: Census Bureau 2020 cartographic boundary files (1:500,000).",
+    `Income distribution within brackets: ${ESTIMATOR_LABELS[estimator].toLowerCase()} estimate.`,
+  ];
+  for (const source of sources) {
+    drawText(second, MARGIN, y, "•", { size: 9 });
+    const lines = wrapText(source, CONTENT_WIDTH - 12, 9);
+    for (const line of lines) {
+      drawText(second, MARGIN + 12, y, line, { size: 9, color: "#374151" });
+      y += 13;
+    }
+    y += 3;
+  }
+
+  drawFooters(doc.pages, lookup);
+  return renderPdf(doc);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/v1/lookup/route";
+import { computeAffordabilityPct, TENURE_BRACKET_BOUNDS } from "./bracket-math";
+import type { ApiError, LookupResponse } from "./api-schema";
+
+// Replays fixtures/ (DATA_PROVIDER=fixture in vitest.config.mts)
+
+function lookup(query: string) {
+  return GET(new NextRequest(`http://localhost/api/v1/lookup?${query}`));
+}
+
+describe("GET /api/v1/lookup", () => {
+  it("computes affordability for a tract from the fixture responses", async () => {
+    const res = await lookup("tract=55015020100");
+    expect(res.status).toBe(200);
+    const body: LookupResponse = await res.json();
+
+    expect(body).toMatchObject({
+      stateFips: "55",
+      countyFips: "015",
+      tractFips: "020100",
+      matchedAddress: "Census Tract 55015020100",
+      zipCode: "54110",
+      isSafmr: true,
+      fmrZipCode: "54110",
+      areaName: "Appleton, WI MSA",
+      estimator: "linear",
+      cbsaCode: "11540",
+      totalHouseholds: 2045,
+    });
+    // 2BR SAFMR of $1,040 needs $41,600: all 1,533 households from $45k up,
+    // plus 3,400/5,000 of the 44 in the $40k–$45k bracket, out of 2,045
+    expect(body.monthlyRent).toBe(1040);
+    expect(body.incomeThreshold).toBe(41600);
+    expect(body.percentCanAfford).toBe(76.4);
+    expect(body.percentCanAffordInterval.low).toBeLessThan(76.4);
+    expect(body.percentCanAffordInterval.high).toBeGreaterThan(76.4);
+    expect(body.brackets).toHaveLength(16);
+    expect(body.ownership?.homePrice).toBe(231400);
+    expect(body.peerGroup).not.toBeNull();
+    expect(body.msaPercentile).toEqual(expect.any(Number));
+  });
+
+  it("passes the B25118 renter and owner distributions through", async () => {
+    const res = await lookup("tract=55015020100");
+    const { incomeByTenure }: LookupResponse = await res.json();
+
+    expect(incomeByTenure).not.toBeNull();
+    expect(incomeByTenure!.owner.totalHouseholds).toBe(1620);
+    const renter = incomeByTenure!.renter;
+    expect(renter.totalHouseholds).toBe(425);
+    expect(renter.brackets).toHaveLength(TENURE_BRACKET_BOUNDS.length);
+    // The 152 renters from $50k up, plus 8,400/15,000 of the 70 at $35k–$50k
+    expect(
+      computeAffordabilityPct(41600, renter.totalHouseholds, renter.brackets.map((b) => b.count), {
+        bounds: TENURE_BRACKET_BOUNDS,
+      })
+    ).toBe(45.0);
+  });
+
+  it("rejects a malformed tract GEOID", async () => {
+    const res = await lookup("tract=5501502");
+    expect(res.status).toBe(400);
+    const body: ApiError = await res.json();
+    expect(body.error).toBe("Invalid query parameters.");
+  });
+
+  it("requires a location", async () => {
+    const res = await lookup("bedrooms=2");
+    expect(res.status).toBe(400);
+  });
+
+  it("reports a missing recording as a server error", async () => {
+    const res = await lookup("tract=55015020200");
+    expect(res.status).toBe(500);
+    const body: ApiError = await res.json();
+    expect(body.error).toMatch(/No recorded fixture/);
+  });
+});
@@ -0,0 +1,186 @@
+import { getDataProvider } from "./data-provider";
+import { getSafmrData, getZipForTract } from "./hud-fmr";
+import { splitTractGeoid } from "./geoid";
+import { tractCentroid } from "./msa-geo";
+import type { GeocodeResult } from "./census-geocoder";
+import { calculateAffordability } from "./affordability";
+import {
+  computeMsaPercentile,
+  computeMsaIncomeDistribution,
+  lookupCbsa,
+  resolvePeerGroup,
+} from "./msa-percentile";
+import { DEFAULT_PEER_GEOGRAPHY, PeerGeography } from "./peer-group";
+import { IncomeEstimatorMethod } from "./bracket-math";
+import { percentAboveInterval } from "./moe";
+import { computeOwnership, MortgageParams } from "./mortgage";
+import type { LookupResponse } from "./api-schema";
+
+export type LookupLocation =
+  | { address: string }
+  | { lat: number; lng: number }
+  | { geoid: string };
+
+type TractGeography = Omit<GeocodeResult, "lat" | "lng"> & { lat: number | null; lng: number | null };
+
+/**
+ * Everything geocoding would return, read off the GEOID and the static
+ * mappings instead. New England towns can't be derived from a tract, so HUD
+ * figures there are county-level rather than per county subdivision.
+ */
+function tractGeography(geoid: string): TractGeography {
+  const centroid = tractCentroid(geoid);
+  return {
+    ...splitTractGeoid(geoid),
+    lat: centroid?.lat ?? null,
+    lng: centroid?.lng ?? null,
+    zipCode: getZipForTract(geoid) ?? undefined,
+    matchedAddress: `Census Tract ${geoid}`,
+  };
+}
+
+export interface LookupOptions {
+  estimator: IncomeEstimatorMethod;
+  mortgageParams: MortgageParams;
+  bedrooms?: number; // FMR index for the headline figures; defaults to 2BR
+  peers?: PeerGeography; // peer geography for the percentile; defaults to HMFA
+}
+
+/**
+ * The full lookup pipeline behind /api/v1/lookup and the batch endpoint:
+ * resolve the tract (geocoding unless given a GEOID), fetch ACS and HUD
+ * data, and compute affordability, peer group percentile and ownership. Throws on
+ * geocoding or upstream failures.
+ */
+export async function lookupAffordability(
+  location: LookupLocation,
+  { estimator, mortgageParams, bedrooms = 2, peers = DEFAULT_PEER_GEOGRAPHY }: LookupOptions
+): Promise<LookupResponse> {
+  const { geocoding, acs, hud } = getDataProvider();
+
+  // Step 1: Geocode address (or reverse-geocode coordinates) to get tract info
+  const geo: TractGeography = "geoid" in location
+    ? tractGeography(location.geoid)
+    : "address" in location
+      ? await geocoding.geocodeAddress(location.address)
+      : await geocoding.reverseGeocodeCoordinates(location.lat, location.lng);
+
+  // Step 2: Fetch all data in parallel
+  const cbsa = lookupCbsa(geo.stateFips, geo.countyFips);
+  const [incomeData, hudData, fmrData, medianData, tenureData, mtspData, homeValue] = await Promise.all([
+    acs.fetchIncomeDistribution(geo.stateFips, geo.countyFips, geo.tractFips),
+    hud.fetchAreaMedianIncome(geo.stateFips, geo.countyFips, geo.countySubFips),
+    hud.fetchFairMarketRents(geo.stateFips, geo.countyFips, geo.countySubFips, geo.zipCode),
+    acs.fetchMedianByHouseholdSize(geo.stateFips, geo.countyFips, geo.tractFips),
+    // Renter/owner split is best-effort; the client falls back to all households
+    acs.fetchIncomeByTenure(geo.stateFips, geo.countyFips, geo.tractFips).catch(() => null),
+    // LIHTC rents fall back to Section 8 limits when MTSP limits are unavailable
+    hud.fetchMtspIncomeLimits(geo.stateFips, geo.countyFips, geo.countySubFips).catch(() => null),
+    // Home values only feed ownership mode
+    acs.fetchHomeValue(geo.stateFips, geo.countyFips, geo.tractFips, cbsa?.code).catch(() => null),
+  ]);
+
+  // Step 3: Calculate affordability for the bedroom count (SAFMR or metro-level)
+  const defaultFmr = fmrData.fmrByBedroom[bedrooms];
+  const defaultMonthlyRent = defaultFmr;
+  const defaultIncomeNeeded = (defaultFmr * 12) / 0.3;
+  const estimatorOptions = { method: estimator, median: medianData.medianBySize[0] };
+  const defaultResult = calculateAffordability(
+    defaultIncomeNeeded,
+    defaultMonthlyRent,
+    incomeData.totalHouseholds,
+    incomeData.brackets,
+    hudData.areaName,
+    estimatorOptions
+  );
+
+  // 90% interval from the B19001 margins of error
+  const defaultInterval = percentAboveInterval(
+    defaultIncomeNeeded,
+    defaultResult.percentCanAfford,
+    incomeData.totalHouseholds,
+    incomeData.totalHouseholdsMoe ?? 0,
+    incomeData.brackets.map((b) => b.count),
+    incomeData.brackets.map((b) => b.moe ?? 0),
+    estimatorOptions
+  );
+
+  // Step 4: Compute the peer group (HMFA, CBSA or rest-of-state) percentile
+  // Each tract is evaluated against its own ZIP's SAFMR when available;
+  // tracts without SAFMR data fall back to the uniform area-level threshold.
+  const geoid = `${geo.stateFips}${geo.countyFips}${geo.tractFips}`;
+  const peerGroup = resolvePeerGroup(geoid, peers, geo.countySubFips);
+  const safmrByZip = fmrData.isSafmr ? getSafmrData() : undefined;
+  const msaPercentile = computeMsaPercentile(
+    peerGroup,
+    geoid,
+    defaultIncomeNeeded,
+    safmrByZip,
+    bedrooms,
+    estimator,
+    defaultInterval.moe
+  );
+
+  // Step 5: Ownership at the requested price, or the tract median value
+  const msaIncome = computeMsaIncomeDistribution(peerGroup);
+  const homePrice = mortgageParams.homePrice ?? homeValue?.tractMedian ?? homeValue?.msaMedian;
+  const ownership = homePrice
+    ? computeOwnership(
+        homePrice,
+        mortgageParams,
+        {
+          totalHouseholds: incomeData.totalHouseholds,
+          bracketCounts: incomeData.brackets.map((b) => b.count),
+          options: estimatorOptions,
+        },
+        msaIncome ? { ...msaIncome, options: { method: estimator } } : null,
+        homeValue
+      )
+    : null;
+
+  return {
+    // Default calculation result
+    ...defaultResult,
+    percentCanAffordInterval: defaultInterval,
+    // Raw data for client-side recalculation
+    incomeLimitsBySize: hudData.incomeLimitsBySize,
+    incomeLimits: hudData.incomeLimits,
+    mtspIncomeLimits: mtspData,
+    fmrByBedroom: fmrData.fmrByBedroom,
+    medianBySize: medianData.medianBySize,
+    medianMoeBySize: medianData.moeBySize,
+    brackets: incomeData.brackets,
+    totalHouseholdsMoe: incomeData.totalHouseholdsMoe ?? null,
+    estimator,
+    incomeByTenure: tenureData,
+    homeValue,
+    mortgageParams,
+    ownership,
+    // Geo info
+    lat: geo.lat,
+    lng: geo.lng,
+    matchedAddress: geo.matchedAddress,
+    stateFips: geo.stateFips,
+    countyFips: geo.countyFips,
+    tractFips: geo.tractFips,
+    countySubFips: geo.countySubFips ?? null,
+    zipCode: geo.zipCode ?? null,
+    acsYear: incomeData.year ?? null,
+    hudYear: hudData.year,
+    fmrYear: fmrData.year,
+    medianIncome: hudData.medianIncome,
+    // SAFMR info
+    isSafmr: fmrData.isSafmr,
+    fmrZipCode: fmrData.fmrZipCode ?? null,
+    // MSA percentile context
+    msaPercentile: msaPercentile?.percentile ?? null,
+    msaPercentileLow: msaPercentile?.percentileLow ?? null,
+    msaPercentileHigh: msaPercentile?.percentileHigh ?? null,
+    msaTractCount: msaPercentile?.msaTractCount ?? null,
+    msaIncome,
+    // Only set when the group's data is built, so it labels msaIncome too
+    peerGroup: msaIncome ? peerGroup : null,
+    cbsaCode: cbsa?.code ?? null,
+    cbsaName: cbsa?.name ?? null,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  coefficientOfVariation,
+  isLowReliability,
+  parseMoe,
+  percentAboveInterval,
+  proportionMoe,
+  sumMoe,
+} from "./moe";
+
+describe("parseMoe", () => {
+  it("reads published margins", () => {
+    expect(parseMoe("42")).toBe(42);
+    expect(parseMoe(17)).toBe(17);
+  });
+
+  it("treats controlled estimates as exact", () => {
+    expect(parseMoe("-555555555")).toBe(0);
+  });
+
+  it("is null for other sentinels and missing values", () => {
+    expect(parseMoe("-222222222")).toBeNull();
+    expect(parseMoe(null)).toBeNull();
+    expect(parseMoe("N")).toBeNull();
+  });
+});
+
+describe("sumMoe", () => {
+  it("is the root of summed squares", () => {
+    expect(sumMoe([3, 4])).toBe(5);
+    expect(sumMoe([])).toBe(0);
+  });
+});
+
+describe("proportionMoe", () => {
+  it("uses the proportion formula", () => {
+    expect(proportionMoe(50, 10, 100, 0)).toBeCloseTo(0.1);
+  });
+
+  it("falls back to the ratio formula when the radicand is negative", () => {
+    expect(proportionMoe(50, 3, 100, 20)).toBeCloseTo(Math.sqrt(109) / 100);
+  });
+
+  it("is zero without a denominator", () => {
+    expect(proportionMoe(5, 1, 0, 1)).toBe(0);
+  });
+});
+
+describe("reliability", () => {
+  it("divides the standard error by the estimate", () => {
+    expect(coefficientOfVariation(100, 16.45)).toBeCloseTo(0.1);
+    expect(coefficientOfVariation(0, 5)).toBeNull();
+  });
+
+  it("flags a CV above 30%, and any uncertainty around zero", () => {
+    expect(isLowReliability(10, 10)).toBe(true);
+    expect(isLowReliability(100, 10)).toBe(false);
+    expect(isLowReliability(0, 5)).toBe(true);
+    expect(isLowReliability(0, 0)).toBe(false);
+  });
+});
+
+describe("percentAboveInterval", () => {
+  const counts = Array(16).fill(0);
+  counts[15] = 100;
+
+  it("propagates bracket margins into a clamped interval", () => {
+    const moes = Array(16).fill(0);
+    moes[15] = 20;
+    const interval = percentAboveInterval(50000, 100, 100, 0, counts, moes);
+    expect(interval).toMatchObject({ moe: 20, low: 80, high: 100, lowReliability: false });
+  });
+
+  it("keeps only the largest margin among empty brackets", () => {
+    const moes = Array(16).fill(0);
+    moes[12] = 30;
+    moes[13] = 40;
+    moes[15] = 20;
+    // sqrt(20² + 40²) households out of 100, not sqrt(20² + 30² + 40²)
+    expect(percentAboveInterval(50000, 100, 100, 0, counts, moes).moe).toBe(44.7);
+  });
+});
@@ -0,0 +1,110 @@
+// Pure-JS helpers for ACS margins of error (MOE).
+// ACS publishes 90% MOEs; the approximations below follow the Census
+// Bureau's "Worked Examples for Approximating Standard Errors" handbook.
+// No Node.js imports so this works in "use client" modules too.
+
+import { bracketSharesAbove, IncomeEstimatorOptions } from "./bracket-math";
+
+const Z_90 = 1.645;
+
+// Coefficient of variation above which an estimate is flagged as unreliable
+export const LOW_RELIABILITY_CV = 0.3;
+
+/**
+ * Census sentinel values in _M columns: -555555555 means the estimate is
+ * controlled (no sampling error); every other negative code means the MOE
+ * could not be computed.
+ */
+export function parseMoe(raw: string | number | null | undefined): number | null {
+  const v = typeof raw === "number" ? raw : parseInt(raw ?? "", 10);
+  if (isNaN(v)) return null;
+  if (v === -555555555) return 0;
+  return v < 0 ? null : v;
+}
+
+/** MOE of a sum (or weighted sum) of estimates: root of summed squares. */
+export function sumMoe(moes: number[]): number {
+  return Math.sqrt(moes.reduce((sum, m) => sum + m * m, 0));
+}
+
+/**
+ * MOE of a proportion X / Y where X is a subset of Y. Falls back to the
+ * ratio formula when the subtraction under the root goes negative.
+ */
+export function proportionMoe(
+  numerator: number,
+  numeratorMoe: number,
+  denominator: number,
+  denominatorMoe: number
+): number {
+  if (denominator <= 0) return 0;
+  const p = numerator / denominator;
+  const radicand = numeratorMoe ** 2 - p ** 2 * denominatorMoe ** 2;
+  const root = radicand >= 0
+    ? Math.sqrt(radicand)
+    : Math.sqrt(numeratorMoe ** 2 + p ** 2 * denominatorMoe ** 2);
+  return root / denominator;
+}
+
+/** CV = standard error / estimate; null when the estimate is zero. */
+export function coefficientOfVariation(estimate: number, moe: number): number | null {
+  if (estimate === 0) return null;
+  return moe / Z_90 / Math.abs(estimate);
+}
+
+export function isLowReliability(estimate: number, moe: number): boolean {
+  const cv = coefficientOfVariation(estimate, moe);
+  return cv === null ? moe > 0 : cv > LOW_RELIABILITY_CV;
+}
+
+export interface PercentInterval {
+  moe: number; // percentage points
+  low: number;
+  high: number;
+  cv: number | null;
+  lowReliability: boolean;
+}
+
+/**
+ * 90% interval on the % of households earning at least incomeThreshold.
+ *
+ * Households above the threshold are a weighted sum of bracket counts, so
+ * their MOE is the root of summed squared weighted bracket MOEs (with only
+ * the largest MOE kept among zero-count brackets, per Census guidance).
+ * The percentage then uses the proportion formula against the table's total
+ * (B19001, or B25118 for one tenure).
+ */
+export function percentAboveInterval(
+  incomeThreshold: number,
+  percent: number,
+  totalHouseholds: number,
+  totalMoe: number,
+  bracketCounts: number[],
+  bracketMoes: number[],
+  options: IncomeEstimatorOptions = {}
+): PercentInterval {
+  const shares = bracketSharesAbove(incomeThreshold, bracketCounts, options);
+
+  const weighted: number[] = [];
+  let largestZeroMoe = 0;
+  shares.forEach((share, i) => {
+    const m = share * (bracketMoes[i] ?? 0);
+    if (bracketCounts[i] === 0) largestZeroMoe = Math.max(largestZeroMoe, m);
+    else weighted.push(m);
+  });
+  weighted.push(largestZeroMoe);
+
+  const householdsAbove = (percent / 100) * totalHouseholds;
+  const moe =
+    Math.round(
+      proportionMoe(householdsAbove, sumMoe(weighted), totalHouseholds, totalMoe) * 1000
+    ) / 10;
+
+  return {
+    moe,
+    low: Math.max(0, Math.round((percent - moe) * 10) / 10),
+    high: Math.min(100, Math.round((percent + moe) * 10) / 10),
+    cv: coefficientOfVariation(percent, moe),
+    lowReliability: isLowReliability(percent, moe),
+  };
+}
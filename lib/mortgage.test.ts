@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import {
+  computePiti,
+  DEFAULT_MORTGAGE_PARAMS,
+  incomeNeededForPiti,
+  maxAffordablePrice,
+} from "./mortgage";
+
+describe("computePiti", () => {
+  it("breaks down a payment with PMI below 20% down", () => {
+    // $270,000 loan at 6.5% over 30 years
+    expect(computePiti(300000, DEFAULT_MORTGAGE_PARAMS)).toEqual({
+      principalAndInterest: 1707,
+      taxes: 275,
+      insurance: 150,
+      pmi: 113,
+      total: 2244,
+    });
+  });
+
+  it("drops PMI at 20% down and amortizes a zero rate evenly", () => {
+    const piti = computePiti(360000, { ...DEFAULT_MORTGAGE_PARAMS, interestRate: 0, downPaymentPct: 20 });
+    expect(piti.principalAndInterest).toBe(800);
+    expect(piti.pmi).toBe(0);
+  });
+});
+
+describe("maxAffordablePrice", () => {
+  it("is the price whose PITI takes 30% of income", () => {
+    const price = maxAffordablePrice(90000, DEFAULT_MORTGAGE_PARAMS);
+    // The slope comes from a rounded PITI at $100k and the price is rounded
+    // to $1,000, so the payment lands a few dollars under the $2,250 budget
+    const { total } = computePiti(price, DEFAULT_MORTGAGE_PARAMS);
+    expect(total).toBeLessThanOrEqual(2250);
+    expect(total).toBeGreaterThan(2240);
+    expect(incomeNeededForPiti(2250)).toBe(90000);
+  });
+
+  it("is zero when insurance alone uses up the budget", () => {
+    expect(maxAffordablePrice(6000, DEFAULT_MORTGAGE_PARAMS)).toBe(0);
+  });
+});
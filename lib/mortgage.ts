@@ -0,0 +1,160 @@
+// Pure-JS mortgage and homeownership affordability math.
+// No Node.js imports so it works in both server and "use client" contexts.
+
+import { computeAffordabilityPct, IncomeDistributionInput } from "./bracket-math";
+
+// ACS B25075 (value of owner-occupied housing units): 26 brackets,
+// B25075_002E (<$10k) through B25075_027E ($2M+)
+export const VALUE_BRACKET_BOUNDS: [number, number][] = [
+  [0, 9999],
+  [10000, 14999],
+  [15000, 19999],
+  [20000, 24999],
+  [25000, 29999],
+  [30000, 34999],
+  [35000, 39999],
+  [40000, 49999],
+  [50000, 59999],
+  [60000, 69999],
+  [70000, 79999],
+  [80000, 89999],
+  [90000, 99999],
+  [100000, 124999],
+  [125000, 149999],
+  [150000, 174999],
+  [175000, 199999],
+  [200000, 249999],
+  [250000, 299999],
+  [300000, 399999],
+  [400000, 499999],
+  [500000, 749999],
+  [750000, 999999],
+  [1000000, 1499999],
+  [1500000, 1999999],
+  [2000000, Infinity],
+];
+
+export interface MortgageParams {
+  homePrice: number | null; // null = use the tract median home value
+  interestRate: number; // annual, percent
+  downPaymentPct: number; // percent of price
+  propertyTaxRate: number; // annual, percent of price
+  insuranceAnnual: number; // dollars per year
+  pmiRate: number; // annual, percent of loan; charged below 20% down
+  termYears: number;
+}
+
+export const DEFAULT_MORTGAGE_PARAMS: MortgageParams = {
+  homePrice: null,
+  interestRate: 6.5,
+  downPaymentPct: 10,
+  propertyTaxRate: 1.1,
+  insuranceAnnual: 1800,
+  pmiRate: 0.5,
+  termYears: 30,
+};
+
+// Housing cost share of gross income, matching the 30% used for rent
+export const MAX_HOUSING_COST_RATIO = 0.3;
+
+export interface PitiBreakdown {
+  principalAndInterest: number;
+  taxes: number;
+  insurance: number;
+  pmi: number;
+  total: number;
+}
+
+/** Monthly principal, interest, taxes, insurance and PMI for a purchase. */
+export function computePiti(homePrice: number, params: MortgageParams): PitiBreakdown {
+  const loan = homePrice * (1 - params.downPaymentPct / 100);
+  const monthlyRate = params.interestRate / 100 / 12;
+  const payments = params.termYears * 12;
+  const principalAndInterest = monthlyRate === 0
+    ? loan / payments
+    : (loan * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -payments));
+  const taxes = (homePrice * params.propertyTaxRate) / 100 / 12;
+  const insurance = params.insuranceAnnual / 12;
+  const pmi = params.downPaymentPct < 20 ? (loan * params.pmiRate) / 100 / 12 : 0;
+
+  return {
+    principalAndInterest: Math.round(principalAndInterest),
+    taxes: Math.round(taxes),
+    insurance: Math.round(insurance),
+    pmi: Math.round(pmi),
+    total: Math.round(principalAndInterest + taxes + insurance + pmi),
+  };
+}
+
+/** Annual income at which PITI is MAX_HOUSING_COST_RATIO of income. */
+export function incomeNeededForPiti(piti: number): number {
+  return (piti * 12) / MAX_HOUSING_COST_RATIO;
+}
+
+/**
+ * Highest price whose PITI fits within MAX_HOUSING_COST_RATIO of income.
+ * PITI is linear in price, so one evaluation at $100k gives the slope.
+ */
+export function maxAffordablePrice(annualIncome: number, params: MortgageParams): number {
+  const budget = (annualIncome * MAX_HOUSING_COST_RATIO) / 12 - params.insuranceAnnual / 12;
+  if (budget <= 0) return 0;
+  const unit = computePiti(100000, { ...params, insuranceAnnual: 0 });
+  const perDollar = (unit.principalAndInterest + unit.taxes + unit.pmi) / 100000;
+  return Math.round(budget / perDollar / 1000) * 1000;
+}
+
+export interface HomeValueData {
+  tractMedian: number | null; // B25077
+  msaMedian: number | null; // B25077 for the CBSA
+  totalOwnerUnits: number; // B25075_001E
+  valueBracketCounts: number[] | null; // B25075_002E–027E, VALUE_BRACKET_BOUNDS order
+}
+
+export interface OwnershipResult {
+  homePrice: number;
+  piti: PitiBreakdown;
+  incomeNeeded: number;
+  tractPercentCanAfford: number;
+  msaPercentCanAfford: number | null;
+  // % of the tract's owner-occupied homes valued at or below homePrice
+  percentHomesAtOrBelowPrice: number | null;
+}
+
+export function computeOwnership(
+  homePrice: number,
+  params: MortgageParams,
+  tract: IncomeDistributionInput,
+  msa: IncomeDistributionInput | null,
+  homeValue: HomeValueData | null
+): OwnershipResult {
+  const piti = computePiti(homePrice, params);
+  const incomeNeeded = incomeNeededForPiti(piti.total);
+
+  let percentHomesAtOrBelowPrice: number | null = null;
+  if (homeValue?.valueBracketCounts && homeValue.totalOwnerUnits > 0) {
+    // Same bracket interpolation as incomes, applied to home values
+    const above = computeAffordabilityPct(
+      homePrice + 1,
+      homeValue.totalOwnerUnits,
+      homeValue.valueBracketCounts,
+      { bounds: VALUE_BRACKET_BOUNDS, method: "pareto" }
+    );
+    percentHomesAtOrBelowPrice = Math.round((100 - above) * 10) / 10;
+  }
+
+  return {
+    homePrice,
+    piti,
+    incomeNeeded,
+    tractPercentCanAfford: computeAffordabilityPct(
+      incomeNeeded,
+      tract.totalHouseholds,
+      tract.bracketCounts,
+      tract.options
+    ),
+    msaPercentCanAfford: msa
+      ? computeAffordabilityPct(incomeNeeded, msa.totalHouseholds, msa.bracketCounts, msa.options)
+      : null,
+    percentHomesAtOrBelowPrice,
+  };
+}
@@ -0,0 +1,204 @@
+import { readFileSync, existsSync } from "fs";
+import { join } from "path";
+import * as topojsonClient from "topojson-client";
+import type { Topology } from "topojson-specification";
+import { isPeerGroupMember, lookupPeerGroup, peerGroupSources } from "./msa-percentile";
+import type { PeerGroup } from "./peer-group";
+import { splitTractGeoid } from "./geoid";
+import { buildRTree, searchRTree, BBox, RTree } from "./rtree";
+
+// Pre-built tract TopoJSON per peer group: each CBSA, plus each state's
+// tracts outside any CBSA (scripts/build-msa-geo.mjs)
+
+// LRU-ish cache for geo data (limit to 5)
+const geoCache = new Map<string, Topology>();
+const GEO_CACHE_MAX = 5;
+
+export function loadMsaGeo(cbsaCode: string): Topology | null {
+  if (geoCache.has(cbsaCode)) return geoCache.get(cbsaCode)!;
+  try {
+    const filePath = join(process.cwd(), "data", "msa-geo", `${cbsaCode}.json`);
+    if (!existsSync(filePath)) return null;
+    const data = JSON.parse(readFileSync(filePath, "utf-8"));
+    if (geoCache.size >= GEO_CACHE_MAX) {
+      const oldest = geoCache.keys().next().value!;
+      geoCache.delete(oldest);
+    }
+    geoCache.set(cbsaCode, data);
+    return data;
+  } catch {
+    return null;
+  }
+}
+
+// Signed area and area-weighted centroid of a ring, in degree units
+function ringCentroid(ring: GeoJSON.Position[]): { area: number; x: number; y: number } {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const cross = ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+    area += cross;
+    x += (ring[j][0] + ring[i][0]) * cross;
+    y += (ring[j][1] + ring[i][1]) * cross;
+  }
+  area /= 2;
+  return area === 0 ? { area, x: ring[0][0], y: ring[0][1] } : { area, x: x / (6 * area), y: y / (6 * area) };
+}
+
+/**
+ * Tract TopoJSON for a peer group. An HMFA is cut out of the file holding
+ * most of its tracts, keeping that file's arcs; when one spans several files
+ * (rare outside New England) the rest of its tracts are left undrawn.
+ */
+export function loadPeerGroupGeo(group: PeerGroup): Topology | null {
+  if (group.type !== "hmfa") return loadMsaGeo(group.code);
+
+  let best: Topology | null = null;
+  let bestCount = 0;
+  for (const source of peerGroupSources(group)) {
+    const topo = loadMsaGeo(source);
+    const object = topo?.objects.tracts;
+    if (!topo || !object || object.type !== "GeometryCollection") continue;
+
+    const geometries = object.geometries.filter((g) =>
+      isPeerGroupMember(group, (g.properties as { GEOID?: string } | undefined)?.GEOID ?? "")
+    );
+    if (geometries.length > bestCount) {
+      best = { ...topo, objects: { tracts: { ...object, geometries } } };
+      bestCount = geometries.length;
+    }
+  }
+  return best;
+}
+
+/**
+ * Centroid of a tract's largest polygon, from its peer group's TopoJSON.
+ * Null when that geometry isn't built.
+ */
+export function tractCentroid(geoid: string): { lat: number; lng: number } | null {
+  const { stateFips, countyFips } = splitTractGeoid(geoid);
+  const topo = loadMsaGeo(lookupPeerGroup(stateFips, countyFips).code);
+  const object = topo?.objects.tracts;
+  if (!topo || !object || object.type !== "GeometryCollection") return null;
+
+  const geometry = object.geometries.find(
+    (g) => (g.properties as { GEOID?: string } | undefined)?.GEOID === geoid
+  );
+  if (!geometry) return null;
+
+  const feature = topojsonClient.feature(topo, geometry) as GeoJSON.Feature;
+  const polygons =
+    feature.geometry.type === "Polygon"
+      ? [feature.geometry.coordinates]
+      : feature.geometry.type === "MultiPolygon"
+        ? feature.geometry.coordinates
+        : [];
+
+  // Outer rings only; the largest part keeps islands from pulling it offshore
+  let best: { area: number; x: number; y: number } | null = null;
+  for (const polygon of polygons) {
+    const c = ringCentroid(polygon[0]);
+    if (!best || Math.abs(c.area) > Math.abs(best.area)) best = c;
+  }
+  return best ? { lat: best.y, lng: best.x } : null;
+}
+
+// ---------------------------------------------------------------------------
+// Point → tract, without a geocoder round trip
+// ---------------------------------------------------------------------------
+
+interface TractShape {
+  geoid: string;
+  polygons: GeoJSON.Position[][][];
+}
+
+let msaIndex: RTree<string> | null = null;
+
+// LRU-ish cache for per-MSA tract indexes (limit to 5)
+const tractIndexCache = new Map<string, RTree<TractShape>>();
+const TRACT_INDEX_MAX = 5;
+
+/** MSA bounding boxes from data/msa-bbox.json; empty when it isn't built. */
+function loadMsaIndex(): RTree<string> {
+  if (msaIndex) return msaIndex;
+  const filePath = join(process.cwd(), "data", "msa-bbox.json");
+  const bboxes: Record<string, BBox> = existsSync(filePath)
+    ? JSON.parse(readFileSync(filePath, "utf-8"))
+    : {};
+  msaIndex = buildRTree(Object.entries(bboxes).map(([code, bbox]) => ({ bbox, value: code })));
+  return msaIndex;
+}
+
+function loadTractIndex(cbsaCode: string): RTree<TractShape> | null {
+  if (tractIndexCache.has(cbsaCode)) return tractIndexCache.get(cbsaCode)!;
+  const topo = loadMsaGeo(cbsaCode);
+  const object = topo?.objects.tracts;
+  if (!topo || !object) return null;
+
+  const fc = topojsonClient.feature(topo, object) as GeoJSON.FeatureCollection;
+  const items: { bbox: BBox; value: TractShape }[] = [];
+  for (const feature of fc.features) {
+    const geometry = feature.geometry;
+    const polygons =
+      geometry.type === "Polygon"
+        ? [geometry.coordinates]
+        : geometry.type === "MultiPolygon"
+          ? geometry.coordinates
+          : [];
+    if (polygons.length === 0) continue;
+
+    const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const polygon of polygons) {
+      for (const [x, y] of polygon[0]) {
+        if (x < bbox[0]) bbox[0] = x;
+        if (y < bbox[1]) bbox[1] = y;
+        if (x > bbox[2]) bbox[2] = x;
+        if (y > bbox[3]) bbox[3] = y;
+      }
+    }
+    items.push({ bbox, value: { geoid: feature.properties?.GEOID, polygons } });
+  }
+
+  const index = buildRTree(items);
+  if (tractIndexCache.size >= TRACT_INDEX_MAX) {
+    const oldest = tractIndexCache.keys().next().value!;
+    tractIndexCache.delete(oldest);
+  }
+  tractIndexCache.set(cbsaCode, index);
+  return index;
+}
+
+// Even-odd ray casting over every ring, so holes are excluded
+function containsPoint(polygons: GeoJSON.Position[][][], x: number, y: number): boolean {
+  let inside = false;
+  for (const polygon of polygons) {
+    for (const ring of polygon) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+          inside = !inside;
+        }
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * GEOID of the tract containing a point, from the bundled TopoJSON. Null
+ * where no peer group geometry covers it (and in water clipped from the NYC
+ * tracts), where callers fall back to the Census geocoder. Boundaries are the 500k
+ * cartographic ones, so points within a few metres of a tract line can
+ * land on the neighbouring tract.
+ */
+export function findTractAt(lat: number, lng: number): string | null {
+  for (const cbsaCode of searchRTree(loadMsaIndex(), lng, lat)) {
+    const index = loadTractIndex(cbsaCode);
+    if (!index) continue;
+    const tract = searchRTree(index, lng, lat).find((t) => containsPoint(t.polygons, lng, lat));
+    if (tract) return tract.geoid;
+  }
+  return null;
+}
@@ -0,0 +1,179 @@
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// A tract row with all `households` in one B19001 bracket
+function tract(geoid: string, households: number, bracket: number) {
+  const brackets = new Array(16).fill(0);
+  brackets[bracket] = households;
+  return [geoid, households, ...brackets];
+}
+
+let dir: string;
+
+function write(path: string, content: unknown) {
+  mkdirSync(join(dir, "data", path, ".."), { recursive: true });
+  writeFileSync(join(dir, "data", path), JSON.stringify(content));
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "msa-percentile-"));
+  write("county-to-cbsa.json", {
+    "55015": { code: "11540", name: "Appleton, WI", type: "metro" },
+    "55087": { code: "11540", name: "Appleton, WI", type: "metro" },
+    "55071": { code: "31820", name: "Manitowoc, WI", type: "micro" },
+    // Built before micro areas were labelled
+    "55009": { code: "24580", name: "Green Bay, WI" },
+    "25017": { code: "14460", name: "Boston-Cambridge-Newton, MA-NH", type: "metro" },
+  });
+  write("tract-to-zip.json", {});
+  vi.spyOn(process, "cwd").mockReturnValue(dir);
+  // The data files are cached at module level
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("lookupPeerGroup", () => {
+  it("uses the county's CBSA, metro or micro", async () => {
+    const { lookupPeerGroup } = await import("./msa-percentile");
+    expect(lookupPeerGroup("55", "015")).toEqual({ code: "11540", name: "Appleton, WI", type: "metro" });
+    expect(lookupPeerGroup("55", "071")).toEqual({ code: "31820", name: "Manitowoc, WI", type: "micro" });
+  });
+
+  it("labels a CBSA from a build without metro/micro types as a plain CBSA", async () => {
+    const { lookupPeerGroup } = await import("./msa-percentile");
+    expect(lookupPeerGroup("55", "009").type).toBe("cbsa");
+  });
+
+  it("puts a county outside every CBSA in the rest of its state", async () => {
+    const { lookupPeerGroup } = await import("./msa-percentile");
+    expect(lookupPeerGroup("55", "001")).toEqual({ code: "99955", name: "Rest of Wisconsin", type: "rest-of-state" });
+  });
+});
+
+describe("computeMsaPercentile", () => {
+  const REST_OF_WISCONSIN = { code: "99955", name: "Rest of Wisconsin", type: "rest-of-state" } as const;
+
+  it("ranks a non-CBSA tract among the rest of its state", async () => {
+    // $20k–$25k, $35k–$40k, $60k–$75k and $100k–$125k tracts
+    write("msa/99955.json", [
+      tract("55001950100", 100, 3),
+      tract("55001950200", 100, 6),
+      tract("55078940100", 100, 10),
+      tract("55125950100", 100, 12),
+    ]);
+    const { computeMsaPercentile } = await import("./msa-percentile");
+
+    // At a $41,600 threshold the $60k–$75k tract beats the two below it
+    expect(computeMsaPercentile(REST_OF_WISCONSIN, "55078940100", 41600)).toEqual({
+      percentile: 50,
+      percentileLow: null,
+      percentileHigh: null,
+      msaTractCount: 4,
+    });
+  });
+
+  it("has no ranking where the rest-of-state file isn't built", async () => {
+    const { computeMsaPercentile, computeMsaIncomeDistribution } = await import("./msa-percentile");
+    expect(computeMsaPercentile(REST_OF_WISCONSIN, "55001950100", 41600)).toBeNull();
+    expect(computeMsaIncomeDistribution(REST_OF_WISCONSIN)).toBeNull();
+  });
+});
+
+describe("HMFA peer groups", () => {
+  const APPLETON_HMFA = { code: "METRO11540M11540", name: "Appleton, WI MSA" };
+  const BOSTON_HMFA = { code: "METRO14460MM1120", name: "Boston-Cambridge-Quincy, MA-NH HUD Metro FMR Area" };
+  const LOWELL_HMFA = { code: "METRO14460MM4560", name: "Lowell, MA HUD Metro FMR Area" };
+
+  // Appleton's HMFA takes in Green Bay's county too; Middlesex County, MA is
+  // split by town between the Boston and Lowell HMFAs
+  beforeEach(() => {
+    write("county-to-hmfa.json", {
+      "55015": APPLETON_HMFA,
+      "55087": APPLETON_HMFA,
+      "55009": APPLETON_HMFA,
+      "2501711000": BOSTON_HMFA, // Cambridge
+      "2501737000": LOWELL_HMFA, // Lowell
+    });
+    write("tract-to-hmfa.json", {
+      "25017352101": BOSTON_HMFA,
+      "25017310100": LOWELL_HMFA,
+    });
+    write("msa/11540.json", [tract("55015020100", 100, 6), tract("55087010100", 100, 10)]);
+    write("msa/24580.json", [tract("55009000100", 100, 12)]);
+    write("msa/14460.json", [
+      tract("25017352101", 100, 12),
+      tract("25017310100", 100, 10),
+      tract("25025010100", 100, 14),
+    ]);
+  });
+
+  it("resolves a tract to its HMFA, or its CBSA when asked", async () => {
+    const { resolvePeerGroup } = await import("./msa-percentile");
+    expect(resolvePeerGroup("55015020100", "hmfa")).toEqual({ ...APPLETON_HMFA, type: "hmfa" });
+    expect(resolvePeerGroup("55015020100", "cbsa")).toEqual({ code: "11540", name: "Appleton, WI", type: "metro" });
+  });
+
+  it("falls back to the CBSA for a county the crosswalk doesn't cover", async () => {
+    const { resolvePeerGroup } = await import("./msa-percentile");
+    expect(resolvePeerGroup("55071000100", "hmfa")).toEqual({ code: "31820", name: "Manitowoc, WI", type: "micro" });
+  });
+
+  it("falls back to CBSAs everywhere without the crosswalk files", async () => {
+    rmSync(join(dir, "data", "county-to-hmfa.json"));
+    rmSync(join(dir, "data", "tract-to-hmfa.json"));
+    const { resolvePeerGroup } = await import("./msa-percentile");
+    expect(resolvePeerGroup("55015020100", "hmfa").type).toBe("metro");
+    expect(resolvePeerGroup("25017352101", "hmfa", "11000").code).toBe("14460");
+  });
+
+  it("uses the geocoded New England town, else the tract's majority town", async () => {
+    const { resolvePeerGroup } = await import("./msa-percentile");
+    // A Cambridge-majority tract, geocoded to a point in Lowell
+    expect(resolvePeerGroup("25017352101", "hmfa", "37000").code).toBe(LOWELL_HMFA.code);
+    expect(resolvePeerGroup("25017352101", "hmfa").code).toBe(BOSTON_HMFA.code);
+  });
+
+  it("tests membership by county, or by tract in New England", async () => {
+    const { isPeerGroupMember } = await import("./msa-percentile");
+    const appleton = { ...APPLETON_HMFA, type: "hmfa" } as const;
+    const boston = { ...BOSTON_HMFA, type: "hmfa" } as const;
+
+    expect(isPeerGroupMember(appleton, "55009000100")).toBe(true);
+    expect(isPeerGroupMember(appleton, "55071000100")).toBe(false);
+    expect(isPeerGroupMember(boston, "25017352101")).toBe(true);
+    expect(isPeerGroupMember(boston, "25017310100")).toBe(false);
+    // Any tract is in a CBSA group; its data file is the group
+    expect(isPeerGroupMember({ code: "14460", name: "Boston", type: "metro" }, "25017310100")).toBe(true);
+  });
+
+  it("gathers an HMFA's rows across CBSA files and drops other HMFAs' tracts", async () => {
+    const { loadPeerGroupRows } = await import("./msa-percentile");
+
+    const appleton = loadPeerGroupRows({ ...APPLETON_HMFA, type: "hmfa" });
+    expect(appleton!.map((r) => r[0]).sort()).toEqual(["55009000100", "55015020100", "55087010100"]);
+    const boston = loadPeerGroupRows({ ...BOSTON_HMFA, type: "hmfa" });
+    expect(boston!.map((r) => r[0])).toEqual(["25017352101"]);
+  });
+
+  it("reads an HMFA's rows through a caller's loader, null when none are built", async () => {
+    const { loadPeerGroupRows } = await import("./msa-percentile");
+    const loadRows = vi.fn((code: string) => (code === "24580" ? [tract("55009000100", 40, 3)] : null));
+
+    expect(loadPeerGroupRows({ ...APPLETON_HMFA, type: "hmfa" }, loadRows)).toEqual([tract("55009000100", 40, 3)]);
+    expect(loadRows.mock.calls.map(([code]) => code).sort()).toEqual(["11540", "24580"]);
+    expect(loadPeerGroupRows({ ...LOWELL_HMFA, type: "hmfa" }, () => null)).toBeNull();
+  });
+
+  it("ranks a tract among its HMFA rather than its CBSA", async () => {
+    const { computeMsaPercentile, resolvePeerGroup } = await import("./msa-percentile");
+    // $35k–$40k, $60k–$75k and $100k–$125k tracts; at $41,600 the first is last
+    const result = computeMsaPercentile(resolvePeerGroup("55015020100", "hmfa"), "55015020100", 41600);
+    expect(result).toMatchObject({ percentile: 0, msaTractCount: 3 });
+  });
+});
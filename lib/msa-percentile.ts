@@ -1,32 +1,104 @@
-import { readFileSync } from "fs";
+import { readFileSync, existsSync } from "fs";
 import { join } from "path";
-import { computeAffordabilityPct } from "./bracket-math";
+import {
+  computeAffordabilityPct,
+  IncomeEstimatorMethod,
+  DEFAULT_ESTIMATOR,
+  BRACKET_BOUNDS,
+} from "./bracket-math";
+import { loadTractToZip } from "./hud-fmr";
+import { restOfStateGroup, PeerGeography, PeerGroup } from "./peer-group";
 
-interface CbsaInfo {
+export interface CbsaInfo {
   code: string;
   name: string;
+  type?: "metro" | "micro"; // absent in builds before micro areas were labelled
+}
+
+// HUD Metro FMR Area, or HUD's county-level non-metro area
+export interface HmfaInfo {
+  code: string; // e.g. "METRO41860M41860", "NCNTY30049N30049"
+  name: string;
+}
+
+interface HmfaMembers {
+  counties: Set<string>;
+  tracts: Set<string>; // New England, where HMFAs are built from towns
+  sources: string[]; // CBSA / rest-of-state files holding the member tracts
 }
 
 // Cache loaded data in memory across requests (within same serverless instance)
 let countyToCbsa: Record<string, CbsaInfo> | null = null;
-let tractToZip: Record<string, string> | null = null;
+let countyToHmfa: Record<string, HmfaInfo> | null = null;
+let tractToHmfa: Record<string, HmfaInfo> | null = null;
+let hmfaMembers: Map<string, HmfaMembers> | null = null;
 const msaCache = new Map<string, (string | number)[][]>();
 
-function loadCountyToCbsa(): Record<string, CbsaInfo> {
+export function loadCountyToCbsa(): Record<string, CbsaInfo> {
   if (countyToCbsa) return countyToCbsa;
   const filePath = join(process.cwd(), "data", "county-to-cbsa.json");
   countyToCbsa = JSON.parse(readFileSync(filePath, "utf-8"));
   return countyToCbsa!;
 }
 
-function loadTractToZip(): Record<string, string> {
-  if (tractToZip) return tractToZip;
-  const filePath = join(process.cwd(), "data", "tract-to-zip.json");
-  tractToZip = JSON.parse(readFileSync(filePath, "utf-8"));
-  return tractToZip!;
+// Both crosswalks come from scripts/build-hmfa-crosswalk.mjs; without them
+// every "hmfa" request falls back to the CBSA peer groups
+function loadHmfaFile(name: string): Record<string, HmfaInfo> {
+  const filePath = join(process.cwd(), "data", name);
+  return existsSync(filePath) ? JSON.parse(readFileSync(filePath, "utf-8")) : {};
+}
+
+function loadHmfaMembers(): Map<string, HmfaMembers> {
+  if (hmfaMembers) return hmfaMembers;
+  countyToHmfa = loadHmfaFile("county-to-hmfa.json");
+  tractToHmfa = loadHmfaFile("tract-to-hmfa.json");
+
+  hmfaMembers = new Map();
+  const membersOf = (code: string) => {
+    if (!hmfaMembers!.has(code)) {
+      hmfaMembers!.set(code, { counties: new Set(), tracts: new Set(), sources: [] });
+    }
+    return hmfaMembers!.get(code)!;
+  };
+  const addSource = (members: HmfaMembers, county: string) => {
+    const source = lookupPeerGroup(county.slice(0, 2), county.slice(2)).code;
+    if (!members.sources.includes(source)) members.sources.push(source);
+  };
+  for (const [county, hmfa] of Object.entries(countyToHmfa)) {
+    if (county.length !== 5) continue; // New England towns; their tracts are below
+    const members = membersOf(hmfa.code);
+    members.counties.add(county);
+    addSource(members, county);
+  }
+  for (const [geoid, hmfa] of Object.entries(tractToHmfa)) {
+    const members = membersOf(hmfa.code);
+    members.tracts.add(geoid);
+    addSource(members, geoid.slice(0, 5));
+  }
+  return hmfaMembers;
 }
 
-function loadMsaData(cbsaCode: string): (string | number)[][] | null {
+/**
+ * The HUD FMR area a tract is in, or null when the crosswalk doesn't cover
+ * it. In New England the geocoded town (county subdivision) decides, as it
+ * does for the HUD API; otherwise the tract's majority town.
+ */
+export function lookupHmfa(geoid: string, countySubFips?: string): HmfaInfo | null {
+  loadHmfaMembers();
+  const county = geoid.slice(0, 5);
+  return (
+    (countySubFips ? countyToHmfa![`${county}${countySubFips}`] : undefined) ??
+    tractToHmfa![geoid] ??
+    countyToHmfa![county] ??
+    null
+  );
+}
+
+/**
+ * Static per-tract B19001 rows for a peer group (a CBSA or the rest of a
+ * state): [fips, total, ...16 brackets].
+ */
+export function loadMsaData(cbsaCode: string): (string | number)[][] | null {
   if (msaCache.has(cbsaCode)) return msaCache.get(cbsaCode)!;
   try {
     const filePath = join(process.cwd(), "data", "msa", `${cbsaCode}.json`);
@@ -38,38 +110,101 @@ function loadMsaData(cbsaCode: string): (string | number)[][] | null {
   }
 }
 
+/** The CBSA a county belongs to, or null outside every MSA. */
+export function lookupCbsa(stateFips: string, countyFips: string): CbsaInfo | null {
+  return loadCountyToCbsa()[`${stateFips}${countyFips}`] ?? null;
+}
+
+/** The county's CBSA as a peer group, or its state's non-CBSA remainder. */
+export function lookupPeerGroup(stateFips: string, countyFips: string): PeerGroup {
+  const cbsa = lookupCbsa(stateFips, countyFips);
+  if (!cbsa) return restOfStateGroup(stateFips);
+  return { code: cbsa.code, name: cbsa.name, type: cbsa.type ?? "cbsa" };
+}
+
+/**
+ * The tract's peer group for the requested geography. "hmfa" uses the HUD
+ * FMR area, so rankings are against the tracts sharing the tract's AMI and
+ * FMR, and falls back to the CBSA / rest-of-state group when the tract isn't
+ * in the crosswalk.
+ */
+export function resolvePeerGroup(
+  geoid: string,
+  peers: PeerGeography,
+  countySubFips?: string
+): PeerGroup {
+  const hmfa = peers === "hmfa" ? lookupHmfa(geoid, countySubFips) : null;
+  if (hmfa) return { code: hmfa.code, name: hmfa.name, type: "hmfa" };
+  return lookupPeerGroup(geoid.slice(0, 2), geoid.slice(2, 5));
+}
+
+/** Whether a tract belongs to the group; only HMFAs cut across the data files. */
+export function isPeerGroupMember(group: PeerGroup, geoid: string): boolean {
+  if (group.type !== "hmfa") return true;
+  const members = loadHmfaMembers().get(group.code);
+  return !!members && (members.tracts.has(geoid) || members.counties.has(geoid.slice(0, 5)));
+}
+
+/** The CBSA / rest-of-state data files that hold the group's tracts. */
+export function peerGroupSources(group: PeerGroup): string[] {
+  if (group.type !== "hmfa") return [group.code];
+  return loadHmfaMembers().get(group.code)?.sources ?? [];
+}
+
+/**
+ * The group's rows from per-CBSA / rest-of-state files, read through
+ * `loadRows` (loadMsaData by default) so callers can pass their own loader,
+ * e.g. for the tenure files. Null when none of the group's data is built.
+ */
+export function loadPeerGroupRows(
+  group: PeerGroup,
+  loadRows: (code: string) => (string | number)[][] | null = loadMsaData
+): (string | number)[][] | null {
+  if (group.type !== "hmfa") return loadRows(group.code);
+
+  const rows: (string | number)[][] = [];
+  for (const source of peerGroupSources(group)) {
+    for (const row of loadRows(source) ?? []) {
+      if (isPeerGroupMember(group, row[0] as string)) rows.push(row);
+    }
+  }
+  return rows.length > 0 ? rows : null;
+}
+
 export interface PercentileResult {
   percentile: number;
+  // 90% interval from ranking the target tract's interval endpoints
+  percentileLow: number | null;
+  percentileHigh: number | null;
   msaTractCount: number;
-  cbsaName: string;
 }
 
 /**
- * Compute how this tract's affordability % ranks among all tracts in its MSA.
+ * Compute how this tract's affordability % ranks among all tracts in its
+ * peer group (see resolvePeerGroup).
  *
  * @param safmrByZip - When provided (SAFMR area), each tract is evaluated
  *   against its own ZIP's rent rather than a uniform threshold. Keys are
  *   5-digit ZIP codes, values are FMR arrays [studio, 1BR, 2BR, 3BR, 4BR].
  * @param bedroomIndex - Which bedroom count to use for SAFMR lookup (default 2 = 2BR).
+ * @param estimator - In-bracket income estimator applied uniformly to every
+ *   tract (the static MSA files carry no tract medians, so log-normal fits
+ *   anchor on the interpolated median).
+ * @param targetMoe - 90% MOE of the target tract's affordability % in
+ *   percentage points; when given, its interval endpoints are ranked too.
  */
 export function computeMsaPercentile(
-  stateFips: string,
-  countyFips: string,
-  tractFips: string,
+  peerGroup: PeerGroup,
+  targetFips: string,
   incomeThreshold: number,
   safmrByZip?: Record<string, number[]>,
-  bedroomIndex: number = 2
+  bedroomIndex: number = 2,
+  estimator: IncomeEstimatorMethod = DEFAULT_ESTIMATOR,
+  targetMoe?: number
 ): PercentileResult | null {
-  const mapping = loadCountyToCbsa();
-  const countyKey = `${stateFips}${countyFips}`;
-  const cbsa = mapping[countyKey];
-  if (!cbsa) return null;
-
-  const msaData = loadMsaData(cbsa.code);
+  const msaData = loadPeerGroupRows(peerGroup);
   if (!msaData || msaData.length === 0) return null;
 
-  const targetFips = `${stateFips}${countyFips}${tractFips}`;
-
   // Load tract-to-ZIP mapping if we have SAFMR data
   const zipMapping = safmrByZip ? loadTractToZip() : null;
 
@@ -96,7 +231,7 @@ export function computeMsaPercentile(
       // If no ZIP match, fall back to the uniform incomeThreshold (MSA-level FMR)
     }
 
-    const pct = computeAffordabilityPct(threshold, total, brackets);
+    const pct = computeAffordabilityPct(threshold, total, brackets, { method: estimator });
     tractPcts.push(pct);
 
     if (fips === targetFips) {
@@ -106,13 +241,43 @@ export function computeMsaPercentile(
 
   if (targetPct === null) return null;
 
-  // Percentile: % of tracts with a lower affordability %
-  const belowCount = tractPcts.filter((p) => p < targetPct!).length;
-  const percentile = Math.round((belowCount / tractPcts.length) * 1000) / 10;
+  // Percentile: % of tracts with a lower affordability %. The target tract
+  // itself is never counted as below its own (shifted) value.
+  const rank = (value: number) => {
+    const belowCount =
+      tractPcts.filter((p) => p < value).length - (targetPct! < value ? 1 : 0);
+    return Math.round((belowCount / tractPcts.length) * 1000) / 10;
+  };
 
   return {
-    percentile,
+    percentile: rank(targetPct),
+    percentileLow: targetMoe !== undefined ? rank(targetPct - targetMoe) : null,
+    percentileHigh: targetMoe !== undefined ? rank(targetPct + targetMoe) : null,
     msaTractCount: tractPcts.length,
-    cbsaName: cbsa.name,
   };
 }
+
+export interface MsaIncomeDistribution {
+  totalHouseholds: number;
+  bracketCounts: number[]; // B19001 order, summed over every tract in the MSA
+}
+
+/**
+ * Household income distribution across a peer group, from summing the
+ * static per-tract B19001 rows.
+ */
+export function computeMsaIncomeDistribution(peerGroup: PeerGroup): MsaIncomeDistribution | null {
+  const msaData = loadPeerGroupRows(peerGroup);
+  if (!msaData || msaData.length === 0) return null;
+
+  let totalHouseholds = 0;
+  const bracketCounts = new Array(BRACKET_BOUNDS.length).fill(0);
+  for (const tract of msaData) {
+    totalHouseholds += tract[1] as number;
+    for (let i = 0; i < BRACKET_BOUNDS.length; i++) {
+      bracketCounts[i] += tract[i + 2] as number;
+    }
+  }
+
+  return { totalHouseholds, bracketCounts };
+}
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Route = (url: URL) => unknown | null;
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+/** Stub fetch, answering with route's JSON, or a 503 when it returns null. */
+function stubFetch(route: Route) {
+  fetchMock = vi.fn(async (input: string) => {
+    const body = route(new URL(input));
+    return body === null
+      ? { ok: false, status: 503, json: async () => ({}) }
+      : { ok: true, status: 200, json: async () => body };
+  });
+  vi.stubGlobal("fetch", fetchMock);
+}
+
+// Queries Nominatim was sent, in order
+function nominatimQueries(): string[] {
+  return fetchMock.mock.calls
+    .map(([input]) => new URL(input as string))
+    .filter((url) => url.hostname === "nominatim.openstreetmap.org")
+    .map((url) => url.searchParams.get("q") ?? "reverse");
+}
+
+const POINT = [{ lat: "44.2619", lon: "-88.4154" }];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // The throttle, queue and caches live at module level
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("nominatimSearch", () => {
+  it("sends at most one request per second, in call order", async () => {
+    stubFetch(() => POINT);
+    const { nominatimSearch } = await import("./nominatim");
+
+    const results = ["a", "b", "c"].map((q) => nominatimSearch(q));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(nominatimQueries()).toEqual(["a"]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(nominatimQueries()).toEqual(["a"]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(nominatimQueries()).toEqual(["a", "b"]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(nominatimQueries()).toEqual(["a", "b", "c"]);
+
+    expect(await Promise.all(results)).toEqual(Array(3).fill({ lat: 44.2619, lng: -88.4154 }));
+  });
+
+  it("resolves to null without a request once three are waiting", async () => {
+    stubFetch(() => POINT);
+    const { nominatimSearch } = await import("./nominatim");
+
+    // The first goes out at once; the next three wait for slots
+    const results = ["a", "b", "c", "d", "e"].map((q) => nominatimSearch(q));
+    expect(await results[4]).toBeNull();
+
+    await vi.runAllTimersAsync();
+    expect(nominatimQueries()).toEqual(["a", "b", "c", "d"]);
+    expect((await Promise.all(results)).filter((r) => r !== null)).toHaveLength(4);
+  });
+
+  it("shares one request between identical queries, in flight and after", async () => {
+    stubFetch(() => POINT);
+    const { nominatimSearch } = await import("./nominatim");
+
+    const [first, second] = await Promise.all([nominatimSearch("a"), nominatimSearch("a")]);
+    expect(second).toEqual(first);
+    await nominatimSearch("a");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't cache errors, so a later call retries", async () => {
+    let available = false;
+    stubFetch(() => (available ? POINT : null));
+    const { nominatimSearch } = await import("./nominatim");
+
+    expect(await nominatimSearch("a")).toBeNull();
+    available = true;
+    const retry = nominatimSearch("a");
+    await vi.runAllTimersAsync();
+    expect(await retry).toEqual({ lat: 44.2619, lng: -88.4154 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("geocodeAddress", () => {
+  // Census's forward geocoder match for an Appleton, WI address
+  const CENSUS_MATCH = {
+    result: {
+      addressMatches: [
+        {
+          matchedAddress: "100 N APPLETON ST, APPLETON, WI, 54911",
+          coordinates: { x: -88.4077, y: 44.2627 },
+          geographies: {
+            "Census Tracts": [{ STATE: "55", COUNTY: "015", TRACT: "020100" }],
+          },
+        },
+      ],
+    },
+  };
+
+  it("falls back to Census alone when Nominatim is unavailable", async () => {
+    stubFetch((url) => (url.hostname === "geocoding.geo.census.gov" ? CENSUS_MATCH : null));
+    const { geocodeAddress } = await import("./census-geocoder");
+
+    const result = geocodeAddress("100 N Appleton St, Appleton, WI");
+    await vi.runAllTimersAsync();
+    expect(await result).toEqual({
+      lat: 44.2627,
+      lng: -88.4077,
+      stateFips: "55",
+      countyFips: "015",
+      tractFips: "020100",
+      countySubFips: undefined,
+      // Nominatim's reverse lookup failed too, so the tract's ZIP
+      zipCode: "54110",
+      matchedAddress: "100 N APPLETON ST, APPLETON, WI, 54911",
+    });
+    expect(nominatimQueries()).toEqual(["100 N Appleton St, Appleton, WI", "reverse"]);
+  });
+
+  it("skips Nominatim's reverse lookup wait once its queue is full", async () => {
+    stubFetch((url) => (url.hostname === "geocoding.geo.census.gov" ? CENSUS_MATCH : null));
+    const { nominatimSearch } = await import("./nominatim");
+    const { geocodeAddress } = await import("./census-geocoder");
+
+    // Four searches ahead take the open slot and fill the queue
+    const ahead = ["a", "b", "c", "d"].map((q) => nominatimSearch(q));
+    const result = await geocodeAddress("100 N Appleton St, Appleton, WI");
+    expect(result.tractFips).toBe("020100");
+    expect(result.zipCode).toBe("54110");
+
+    await vi.runAllTimersAsync();
+    await Promise.all(ahead);
+    expect(nominatimQueries()).toEqual(["a", "b", "c", "d"]);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Shared client for the public Nominatim API, following its usage policy
+ * (https://operations.osmfoundation.org/policies/nominatim/):
+ * - at most one request per second across the whole server instance
+ * - an identifying User-Agent (plus NOMINATIM_EMAIL as `email` when set)
+ * - results cached, and identical in-flight requests coalesced
+ *
+ * When the queue is saturated requests are not sent at all and resolve to
+ * null, so callers fall back to Census-only data instead of waiting.
+ */
+
+const NOMINATIM_BASE = "https://nominatim.openstreetmap.org";
+const USER_AGENT = "AMI-Affordability-Map/1.0";
+
+const MIN_INTERVAL_MS = 1000;
+// Requests allowed to wait for a slot; beyond this the caller falls back
+const MAX_QUEUED = 3;
+
+// LRU-ish result cache (limit to 500), including "no result" answers
+const resultCache = new Map<string, { expiresAt: number; value: unknown }>();
+const RESULT_CACHE_MAX = 500;
+const RESULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+let nextSlot = 0;
+let queued = 0;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Wait for the next one-per-second slot; false when the queue is full. */
+async function acquireSlot(): Promise<boolean> {
+  if (queued >= MAX_QUEUED) return false;
+  const now = Date.now();
+  const wait = Math.max(0, nextSlot - now);
+  nextSlot = Math.max(now, nextSlot) + MIN_INTERVAL_MS;
+  queued++;
+  try {
+    if (wait > 0) await sleep(wait);
+  } finally {
+    queued--;
+  }
+  return true;
+}
+
+async function request(path: string, params: Record<string, string>): Promise<unknown | null> {
+  const url = new URL(`${NOMINATIM_BASE}/${path}`);
+  for (const [k, v] of Object.entries(params)) url.searchParams.set(k, v);
+  url.searchParams.set("format", "json");
+  const key = url.toString();
+  if (process.env.NOMINATIM_EMAIL) url.searchParams.set("email", process.env.NOMINATIM_EMAIL);
+
+  const cached = resultCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    if (!(await acquireSlot())) return null;
+
+    const res = await fetch(url.toString(), { headers: { "User-Agent": USER_AGENT } });
+    // Errors (including 429s) are not cached, so a later request can retry
+    if (!res.ok) return null;
+    const value = await res.json();
+
+    if (resultCache.size >= RESULT_CACHE_MAX) {
+      const oldest = resultCache.keys().next().value!;
+      resultCache.delete(oldest);
+    }
+    resultCache.set(key, { expiresAt: Date.now() + RESULT_TTL_MS, value });
+    return value;
+  })()
+    .catch(() => null)
+    .finally(() => inFlight.delete(key));
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/** First US match for a free-form query, or null (no match, error or saturated). */
+export async function nominatimSearch(query: string): Promise<{ lat: number; lng: number } | null> {
+  const results = (await request("search", {
+    q: query,
+    limit: "1",
+    countrycodes: "us",
+  })) as { lat: string; lon: string }[] | null;
+  if (!results || results.length === 0) return null;
+
+  const lat = parseFloat(results[0].lat);
+  const lng = parseFloat(results[0].lon);
+  if (isNaN(lat) || isNaN(lng)) return null;
+  return { lat, lng };
+}
+
+export interface NominatimPlace {
+  displayName: string | null;
+  zipCode: string | null;
+}
+
+/** Display name and 5-digit ZIP for a point, or null when unavailable. */
+export async function nominatimReverse(lat: number, lng: number): Promise<NominatimPlace | null> {
+  // ~10 cm precision, so repeat clicks on the same spot share a cache entry
+  const data = (await request("reverse", {
+    lat: lat.toFixed(6),
+    lon: lng.toFixed(6),
+    zoom: "18",
+    addressdetails: "1",
+  })) as { display_name?: string; address?: { postcode?: string } } | null;
+  if (!data) return null;
+
+  return {
+    displayName: data.display_name ?? null,
+    // Take the first 5 digits (some postcodes include ZIP+4)
+    zipCode: data.address?.postcode?.slice(0, 5) ?? null,
+  };
+}
@@ -0,0 +1,295 @@
+import {
+  API_VERSION,
+  API_SCHEMAS,
+  LOOKUP_QUERY,
+  CHOROPLETH_QUERY,
+  CHOROPLETH_EXPORT_QUERY,
+  TRACT_QUERY,
+  TREND_QUERY,
+  BATCH_QUERY,
+  REPORT_QUERY,
+  SHARE_IMAGE_QUERY,
+  MAX_BATCH_ROWS,
+  AGGREGATE_QUERIES,
+  AggregateLevel,
+  QueryParamSpec,
+} from "./api-schema";
+import { CUSTOM_RENT_PATTERN } from "./custom-rent";
+
+// OpenAPI 3.1 document for /api/v1, generated from the same specs the routes
+// validate against so the two cannot drift apart.
+
+function parameter(spec: QueryParamSpec) {
+  let schema: Record<string, unknown>;
+  switch (spec.type) {
+    case "string":
+      schema = {
+        type: "string",
+        ...(spec.pattern && { pattern: spec.pattern.source }),
+        ...(spec.maxLength !== undefined && { maxLength: spec.maxLength }),
+      };
+      break;
+    case "number":
+    case "integer":
+      schema = {
+        type: spec.type,
+        ...(spec.min !== undefined && { minimum: spec.min }),
+        ...(spec.max !== undefined && { maximum: spec.max }),
+      };
+      break;
+    case "enum":
+      schema = {
+        type: "string",
+        enum: spec.values,
+        ...(spec.default !== undefined && { default: spec.default }),
+      };
+      break;
+  }
+  return {
+    name: spec.name,
+    in: "query",
+    required: spec.required ?? false,
+    description: spec.description,
+    schema,
+  };
+}
+
+function jsonResponse(description: string, schema: string) {
+  return {
+    description,
+    content: { "application/json": { schema: { $ref: `#/components/schemas/${schema}` } } },
+  };
+}
+
+const ERROR_RESPONSES = {
+  "400": jsonResponse("Invalid query parameters; `details` lists each problem.", "Error"),
+  "500": jsonResponse("Upstream (Census, HUD or geocoder) failure.", "Error"),
+};
+
+const CACHE_HEADERS = {
+  "X-Cache": {
+    description: "HIT, MISS or PARTIAL, summarising the upstream calls behind the response.",
+    schema: { type: "string", enum: ["HIT", "MISS", "PARTIAL"] },
+  },
+  "X-Cache-Detail": {
+    description: "Cache outcome per upstream call.",
+    schema: { type: "string" },
+  },
+};
+
+const AGGREGATE_SUMMARIES: Record<AggregateLevel, string> = {
+  county: "Affordability summed over a county",
+  cbsa: "Affordability summed over a metro or micro area (CBSA)",
+  state: "Affordability summed over a state",
+};
+
+function aggregatePath(level: AggregateLevel) {
+  return {
+    get: {
+      operationId: `aggregate${level[0].toUpperCase()}${level.slice(1)}`,
+      summary: AGGREGATE_SUMMARIES[level],
+      description:
+        "Pools the tracts' income brackets and scores them against the HUD limits and FMR " +
+        "of the area's largest county. Lists the most and least affordable tracts, each " +
+        "scored against its own SAFMR where there is one.",
+      parameters: AGGREGATE_QUERIES[level].map(parameter),
+      responses: {
+        "200": {
+          ...jsonResponse("Aggregate affordability report.", "AggregateReport"),
+          headers: CACHE_HEADERS,
+        },
+        "404": jsonResponse("No tract data for the area.", "Error"),
+        ...ERROR_RESPONSES,
+      },
+    },
+  };
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "AMI Affordability Map API",
+      version: API_VERSION,
+      description:
+        "Share of households in a Census tract that can afford HUD Fair Market Rents " +
+        "and homeownership costs, from ACS 5-year estimates and HUD income limits.",
+    },
+    servers: [{ url: serverUrl }],
+    paths: {
+      "/api/v1/lookup": {
+        get: {
+          operationId: "lookup",
+          summary: "Affordability for an address or point",
+          description:
+            "Geocodes the location to a tract and returns the default (4-person, 2BR) " +
+            "result plus the raw data needed to recalculate for other sizes and rents.",
+          parameters: LOOKUP_QUERY.map(parameter),
+          responses: {
+            "200": {
+              ...jsonResponse("Tract affordability data.", "LookupResponse"),
+              headers: CACHE_HEADERS,
+            },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/api/v1/choropleth": {
+        get: {
+          operationId: "choropleth",
+          summary: "Tract data for the county's peer group",
+          description:
+            "Bracket counts and SAFMRs for every tract in the county's HUD FMR area (peers=hmfa), " +
+            "or in its CBSA (metro or micro) or the rest of its state outside any CBSA (peers=cbsa), " +
+            "with TopoJSON polygons.",
+          parameters: CHOROPLETH_QUERY.map(parameter),
+          responses: {
+            "200": jsonResponse("Metro tract data.", "ChoroplethResponse"),
+            "404": jsonResponse("The peer group's data is not built.", "Error"),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/api/v1/choropleth/export": {
+        get: {
+          operationId: "choroplethExport",
+          summary: "Download the peer group's tract data",
+          description:
+            "Every tract in the choropleth's peer group with its households, bracket counts, " +
+            "SAFMR ZIP, rent and computed metrics for the bedroom count. Rents fall back to, " +
+            "and AMI metrics use, the county's HUD area. Field names fit the shapefile's " +
+            "10-character limit and are shared by all formats.",
+          parameters: CHOROPLETH_EXPORT_QUERY.map(parameter),
+          responses: {
+            "200": {
+              description: "The tract data, as an attachment.",
+              headers: CACHE_HEADERS,
+              content: {
+                "text/csv": { schema: { type: "string" } },
+                "application/geo+json": { schema: { type: "object" } },
+                "application/zip": { schema: { type: "string", format: "binary" } },
+              },
+            },
+            "404": jsonResponse("The peer group's data is not built.", "Error"),
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/api/v1/batch": {
+        post: {
+          operationId: "batch",
+          summary: `Affordability for up to ${MAX_BATCH_ROWS} locations`,
+          description:
+            "Runs the lookup pipeline for each row with bounded concurrency. Rows that " +
+            "cannot be geocoded or looked up carry an `error` instead of failing the request.",
+          parameters: BATCH_QUERY.map(parameter),
+          requestBody: {
+            required: true,
+            content: {
+              "text/csv": {
+                schema: { type: "string" },
+                example: "address\n1600 Pennsylvania Ave NW, Washington, DC\n",
+              },
+              "application/json": { schema: { $ref: "#/components/schemas/BatchRequest" } },
+            },
+          },
+          responses: {
+            "200": {
+              description: "One row per input, as CSV (default) or JSON (`format=json`).",
+              headers: CACHE_HEADERS,
+              content: {
+                "text/csv": { schema: { type: "string" } },
+                "application/json": { schema: { $ref: "#/components/schemas/BatchResponse" } },
+              },
+            },
+            "400": jsonResponse("Invalid query parameters or unreadable body.", "Error"),
+          },
+        },
+      },
+      "/api/v1/tract": {
+        get: {
+          operationId: "tract",
+          summary: "ACS figures for one tract",
+          parameters: TRACT_QUERY.map(parameter),
+          responses: {
+            "200": {
+              ...jsonResponse("Tract income, tenure and home value data.", "TractResponse"),
+              headers: CACHE_HEADERS,
+            },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/api/v1/trend": {
+        get: {
+          operationId: "trend",
+          summary: "Affordability over time for one tract",
+          description:
+            "ACS income data and HUD AMI and FMRs for each year since 2017; vintages on 2010 " +
+            "tract boundaries are apportioned to the 2020 tract.",
+          parameters: TREND_QUERY.map(parameter),
+          responses: {
+            "200": {
+              ...jsonResponse("One point per year.", "TrendResponse"),
+              headers: CACHE_HEADERS,
+            },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/api/v1/report": {
+        get: {
+          operationId: "report",
+          summary: "Printable PDF report for an address, point or tract",
+          description:
+            "Two-page PDF: the tract's rent, income needed and share of households that can " +
+            "afford it, a map of the surrounding tracts, the AMI table and the data sources used.",
+          parameters: REPORT_QUERY.map(parameter),
+          responses: {
+            "200": {
+              description: "The report, as an attachment.",
+              headers: CACHE_HEADERS,
+              content: { "application/pdf": { schema: { type: "string", format: "binary" } } },
+            },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/api/v1/og": {
+        get: {
+          operationId: "shareImage",
+          summary: "Social share image for an address, point or tract",
+          description:
+            "1200×630 PNG linked from the home page's Open Graph metadata: the location, the rent " +
+            "and income needed for the unit size, the share of households that can afford it and " +
+            "a thumbnail of the surrounding tracts shaded by affordability.",
+          parameters: [
+            ...SHARE_IMAGE_QUERY.map(parameter),
+            {
+              name: "rent",
+              in: "query",
+              required: false,
+              description:
+                "Asking rent as <bedrooms>:<dollars> (at most 100000), repeated per unit size as in the home " +
+                "page permalink; the one for bedrooms replaces the FMR. Malformed values are ignored.",
+              schema: { type: "array", items: { type: "string", pattern: CUSTOM_RENT_PATTERN.source } },
+              explode: true,
+            },
+          ],
+          responses: {
+            "200": {
+              description: "The image.",
+              headers: CACHE_HEADERS,
+              content: { "image/png": { schema: { type: "string", format: "binary" } } },
+            },
+            ...ERROR_RESPONSES,
+          },
+        },
+      },
+      "/api/v1/aggregate/county": aggregatePath("county"),
+      "/api/v1/aggregate/cbsa": aggregatePath("cbsa"),
+      "/api/v1/aggregate/state": aggregatePath("state"),
+    },
+    components: { schemas: API_SCHEMAS },
+  };
+}
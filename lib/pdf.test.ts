@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  addPage,
+  createPdf,
+  drawPolygon,
+  drawText,
+  renderPdf,
+  textWidth,
+  wrapText,
+  PAGE_HEIGHT,
+} from "./pdf";
+
+function latin1(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("latin1");
+}
+
+describe("textWidth", () => {
+  it("sums Helvetica advance widths at the font size", () => {
+    // H 722 + i 222, regular; H 722 + i 278, bold
+    expect(textWidth("Hi", 10)).toBeCloseTo(9.44);
+    expect(textWidth("Hi", 10, true)).toBeCloseTo(10);
+  });
+});
+
+describe("wrapText", () => {
+  it("breaks at spaces to stay within the width", () => {
+    const lines = wrapText("one two three four five six", textWidth("one two three", 10), 10);
+    expect(lines).toEqual(["one two three", "four five six"]);
+  });
+
+  it("keeps a word wider than the line on a line of its own", () => {
+    expect(wrapText("a 1400000US55015020100 b", 20, 10)).toEqual(["a", "1400000US55015020100", "b"]);
+  });
+
+  it("collapses runs of whitespace", () => {
+    expect(wrapText("  a \n b  ", 100, 10)).toEqual(["a b"]);
+  });
+});
+
+describe("drawText", () => {
+  it("flips y, aligns by width and escapes the string", () => {
+    const page = addPage(createPdf("t"));
+    drawText(page, 100, 50, "(a\\b)", { size: 10, align: "right" });
+    const width = textWidth("(a\\b)", 10);
+
+    expect(page.ops[0]).toBe(
+      `BT /F1 10 Tf 0 0 0 rg ${Math.round((100 - width) * 100) / 100} ${PAGE_HEIGHT - 50} Td (\\(a\\\\b\\)) Tj ET`
+    );
+  });
+
+  it("writes WinAnsi bytes, and ? for characters Helvetica can't show", () => {
+    const page = addPage(createPdf("t"));
+    drawText(page, 0, 0, "1–2 • é ✓", { bold: true, color: "#ff0000" });
+    expect(page.ops[0]).toContain("/F2 10 Tf 1 0 0 rg");
+    expect(page.ops[0]).toContain("(1\x962 \x95 \xe9 ?) Tj");
+  });
+});
+
+describe("drawPolygon", () => {
+  it("fills rings by the even-odd rule and skips degenerate ones", () => {
+    const page = addPage(createPdf("t"));
+    const ring: [number, number][] = [[0, 0], [10, 0], [10, 10]];
+    drawPolygon(page, [ring, [[5, 5], [6, 6]]], { fill: "#ffffff", stroke: "#000000" });
+    expect(page.ops[0]).toBe(`0.5 w 1 1 1 rg 0 0 0 RG 0 792 m 10 792 l 10 782 l h B*`);
+
+    drawPolygon(page, [[[5, 5], [6, 6]]], { fill: "#ffffff" });
+    expect(page.ops).toHaveLength(1);
+  });
+});
+
+describe("renderPdf", () => {
+  const doc = createPdf("Report: 100 N Appleton St (Apt 2)");
+  drawText(addPage(doc), 48, 60, "First page");
+  drawText(addPage(doc), 48, 60, "Second page – café");
+  const pdf = latin1(renderPdf(doc));
+
+  it("writes a PDF 1.4 file with one page object per page", () => {
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true);
+    expect(pdf.endsWith("%%EOF\n")).toBe(true);
+    expect(pdf).toContain("/Kids [6 0 R 8 0 R] /Count 2");
+    expect(pdf).toContain("/Title (Report: 100 N Appleton St \\(Apt 2\\))");
+  });
+
+  it("points every xref entry at its object", () => {
+    const xref = Number(/startxref\n(\d+)\n/.exec(pdf)![1]);
+    expect(pdf.slice(xref, xref + 5)).toBe("xref\n");
+
+    const entries = pdf.slice(xref).split("\n").slice(3, 12);
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+    expect(pdf).toContain("/Size 10 /Root 1 0 R /Info 5 0 R");
+  });
+
+  it("gives each content stream its length in bytes", () => {
+    for (const match of Array.from(pdf.matchAll(/<< \/Length (\d+) >>\nstream\n/g))) {
+      const start = match.index! + match[0].length;
+      expect(pdf.slice(start + Number(match[1]), start + Number(match[1]) + 10)).toBe("\nendstream");
+    }
+  });
+});
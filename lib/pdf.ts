@@ -0,0 +1,242 @@
+// Minimal PDF 1.4 writer: US Letter pages of text in the standard Helvetica
+// faces, lines, rectangles and filled polygons. Enough for generated
+// reports without a PDF dependency. Coordinates are points measured from
+// the top-left corner of the page; the writer flips them for PDF.
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export interface PdfPage {
+  ops: string[];
+}
+
+export interface PdfDocument {
+  title: string;
+  pages: PdfPage[];
+}
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: string; // #rrggbb
+  align?: "left" | "right" | "center";
+}
+
+export interface ShapeStyle {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+// Helvetica and Helvetica-Bold advance widths (1/1000 em) for ASCII 32–126,
+// from the standard Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// WinAnsiEncoding code points for the non-Latin-1 characters reports use
+const WIN_ANSI: Record<string, number> = {
+  "–": 0x96, // en dash
+  "—": 0x97, // em dash
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95, // bullet
+  "…": 0x85, // ellipsis
+  "−": 0x2d, // minus sign, drawn as a hyphen
+};
+
+function encodeChar(ch: string): number {
+  const mapped = WIN_ANSI[ch];
+  if (mapped !== undefined) return mapped;
+  const code = ch.charCodeAt(0);
+  return code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f; // "?"
+}
+
+function charWidth(code: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const ch of text) width += charWidth(encodeChar(ch), bold);
+  return (width * size) / 1000;
+}
+
+/** Break text into lines no wider than maxWidth, at spaces. */
+export function wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Literal string body: WinAnsi bytes as Latin-1 chars, with ( ) \ escaped
+function pdfString(text: string): string {
+  let out = "";
+  for (const ch of text) {
+    const code = encodeChar(ch);
+    const c = String.fromCharCode(code);
+    out += c === "(" || c === ")" || c === "\\" ? `\\${c}` : c;
+  }
+  return out;
+}
+
+function num(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+function rgb(hex: string): string {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map((c) => num(c / 255))
+    .join(" ");
+}
+
+export function createPdf(title: string): PdfDocument {
+  return { title, pages: [] };
+}
+
+export function addPage(doc: PdfDocument): PdfPage {
+  const page: PdfPage = { ops: [] };
+  doc.pages.push(page);
+  return page;
+}
+
+/** Draw one line of text with its baseline at y. */
+export function drawText(
+  page: PdfPage,
+  x: number,
+  y: number,
+  text: string,
+  { size = 10, bold = false, color = "#000000", align = "left" }: TextStyle = {}
+): void {
+  const width = textWidth(text, size, bold);
+  const left = align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+  page.ops.push(
+    `BT /${bold ? "F2" : "F1"} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(PAGE_HEIGHT - y)} Td (${pdfString(text)}) Tj ET`
+  );
+}
+
+export function drawLine(
+  page: PdfPage,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  { stroke = "#000000", lineWidth = 0.5 }: ShapeStyle = {}
+): void {
+  page.ops.push(
+    `${num(lineWidth)} w ${rgb(stroke)} RG ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`
+  );
+}
+
+function paint({ fill, stroke }: ShapeStyle): string {
+  return fill && stroke ? "B" : fill ? "f" : "S";
+}
+
+function shapeColors({ fill, stroke, lineWidth = 0.5 }: ShapeStyle): string {
+  return [
+    `${num(lineWidth)} w`,
+    fill ? `${rgb(fill)} rg` : "",
+    stroke ? `${rgb(stroke)} RG` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+export function drawRect(
+  page: PdfPage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  style: ShapeStyle
+): void {
+  page.ops.push(
+    `${shapeColors(style)} ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re ${paint(style)}`
+  );
+}
+
+/** Fill and/or stroke closed rings (holes by the even-odd rule). */
+export function drawPolygon(page: PdfPage, rings: [number, number][][], style: ShapeStyle): void {
+  const path = rings
+    .filter((ring) => ring.length > 2)
+    .map((ring) =>
+      ring
+        .map(([x, y], i) => `${num(x)} ${num(PAGE_HEIGHT - y)} ${i === 0 ? "m" : "l"}`)
+        .join(" ") + " h"
+    )
+    .join(" ");
+  if (!path) return;
+  const op = paint(style);
+  page.ops.push(`${shapeColors(style)} ${path} ${op === "S" ? "S" : `${op}*`}`);
+}
+
+/** Clip drawing to a rectangle until the matching endClip. */
+export function beginClip(page: PdfPage, x: number, y: number, width: number, height: number): void {
+  page.ops.push(`q ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re W n`);
+}
+
+export function endClip(page: PdfPage): void {
+  page.ops.push("Q");
+}
+
+/** Serialize the document: catalog, page tree, two fonts, then each page and its content. */
+export function renderPdf(doc: PdfDocument): Uint8Array<ArrayBuffer> {
+  const objects: string[] = [];
+  const pageIds = doc.pages.map((_, i) => 6 + i * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title (${pdfString(doc.title)}) /Producer (AMI Affordability Map) >>`;
+  doc.pages.forEach((page, i) => {
+    const content = page.ops.join("\n");
+    objects[pageIds[i]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+    objects[pageIds[i] + 1] =
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`;
+  });
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(out, "latin1");
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Uint8Array.from(Buffer.from(out, "latin1"));
+}
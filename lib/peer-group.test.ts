@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { describePeerGroup, restOfStateGroup } from "./peer-group";
+
+describe("restOfStateGroup", () => {
+  it("codes a state's non-CBSA tracts as 999 + state FIPS", () => {
+    expect(restOfStateGroup("30")).toEqual({ code: "99930", name: "Rest of Montana", type: "rest-of-state" });
+  });
+});
+
+describe("describePeerGroup", () => {
+  it("names each kind of group in running text", () => {
+    expect(describePeerGroup({ code: "25540", name: "Helena, MT", type: "micro" })).toBe(
+      "the Helena, MT micropolitan area"
+    );
+    expect(describePeerGroup({ code: "33540", name: "Missoula, MT", type: "metro" })).toBe(
+      "the Missoula, MT metro area"
+    );
+    expect(describePeerGroup({ code: "33540", name: "Missoula, MT", type: "cbsa" })).toBe("the Missoula, MT area");
+    expect(describePeerGroup(restOfStateGroup("30"))).toBe(
+      "the rest of Montana outside metro and micro areas"
+    );
+  });
+
+  it("doesn't repeat HUD's own \"FMR Area\" suffix", () => {
+    const name = "Boston-Cambridge-Quincy, MA-NH HUD Metro FMR Area";
+    expect(describePeerGroup({ code: "METRO14460MM1120", name, type: "hmfa" })).toBe(`the ${name}`);
+    expect(describePeerGroup({ code: "NCNTY30049N30049", name: "Lewis and Clark County, MT", type: "hmfa" })).toBe(
+      "the Lewis and Clark County, MT HUD FMR area"
+    );
+  });
+});
@@ -0,0 +1,64 @@
+// Peer groups: the set of tracts a tract is ranked against and the map
+// shows around it. Either the HUD FMR area (HMFA) whose AMI and FMR apply to
+// the tract, or its OMB geography: the county's CBSA (metro or micro) when
+// it has one, otherwise the non-CBSA remainder of its state.
+// No Node.js imports so this works in "use client" modules too.
+
+import { STATE_NAMES } from "./geoid";
+
+// "cbsa" is a CBSA from a build that didn't record metro vs micro
+export type PeerGroupType = "hmfa" | "metro" | "micro" | "cbsa" | "rest-of-state";
+
+export const PEER_GROUP_TYPES: PeerGroupType[] = ["hmfa", "metro", "micro", "cbsa", "rest-of-state"];
+
+// Which geography to rank against; "hmfa" falls back to "cbsa" where the
+// HUD crosswalk has no entry
+export type PeerGeography = "hmfa" | "cbsa";
+
+export const PEER_GEOGRAPHIES: PeerGeography[] = ["hmfa", "cbsa"];
+
+export const DEFAULT_PEER_GEOGRAPHY: PeerGeography = "hmfa";
+
+export const PEER_GEOGRAPHY_LABELS: Record<PeerGeography, string> = {
+  hmfa: "HUD FMR area (matches the AMI used)",
+  cbsa: "Metro / micro area (OMB)",
+};
+
+export function isPeerGeography(value: unknown): value is PeerGeography {
+  return typeof value === "string" && (PEER_GEOGRAPHIES as string[]).includes(value);
+}
+
+export interface PeerGroup {
+  code: string;
+  name: string;
+  type: PeerGroupType;
+}
+
+// CBSA codes stop below 50000, so 999 + state FIPS never collides with one.
+// scripts/build-msa-data.mjs and build-msa-geo.mjs use the same codes.
+const REST_OF_STATE_PREFIX = "999";
+
+export function restOfStateGroup(stateFips: string): PeerGroup {
+  return {
+    code: `${REST_OF_STATE_PREFIX}${stateFips}`,
+    name: `Rest of ${STATE_NAMES[stateFips] ?? `state ${stateFips}`}`,
+    type: "rest-of-state",
+  };
+}
+
+/** Noun phrase for the group in running text, e.g. "the Helena, MT micropolitan area". */
+export function describePeerGroup(group: PeerGroup): string {
+  switch (group.type) {
+    case "hmfa":
+      // HUD names metro areas "... HUD Metro FMR Area" but not MSAs or counties
+      return /FMR Area$/i.test(group.name) ? `the ${group.name}` : `the ${group.name} HUD FMR area`;
+    case "metro":
+      return `the ${group.name} metro area`;
+    case "micro":
+      return `the ${group.name} micropolitan area`;
+    case "cbsa":
+      return `the ${group.name} area`;
+    case "rest-of-state":
+      return `${group.name.replace(/^Rest/, "the rest")} outside metro and micro areas`;
+  }
+}
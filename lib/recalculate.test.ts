@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { NextRequest } from "next/server";
+import { GET } from "@/app/api/v1/lookup/route";
+import { recalculate } from "./recalculate";
+import { DEFAULT_MORTGAGE_PARAMS } from "./mortgage";
+import type { LookupResponse } from "./api-schema";
+
+// Tract 55015020100 as replayed from fixtures/
+let raw: LookupResponse;
+
+beforeAll(async () => {
+  const res = await GET(new NextRequest("http://localhost/api/v1/lookup?tract=55015020100"));
+  raw = await res.json();
+});
+
+describe("recalculate", () => {
+  it("reproduces the lookup's own figures", () => {
+    const result = recalculate(raw, 4, 2, "linear", "all", DEFAULT_MORTGAGE_PARAMS);
+    expect(result.percentCanAfford).toBe(raw.percentCanAfford);
+    expect(result.percentCanAffordInterval).toEqual(raw.percentCanAffordInterval);
+  });
+
+  it("gives renter figures an interval from the B25118 margins of error", () => {
+    const result = recalculate(raw, 4, 2, "linear", "renter", DEFAULT_MORTGAGE_PARAMS);
+    expect(result.tenure).toBe("renter");
+    expect(result.totalHouseholds).toBe(425);
+    expect(result.percentCanAfford).toBe(45.0);
+
+    const interval = result.percentCanAffordInterval!;
+    expect(interval.low).toBeLessThan(45.0);
+    expect(interval.high).toBeGreaterThan(45.0);
+    // 425 renters carry a wider interval than the tract's 2,045 households
+    expect(interval.moe).toBeGreaterThan(raw.percentCanAffordInterval.moe);
+    expect(result.amiTable.every((row) => row.percentCanAffordInterval !== null)).toBe(true);
+  });
+
+  it("keeps the FMR's figures as the reference for an asking rent", () => {
+    const result = recalculate(raw, 4, 2, "linear", "renter", DEFAULT_MORTGAGE_PARAMS, 1500);
+    expect(result.rentSource).toBe("custom");
+    expect(result.monthlyRent).toBe(1500);
+    expect(result.incomeThreshold).toBe(60000);
+    expect(result.percentCanAfford).toBe(28.7);
+    // The tract's 2 BR Small Area FMR, scored on the same renter households
+    expect(result.fmr).toEqual({ monthlyRent: 1040, incomeThreshold: 41600, percentCanAfford: 45.0 });
+  });
+
+  it("reports the FMR's own figures as the reference without an asking rent", () => {
+    const result = recalculate(raw, 4, 2, "linear", "all", DEFAULT_MORTGAGE_PARAMS);
+    expect(result.rentSource).toBe("fmr");
+    expect(result.fmr).toEqual({
+      monthlyRent: result.monthlyRent,
+      incomeThreshold: result.incomeThreshold,
+      percentCanAfford: result.percentCanAfford,
+    });
+    expect(result.fmr).toEqual({ monthlyRent: 1040, incomeThreshold: 41600, percentCanAfford: 76.4 });
+  });
+
+  it("flags a tenure estimate whose interval is wide relative to it", () => {
+    // A $4,000 rent needs $160,000, which only the top B25118 bracket's
+    // 10 ± 23 renters earn
+    const result = recalculate(raw, 4, 2, "linear", "renter", DEFAULT_MORTGAGE_PARAMS, 4000);
+    expect(result.percentCanAffordInterval?.lowReliability).toBe(true);
+  });
+
+  it("has no interval for tenure data without margins of error", () => {
+    const { renter, owner } = raw.incomeByTenure!;
+    const withoutMoes: LookupResponse = {
+      ...raw,
+      incomeByTenure: {
+        owner,
+        renter: {
+          ...renter,
+          totalHouseholdsMoe: undefined,
+          brackets: renter.brackets.map((b) => ({ ...b, moe: undefined })),
+        },
+      },
+    };
+    const result = recalculate(withoutMoes, 4, 2, "linear", "renter", DEFAULT_MORTGAGE_PARAMS);
+    expect(result.percentCanAfford).toBe(45.0);
+    expect(result.percentCanAffordInterval).toBeNull();
+  });
+});
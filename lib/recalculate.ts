@@ -0,0 +1,152 @@
+// Client-side recalculation of a lookup for another household size,
+// bedroom count, estimator, tenure, home price or asking rent, without
+// refetching.
+// No Node.js imports so this works in "use client" modules too.
+
+import {
+  computeAffordabilityPct,
+  estimateHouseholdsAbove,
+  TENURE_BRACKET_BOUNDS,
+  BRACKET_BOUNDS,
+  HouseholdTenure,
+  IncomeEstimatorMethod,
+  IncomeEstimatorOptions,
+} from "./bracket-math";
+import { percentAboveInterval } from "./moe";
+import { buildAmiTable } from "./ami-table";
+import { incomeLimitForSize } from "./hud-api";
+import { computeOwnership, MortgageParams } from "./mortgage";
+import { rentAmiPercent } from "./custom-rent";
+import type { LookupResponse } from "./api-schema";
+
+/**
+ * The lookup's figures for another household size, unit, estimator, tenure
+ * or home price. A customRent replaces the FMR in the headline figures and
+ * the FMR's own are kept alongside for reference.
+ */
+export function recalculate(
+  rawData: LookupResponse,
+  householdSize: number,
+  bedrooms: number,
+  estimator: IncomeEstimatorMethod,
+  tenure: HouseholdTenure,
+  mortgageParams: MortgageParams,
+  customRent: number | null = null
+) {
+  const fmr = rawData.fmrByBedroom[bedrooms];
+  const monthlyRent = customRent ?? fmr;
+  const incomeNeeded = (monthlyRent * 12) / 0.3;
+  const fmrIncomeNeeded = (fmr * 12) / 0.3;
+  const sizeAdjustedAmi = incomeLimitForSize(rawData.incomeLimitsBySize, householdSize);
+
+  // Renter/owner distributions use B25118's coarser brackets and B25119 medians
+  const tenureData = tenure !== "all" ? rawData.incomeByTenure?.[tenure] : null;
+  const totalHouseholds = tenureData ? tenureData.totalHouseholds : rawData.totalHouseholds;
+  const counts = (tenureData ? tenureData.brackets : rawData.brackets).map((b) => b.count);
+  const options: IncomeEstimatorOptions = {
+    method: estimator,
+    median: tenureData ? tenureData.median : rawData.medianBySize[0],
+    bounds: tenureData ? TENURE_BRACKET_BOUNDS : BRACKET_BOUNDS,
+  };
+
+  const percentCanAfford = computeAffordabilityPct(
+    incomeNeeded,
+    totalHouseholds,
+    counts,
+    options
+  );
+
+  const householdsAboveThreshold = estimateHouseholdsAbove(incomeNeeded, counts, options);
+
+  // The peer group's households as a whole, from the summed B19001 rows
+  const msaOptions = { method: estimator, bounds: BRACKET_BOUNDS };
+  const msaPercentCanAfford = rawData.msaIncome
+    ? computeAffordabilityPct(
+        incomeNeeded,
+        rawData.msaIncome.totalHouseholds,
+        rawData.msaIncome.bracketCounts,
+        msaOptions
+      )
+    : null;
+
+  // B19001 or B25118 margins of error; tenure data recorded before B25118's
+  // were requested has none, and gets no interval
+  const totalMoe = tenureData ? tenureData.totalHouseholdsMoe ?? null : rawData.totalHouseholdsMoe;
+  const moes = totalMoe !== null
+    ? (tenureData ? tenureData.brackets : rawData.brackets).map((b) => b.moe ?? 0)
+    : null;
+  const intervalFor = (threshold: number, percent: number) =>
+    moes
+      ? percentAboveInterval(
+          threshold,
+          percent,
+          totalHouseholds,
+          totalMoe ?? 0,
+          counts,
+          moes,
+          options
+        )
+      : null;
+
+  // B19019 index: 0 = overall, 1 = 1-person, ..., 7 = 7+-person
+  // For householdSize >= 7, use index 7
+  const medianIndex = Math.min(householdSize, 7);
+  const tractMedian = rawData.medianBySize[medianIndex];
+  const tractMedianMoe = rawData.medianMoeBySize[medianIndex];
+
+  const amiTable = buildAmiTable({
+    incomeLimits: rawData.incomeLimits,
+    incomeLimitsBySize: rawData.incomeLimitsBySize,
+    householdSize,
+    totalHouseholds,
+    bracketCounts: counts,
+    options,
+    intervalFor,
+  });
+
+  // Ownership at the chosen price, defaulting to the median home value
+  const homePrice = mortgageParams.homePrice
+    ?? rawData.homeValue?.tractMedian
+    ?? rawData.homeValue?.msaMedian;
+  const ownership = homePrice
+    ? computeOwnership(
+        homePrice,
+        mortgageParams,
+        { totalHouseholds, bracketCounts: counts, options },
+        rawData.msaIncome ? { ...rawData.msaIncome, options: msaOptions } : null,
+        rawData.homeValue
+      )
+    : null;
+
+  return {
+    incomeThreshold: incomeNeeded,
+    monthlyRent,
+    rentSource: customRent !== null ? ("custom" as const) : ("fmr" as const),
+    // AMI level whose income affords the rent at 30%
+    rentAmiPercent: rentAmiPercent(monthlyRent, sizeAdjustedAmi),
+    percentCanAfford,
+    percentCanAffordInterval: intervalFor(incomeNeeded, percentCanAfford),
+    msaPercentCanAfford,
+    // The FMR's figures, the reference for a custom rent
+    fmr: {
+      monthlyRent: fmr,
+      incomeThreshold: fmrIncomeNeeded,
+      percentCanAfford:
+        customRent !== null
+          ? computeAffordabilityPct(fmrIncomeNeeded, totalHouseholds, counts, options)
+          : percentCanAfford,
+    },
+    householdsAboveThreshold: Math.round(householdsAboveThreshold),
+    totalHouseholds,
+    tenure: tenureData ? tenure : "all",
+    sizeAdjustedAmi,
+    tractMedian,
+    tractMedianMoe,
+    amiTable,
+    // The distribution behind these figures, for the LIHTC calculator
+    distribution: { totalHouseholds, bracketCounts: counts, options },
+    ownership,
+  };
+}
+
+export type RecalculatedLookup = ReturnType<typeof recalculate>;
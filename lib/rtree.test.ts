@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { buildRTree, searchRTree, BBox } from "./rtree";
+
+// 40 × 25 grid of unit cells, enough for several levels of 16-entry nodes
+const cells = Array.from({ length: 1000 }, (_, i) => {
+  const x = i % 40;
+  const y = Math.floor(i / 40);
+  return { bbox: [x, y, x + 1, y + 1] as BBox, value: i };
+});
+
+describe("searchRTree", () => {
+  const tree = buildRTree(cells);
+
+  it("finds the cell containing a point", () => {
+    expect(tree.size).toBe(1000);
+    expect(searchRTree(tree, 12.5, 7.5)).toEqual([7 * 40 + 12]);
+  });
+
+  it("includes every box touching the point", () => {
+    expect(searchRTree(tree, 1, 1).sort((a, b) => a - b)).toEqual([0, 1, 40, 41]);
+  });
+
+  it("matches a linear scan", () => {
+    // Deterministic points on and off the grid
+    for (let i = 0; i < 200; i++) {
+      const x = ((i * 7919) % 4300) / 100 - 1;
+      const y = ((i * 104729) % 2800) / 100 - 1;
+      const expected = cells
+        .filter(({ bbox: [minX, minY, maxX, maxY] }) => x >= minX && x <= maxX && y >= minY && y <= maxY)
+        .map(({ value }) => value);
+      expect(searchRTree(tree, x, y).sort((a, b) => a - b)).toEqual(expected);
+    }
+  });
+
+  it("is empty for an empty tree", () => {
+    expect(searchRTree(buildRTree([]), 0, 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+// Static R-tree over bounding boxes, bulk-loaded with Sort-Tile-Recursive
+// packing. Built once per dataset and only queried afterwards, so there is
+// no insert or delete.
+
+export type BBox = [minX: number, minY: number, maxX: number, maxY: number];
+
+interface RTreeNode<T> {
+  bbox: BBox;
+  children: RTreeNode<T>[] | null; // null for leaf entries
+  value: T | null;
+}
+
+export interface RTree<T> {
+  root: RTreeNode<T> | null;
+  size: number;
+}
+
+const NODE_SIZE = 16;
+
+function unionBBox(nodes: RTreeNode<unknown>[]): BBox {
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const { bbox: b } of nodes) {
+    if (b[0] < bbox[0]) bbox[0] = b[0];
+    if (b[1] < bbox[1]) bbox[1] = b[1];
+    if (b[2] > bbox[2]) bbox[2] = b[2];
+    if (b[3] > bbox[3]) bbox[3] = b[3];
+  }
+  return bbox;
+}
+
+const centerX = (n: RTreeNode<unknown>) => (n.bbox[0] + n.bbox[2]) / 2;
+const centerY = (n: RTreeNode<unknown>) => (n.bbox[1] + n.bbox[3]) / 2;
+
+// One STR level: sort by x into vertical slices, then by y within each
+// slice, and group runs of NODE_SIZE under a parent
+function packLevel<T>(nodes: RTreeNode<T>[]): RTreeNode<T>[] {
+  const parentCount = Math.ceil(nodes.length / NODE_SIZE);
+  const sliceSize = Math.ceil(nodes.length / Math.ceil(Math.sqrt(parentCount))) || 1;
+  const sorted = [...nodes].sort((a, b) => centerX(a) - centerX(b));
+
+  const parents: RTreeNode<T>[] = [];
+  for (let i = 0; i < sorted.length; i += sliceSize) {
+    const slice = sorted.slice(i, i + sliceSize).sort((a, b) => centerY(a) - centerY(b));
+    for (let j = 0; j < slice.length; j += NODE_SIZE) {
+      const children = slice.slice(j, j + NODE_SIZE);
+      parents.push({ bbox: unionBBox(children), children, value: null });
+    }
+  }
+  return parents;
+}
+
+export function buildRTree<T>(items: { bbox: BBox; value: T }[]): RTree<T> {
+  if (items.length === 0) return { root: null, size: 0 };
+
+  let level: RTreeNode<T>[] = items.map(({ bbox, value }) => ({ bbox, children: null, value }));
+  while (level.length > 1) level = packLevel(level);
+  return { root: level[0], size: items.length };
+}
+
+/** Values whose bounding box contains the point (x = lng, y = lat). */
+export function searchRTree<T>(tree: RTree<T>, x: number, y: number): T[] {
+  const found: T[] = [];
+  const stack = tree.root ? [tree.root] : [];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    const [minX, minY, maxX, maxY] = node.bbox;
+    if (x < minX || x > maxX || y < minY || y > maxY) continue;
+    if (node.children) stack.push(...node.children);
+    else found.push(node.value as T);
+  }
+  return found;
+}
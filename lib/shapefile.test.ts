@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import * as shapefile from "shapefile";
+import { writePolygonShapefile, ShapefileField } from "./shapefile";
+
+const FIELDS: ShapefileField[] = [
+  { name: "GEOID", type: "C", length: 11 },
+  { name: "PCT_AFFORD", type: "N", length: 5, decimals: 1 },
+];
+
+// A square with a square hole, both wound the GeoJSON way (outer counter-clockwise)
+const SQUARE_WITH_HOLE: GeoJSON.Polygon = {
+  type: "Polygon",
+  coordinates: [
+    [[-88.5, 44.1], [-88.3, 44.1], [-88.3, 44.3], [-88.5, 44.3], [-88.5, 44.1]],
+    [[-88.45, 44.15], [-88.45, 44.25], [-88.35, 44.25], [-88.35, 44.15], [-88.45, 44.15]],
+  ],
+};
+
+describe("writePolygonShapefile", () => {
+  const files = writePolygonShapefile("tracts", FIELDS, [
+    { geometry: SQUARE_WITH_HOLE, values: ["55015020100", 76.4] },
+    { geometry: null, values: ["55015020200", null] },
+  ]);
+  const file = (extension: string) => files.find((f) => f.name === `tracts.${extension}`)!.data;
+
+  it("bundles the geometry, index, attributes and projection", () => {
+    expect(files.map((f) => f.name)).toEqual(["tracts.shp", "tracts.shx", "tracts.dbf", "tracts.prj"]);
+    expect(new TextDecoder().decode(file("prj"))).toMatch(/^GEOGCS\["GCS_North_American_1983"/);
+  });
+
+  it("reads back as the same features", async () => {
+    const collection = await shapefile.read(file("shp"), file("dbf"));
+    expect(collection.bbox).toEqual([-88.5, 44.1, -88.3, 44.3]);
+
+    const [tract, empty] = collection.features;
+    expect(tract.properties).toEqual({ GEOID: "55015020100", PCT_AFFORD: 76.4 });
+    const polygon = tract.geometry as GeoJSON.Polygon;
+    expect(polygon.type).toBe("Polygon");
+    // The reader only nests the hole if the rings are wound outer-clockwise
+    expect(polygon.coordinates).toHaveLength(2);
+    expect(polygon.coordinates[0]).toHaveLength(5);
+
+    expect(empty.geometry).toBeNull();
+    expect(empty.properties).toEqual({ GEOID: "55015020200", PCT_AFFORD: null });
+  });
+});
@@ -0,0 +1,217 @@
+// Minimal ESRI shapefile writer for polygon layers: the .shp geometry, its
+// .shx index, a dBASE III .dbf attribute table and a .prj, per the 1998
+// ESRI technical description. Coordinates are longitude/latitude.
+// No Node.js imports so this works in "use client" modules too.
+
+import type { ZipEntry } from "./zip";
+
+export interface ShapefileField {
+  // dBASE limits names to 10 characters
+  name: string;
+  // C = text, N = number
+  type: "C" | "N";
+  length: number;
+  decimals?: number;
+}
+
+export type ShapefileValue = string | number | null;
+
+export interface ShapefileRecord {
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon | null;
+  values: ShapefileValue[];
+}
+
+const NULL_SHAPE = 0;
+const POLYGON = 5;
+const HEADER_BYTES = 100;
+
+// Census cartographic boundary files, which the tract TopoJSON is built
+// from, are in NAD83 geographic coordinates
+const NAD83_PRJ =
+  'GEOGCS["GCS_North_American_1983",DATUM["D_North_American_1983",' +
+  'SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],' +
+  'UNIT["Degree",0.0174532925199433]]';
+
+type Ring = GeoJSON.Position[];
+
+// Shoelace sum; positive for counter-clockwise rings
+function signedArea(ring: Ring): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+}
+
+// Shapefiles want outer rings clockwise and holes counter-clockwise,
+// the opposite of GeoJSON's recommendation, so orient every ring explicitly
+function shapefileRings(geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon): Ring[] {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.flatMap((rings) =>
+    rings
+      .filter((ring) => ring.length >= 4)
+      .map((ring, i) => {
+        const clockwise = signedArea(ring) < 0;
+        return clockwise === (i === 0) ? ring : [...ring].reverse();
+      })
+  );
+}
+
+type Bounds = [number, number, number, number];
+
+function ringBounds(rings: Ring[]): Bounds {
+  const bounds: Bounds = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const ring of rings) {
+    for (const [x, y] of ring) {
+      bounds[0] = Math.min(bounds[0], x);
+      bounds[1] = Math.min(bounds[1], y);
+      bounds[2] = Math.max(bounds[2], x);
+      bounds[3] = Math.max(bounds[3], y);
+    }
+  }
+  return bounds;
+}
+
+function writeHeader(view: DataView, fileBytes: number, bounds: Bounds) {
+  view.setInt32(0, 9994); // file code, big-endian
+  view.setInt32(24, fileBytes / 2); // length in 16-bit words, big-endian
+  view.setInt32(28, 1000, true); // version
+  view.setInt32(32, POLYGON, true);
+  bounds.forEach((b, i) => view.setFloat64(36 + i * 8, b, true));
+}
+
+function writeGeometry(records: ShapefileRecord[]): { shp: Uint8Array; shx: Uint8Array } {
+  const shapes = records.map(({ geometry }) => {
+    const rings = geometry ? shapefileRings(geometry) : [];
+    const points = rings.reduce((sum, ring) => sum + ring.length, 0);
+    // Content bytes: shape type, then for polygons bbox, counts, parts, points
+    const bytes = rings.length > 0 ? 44 + 4 * rings.length + 16 * points : 4;
+    return { rings, points, bytes };
+  });
+
+  const shpBytes = shapes.reduce((sum, shape) => sum + 8 + shape.bytes, HEADER_BYTES);
+  const shxBytes = HEADER_BYTES + 8 * shapes.length;
+  const shp = new Uint8Array(shpBytes);
+  const shx = new Uint8Array(shxBytes);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+
+  const drawn = shapes.filter((shape) => shape.rings.length > 0);
+  const layerBounds: Bounds =
+    drawn.length > 0
+      ? drawn
+          .map((shape) => ringBounds(shape.rings))
+          .reduce((a, b) => [
+            Math.min(a[0], b[0]),
+            Math.min(a[1], b[1]),
+            Math.max(a[2], b[2]),
+            Math.max(a[3], b[3]),
+          ])
+      : [0, 0, 0, 0];
+  writeHeader(shpView, shpBytes, layerBounds);
+  writeHeader(shxView, shxBytes, layerBounds);
+
+  let pos = HEADER_BYTES;
+  shapes.forEach(({ rings, points, bytes }, i) => {
+    shxView.setInt32(HEADER_BYTES + i * 8, pos / 2);
+    shxView.setInt32(HEADER_BYTES + i * 8 + 4, bytes / 2);
+
+    shpView.setInt32(pos, i + 1); // record number, 1-based
+    shpView.setInt32(pos + 4, bytes / 2);
+    pos += 8;
+    if (rings.length === 0) {
+      shpView.setInt32(pos, NULL_SHAPE, true);
+      pos += 4;
+      return;
+    }
+
+    shpView.setInt32(pos, POLYGON, true);
+    ringBounds(rings).forEach((b, j) => shpView.setFloat64(pos + 4 + j * 8, b, true));
+    shpView.setInt32(pos + 36, rings.length, true);
+    shpView.setInt32(pos + 40, points, true);
+    pos += 44;
+    let start = 0;
+    for (const ring of rings) {
+      shpView.setInt32(pos, start, true);
+      pos += 4;
+      start += ring.length;
+    }
+    for (const ring of rings) {
+      for (const [x, y] of ring) {
+        shpView.setFloat64(pos, x, true);
+        shpView.setFloat64(pos + 8, y, true);
+        pos += 16;
+      }
+    }
+  });
+
+  return { shp, shx };
+}
+
+// dBASE text is single-byte; anything outside ASCII becomes "?"
+function ascii(text: string): string {
+  return text.replace(/[^\x20-\x7e]/g, "?");
+}
+
+function formatValue(field: ShapefileField, value: ShapefileValue): string {
+  if (value === null || value === "") return " ".repeat(field.length);
+  if (field.type === "C") return ascii(String(value)).slice(0, field.length).padEnd(field.length);
+  const text = typeof value === "number" ? value.toFixed(field.decimals ?? 0) : ascii(value);
+  // A number too wide for its field is stored as blank rather than truncated
+  return text.length > field.length ? " ".repeat(field.length) : text.padStart(field.length);
+}
+
+function writeDbf(fields: ShapefileField[], records: ShapefileRecord[], modified: Date): Uint8Array {
+  const headerBytes = 32 + 32 * fields.length + 1;
+  const recordBytes = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const dbf = new Uint8Array(headerBytes + recordBytes * records.length + 1);
+  const view = new DataView(dbf.buffer);
+
+  dbf[0] = 0x03; // dBASE III without memo
+  dbf[1] = modified.getFullYear() - 1900;
+  dbf[2] = modified.getMonth() + 1;
+  dbf[3] = modified.getDate();
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerBytes, true);
+  view.setUint16(10, recordBytes, true);
+
+  const writeAscii = (text: string, at: number) => {
+    for (let i = 0; i < text.length; i++) dbf[at + i] = text.charCodeAt(i);
+  };
+
+  fields.forEach((field, i) => {
+    const at = 32 + i * 32;
+    writeAscii(ascii(field.name).slice(0, 10), at);
+    writeAscii(field.type, at + 11);
+    dbf[at + 16] = field.length;
+    dbf[at + 17] = field.decimals ?? 0;
+  });
+  dbf[headerBytes - 1] = 0x0d;
+
+  let pos = headerBytes;
+  for (const record of records) {
+    dbf[pos++] = 0x20; // not deleted
+    fields.forEach((field, i) => {
+      writeAscii(formatValue(field, record.values[i] ?? null), pos);
+      pos += field.length;
+    });
+  }
+  dbf[pos] = 0x1a; // end of file
+  return dbf;
+}
+
+/** The files of a polygon shapefile named `name`, ready to zip. */
+export function writePolygonShapefile(
+  name: string,
+  fields: ShapefileField[],
+  records: ShapefileRecord[],
+  modified: Date = new Date()
+): ZipEntry[] {
+  const { shp, shx } = writeGeometry(records);
+  return [
+    { name: `${name}.shp`, data: shp },
+    { name: `${name}.shx`, data: shx },
+    { name: `${name}.dbf`, data: writeDbf(fields, records, modified) },
+    { name: `${name}.prj`, data: new TextEncoder().encode(NAD83_PRJ) },
+  ];
+}
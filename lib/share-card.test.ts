@@ -0,0 +1,132 @@
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// Two tracts in one metro; only the first has a Small Area FMR
+const TRACTS = ["55015020100", "55015020200"];
+const BRACKETS = Array(16).fill(10);
+
+// Two side-by-side squares, in longitude/latitude without a transform
+const TOPOLOGY = {
+  type: "Topology",
+  objects: {
+    tracts: {
+      type: "GeometryCollection",
+      geometries: [
+        { type: "Polygon", arcs: [[0]], properties: { GEOID: TRACTS[0] } },
+        { type: "Polygon", arcs: [[1]], properties: { GEOID: TRACTS[1] } },
+      ],
+    },
+  },
+  arcs: [
+    [[-88.40, 44.20], [-88.39, 44.20], [-88.39, 44.21], [-88.40, 44.21], [-88.40, 44.20]],
+    [[-88.39, 44.20], [-88.38, 44.20], [-88.38, 44.21], [-88.39, 44.21], [-88.39, 44.20]],
+  ],
+};
+
+const OPTIONS = { bedrooms: 2, estimator: "linear", tenure: "all", peers: "cbsa", customRent: null } as const;
+
+let dir: string;
+
+function write(path: string, content: unknown) {
+  mkdirSync(join(dir, path, ".."), { recursive: true });
+  writeFileSync(join(dir, path), JSON.stringify(content));
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "share-card-"));
+  write("data/county-to-cbsa.json", { "55015": { code: "11540", name: "Appleton, WI", type: "metro" } });
+  write("data/msa/11540.json", TRACTS.map((fips) => [fips, 160, ...BRACKETS]));
+  write("data/safmr-by-zip.json", { "54110": [760, 830, 1040, 1390, 1460] });
+  write("data/tract-to-zip.json", { [TRACTS[0]]: "54110" });
+  // callKey([stateFips, countyFips, countySubFips])
+  write("fixtures/hud/fetchFairMarketRents/55_015_-.json", {
+    fmrByBedroom: [700, 780, 900, 1200, 1300],
+    year: "2025",
+    isSafmr: false,
+    countyName: "Calumet County",
+  });
+  vi.spyOn(process, "cwd").mockReturnValue(dir);
+  // The data files and provider are cached at module level
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("buildShareCard", () => {
+  it("prices a tract at its Small Area FMR", async () => {
+    const { buildShareCard } = await import("./share-card");
+    const card = await buildShareCard(TRACTS[0], OPTIONS);
+
+    expect(card).toMatchObject({
+      geoid: TRACTS[0],
+      peerGroupName: "Appleton, WI",
+      tenure: "all",
+      monthlyRent: 1040,
+      rentSource: "fmr",
+      incomeNeeded: 41600,
+    });
+    // 68% of the $40k–$45k bracket and all 8 above: 86.8 of 160
+    expect(card!.percentCanAfford).toBe(54.3);
+  });
+
+  it("falls back to the county FMR for a tract without a Small Area FMR", async () => {
+    const { buildShareCard } = await import("./share-card");
+    const card = await buildShareCard(TRACTS[1], OPTIONS);
+
+    expect(card).toMatchObject({ monthlyRent: 900, rentSource: "fmr", incomeNeeded: 36000 });
+  });
+
+  it("has no rent when neither a Small Area FMR nor the county FMR is available", async () => {
+    rmSync(join(dir, "fixtures"), { recursive: true });
+    const { buildShareCard } = await import("./share-card");
+    const card = await buildShareCard(TRACTS[1], OPTIONS);
+
+    expect(card).toMatchObject({ monthlyRent: null, incomeNeeded: null, percentCanAfford: null });
+  });
+
+  it("uses an asking rent in place of the FMR without calling HUD", async () => {
+    rmSync(join(dir, "fixtures"), { recursive: true });
+    const { buildShareCard } = await import("./share-card");
+    const card = await buildShareCard(TRACTS[0], { ...OPTIONS, customRent: 1500 });
+    const atFmr = await buildShareCard(TRACTS[0], OPTIONS);
+
+    expect(card).toMatchObject({ monthlyRent: 1500, rentSource: "custom", incomeNeeded: 60000 });
+    // $60,000 starts a bracket: the 6 from there up, 60 of 160
+    expect(card!.percentCanAfford).toBe(37.5);
+    expect(atFmr!.percentCanAfford).toBe(54.3);
+  });
+
+  it("says it used all households when renter data isn't built", async () => {
+    const { buildShareCard } = await import("./share-card");
+    const card = await buildShareCard(TRACTS[0], { ...OPTIONS, tenure: "renter" });
+
+    expect(card!.tenure).toBe("all");
+  });
+
+  it("draws the tract last, over its neighbors, when geometry is built", async () => {
+    write("data/msa-geo/11540.json", TOPOLOGY);
+    const { buildShareCard } = await import("./share-card");
+    const card = await buildShareCard(TRACTS[0], OPTIONS);
+
+    expect(card!.map).toHaveLength(2);
+    expect(card!.map.every(({ path, fill }) => path.startsWith("M") && path.endsWith("Z") && fill)).toBe(true);
+    // The tract sits centered in the thumbnail, its neighbor to the east
+    expect(card!.map[1].path).toBe("M152.2,266.7L247.8,266.7L247.8,133.3L152.2,133.3L152.2,266.7Z");
+    expect(card!.map[0].path).toBe("M247.8,266.7L343.4,266.7L343.4,133.3L247.8,133.3L247.8,266.7Z");
+  });
+
+  it("has an empty map without built geometry", async () => {
+    const { buildShareCard } = await import("./share-card");
+    expect((await buildShareCard(TRACTS[0], OPTIONS))!.map).toEqual([]);
+  });
+
+  it("is null for a tract outside its peer group's file", async () => {
+    const { buildShareCard } = await import("./share-card");
+    expect(await buildShareCard("55015020300", OPTIONS)).toBeNull();
+  });
+});
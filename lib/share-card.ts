@@ -0,0 +1,108 @@
+import { loadChoroplethData } from "./choropleth-data";
+import { buildColorScale, colorFor, computeTractMetrics } from "./choropleth-metrics";
+import { getDataProvider } from "./data-provider";
+import { splitTractGeoid } from "./geoid";
+import { tractNeighborhood, ProjectedPolygon } from "./tract-map";
+import type { HouseholdTenure, IncomeEstimatorMethod } from "./bracket-math";
+import type { PeerGeography } from "./peer-group";
+
+// Figures and a thumbnail map for a permalink's social share image, read
+// from the bundled per-peer-group files like the choropleth rather than the
+// live ACS lookup, so a crawler fetching the image costs at most one HUD call.
+
+export interface ShareCardOptions {
+  bedrooms: number;
+  estimator: IncomeEstimatorMethod;
+  tenure: HouseholdTenure;
+  peers: PeerGeography;
+  // Asking rent from the permalink for the unit size; null uses the FMR
+  customRent: number | null;
+  // New England town from geocoding, which picks the HUD FMR area there
+  countySubFips?: string;
+}
+
+export interface ShareCardMapTract {
+  // SVG path data in thumbnail pixels
+  path: string;
+  fill: string;
+}
+
+export interface ShareCard {
+  geoid: string;
+  peerGroupName: string;
+  // Tenure actually used; "all" when renter/owner data isn't built
+  tenure: HouseholdTenure;
+  // null when there's no asking rent and neither a SAFMR nor the area FMR
+  monthlyRent: number | null;
+  rentSource: "custom" | "fmr";
+  incomeNeeded: number | null;
+  percentCanAfford: number | null;
+  // Neighbors first, the tract last so its outline draws on top
+  map: ShareCardMapTract[];
+}
+
+export const SHARE_MAP_WIDTH = 400;
+export const SHARE_MAP_HEIGHT = 400;
+
+function svgPath(polygons: ProjectedPolygon[]): string {
+  return polygons
+    .flatMap((polygon) =>
+      polygon.map((ring) => `M${ring.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join("L")}Z`)
+    )
+    .join("");
+}
+
+/** The card for a tract, or null when its peer group's income data isn't built. */
+export async function buildShareCard(geoid: string, options: ShareCardOptions): Promise<ShareCard | null> {
+  const { stateFips, countyFips, tractFips } = splitTractGeoid(geoid);
+  const { peerGroup, data } = loadChoroplethData({
+    stateFips,
+    countyFips,
+    tractFips,
+    countySubFips: options.countySubFips,
+    estimator: options.estimator,
+    tenure: options.tenure,
+    peers: options.peers,
+  });
+  const tract = data?.tracts.find(([id]) => id === geoid);
+  if (!data || !tract) return null;
+
+  // The area FMR is only needed for tracts without a Small Area FMR, and
+  // not at all when an asking rent stands in for every tract's
+  const { customRent } = options;
+  const needsFmr = customRent === null && (!tract[3] || data.tracts.some(([, , , safmr]) => !safmr));
+  const fmr = needsFmr
+    ? await getDataProvider()
+        .hud.fetchFairMarketRents(stateFips, countyFips, options.countySubFips)
+        .catch(() => null)
+    : null;
+  const fallbackFmr = fmr?.fmrByBedroom ?? null;
+  const metrics = computeTractMetrics(data, {
+    bedroomIndex: options.bedrooms,
+    fallbackFmr,
+    customRent,
+    ownershipIncomeNeeded: null,
+    amiIncomes: null,
+  });
+
+  const monthlyRent = customRent ?? (tract[3] ?? fallbackFmr)?.[options.bedrooms] ?? null;
+  const { stops } = buildColorScale("affordability", [], "fixed", null);
+  const neighborhood = tractNeighborhood(peerGroup, geoid, SHARE_MAP_WIDTH, SHARE_MAP_HEIGHT);
+  const map = neighborhood
+    ? [...neighborhood.neighbors, neighborhood.target].map(({ geoid: id, polygons }) => ({
+        path: svgPath(polygons),
+        fill: colorFor(stops, metrics.get(id)?.affordability ?? null),
+      }))
+    : [];
+
+  return {
+    geoid,
+    peerGroupName: peerGroup.name,
+    tenure: data.tenure,
+    monthlyRent,
+    rentSource: customRent !== null ? "custom" : "fmr",
+    incomeNeeded: monthlyRent ? Math.round((monthlyRent * 12) / 0.3) : null,
+    percentCanAfford: metrics.get(geoid)?.affordability ?? null,
+    map,
+  };
+}
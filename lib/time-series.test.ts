@@ -0,0 +1,119 @@
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { BRACKET_BOUNDS, interpolateMedian } from "./bracket-math";
+
+// 2020 tract 55015020100, drawn from all of 2010 tract 000100 and a quarter
+// of 000200
+const CROSSWALK = { "55015020100": [["55015000100", 1], ["55015000200", 0.25]] };
+
+let dir: string;
+
+function write(path: string, content: unknown) {
+  mkdirSync(join(dir, path, ".."), { recursive: true });
+  writeFileSync(join(dir, path), JSON.stringify(content));
+}
+
+// A fetchTractIncomeVintage row with `count` ± `moe` households per bracket
+function row(geoid: string, count: number, moe: number, median: number) {
+  return {
+    geoid,
+    distribution: {
+      totalHouseholds: count * BRACKET_BOUNDS.length,
+      totalHouseholdsMoe: moe * 4,
+      // Fixtures store the top bracket's Infinity as a string
+      brackets: BRACKET_BOUNDS.map(([min, max]) => ({
+        min,
+        max: max === Infinity ? "Infinity" : max,
+        count,
+        moe,
+      })),
+    },
+    median,
+  };
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "time-series-"));
+  write("data/tract-crosswalk-2010.json", CROSSWALK);
+  // callKey(["55", "015", tracts, year])
+  write("fixtures/acs/fetchTractIncomeVintage/55_015_000100,000200_2019.json", [
+    row("55015000100", 100, 20, 61000),
+    row("55015000200", 40, 16, 48000),
+  ]);
+  write("fixtures/acs/fetchTractIncomeVintage/55_015_020100_2023.json", [
+    row("55015020100", 120, 25, 86417),
+  ]);
+  vi.spyOn(process, "cwd").mockReturnValue(dir);
+  vi.stubEnv("FIXTURE_DIR", join(dir, "fixtures"));
+  // The crosswalk and provider are cached at module level
+  vi.resetModules();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("tractParts2010", () => {
+  it("lists the 2010 tracts a changed 2020 tract is apportioned from", async () => {
+    const { tractParts2010 } = await import("./tract-crosswalk");
+    expect(tractParts2010("55015020100")).toEqual([
+      { geoid: "55015000100", weight: 1 },
+      { geoid: "55015000200", weight: 0.25 },
+    ]);
+  });
+
+  it("maps a tract missing from the crosswalk to itself", async () => {
+    const { tractParts2010 } = await import("./tract-crosswalk");
+    expect(tractParts2010("55015020200")).toEqual([{ geoid: "55015020200", weight: 1 }]);
+  });
+
+  it("uses 2010 tracts through the 2019 vintage only", async () => {
+    const { usesTracts2010 } = await import("./tract-crosswalk");
+    expect(usesTracts2010(2019)).toBe(true);
+    expect(usesTracts2010(2020)).toBe(false);
+  });
+});
+
+describe("fetchAffordabilityTrend", () => {
+  const location = { stateFips: "55", countyFips: "015", tractFips: "020100" };
+
+  it("apportions 2010-tract vintages onto the 2020 tract by weight", async () => {
+    const { fetchAffordabilityTrend } = await import("./time-series");
+    const point = (await fetchAffordabilityTrend(location)).find((p) => p.year === "2019")!;
+
+    expect(point.apportioned).toBe(true);
+    // 100 + 40 × 0.25 households per bracket
+    expect(point.brackets!.map((b) => b.count)).toEqual(Array(16).fill(110));
+    expect(point.brackets![0].moe).toBe(Math.round(Math.hypot(20, 16 * 0.25)));
+    expect(point.totalHouseholds).toBe(1600 + 640 * 0.25);
+    // Medians can't be apportioned, so it comes from the combined brackets
+    expect(point.tractMedian).toBe(interpolateMedian(Array(16).fill(110)));
+  });
+
+  it("reads 2020-tract vintages for the tract itself", async () => {
+    const { fetchAffordabilityTrend } = await import("./time-series");
+    const point = (await fetchAffordabilityTrend(location)).find((p) => p.year === "2023")!;
+
+    expect(point.apportioned).toBe(false);
+    expect(point.totalHouseholds).toBe(1920);
+    expect(point.tractMedian).toBe(86417);
+  });
+
+  it("leaves nulls for vintages and fiscal years it can't fetch", async () => {
+    const { fetchAffordabilityTrend } = await import("./time-series");
+    const trend = await fetchAffordabilityTrend(location);
+
+    expect(trend.map((p) => p.year)).toEqual(["2017", "2018", "2019", "2020", "2021", "2022", "2023"]);
+    expect(trend.find((p) => p.year === "2018")).toMatchObject({
+      totalHouseholds: null,
+      brackets: null,
+      apportioned: false,
+      medianIncome: null,
+      fmrByBedroom: null,
+    });
+  });
+});
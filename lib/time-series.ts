@@ -0,0 +1,134 @@
+import type { IncomeBracket, TractIncomeVintage } from "./census-acs";
+import { getDataProvider } from "./data-provider";
+import { tractParts2010, usesTracts2010 } from "./tract-crosswalk";
+import { interpolateMedian } from "./bracket-math";
+import { sumMoe } from "./moe";
+
+// Years shown in the trend view. Each ACS 5-year vintage is paired with the
+// HUD fiscal year of the same number. Vintages are overlapping windows
+// (2019 = 2015–2019), so adjacent points share four of five survey years.
+export const TREND_YEARS = ["2017", "2018", "2019", "2020", "2021", "2022", "2023"];
+
+export interface TrendPoint {
+  year: string;
+  // ACS (null when the vintage has no data for the tract)
+  totalHouseholds: number | null;
+  brackets: IncomeBracket[] | null;
+  tractMedian: number | null;
+  // True when the vintage was apportioned from 2010 tracts
+  apportioned: boolean;
+  // HUD (null when the fiscal year is unavailable)
+  medianIncome: number | null; // 4-person AMI
+  fmrByBedroom: number[] | null;
+  isSafmr: boolean;
+}
+
+interface TractLocation {
+  stateFips: string;
+  countyFips: string;
+  tractFips: string;
+  countySubFips?: string;
+  zipCode?: string;
+}
+
+/**
+ * One vintage's income data for a 2020 tract. For 2010-tract vintages the
+ * contributing 2010 tracts' bracket counts are summed by land-area weight;
+ * the median is then re-interpolated from the combined brackets, since
+ * medians can't be apportioned.
+ */
+async function fetchTractVintage(
+  loc: TractLocation,
+  year: string
+): Promise<Pick<TrendPoint, "totalHouseholds" | "brackets" | "tractMedian" | "apportioned">> {
+  const geoid = `${loc.stateFips}${loc.countyFips}${loc.tractFips}`;
+  const parts = usesTracts2010(Number(year))
+    ? tractParts2010(geoid)
+    : [{ geoid, weight: 1 }];
+
+  // Tracts nest in counties, so fetch each county's parts in one request
+  const byCounty = new Map<string, string[]>();
+  for (const part of parts) {
+    const county = part.geoid.slice(0, 5);
+    byCounty.set(county, [...(byCounty.get(county) ?? []), part.geoid.slice(5)]);
+  }
+  const rows = (
+    await Promise.all(
+      Array.from(byCounty.entries()).map(([county, tracts]) =>
+        getDataProvider().acs.fetchTractIncomeVintage(county.slice(0, 2), county.slice(2), tracts, year)
+      )
+    )
+  ).flat();
+  const rowByGeoid = new Map<string, TractIncomeVintage>(rows.map((r) => [r.geoid, r]));
+
+  const found = parts.filter((p) => rowByGeoid.has(p.geoid));
+  if (found.length === 0) {
+    return { totalHouseholds: null, brackets: null, tractMedian: null, apportioned: false };
+  }
+
+  const apportioned = parts.length > 1 || parts[0].geoid !== geoid || parts[0].weight !== 1;
+  if (!apportioned) {
+    const row = rowByGeoid.get(geoid)!;
+    return {
+      totalHouseholds: row.distribution.totalHouseholds,
+      brackets: row.distribution.brackets,
+      tractMedian: row.median,
+      apportioned,
+    };
+  }
+
+  const template = rowByGeoid.get(found[0].geoid)!.distribution.brackets;
+  const brackets: IncomeBracket[] = template.map((b, i) => {
+    const weighted = found.map((p) => {
+      const bracket = rowByGeoid.get(p.geoid)!.distribution.brackets[i];
+      return { count: bracket.count * p.weight, moe: (bracket.moe ?? 0) * p.weight };
+    });
+    return {
+      min: b.min,
+      max: b.max,
+      count: Math.round(weighted.reduce((sum, w) => sum + w.count, 0)),
+      moe: Math.round(sumMoe(weighted.map((w) => w.moe))),
+    };
+  });
+  const totalHouseholds = Math.round(
+    found.reduce((sum, p) => sum + rowByGeoid.get(p.geoid)!.distribution.totalHouseholds * p.weight, 0)
+  );
+
+  return {
+    totalHouseholds,
+    brackets,
+    tractMedian: interpolateMedian(brackets.map((b) => b.count)),
+    apportioned,
+  };
+}
+
+/**
+ * Tract income, AMI and FMR for every year in TREND_YEARS. Every source is
+ * best-effort per year: a missing vintage or fiscal year leaves nulls in
+ * that point rather than failing the series.
+ */
+export async function fetchAffordabilityTrend(loc: TractLocation): Promise<TrendPoint[]> {
+  const { hud } = getDataProvider();
+  return Promise.all(
+    TREND_YEARS.map(async (year) => {
+      const [income, limits, fmr] = await Promise.all([
+        fetchTractVintage(loc, year).catch(() => null),
+        hud.fetchAreaMedianIncome(loc.stateFips, loc.countyFips, loc.countySubFips, year).catch(() => null),
+        hud.fetchFairMarketRents(loc.stateFips, loc.countyFips, loc.countySubFips, loc.zipCode, year).catch(
+          () => null
+        ),
+      ]);
+
+      return {
+        year,
+        totalHouseholds: income?.totalHouseholds ?? null,
+        brackets: income?.brackets ?? null,
+        tractMedian: income?.tractMedian ?? null,
+        apportioned: income?.apportioned ?? false,
+        medianIncome: limits?.medianIncome ?? null,
+        fmrByBedroom: fmr?.fmrByBedroom ?? null,
+        isSafmr: fmr?.isSafmr ?? false,
+      };
+    })
+  );
+}
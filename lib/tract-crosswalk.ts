@@ -0,0 +1,34 @@
+import { readFileSync, existsSync } from "fs";
+import { join } from "path";
+
+// ACS 5-year vintages through 2019 are tabulated on 2010 Census tracts;
+// 2020 onward use 2020 tracts.
+export const FIRST_2020_TRACT_VINTAGE = 2020;
+
+export interface TractPart {
+  geoid: string; // 2010 tract GEOID
+  weight: number; // share of the 2010 tract's land area inside the 2020 tract
+}
+
+// 2020 tract GEOID → contributing 2010 tracts. Only tracts whose
+// boundaries changed are listed; everything else maps to itself.
+let crosswalk: Record<string, [string, number][]> | null = null;
+
+function loadCrosswalk(): Record<string, [string, number][]> {
+  if (crosswalk) return crosswalk;
+  const filePath = join(process.cwd(), "data", "tract-crosswalk-2010.json");
+  // Without the file every tract is treated as unchanged
+  crosswalk = existsSync(filePath) ? JSON.parse(readFileSync(filePath, "utf-8")) : {};
+  return crosswalk!;
+}
+
+/** The 2010 tracts (with apportioning weights) that make up a 2020 tract. */
+export function tractParts2010(geoid2020: string): TractPart[] {
+  const parts = loadCrosswalk()[geoid2020];
+  if (!parts) return [{ geoid: geoid2020, weight: 1 }];
+  return parts.map(([geoid, weight]) => ({ geoid, weight }));
+}
+
+export function usesTracts2010(vintage: number): boolean {
+  return vintage < FIRST_2020_TRACT_VINTAGE;
+}
@@ -0,0 +1,99 @@
+import * as topojsonClient from "topojson-client";
+import type { GeometryCollection } from "topojson-specification";
+import { loadPeerGroupGeo } from "./msa-geo";
+import type { PeerGroup } from "./peer-group";
+
+// A tract and the tracts around it from its peer group's TopoJSON, projected
+// into a box for static maps (the PDF report, share images). Equirectangular
+// with the longitude scaled by the cosine of the latitude, which is close
+// enough at neighborhood scale.
+
+type Ring = GeoJSON.Position[];
+
+// Pixel rings, relative to the box's top-left corner
+export type ProjectedPolygon = [number, number][][];
+
+export interface ProjectedTract {
+  geoid: string;
+  polygons: ProjectedPolygon[];
+}
+
+export interface TractNeighborhood {
+  target: ProjectedTract;
+  // Tracts overlapping the box, not including the target
+  neighbors: ProjectedTract[];
+}
+
+export interface NeighborhoodOptions {
+  // Box extent as a multiple of the tract's own size
+  zoom?: number;
+  // Smallest extent in degrees, so a tiny urban tract still shows its block
+  minSpan?: number;
+}
+
+function polygonsOf(feature: GeoJSON.Feature): Ring[][] {
+  const geometry = feature.geometry;
+  if (geometry.type === "Polygon") return [geometry.coordinates];
+  if (geometry.type === "MultiPolygon") return geometry.coordinates;
+  return [];
+}
+
+function boundsOf(polygons: Ring[][]): [number, number, number, number] {
+  const b: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const polygon of polygons) {
+    for (const [x, y] of polygon[0]) {
+      if (x < b[0]) b[0] = x;
+      if (y < b[1]) b[1] = y;
+      if (x > b[2]) b[2] = x;
+      if (y > b[3]) b[3] = y;
+    }
+  }
+  return b;
+}
+
+/** The tract centered in a width × height box, or null without built geometry. */
+export function tractNeighborhood(
+  peerGroup: PeerGroup,
+  geoid: string,
+  width: number,
+  height: number,
+  { zoom = 3, minSpan = 0.03 }: NeighborhoodOptions = {}
+): TractNeighborhood | null {
+  const topo = loadPeerGroupGeo(peerGroup);
+  const object = topo?.objects.tracts as GeometryCollection | undefined;
+  if (!topo || !object || object.type !== "GeometryCollection") return null;
+
+  const collection = topojsonClient.feature(topo, object) as GeoJSON.FeatureCollection;
+  const target = collection.features.find((f) => f.properties?.GEOID === geoid);
+  if (!target) return null;
+
+  // Window around the tract, stretched to the box's aspect ratio
+  const [minX, minY, maxX, maxY] = boundsOf(polygonsOf(target));
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  const kx = Math.cos((cy * Math.PI) / 180);
+  let spanX = Math.max((maxX - minX) * zoom * kx, minSpan);
+  let spanY = Math.max((maxY - minY) * zoom, minSpan);
+  if (spanX / spanY > width / height) spanY = (spanX * height) / width;
+  else spanX = (spanY * width) / height;
+  const scale = width / spanX;
+  const project = ([x, y]: GeoJSON.Position): [number, number] => [
+    width / 2 + (x - cx) * kx * scale,
+    height / 2 - (y - cy) * scale,
+  ];
+  const view = [cx - spanX / kx / 2, cy - spanY / 2, cx + spanX / kx / 2, cy + spanY / 2];
+  const projectFeature = (feature: GeoJSON.Feature, polygons: Ring[][]): ProjectedTract => ({
+    geoid: feature.properties?.GEOID,
+    polygons: polygons.map((polygon) => polygon.map((ring) => ring.map(project))),
+  });
+
+  const neighbors: ProjectedTract[] = [];
+  for (const feature of collection.features) {
+    if (feature === target) continue;
+    const polygons = polygonsOf(feature);
+    const b = boundsOf(polygons);
+    if (b[0] > view[2] || b[2] < view[0] || b[1] > view[3] || b[3] < view[1]) continue;
+    neighbors.push(projectFeature(feature, polygons));
+  }
+  return { target: projectFeature(target, polygonsOf(target)), neighbors };
+}
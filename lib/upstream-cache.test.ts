@@ -0,0 +1,177 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  cacheHeaders,
+  createCachedProvider,
+  purgeUpstreamCache,
+  SOURCE_TTL_MS,
+  upstreamCacheStats,
+  withCacheTracking,
+} from "./upstream-cache";
+import type { DataProvider } from "./data-provider";
+
+/** A provider whose methods echo their arguments, counting upstream calls. */
+function stubProvider() {
+  const acs = { fetchIncomeDistribution: vi.fn(async (...args: unknown[]) => ({ args, max: Infinity })) };
+  const hud = { fetchFairMarketRents: vi.fn(async (...args: unknown[]) => ({ args })) };
+  const inner = { name: "live", geocoding: {}, acs, hud } as unknown as DataProvider;
+  return { provider: createCachedProvider(inner), acs, hud };
+}
+
+beforeEach(() => {
+  purgeUpstreamCache();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("createCachedProvider", () => {
+  it("serves repeat calls from memory", async () => {
+    const { provider, acs } = stubProvider();
+    const first = await provider.acs.fetchIncomeDistribution("55", "015", "020100");
+    const second = await provider.acs.fetchIncomeDistribution("55", "015", "020100");
+
+    expect(second).toBe(first);
+    expect(acs.fetchIncomeDistribution).toHaveBeenCalledTimes(1);
+  });
+
+  it("evicts the least recently used entry past UPSTREAM_CACHE_MAX", async () => {
+    vi.stubEnv("UPSTREAM_CACHE_MAX", "2");
+    const { provider, acs } = stubProvider();
+    const fetch = (tract: string) => provider.acs.fetchIncomeDistribution("55", "015", tract);
+
+    await fetch("000100");
+    await fetch("000200");
+    await fetch("000100"); // now the most recently used
+    await fetch("000300"); // evicts 000200
+    expect(upstreamCacheStats().memoryEntries).toBe(2);
+
+    await fetch("000100");
+    expect(acs.fetchIncomeDistribution).toHaveBeenCalledTimes(3);
+    await fetch("000200");
+    expect(acs.fetchIncomeDistribution).toHaveBeenCalledTimes(4);
+  });
+
+  it("expires entries after their source's TTL", async () => {
+    vi.useFakeTimers();
+    const { provider, acs, hud } = stubProvider();
+    await provider.acs.fetchIncomeDistribution("55", "015", "020100");
+    await provider.hud.fetchFairMarketRents("55", "015");
+
+    // HUD's week is up; ACS has weeks to go
+    vi.advanceTimersByTime(SOURCE_TTL_MS.hud);
+    await provider.acs.fetchIncomeDistribution("55", "015", "020100");
+    await provider.hud.fetchFairMarketRents("55", "015");
+    expect(acs.fetchIncomeDistribution).toHaveBeenCalledTimes(1);
+    expect(hud.fetchFairMarketRents).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(SOURCE_TTL_MS.acs - SOURCE_TTL_MS.hud);
+    await provider.acs.fetchIncomeDistribution("55", "015", "020100");
+    expect(acs.fetchIncomeDistribution).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares one upstream request between concurrent misses", async () => {
+    const { provider, acs } = stubProvider();
+    const [a, b] = await Promise.all([
+      provider.acs.fetchIncomeDistribution("55", "015", "020100"),
+      provider.acs.fetchIncomeDistribution("55", "015", "020100"),
+    ]);
+
+    expect(a).toBe(b);
+    expect(acs.fetchIncomeDistribution).toHaveBeenCalledTimes(1);
+  });
+
+  it("doesn't cache failures, even for the callers that shared them", async () => {
+    const { provider, acs } = stubProvider();
+    acs.fetchIncomeDistribution.mockRejectedValueOnce(new Error("Census ACS API returned 503"));
+    const results = await Promise.allSettled([
+      provider.acs.fetchIncomeDistribution("55", "015", "020100"),
+      provider.acs.fetchIncomeDistribution("55", "015", "020100"),
+    ]);
+
+    expect(results.map((r) => r.status)).toEqual(["rejected", "rejected"]);
+    await provider.acs.fetchIncomeDistribution("55", "015", "020100");
+    expect(acs.fetchIncomeDistribution).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("disk store", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "upstream-cache-"));
+    vi.stubEnv("UPSTREAM_CACHE_DIR", dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips entries, Infinity included, through UPSTREAM_CACHE_DIR", async () => {
+    // Memory off, so the second call has to read the file back
+    vi.stubEnv("UPSTREAM_CACHE_MAX", "0");
+    const { provider, acs } = stubProvider();
+    const first = await provider.acs.fetchIncomeDistribution("55", "015", "020100");
+
+    const path = join(dir, "acs", "fetchIncomeDistribution", "55_015_020100.json");
+    expect(JSON.parse(readFileSync(path, "utf-8")).value.max).toBe("Infinity");
+
+    const { result, statuses } = await withCacheTracking(() =>
+      provider.acs.fetchIncomeDistribution("55", "015", "020100")
+    );
+    expect(result).toEqual(first);
+    expect(result).toMatchObject({ max: Infinity });
+    expect(statuses).toEqual([["acs.fetchIncomeDistribution", "disk"]]);
+    expect(acs.fetchIncomeDistribution).toHaveBeenCalledTimes(1);
+  });
+
+  it("purges one source's directory", async () => {
+    const { provider } = stubProvider();
+    await provider.acs.fetchIncomeDistribution("55", "015", "020100");
+    await provider.hud.fetchFairMarketRents("55", "015");
+
+    expect(purgeUpstreamCache("hud")).toEqual({ memoryEntries: 1, disk: true });
+    expect(existsSync(join(dir, "hud"))).toBe(false);
+    expect(existsSync(join(dir, "acs"))).toBe(true);
+  });
+});
+
+describe("cacheHeaders", () => {
+  it("reports MISS, then HIT, for a request's upstream calls", async () => {
+    const { provider } = stubProvider();
+    const lookup = () =>
+      Promise.all([
+        provider.acs.fetchIncomeDistribution("55", "015", "020100"),
+        provider.hud.fetchFairMarketRents("55", "015"),
+      ]);
+
+    const miss = await withCacheTracking(lookup);
+    expect(cacheHeaders(miss.statuses)).toEqual({
+      "X-Cache": "MISS",
+      "X-Cache-Detail": "acs.fetchIncomeDistribution=miss, hud.fetchFairMarketRents=miss",
+    });
+    const hit = await withCacheTracking(lookup);
+    expect(cacheHeaders(hit.statuses)["X-Cache"]).toBe("HIT");
+  });
+
+  it("reports PARTIAL and counts repeated outcomes", () => {
+    expect(
+      cacheHeaders([
+        ["acs.fetchIncomeDistribution", "hit"],
+        ["acs.fetchIncomeDistribution", "hit"],
+        ["hud.fetchFairMarketRents", "miss"],
+      ])
+    ).toEqual({
+      "X-Cache": "PARTIAL",
+      "X-Cache-Detail": "acs.fetchIncomeDistribution=hit*2, hud.fetchFairMarketRents=miss",
+    });
+  });
+
+  it("adds no headers for a request without upstream calls", () => {
+    expect(cacheHeaders([])).toEqual({});
+  });
+});
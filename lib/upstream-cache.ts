@@ -0,0 +1,213 @@
+/**
+ * Cache for upstream Census, HUD and Nominatim results, keyed by provider
+ * method and arguments. Two tiers:
+ * - an in-memory LRU (UPSTREAM_CACHE_MAX entries, default 1000; 0 disables)
+ * - an optional on-disk store under UPSTREAM_CACHE_DIR that survives restarts
+ *
+ * Only successful calls are cached. Each source has its own TTL, since ACS
+ * and HUD publish once a year while geocoder data moves a little faster.
+ * Concurrent misses for the same call share one upstream request.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { readFileSync, writeFileSync, existsSync, mkdirSync, rmSync } from "fs";
+import { join, dirname } from "path";
+import type { DataProvider } from "./data-provider";
+import { callKey, replacer, reviver } from "./fixture-provider";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CacheSource = "geocoding" | "acs" | "hud";
+
+export const CACHE_SOURCES: CacheSource[] = ["geocoding", "acs", "hud"];
+
+export const SOURCE_TTL_MS: Record<CacheSource, number> = {
+  geocoding: 30 * DAY_MS,
+  acs: 30 * DAY_MS, // new 5-year vintages arrive each December
+  hud: 7 * DAY_MS, // fiscal-year limits and FMRs can be revised after release
+};
+
+export type CacheStatus = "hit" | "disk" | "miss";
+
+interface CacheEntry {
+  expiresAt: number;
+  value: unknown;
+}
+
+const memory = new Map<string, CacheEntry>();
+
+// Upstream requests in progress, by cache key
+const inFlight = new Map<string, Promise<unknown>>();
+
+function maxEntries(): number {
+  const raw = process.env.UPSTREAM_CACHE_MAX;
+  return raw === undefined ? 1000 : Math.max(0, parseInt(raw, 10) || 0);
+}
+
+function diskPath(key: string): string | null {
+  const dir = process.env.UPSTREAM_CACHE_DIR;
+  return dir ? join(dir, `${key}.json`) : null;
+}
+
+function remember(key: string, entry: CacheEntry) {
+  const max = maxEntries();
+  if (max === 0) return;
+  memory.delete(key);
+  if (memory.size >= max) {
+    const oldest = memory.keys().next().value!;
+    memory.delete(oldest);
+  }
+  memory.set(key, entry);
+}
+
+function readEntry(key: string): { entry: CacheEntry; status: CacheStatus } | null {
+  const now = Date.now();
+
+  const cached = memory.get(key);
+  if (cached && cached.expiresAt > now) {
+    // Re-insert to mark as most recently used
+    memory.delete(key);
+    memory.set(key, cached);
+    return { entry: cached, status: "hit" };
+  }
+  if (cached) memory.delete(key);
+
+  const path = diskPath(key);
+  if (!path || !existsSync(path)) return null;
+  try {
+    const entry: CacheEntry = JSON.parse(readFileSync(path, "utf-8"), reviver);
+    if (entry.expiresAt <= now) return null;
+    remember(key, entry);
+    return { entry, status: "disk" };
+  } catch {
+    // A corrupt file is just a miss; it's overwritten on the next write
+    return null;
+  }
+}
+
+function writeEntry(key: string, entry: CacheEntry) {
+  remember(key, entry);
+  const path = diskPath(key);
+  if (!path) return;
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(entry, replacer));
+  } catch {
+    // Disk is a best-effort second tier
+  }
+}
+
+// Per-request record of cache outcomes, for the X-Cache response headers
+type CallStatus = [call: string, status: CacheStatus];
+const requestStatuses = new AsyncLocalStorage<CallStatus[]>();
+
+/** Run fn while recording the cache status of every upstream call it makes. */
+export async function withCacheTracking<T>(
+  fn: () => Promise<T>
+): Promise<{ result: T; statuses: CallStatus[] }> {
+  const statuses: CallStatus[] = [];
+  const result = await requestStatuses.run(statuses, fn);
+  return { result, statuses };
+}
+
+/**
+ * Response headers summarising a request's upstream calls: X-Cache is HIT
+ * when everything came from cache, MISS when nothing did, else PARTIAL;
+ * X-Cache-Detail counts outcomes per call, e.g. "hud.fetchFairMarketRents=hit".
+ */
+export function cacheHeaders(statuses: CallStatus[]): Record<string, string> {
+  if (statuses.length === 0) return {};
+  const misses = statuses.filter(([, s]) => s === "miss").length;
+  const summary = misses === 0 ? "HIT" : misses === statuses.length ? "MISS" : "PARTIAL";
+
+  const counts = new Map<string, number>();
+  for (const [call, status] of statuses) {
+    const label = `${call}=${status}`;
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return {
+    "X-Cache": summary,
+    "X-Cache-Detail": Array.from(counts.entries())
+      .map(([label, n]) => (n > 1 ? `${label}*${n}` : label))
+      .join(", "),
+  };
+}
+
+type AsyncMethod = (...args: unknown[]) => Promise<unknown>;
+
+function wrapService<T extends object>(source: CacheSource, inner: T): T {
+  const wrapped: Record<string, AsyncMethod> = {};
+
+  for (const [method, fn] of Object.entries(inner) as [string, AsyncMethod][]) {
+    wrapped[method] = async (...args: unknown[]) => {
+      const key = `${source}/${method}/${callKey(args)}`;
+      const hit = readEntry(key);
+      requestStatuses.getStore()?.push([`${source}.${method}`, hit?.status ?? "miss"]);
+      if (hit) return hit.entry.value;
+
+      const pending = inFlight.get(key);
+      if (pending) return pending;
+
+      // Failures reject every waiting caller and aren't cached
+      const promise = fn(...args)
+        .then((value) => {
+          writeEntry(key, { expiresAt: Date.now() + SOURCE_TTL_MS[source], value });
+          return value;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, promise);
+      return promise;
+    };
+  }
+
+  return wrapped as T;
+}
+
+export function createCachedProvider(inner: DataProvider): DataProvider {
+  return {
+    name: inner.name,
+    geocoding: wrapService("geocoding", inner.geocoding),
+    acs: wrapService("acs", inner.acs),
+    hud: wrapService("hud", inner.hud),
+  };
+}
+
+export interface PurgeResult {
+  memoryEntries: number;
+  disk: boolean;
+}
+
+/** Drop cached entries, all of them or only one source's. */
+export function purgeUpstreamCache(source?: CacheSource): PurgeResult {
+  let memoryEntries = 0;
+  for (const key of Array.from(memory.keys())) {
+    if (!source || key.startsWith(`${source}/`)) {
+      memory.delete(key);
+      memoryEntries++;
+    }
+  }
+
+  // Only the per-source subdirectories are ours to delete
+  const dir = process.env.UPSTREAM_CACHE_DIR;
+  if (dir) {
+    for (const s of source ? [source] : CACHE_SOURCES) {
+      rmSync(join(dir, s), { recursive: true, force: true });
+    }
+  }
+
+  return { memoryEntries, disk: Boolean(dir) };
+}
+
+export function upstreamCacheStats() {
+  const bySource: Record<CacheSource, number> = { geocoding: 0, acs: 0, hud: 0 };
+  for (const key of Array.from(memory.keys())) {
+    const source = key.split("/")[0] as CacheSource;
+    if (source in bySource) bySource[source]++;
+  }
+  return {
+    memoryEntries: memory.size,
+    maxEntries: maxEntries(),
+    bySource,
+    diskDir: process.env.UPSTREAM_CACHE_DIR ?? null,
+  };
+}
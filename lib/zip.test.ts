@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import AdmZip from "adm-zip";
+import { createZip } from "./zip";
+
+describe("createZip", () => {
+  it("writes an archive other tools can read", () => {
+    const encoder = new TextEncoder();
+    const modified = new Date(2025, 2, 5, 10, 20, 30);
+    const zip = new AdmZip(
+      Buffer.from(
+        createZip(
+          [
+            { name: "tracts.csv", data: encoder.encode("geoid,pct\n55015020100,76.4\n") },
+            { name: "empty.txt", data: new Uint8Array(0) },
+          ],
+          modified
+        )
+      )
+    );
+
+    const entries = zip.getEntries();
+    expect(entries.map((entry) => entry.entryName)).toEqual(["tracts.csv", "empty.txt"]);
+    // getData checks each entry's CRC-32
+    expect(entries[0].getData().toString("utf-8")).toBe("geoid,pct\n55015020100,76.4\n");
+    expect(entries[1].getData()).toHaveLength(0);
+    expect(entries[0].header.time).toEqual(modified);
+  });
+});
@@ -0,0 +1,90 @@
+// Minimal ZIP writer: stored (uncompressed) entries, enough to bundle the
+// files of a shapefile into one download without a zip dependency.
+// No Node.js imports so this works in "use client" modules too.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date fields, local time, two-second resolution
+function dosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+/** Bundle files into a ZIP archive. Names are ASCII paths within the archive. */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const [time, day] = dosDateTime(modified);
+  const encoder = new TextEncoder();
+  const names = entries.map((entry) => encoder.encode(entry.name));
+  const localSize = entries.reduce((sum, entry, i) => sum + 30 + names[i].length + entry.data.length, 0);
+  const centralSize = names.reduce((sum, name) => sum + 46 + name.length, 0);
+
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  const offsets: number[] = [];
+  const crcs = entries.map((entry) => crc32(entry.data));
+  let pos = 0;
+
+  entries.forEach((entry, i) => {
+    offsets.push(pos);
+    view.setUint32(pos, 0x04034b50, true); // local file header
+    view.setUint16(pos + 4, 20, true); // version needed: 2.0
+    view.setUint16(pos + 6, 0, true); // flags
+    view.setUint16(pos + 8, 0, true); // method: stored
+    view.setUint16(pos + 10, time, true);
+    view.setUint16(pos + 12, day, true);
+    view.setUint32(pos + 14, crcs[i], true);
+    view.setUint32(pos + 18, entry.data.length, true); // compressed size
+    view.setUint32(pos + 22, entry.data.length, true); // uncompressed size
+    view.setUint16(pos + 26, names[i].length, true);
+    view.setUint16(pos + 28, 0, true); // extra field length
+    out.set(names[i], pos + 30);
+    out.set(entry.data, pos + 30 + names[i].length);
+    pos += 30 + names[i].length + entry.data.length;
+  });
+
+  const centralStart = pos;
+  entries.forEach((entry, i) => {
+    view.setUint32(pos, 0x02014b50, true); // central directory header
+    view.setUint16(pos + 4, 20, true); // version made by
+    view.setUint16(pos + 6, 20, true); // version needed
+    view.setUint16(pos + 8, 0, true);
+    view.setUint16(pos + 10, 0, true);
+    view.setUint16(pos + 12, time, true);
+    view.setUint16(pos + 14, day, true);
+    view.setUint32(pos + 16, crcs[i], true);
+    view.setUint32(pos + 20, entry.data.length, true);
+    view.setUint32(pos + 24, entry.data.length, true);
+    view.setUint16(pos + 28, names[i].length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(pos + 42, offsets[i], true);
+    out.set(names[i], pos + 46);
+    pos += 46 + names[i].length;
+  });
+
+  view.setUint32(pos, 0x06054b50, true); // end of central directory
+  view.setUint16(pos + 8, entries.length, true); // entries on this disk
+  view.setUint16(pos + 10, entries.length, true); // entries in total
+  view.setUint32(pos + 12, pos - centralStart, true); // central directory size
+  view.setUint32(pos + 16, centralStart, true);
+  return out;
+}
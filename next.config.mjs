@@ -1,4 +1,21 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  async headers() {
+    return [
+      {
+        // The embed widget is framed by partner sites, listed in
+        // EMBED_FRAME_ANCESTORS (space-separated origins); unset, only this
+        // site may frame it
+        source: "/embed",
+        headers: [
+          {
+            key: "Content-Security-Policy",
+            value: `frame-ancestors ${process.env.EMBED_FRAME_ANCESTORS || "'self'"}`,
+          },
+        ],
+      },
+    ];
+  },
+};
 
 export default nextConfig;
@@ -0,0 +1,149 @@
+/**
+ * Build script: map counties, New England towns and New England tracts to
+ * the HUD FMR area (HMFA) whose income limits and Fair Market Rents apply.
+ * Percentiles ranked within these areas line up with the AMI the tool uses;
+ * OMB CBSAs often don't (HUD splits and trims metros).
+ *
+ * Usage: node scripts/build-hmfa-crosswalk.mjs
+ *
+ * Data sources:
+ * - HUD FY2026 FMR county file (10-digit state + county + county subdivision
+ *   FIPS → hud_area_code, hud_area_name)
+ * - Census 2020 Block Assignment Files, MCD layer (block → county subdivision)
+ *   for the New England states, where HUD defines FMR areas by town
+ *
+ * Output:
+ * - data/county-to-hmfa.json — { fips: {code, name} }, fips the 5-digit county
+ *   outside New England and the 10-digit county + town inside it
+ * - data/tract-to-hmfa.json  — { tractFips: {code, name} } for New England
+ *   tracts, by the town holding most of the tract's blocks
+ *
+ * Dependencies (devDependencies): xlsx, adm-zip
+ */
+
+import * as XLSX from "xlsx";
+import AdmZip from "adm-zip";
+import { writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+
+const FMR_URL =
+  "https://www.huduser.gov/portal/datasets/fmr/fmr2026/FY26_FMRs.xlsx";
+
+const BAF_URL = (st) =>
+  `https://www2.census.gov/geo/docs/maps-data/data/baf2020/BlockAssign_ST${st}.zip`;
+
+// CT, ME, MA, NH, RI, VT
+const NEW_ENGLAND_FIPS = ["09", "23", "25", "33", "44", "50"];
+
+// County subdivision code HUD uses for whole-county rows
+const WHOLE_COUNTY_COUSUB = "99999";
+
+async function fetchCountyHmfas() {
+  console.log("Downloading FY2026 FMR county file from HUD...");
+  const res = await fetch(FMR_URL);
+  if (!res.ok) throw new Error(`Download failed: ${res.status}`);
+  const buffer = await res.arrayBuffer();
+
+  const wb = XLSX.read(new Uint8Array(buffer));
+  const ws = wb.Sheets[wb.SheetNames[0]];
+  const rows = XLSX.utils.sheet_to_json(ws, { header: 1 });
+
+  // Column order has changed between HUD releases; find columns by header
+  const header = rows[0].map((h) => String(h).trim().toLowerCase());
+  const fipsCol = header.indexOf("fips");
+  const codeCol = header.indexOf("hud_area_code");
+  const nameCol = header.indexOf("hud_area_name");
+  if (fipsCol < 0 || codeCol < 0 || nameCol < 0) {
+    throw new Error(`Unexpected FMR file header: ${header.join(", ")}`);
+  }
+
+  const countyToHmfa = {};
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    const fips = String(row[fipsCol] ?? "").padStart(10, "0");
+    const code = String(row[codeCol] ?? "").trim();
+    const name = String(row[nameCol] ?? "").trim();
+    if (!/^\d{10}$/.test(fips) || !code || !name) continue;
+
+    const county = fips.slice(0, 5);
+    const cousub = fips.slice(5);
+    const key =
+      NEW_ENGLAND_FIPS.includes(fips.slice(0, 2)) && cousub !== WHOLE_COUNTY_COUSUB
+        ? fips
+        : county;
+    countyToHmfa[key] = { code, name };
+  }
+
+  return countyToHmfa;
+}
+
+async function fetchTractTowns(st) {
+  const res = await fetch(BAF_URL(st));
+  if (!res.ok) throw new Error(`BAF download failed for ${st}: ${res.status}`);
+  const zip = new AdmZip(Buffer.from(await res.arrayBuffer()));
+  const entry = zip.getEntry(`BlockAssign_ST${st}_MCD.txt`);
+  if (!entry) throw new Error(`No MCD assignment file for state ${st}`);
+
+  // BLOCKID|COUNTYFP|COUSUBFP, BLOCKID = 15-digit block GEOID
+  const counts = new Map(); // tract -> Map<county + cousub, blocks>
+  const lines = entry.getData().toString("utf8").split("\n");
+  for (let i = 1; i < lines.length; i++) {
+    const [blockId, countyFp, cousubFp] = lines[i].trim().split("|");
+    if (!blockId || !countyFp || !cousubFp) continue;
+
+    const tract = blockId.slice(0, 11);
+    const town = `${st}${countyFp}${cousubFp}`;
+    if (!counts.has(tract)) counts.set(tract, new Map());
+    const towns = counts.get(tract);
+    towns.set(town, (towns.get(town) ?? 0) + 1);
+  }
+
+  const tractTowns = new Map();
+  for (const [tract, towns] of counts) {
+    let best = null;
+    let bestBlocks = 0;
+    for (const [town, blocks] of towns) {
+      if (blocks > bestBlocks) {
+        best = town;
+        bestBlocks = blocks;
+      }
+    }
+    tractTowns.set(tract, best);
+  }
+  return tractTowns;
+}
+
+async function main() {
+  const dataDir = join(process.cwd(), "data");
+  if (!existsSync(dataDir)) mkdirSync(dataDir);
+
+  const countyToHmfa = await fetchCountyHmfas();
+  console.log(`  ${Object.keys(countyToHmfa).length} county and town entries`);
+
+  const tractToHmfa = {};
+  for (const st of NEW_ENGLAND_FIPS) {
+    console.log(`Assigning New England tracts to towns (state ${st})...`);
+    const tractTowns = await fetchTractTowns(st);
+    let mapped = 0;
+    for (const [tract, town] of tractTowns) {
+      const hmfa = countyToHmfa[town] ?? countyToHmfa[town.slice(0, 5)];
+      if (!hmfa) continue;
+      tractToHmfa[tract] = hmfa;
+      mapped++;
+    }
+    console.log(`  ${mapped} of ${tractTowns.size} tracts mapped`);
+  }
+
+  const countyPath = join(dataDir, "county-to-hmfa.json");
+  writeFileSync(countyPath, JSON.stringify(countyToHmfa));
+  console.log(`Saved ${countyPath}`);
+
+  const tractPath = join(dataDir, "tract-to-hmfa.json");
+  writeFileSync(tractPath, JSON.stringify(tractToHmfa));
+  console.log(`Saved ${tractPath}`);
+}
+
+main().catch((err) => {
+  console.error("Build failed:", err);
+  process.exit(1);
+});
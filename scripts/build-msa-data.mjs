@@ -1,17 +1,25 @@
 /**
  * Build script: precompute income distribution data for all US Census tracts,
- * grouped by MSA (CBSA). Output is used at runtime to compute percentile
- * rankings for the affordability tool.
+ * grouped by peer group: each CBSA (metropolitan or micropolitan), plus one
+ * "rest of state" group per state for tracts outside every CBSA. Output is
+ * used at runtime to compute percentile rankings for the affordability tool.
  *
  * Usage: CENSUS_API_KEY=... node scripts/build-msa-data.mjs
  *
  * Data sources:
  * - Census ACS 5-Year B19001 (household income brackets) for all tracts
+ * - Census ACS 5-Year B25118 (tenure by household income) for all tracts
  * - OMB CBSA delineation file (county → MSA mapping)
  *
  * Output:
- * - data/county-to-cbsa.json  — county FIPS → {code, name}
- * - data/msa/{cbsaCode}.json  — array of [fips, total, ...16 bracket counts]
+ * - data/county-to-cbsa.json         — county FIPS → {code, name, type}, type
+ *   "metro" or "micro"
+ * - data/msa/{groupCode}.json        — array of [fips, total, ...16 bracket counts]
+ * - data/msa-tenure/{groupCode}.json — array of [fips, ownerTotal, ...11 owner
+ *   bracket counts, renterTotal, ...11 renter bracket counts]
+ *
+ * groupCode is the CBSA code, or 999 + state FIPS for the rest of a state
+ * (see lib/peer-group.ts).
  */
 
 import * as XLSX from "xlsx";
@@ -41,8 +49,20 @@ const B19001_VARS = [
   "B19001_014E","B19001_015E","B19001_016E","B19001_017E",
 ];
 
+// B25118_002E = owner total, 003E–013E owner brackets;
+// B25118_014E = renter total, 015E–025E renter brackets
+const B25118_VARS = Array.from(
+  { length: 24 },
+  (_, i) => `B25118_${String(i + 2).padStart(3, "0")}E`
+);
+
 const MIN_HOUSEHOLDS = 50;
 
+// Peer group for a county: its CBSA, or the rest of its state
+function peerGroupCode(countyToCbsa, st, co) {
+  return countyToCbsa[`${st}${co}`]?.code ?? `999${st}`;
+}
+
 async function fetchWithRetry(url, retries = 3) {
   for (let i = 0; i < retries; i++) {
     try {
@@ -88,6 +108,7 @@ async function buildCountyToCbsa() {
   const cbsaTitleIdx = headers.findIndex((h) => h.includes("CBSA Title"));
   const stateIdx = headers.findIndex((h) => h.includes("FIPS State Code"));
   const countyIdx = headers.findIndex((h) => h.includes("FIPS County Code"));
+  const typeIdx = headers.findIndex((h) => h.includes("Metropolitan/Micropolitan"));
 
   const mapping = {};
   for (let i = headerIdx + 1; i < rows.length; i++) {
@@ -97,8 +118,9 @@ async function buildCountyToCbsa() {
     const cbsaTitle = String(row[cbsaTitleIdx] || "").trim();
     const st = String(row[stateIdx] || "").padStart(2, "0");
     const co = String(row[countyIdx] || "").padStart(3, "0");
+    const type = String(row[typeIdx] || "").startsWith("Micropolitan") ? "micro" : "metro";
     if (cbsaCode && st !== "00" && co !== "000") {
-      mapping[`${st}${co}`] = { code: cbsaCode, name: cbsaTitle };
+      mapping[`${st}${co}`] = { code: cbsaCode, name: cbsaTitle, type };
     }
   }
 
@@ -108,7 +130,7 @@ async function buildCountyToCbsa() {
 
 // ── Step 2: Download B19001 for all tracts, state by state ────────────────
 async function fetchAllTracts(countyToCbsa) {
-  const msaTracts = {}; // cbsaCode → [[fips, total, ...brackets], ...]
+  const msaTracts = {}; // groupCode → [[fips, total, ...brackets], ...]
 
   for (const state of STATE_FIPS) {
     process.stdout.write(`  State ${state}...`);
@@ -146,9 +168,7 @@ async function fetchAllTracts(countyToCbsa) {
       const st = row[17];
       const co = row[18];
       const tr = row[19];
-      const countyKey = `${st}${co}`;
-      const cbsa = countyToCbsa[countyKey];
-      if (!cbsa) continue; // not in any MSA
+      const group = peerGroupCode(countyToCbsa, st, co);
 
       const fips = `${st}${co}${tr}`;
       const brackets = [];
@@ -156,8 +176,8 @@ async function fetchAllTracts(countyToCbsa) {
         brackets.push(parseInt(row[j], 10) || 0);
       }
 
-      if (!msaTracts[cbsa.code]) msaTracts[cbsa.code] = [];
-      msaTracts[cbsa.code].push([fips, total, ...brackets]);
+      if (!msaTracts[group]) msaTracts[group] = [];
+      msaTracts[group].push([fips, total, ...brackets]);
       added++;
     }
 
@@ -170,12 +190,74 @@ async function fetchAllTracts(countyToCbsa) {
   return msaTracts;
 }
 
+// ── Step 3: Download B25118 for all tracts, state by state ────────────────
+async function fetchAllTenureTracts(countyToCbsa, msaTracts) {
+  // Only keep tracts that made it into the all-household files
+  const included = new Set();
+  for (const tracts of Object.values(msaTracts)) {
+    for (const tract of tracts) included.add(tract[0]);
+  }
+
+  const tenureTracts = {}; // groupCode → [[fips, ownerTotal, ...11, renterTotal, ...11], ...]
+
+  for (const state of STATE_FIPS) {
+    process.stdout.write(`  State ${state}...`);
+
+    const url =
+      `https://api.census.gov/data/2023/acs/acs5` +
+      `?get=${B25118_VARS.join(",")}` +
+      `&for=tract:*&in=state:${state}` +
+      `&key=${CENSUS_API_KEY}`;
+
+    let res = await fetchWithRetry(url);
+    if (!res) {
+      res = await fetchWithRetry(url.replace("/2023/", "/2022/"));
+      if (!res) {
+        console.log(" skipped (no data)");
+        continue;
+      }
+    }
+
+    const data = await res.json();
+    if (!data || data.length < 2) {
+      console.log(" skipped (empty)");
+      continue;
+    }
+
+    let added = 0;
+    for (let i = 1; i < data.length; i++) {
+      const row = data[i];
+      // Last 3 columns: state, county, tract
+      const st = row[24];
+      const co = row[25];
+      const tr = row[26];
+      const fips = `${st}${co}${tr}`;
+      if (!included.has(fips)) continue;
+
+      const group = peerGroupCode(countyToCbsa, st, co);
+      const counts = row.slice(0, 24).map((v) => parseInt(v, 10) || 0);
+
+      if (!tenureTracts[group]) tenureTracts[group] = [];
+      tenureTracts[group].push([fips, ...counts]);
+      added++;
+    }
+
+    console.log(` ${added} tracts`);
+
+    await new Promise((r) => setTimeout(r, 300));
+  }
+
+  return tenureTracts;
+}
+
 // ── Main ──────────────────────────────────────────────────────────────────
 async function main() {
   const dataDir = join(process.cwd(), "data");
   const msaDir = join(dataDir, "msa");
+  const tenureDir = join(dataDir, "msa-tenure");
   if (!existsSync(dataDir)) mkdirSync(dataDir);
   if (!existsSync(msaDir)) mkdirSync(msaDir, { recursive: true });
+  if (!existsSync(tenureDir)) mkdirSync(tenureDir, { recursive: true });
 
   // Step 1
   const countyToCbsa = await buildCountyToCbsa();
@@ -189,17 +271,24 @@ async function main() {
   console.log("Fetching tract-level B19001 data...");
   const msaTracts = await fetchAllTracts(countyToCbsa);
 
-  // Step 3: Write MSA files
+  // Step 3
+  console.log("\nFetching tract-level B25118 data...");
+  const tenureTracts = await fetchAllTenureTracts(countyToCbsa, msaTracts);
+
+  // Step 4: Write peer group files
   let totalTracts = 0;
   let msaCount = 0;
-  for (const [cbsaCode, tracts] of Object.entries(msaTracts)) {
-    writeFileSync(join(msaDir, `${cbsaCode}.json`), JSON.stringify(tracts));
+  for (const [groupCode, tracts] of Object.entries(msaTracts)) {
+    writeFileSync(join(msaDir, `${groupCode}.json`), JSON.stringify(tracts));
     totalTracts += tracts.length;
     msaCount++;
   }
+  for (const [groupCode, tracts] of Object.entries(tenureTracts)) {
+    writeFileSync(join(tenureDir, `${groupCode}.json`), JSON.stringify(tracts));
+  }
 
   console.log(
-    `\nDone! Wrote ${msaCount} MSA files with ${totalTracts} total tracts.`
+    `\nDone! Wrote ${msaCount} peer group files with ${totalTracts} total tracts.`
   );
   console.log(`Data directory: ${dataDir}`);
 }
@@ -1,6 +1,7 @@
 /**
  * Build script: download Census 2020 tract boundary shapefiles and build
- * simplified TopoJSON files, one per MSA (CBSA).
+ * simplified TopoJSON files, one per peer group: each CBSA (metro or micro)
+ * and each state's tracts outside every CBSA.
  *
  * Usage: node scripts/build-msa-geo.mjs
  *
@@ -9,7 +10,10 @@
  *   https://www2.census.gov/geo/tiger/GENZ2020/shp/cb_2020_us_tract_500k.zip
  *
  * Output:
- * - data/msa-geo/{cbsaCode}.json — TopoJSON topology per MSA
+ * - data/msa-geo/{groupCode}.json — TopoJSON topology per peer group, where
+ *   groupCode is the CBSA code or 999 + state FIPS (see lib/peer-group.ts)
+ * - data/msa-bbox.json — { groupCode: [minLng, minLat, maxLng, maxLat] }, so
+ *   point lookups know which files to open
  *
  * Dependencies (devDependencies): shapefile, topojson-server, adm-zip
  */
@@ -104,9 +108,9 @@ async function main() {
   const shpPath = join(extractDir, "cb_2020_us_tract_500k.shp");
   const dbfPath = join(extractDir, "cb_2020_us_tract_500k.dbf");
 
-  // Step 3: Read shapefile and group features by CBSA
-  console.log("Reading shapefile and grouping by MSA...");
-  const msaFeatures = new Map(); // cbsaCode -> GeoJSON feature[]
+  // Step 3: Read shapefile and group features by peer group
+  console.log("Reading shapefile and grouping by peer group...");
+  const msaFeatures = new Map(); // groupCode -> GeoJSON feature[]
 
   const source = await shapefile.open(shpPath, dbfPath);
   let count = 0;
@@ -119,18 +123,16 @@ async function main() {
     const geoid = feature.properties.GEOID; // e.g. "36061000100"
     if (!geoid || geoid.length < 5) continue;
 
-    // Extract 5-digit county FIPS (state 2 + county 3)
+    // Extract 5-digit county FIPS (state 2 + county 3); tracts outside every
+    // CBSA go to their state's rest-of-state group
     const countyFips = geoid.substring(0, 5);
-    const cbsa = countyToCbsa[countyFips];
-    if (!cbsa) continue; // Not in an MSA (rural)
-
-    const cbsaCode = cbsa.code;
-    if (!msaFeatures.has(cbsaCode)) {
-      msaFeatures.set(cbsaCode, []);
+    const groupCode = countyToCbsa[countyFips]?.code ?? `999${geoid.substring(0, 2)}`;
+    if (!msaFeatures.has(groupCode)) {
+      msaFeatures.set(groupCode, []);
     }
 
     // Keep only GEOID property to minimize output size
-    msaFeatures.get(cbsaCode).push({
+    msaFeatures.get(groupCode).push({
       type: "Feature",
       properties: { GEOID: geoid },
       geometry: feature.geometry,
@@ -142,7 +144,7 @@ async function main() {
   }
 
   console.log(`Total tracts processed: ${count}`);
-  console.log(`MSAs found: ${msaFeatures.size}`);
+  console.log(`Peer groups found: ${msaFeatures.size}`);
 
   // Step 4: Replace NYC tract geometries with DCP shoreline-clipped versions
   const nycDcpTracts = await loadNycDcpTracts();
@@ -172,7 +174,8 @@ async function main() {
   mkdirSync(OUT_DIR, { recursive: true });
 
   let saved = 0;
-  for (const [cbsaCode, features] of msaFeatures) {
+  const bboxes = {};
+  for (const [groupCode, features] of msaFeatures) {
     const fc = {
       type: "FeatureCollection",
       features,
@@ -180,13 +183,22 @@ async function main() {
 
     const topo = topojson.topology({ tracts: fc }, 1e5);
 
-    writeFileSync(join(OUT_DIR, `${cbsaCode}.json`), JSON.stringify(topo));
+    writeFileSync(join(OUT_DIR, `${groupCode}.json`), JSON.stringify(topo));
+    // Rounded outward so edge points still fall inside
+    const [minX, minY, maxX, maxY] = topo.bbox;
+    bboxes[groupCode] = [
+      Math.floor(minX * 1e6) / 1e6,
+      Math.floor(minY * 1e6) / 1e6,
+      Math.ceil(maxX * 1e6) / 1e6,
+      Math.ceil(maxY * 1e6) / 1e6,
+    ];
     saved++;
     if (saved % 100 === 0) {
-      console.log(`  Saved ${saved}/${msaFeatures.size} MSA files...`);
+      console.log(`  Saved ${saved}/${msaFeatures.size} peer group files...`);
     }
   }
 
+  writeFileSync(join(DATA_DIR, "msa-bbox.json"), JSON.stringify(bboxes));
   console.log(`Done! Saved ${saved} TopoJSON files to ${OUT_DIR}`);
 }
 
@@ -0,0 +1,86 @@
+/**
+ * Build script: create a 2020 → 2010 Census tract crosswalk so that ACS
+ * vintages published on 2010 tracts can be apportioned onto today's tracts.
+ *
+ * Downloads the Census 2020-to-2010 tract relationship file. Each 2010
+ * tract's counts are split across the 2020 tracts it overlaps by share of
+ * land area. Tracts that are unchanged (same GEOID, one-to-one) are left out.
+ *
+ * Usage: node scripts/build-tract-crosswalk.mjs
+ *
+ * Output: data/tract-crosswalk-2010.json —
+ *   { tract2020Fips: [[tract2010Fips, weight], ...], ... }
+ */
+
+import { writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+
+const RELATIONSHIP_URL =
+  "https://www2.census.gov/geo/docs/maps-data/data/rel2020/tract/tab20_tract20_tract10_natl.txt";
+
+// Overlaps below this share of a 2010 tract are slivers from boundary cleanup
+const MIN_WEIGHT = 0.01;
+
+async function main() {
+  const dataDir = join(process.cwd(), "data");
+  if (!existsSync(dataDir)) mkdirSync(dataDir);
+
+  console.log("Downloading Census 2020-to-2010 tract relationship file...");
+  const res = await fetch(RELATIONSHIP_URL);
+  if (!res.ok) throw new Error(`Download failed: ${res.status}`);
+  const text = await res.text();
+
+  const lines = text.split("\n");
+  console.log(`  ${lines.length} lines`);
+
+  // Header: OID_TRACT_20|GEOID_TRACT_20|...|GEOID_TRACT_10|...|AREALAND_PART|...
+  // Col 1 (index 1) = GEOID_TRACT_20
+  // Col 8 (index 8) = GEOID_TRACT_10
+  // Col 10 (index 10) = AREALAND_TRACT_10 (land area of the 2010 tract)
+  // Col 14 (index 14) = AREALAND_PART (land area of the overlap)
+  const parts = new Map(); // tract2020 -> [[tract2010, weight], ...]
+
+  let parsed = 0;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const cols = line.split("|");
+    const tract20 = cols[1]?.trim();
+    const tract10 = cols[8]?.trim();
+    if (!tract20 || !tract10 || tract20.length !== 11 || tract10.length !== 11) continue;
+
+    const area10 = parseInt(cols[10], 10) || 0;
+    const areaPart = parseInt(cols[14], 10) || 0;
+    // Water-only 2010 tracts have no land to apportion by; keep them whole
+    const weight = area10 > 0 ? areaPart / area10 : 1;
+    if (weight < MIN_WEIGHT) continue;
+    parsed++;
+
+    if (!parts.has(tract20)) parts.set(tract20, []);
+    parts.get(tract20).push([tract10, Math.round(weight * 10000) / 10000]);
+  }
+
+  console.log(`  Parsed ${parsed} tract overlaps`);
+
+  const mapping = {};
+  let unchanged = 0;
+  for (const [tract20, list] of parts) {
+    if (list.length === 1 && list[0][0] === tract20 && list[0][1] >= 1 - MIN_WEIGHT) {
+      unchanged++;
+      continue;
+    }
+    mapping[tract20] = list;
+  }
+
+  console.log(`  ${unchanged} unchanged tracts, ${Object.keys(mapping).length} changed`);
+
+  const outPath = join(dataDir, "tract-crosswalk-2010.json");
+  writeFileSync(outPath, JSON.stringify(mapping));
+  console.log(`Saved ${outPath} (${(JSON.stringify(mapping).length / 1024 / 1024).toFixed(1)} MB)`);
+}
+
+main().catch((err) => {
+  console.error("Build failed:", err);
+  process.exit(1);
+});
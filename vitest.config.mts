@@ -0,0 +1,13 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    // Tests never reach Census, HUD or Nominatim; lookups replay ./fixtures
+    env: { DATA_PROVIDER: "fixture" },
+  },
+});